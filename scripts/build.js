@@ -30,4 +30,7 @@ await fs.chmod('dist/bundle.js', 0o755);
 // Copy public directory for dashboard
 await fs.copy('src/public', 'dist/public', { overwrite: true });
 
+// Copy SQL migrations for the migration runner
+await fs.copy('src/migrations', 'dist/migrations', { overwrite: true, filter: (src) => !src.endsWith('.ts') });
+
 console.log('✓ Build complete');
@@ -2,22 +2,34 @@
  * AIConductor - Core business logic for task review operations
  */
 import {
+  AgentIdentity,
+  AgentSettings,
+  CreateAgentIdentityInput,
+  CreateAgentIdentityResult,
   ReviewInput,
   ReviewResult,
   TaskStatusResult,
   ReviewSummary,
   ValidationResult,
   Transition,
+  TransitionGuard,
   TaskStatus,
   StakeholderRole,
   PipelineRole,
   Task,
+  SkippedStage,
+  ReviewDecision,
+  ReviewFieldError,
+  RepoReviewSettings,
+  ParkedStatus,
   TransitionTaskInput,
   TransitionTaskResult,
   GetNextTaskInput,
   GetNextTaskResult,
   GetNextStepInput,
   GetNextStepResult,
+  GetRolePromptInput,
+  GetRolePromptResult,
   UpdateAcceptanceCriteriaInput,
   UpdateAcceptanceCriteriaResult,
   GetTasksByStatusInput,
@@ -58,8 +70,10 @@ import {
   GetWorkflowSnapshotResult,
   BatchTransitionTasksInput,
   BatchTransitionTasksResult,
+  BatchTransitionResult,
   BatchUpdateAcceptanceCriteriaInput,
   BatchUpdateAcceptanceCriteriaResult,
+  BatchCriteriaUpdateResult,
   SaveWorkflowCheckpointInput,
   SaveWorkflowCheckpointResult,
   ListWorkflowCheckpointsInput,
@@ -76,22 +90,166 @@ import {
   ValidateReviewCompletenessResult,
   GetSimilarTasksInput,
   GetSimilarTasksResult,
+  SearchInput,
+  SearchResult,
+  AuditLogQuery,
+  AuditLogResult,
+  BackupInfo,
+  BackupReason,
+  BackupSettings,
+  CreateBackupResult,
+  TrashSettings,
+  ListTrashResult,
+  RestoreFromTrashResult,
+  ExportRepoResult,
+  ImportRepoInput,
+  ImportRepoResult,
+  RepoBundle,
+  GetWorkflowDefinitionResult,
+  SetWorkflowDefinitionInput,
+  SetWorkflowDefinitionResult,
   WorkflowAlert,
   SimilarTask,
+  StakeholderReviewEntry,
+  ReviewCondition,
+  UpdateReviewConditionInput,
+  UpdateReviewConditionResult,
+  IntegrityCheckResult,
 } from './types.js';
 import { DatabaseHandler } from './DatabaseHandler.js';
 import { WorkflowValidator } from './WorkflowValidator.js';
-import { RolePromptConfig } from './rolePrompts.js';
+import { stageReviewers, isParkedStatus, parseReviewKey } from './workflowDefinitions.js';
+import { computeReviewedContentHash } from './reviewedContent.js';
+import { DEFAULT_TRANSITION_GUARDS } from './transitionGuards.js';
+import { checkExpectedVersion, versionConflictOf } from './versionConflict.js';
+import { currentAgent, generateAgentToken, hashAgentToken } from './agentIdentity.js';
+import { upgradeRepoBundle, validateRepoBundle } from './repoBundle.js';
+import { RolePromptConfig, PipelineRoleRecord, RegisterPipelineRoleInput, isBuiltInRole } from './rolePrompts.js';
 
 export class AIConductor {
   private dbHandler: DatabaseHandler;
   private validator: WorkflowValidator;
+  private guards: TransitionGuard[] = [...DEFAULT_TRANSITION_GUARDS];
 
   constructor(workspaceRoot?: string, dbPath?: string) {
     this.dbHandler = new DatabaseHandler(workspaceRoot, dbPath);
     this.validator = new WorkflowValidator();
   }
 
+  /**
+   * Build a validator for the repo's active workflow definition, checking the registered guards
+   */
+  private getValidator(repoName: string): WorkflowValidator {
+    return new WorkflowValidator(this.dbHandler.getWorkflowDefinition(repoName).stages, this.guards);
+  }
+
+  /**
+   * Add a transition guard to every development transition, replacing any
+   * registered guard with the same name
+   */
+  registerTransitionGuard(guard: TransitionGuard): void {
+    this.guards = [...this.guards.filter((g) => g.name !== guard.name), guard];
+  }
+
+  /**
+   * Get the transition guards checked by transitionTaskStatus and batchTransitionTasks
+   */
+  getTransitionGuards(): TransitionGuard[] {
+    return this.guards;
+  }
+
+  /**
+   * Move a task to `target`, passing through stages whose conditions exclude it.
+   * Each skipped stage is appended as a system transition carrying the reason.
+   */
+  private routeTask(
+    task: Task,
+    target: TaskStatus,
+    validator: WorkflowValidator
+  ): { status: TaskStatus; skipped: SkippedStage[] } {
+    const { status, skipped } = validator.resolveNextStatus(target, task);
+    skipped.forEach((skip, index) => {
+      task.transitions.push({
+        from: skip.status,
+        to: index + 1 < skipped.length ? skipped[index + 1].status : status,
+        actor: 'system',
+        timestamp: new Date().toISOString(),
+        notes: skip.reason,
+      });
+    });
+    task.status = status;
+    return { status, skipped };
+  }
+
+  /**
+   * Record why a task was parked, or clear the record when it resumes.
+   * Moving between parked statuses keeps the status the task resumes at.
+   */
+  private updateParkedState(
+    task: Task,
+    fromStatus: TaskStatus,
+    details: { reason?: string; blockedByTaskId?: string }
+  ): void {
+    if (!isParkedStatus(task.status)) {
+      task.parked = undefined;
+      return;
+    }
+    task.parked = {
+      reason: (details.reason ?? '').trim(),
+      blockedByTaskId: details.blockedByTaskId,
+      fromStatus: isParkedStatus(fromStatus) && task.parked ? task.parked.fromStatus : fromStatus,
+      since: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Reviews (by review key) whose approval was superseded by an edit and not given again
+   */
+  private getSupersededApprovals(task: Task): StakeholderRole[] | undefined {
+    const roles = Object.entries(task.stakeholderReview)
+      .filter(([, review]) => review?.approved && review.supersededAt)
+      .map(([role]) => role);
+    return roles.length > 0 ? roles : undefined;
+  }
+
+  /**
+   * Mark approvals given to different task content as superseded. Under the repo's
+   * sendBack policy a task that has moved past the earliest affected stage (but not
+   * into development) returns to it via a system transition.
+   * Reviews recorded before content hashes existed are left alone.
+   */
+  private supersedeStaleApprovals(task: Task, validator: WorkflowValidator, repoName: string): StakeholderRole[] {
+    const hash = computeReviewedContentHash(task);
+    const timestamp = new Date().toISOString();
+    const superseded: StakeholderRole[] = [];
+    for (const [key, review] of Object.entries(task.stakeholderReview)) {
+      if (review?.approved && !review.supersededAt && review.contentHash && review.contentHash !== hash) {
+        review.supersededAt = timestamp;
+        superseded.push(key);
+      }
+    }
+    if (superseded.length === 0) return superseded;
+
+    const { staleApprovalPolicy } = this.dbHandler.getReviewSettings(repoName);
+    const stages = validator.getStages();
+    const earliest = stages.findIndex((stage) =>
+      stageReviewers(stage).some((r) => superseded.includes(validator.getReviewKey(stage, r)))
+    );
+    const current = stages.findIndex((stage) => stage.status === task.status);
+    const pastEarliest = current > earliest || task.status === 'ReadyForDevelopment' || task.status === 'ToDo';
+    if (staleApprovalPolicy === 'sendBack' && earliest !== -1 && pastEarliest) {
+      task.transitions.push({
+        from: task.status,
+        to: stages[earliest].status,
+        actor: 'system',
+        timestamp,
+        notes: `Reviewed content changed; approvals superseded: ${superseded.join(', ')}`,
+      });
+      this.routeTask(task, stages[earliest].status, validator);
+    }
+    return superseded;
+  }
+
   /**
    * Add a stakeholder review to a task
    */
@@ -111,6 +269,8 @@ export class AIConductor {
       if (!task) {
         throw new Error(`Task not found: ${input.taskId}`);
       }
+      checkExpectedVersion(task, input.expectedVersion);
+      this.checkAgentRole(task, input.stakeholder, input.repoName);
 
       // 4. Validate task structure
       const structureValidation = this.validator.validateTaskStructure(task);
@@ -120,8 +280,9 @@ export class AIConductor {
         );
       }
 
-      // 5. Validate workflow state
-      const validation = this.validator.validate(
+      // 5. Validate workflow state against the repo's pipeline
+      const validator = this.getValidator(input.repoName);
+      const validation = validator.validate(
         task.status,
         input.stakeholder,
         input.decision
@@ -130,75 +291,158 @@ export class AIConductor {
       if (!validation.valid) {
         throw new Error(`Workflow validation failed: ${validation.errors.join(', ')}`);
       }
+      if (input.returnTo) {
+        const returnErrors = validator.validateReturnTarget(task.status, input.returnTo, input.decision);
+        if (returnErrors.length > 0) {
+          throw new Error(`Workflow validation failed: ${returnErrors.join(', ')}`);
+        }
+      }
+      const conditions = (input.conditions || []).map((c) => c.trim()).filter((c) => c !== '');
+      if (input.decision === 'approveWithConditions' && conditions.length === 0) {
+        throw new Error('approveWithConditions requires at least one condition');
+      }
+      if (input.decision !== 'approveWithConditions' && conditions.length > 0) {
+        throw new Error('conditions can only be given with an approveWithConditions decision');
+      }
 
-      // 6. Calculate new status
+      // 6. Check the review supplies the role's required output fields
+      const fieldErrors = this.checkReviewFields(input.stakeholder, input.decision, {
+        ...input.additionalFields,
+        notes: input.notes,
+      });
+      const { completenessMode } = this.dbHandler.getReviewSettings(input.repoName);
+      if (fieldErrors.length > 0 && completenessMode === 'strict') {
+        return {
+          success: false,
+          taskId: input.taskId,
+          previousStatus: task.status,
+          newStatus: task.status,
+          transition: {
+            from: task.status,
+            to: task.status,
+            approver: input.stakeholder,
+            timestamp: new Date().toISOString(),
+            notes: '',
+          },
+          fieldErrors,
+          error: `Review is incomplete: ${fieldErrors.map((e) => e.message).join('; ')}`,
+        };
+      }
+      if (fieldErrors.length > 0) {
+        validation.warnings.push(`incomplete review (${fieldErrors.map((e) => e.field).join(', ')})`);
+      }
+
+      // 7. Calculate new status
       const previousStatus = task.status;
-      const newStatus =
-        input.decision === 'approve'
-          ? this.getApprovalStatus(task.status)
-          : 'NeedsRefinement';
+      const stage = validator.getStage(task.status)!;
+      const timestamp = new Date().toISOString();
 
-      // 7. Build transition record
-      const transition: Transition = {
-        from: previousStatus,
-        to: newStatus as TaskStatus,
-        approver: input.stakeholder,
-        timestamp: new Date().toISOString(),
-        notes: input.notes,
-      };
+      // Parallel stages take one vote per reviewer per round
+      const parallelBefore = validator.getParallelReviewState(task);
+      if (parallelBefore && !parallelBefore.pending.includes(input.stakeholder)) {
+        throw new Error(`${input.stakeholder} has already voted on ${previousStatus} in this review round`);
+      }
 
       // 8. Update stakeholder review section
       const reviewData = {
-        approved: input.decision === 'approve',
+        approved: input.decision !== 'reject',
         notes: input.notes,
+        contentHash: computeReviewedContentHash(task),
+        agent: currentAgent()?.name,
+        ...(parallelBefore ? { stage: stage.status, reviewedAt: timestamp } : {}),
       };
 
-      // Add role-specific fields
+      // Add role-specific fields. Output fields a role's prompt adds beyond the
+      // built-in ones are kept too, so the stored review passes the same check
+      const fields = input.additionalFields;
+      let roleFields: Record<string, unknown> = {};
       if (input.stakeholder === 'productDirector') {
-        task.stakeholderReview.productDirector = {
-          ...reviewData,
-          marketAnalysis: input.additionalFields?.marketAnalysis,
-          competitorAnalysis: input.additionalFields?.competitorAnalysis,
-        };
+        roleFields = { marketAnalysis: fields?.marketAnalysis, competitorAnalysis: fields?.competitorAnalysis };
       } else if (input.stakeholder === 'architect') {
-        task.stakeholderReview.architect = {
-          ...reviewData,
-          technologyRecommendations: input.additionalFields?.technologyRecommendations,
-          designPatterns: input.additionalFields?.designPatterns,
-        };
+        roleFields = { technologyRecommendations: fields?.technologyRecommendations, designPatterns: fields?.designPatterns };
       } else if (input.stakeholder === 'uiUxExpert') {
-        task.stakeholderReview.uiUxExpert = {
-          ...reviewData,
-          usabilityFindings: input.additionalFields?.usabilityFindings,
-          accessibilityRequirements: input.additionalFields?.accessibilityRequirements,
-          userBehaviorInsights: input.additionalFields?.userBehaviorInsights,
+        roleFields = {
+          usabilityFindings: fields?.usabilityFindings,
+          accessibilityRequirements: fields?.accessibilityRequirements,
+          userBehaviorInsights: fields?.userBehaviorInsights,
         };
       } else if (input.stakeholder === 'securityOfficer') {
-        task.stakeholderReview.securityOfficer = {
-          ...reviewData,
-          securityRequirements: input.additionalFields?.securityRequirements,
-          complianceNotes: input.additionalFields?.complianceNotes,
+        roleFields = { securityRequirements: fields?.securityRequirements, complianceNotes: fields?.complianceNotes };
+      }
+      // Stored per stage: a role's second pass must not overwrite its first
+      task.stakeholderReview[validator.getReviewKey(stage, input.stakeholder)] = { ...fields, ...reviewData, ...roleFields };
+
+      // Conditions become tracked items; a later approval replaces the reviewer's open ones
+      const raised =
+        input.decision === 'reject' ? [] : this.raiseReviewConditions(task, input.stakeholder, conditions, timestamp);
+
+      // 9. Decide the stage: a single reviewer decides directly, parallel votes go through the quorum
+      const parallelReview = parallelBefore ? validator.getParallelReviewState(task)! : undefined;
+      const outcome = parallelReview ? validator.evaluateQuorum(parallelReview) : input.decision;
+      if (!outcome) {
+        await this.dbHandler.saveTasks(input.featureSlug, [task], input.repoName);
+        return {
+          success: true,
+          taskId: input.taskId,
+          previousStatus,
+          newStatus: previousStatus,
+          parallelReview,
+          fieldErrors: fieldErrors.length > 0 ? fieldErrors : undefined,
+          conditions: raised.length > 0 ? raised : undefined,
+          message: `Vote recorded. Waiting for: ${parallelReview!.pending.join(', ')}`,
         };
-      } else {
-        (task.stakeholderReview as any)[input.stakeholder] = reviewData;
+      }
+      const target = outcome === 'reject' ? stage.onReject : stage.onApprove;
+
+      // 10. Build transition record
+      const transition: Transition = {
+        from: previousStatus,
+        to: target,
+        approver: input.stakeholder,
+        agent: currentAgent()?.name,
+        timestamp,
+        notes: parallelReview
+          ? `${input.notes} [quorum ${outcome}: approved by ${parallelReview.approved.join(', ') || 'none'}; rejected by ${parallelReview.rejected.join(', ') || 'none'}]`
+          : input.notes,
+      };
+
+      // A targeted rejection resumes at the named stage, whose reviewers must approve again;
+      // stages after it keep their approvals and are passed through on the way back
+      const returnTo = outcome === 'reject' ? input.returnTo : undefined;
+      if (returnTo) {
+        transition.returnTo = returnTo;
+        const returnStage = validator.getStage(returnTo)!;
+        for (const reviewer of stageReviewers(returnStage)) {
+          const review = validator.getStageReview(task, returnStage, reviewer);
+          if (review?.approved && !review.supersededAt) {
+            review.supersededAt = timestamp;
+          }
+        }
       }
 
-      // 9. Update task object
-      task.status = newStatus as TaskStatus;
+      // 11. Update task object, passing through stages that do not apply to the task
       task.transitions.push(transition);
+      const { status: newStatus, skipped } = this.routeTask(task, target, validator);
 
-      // 10. Save atomically
-      await this.dbHandler.saveByFeatureSlug(input.featureSlug, taskFile, input.repoName);
+      // 12. Save atomically
+      await this.dbHandler.saveTasks(input.featureSlug, [task], input.repoName);
 
       return {
         success: true,
         taskId: input.taskId,
         previousStatus,
-        newStatus: newStatus as TaskStatus,
+        newStatus,
         transition,
-        message: validation.warnings.length > 0
-          ? `Review recorded with warnings: ${validation.warnings.join(', ')}`
-          : 'Review recorded successfully',
+        skippedStages: skipped.length > 0 ? skipped : undefined,
+        parallelReview,
+        fieldErrors: fieldErrors.length > 0 ? fieldErrors : undefined,
+        conditions: raised.length > 0 ? raised : undefined,
+        message:
+          (validation.warnings.length > 0
+            ? `Review recorded with warnings: ${validation.warnings.join(', ')}`
+            : 'Review recorded successfully') +
+          (returnTo ? `. Once refined, the task returns to ${returnTo}` : '') +
+          (raised.length > 0 ? `. Conditions to satisfy before Done: ${raised.map((c) => c.id).join(', ')}` : ''),
       };
     } catch (error) {
       return {
@@ -213,11 +457,82 @@ export class AIConductor {
           timestamp: new Date().toISOString(),
           notes: '',
         },
+        versionConflict: versionConflictOf(error),
         error: error instanceof Error ? error.message : String(error),
       };
     }
   }
 
+  /**
+   * Refuse to let the session's agent act as role on task when role is not one
+   * of the agent's roles, or when the agent already acted on the task in a
+   * role the repo's separatedRoles keeps apart from this one. Callers without
+   * an agent identity are not checked.
+   */
+  private checkAgentRole(task: Task, role: string, repoName: string): void {
+    const agent = currentAgent();
+    if (!agent) return;
+    if (!agent.roles.includes(role)) {
+      throw new Error(`Agent ${agent.name} may not act as ${role}; its roles are: ${agent.roles.join(', ') || 'none'}`);
+    }
+
+    // Roles the agent has acted in on this task: its transitions, and reviews whose vote did not move the task
+    const actedAs = new Set<string>();
+    for (const transition of task.transitions) {
+      const actedRole = transition.approver ?? transition.actor;
+      if (transition.agent === agent.name && actedRole) {
+        actedAs.add(actedRole);
+      }
+    }
+    for (const [key, review] of Object.entries(task.stakeholderReview)) {
+      if ((review as StakeholderReviewEntry | undefined)?.agent === agent.name) {
+        actedAs.add(parseReviewKey(key).role);
+      }
+    }
+
+    for (const group of this.dbHandler.getReviewSettings(repoName).separatedRoles) {
+      const conflict = group.includes(role) ? group.find((other) => other !== role && actedAs.has(other)) : undefined;
+      if (conflict) {
+        throw new Error(`Agent ${agent.name} already acted as ${conflict} on ${task.taskId} and may not also act as ${role}`);
+      }
+    }
+  }
+
+  /**
+   * Refuse an administrative change (pipelines, roles, checkpoint restores,
+   * agent identities) when the caller is an agent. Agents only act through their roles.
+   */
+  private refuseAgent(action: string): void {
+    const agent = currentAgent();
+    if (agent) {
+      throw new Error(`Agent ${agent.name} may not ${action}`);
+    }
+  }
+
+  /**
+   * Record the conditions of an approval on the task (none for a plain approve).
+   * Open conditions the stakeholder raised in an earlier review are replaced;
+   * satisfied ones stay on record.
+   */
+  private raiseReviewConditions(
+    task: Task,
+    stakeholder: StakeholderRole,
+    conditions: string[],
+    timestamp: string
+  ): ReviewCondition[] {
+    const existing = (task.reviewConditions || []).filter((c) => c.satisfied || c.raisedBy !== stakeholder);
+    let next = Math.max(0, ...(task.reviewConditions || []).map((c) => Number(c.id.replace('RC-', '')) || 0)) + 1;
+    const raised: ReviewCondition[] = conditions.map((condition) => ({
+      id: `RC-${next++}`,
+      condition,
+      raisedBy: stakeholder,
+      raisedAt: timestamp,
+      satisfied: false,
+    }));
+    task.reviewConditions = [...existing, ...raised];
+    return raised;
+  }
+
   /**
    * Get status of a specific task
    */
@@ -230,8 +545,9 @@ export class AIConductor {
         throw new Error(`Task not found: ${taskId}`);
       }
 
-      const progress = this.validator.getReviewProgress(task);
-      const allowedTransitions = this.validator.getAllowedTransitions(task.status);
+      const validator = this.getValidator(repoName);
+      const progress = validator.getReviewProgress(task);
+      const allowedTransitions = validator.getAllowedTransitions(task.status);
 
       return {
         taskId: task.taskId,
@@ -241,6 +557,9 @@ export class AIConductor {
         pendingReviews: progress.pending,
         canTransitionTo: allowedTransitions,
         orderOfExecution: task.orderOfExecution,
+        parallelReview: validator.getParallelReviewState(task) ?? undefined,
+        supersededApprovals: this.getSupersededApprovals(task),
+        version: task.version ?? 0,
       };
     } catch (error) {
       throw new Error(
@@ -256,35 +575,28 @@ export class AIConductor {
     try {
       const taskFile = await this.dbHandler.loadByFeatureSlug(featureSlug, repoName);
 
+      const validator = this.getValidator(repoName);
+
       // Count tasks by status
-      const tasksByStatus: Record<TaskStatus, number> = {
-        PendingProductDirector: 0,
-        PendingArchitect: 0,
-        PendingUiUxExpert: 0,
-        PendingSecurityOfficer: 0,
-        ReadyForDevelopment: 0,
-        NeedsRefinement: 0,
-        ToDo: 0,
-        InProgress: 0,
-        InReview: 0,
-        InQA: 0,
-        NeedsChanges: 0,
-        Done: 0,
-      };
-
-      // Track stakeholder progress
-      const stakeholderProgress = {
-        productDirector: { completed: 0, pending: 0 },
-        architect: { completed: 0, pending: 0 },
-        uiUxExpert: { completed: 0, pending: 0 },
-        securityOfficer: { completed: 0, pending: 0 },
-      };
+      const tasksByStatus = {} as Record<TaskStatus, number>;
+      for (const status of validator.getAllStatuses()) {
+        tasksByStatus[status] = 0;
+      }
+
+      // Track stakeholder progress for each stage of the pipeline
+      const stakeholderProgress: ReviewSummary['stakeholderProgress'] = {};
+      for (const stage of validator.getStages()) {
+        for (const reviewer of stageReviewers(stage)) {
+          stakeholderProgress[reviewer] = { completed: 0, pending: 0 };
+        }
+      }
+      const parallelReviews: ReviewSummary['parallelReviews'] = [];
 
       // Analyze each task
       const taskSummaries = taskFile.tasks.map((task) => {
-        tasksByStatus[task.status]++;
+        tasksByStatus[task.status] = (tasksByStatus[task.status] ?? 0) + 1;
 
-        const progress = this.validator.getReviewProgress(task);
+        const progress = validator.getReviewProgress(task);
 
         // Update stakeholder progress
         for (const stakeholder of progress.completed) {
@@ -294,6 +606,11 @@ export class AIConductor {
           stakeholderProgress[stakeholder].pending++;
         }
 
+        const parallel = validator.getParallelReviewState(task);
+        if (parallel) {
+          parallelReviews.push({ taskId: task.taskId, ...parallel });
+        }
+
         return {
           taskId: task.taskId,
           title: task.title,
@@ -315,6 +632,7 @@ export class AIConductor {
         tasksByStatus,
         completionPercentage: Math.round(completionPercentage * 100) / 100,
         stakeholderProgress,
+        parallelReviews,
         tasks: taskSummaries,
       };
     } catch (error) {
@@ -341,7 +659,7 @@ export class AIConductor {
         throw new Error(`Task not found: ${taskId}`);
       }
 
-      return this.validator.validate(task.status, stakeholder, 'approve');
+      return this.getValidator(repoName).validate(task.status, stakeholder, 'approve');
     } catch (error) {
       return {
         valid: false,
@@ -354,27 +672,6 @@ export class AIConductor {
     }
   }
 
-  /**
-   * Helper to get approval status for each stage
-   */
-  private getApprovalStatus(currentStatus: TaskStatus): TaskStatus {
-    const statusMap: Record<TaskStatus, TaskStatus> = {
-      PendingProductDirector: 'PendingArchitect',
-      PendingArchitect: 'PendingUiUxExpert',
-      PendingUiUxExpert: 'PendingSecurityOfficer',
-      PendingSecurityOfficer: 'ReadyForDevelopment',
-      ReadyForDevelopment: 'ReadyForDevelopment',
-      NeedsRefinement: 'NeedsRefinement',
-      ToDo: 'ToDo',
-      InProgress: 'InProgress',
-      InReview: 'InReview',
-      InQA: 'InQA',
-      NeedsChanges: 'NeedsChanges',
-      Done: 'Done',
-    };
-    return statusMap[currentStatus];
-  }
-
   /**
    * Get the next step in the pipeline for a task.
    * Returns the role, system prompt, allowed decisions, and context.
@@ -388,24 +685,66 @@ export class AIConductor {
       }
 
       const status = task.status;
-
-      // Map current status to the pipeline role that should act
-      const roleMapping: Record<TaskStatus, PipelineRole | null> = {
-        PendingProductDirector: 'productDirector',
-        PendingArchitect: 'architect',
-        PendingUiUxExpert: 'uiUxExpert',
-        PendingSecurityOfficer: 'securityOfficer',
+      const validator = this.getValidator(input.repoName);
+      const stages = validator.getStages();
+      // A task rejected with returnTo is resubmitted to that stage rather than the first one
+      const restartStatus = validator.getReturnTarget(task) ?? validator.getInitialStatus();
+
+      // Map current status to the pipeline role that should act: review stages come
+      // from the repo's workflow definition, execution statuses are fixed
+      const roleMapping: Partial<Record<TaskStatus, PipelineRole | null>> = {
         ReadyForDevelopment: 'developer',
         ToDo: 'developer',
         InProgress: 'developer',
         InReview: 'codeReviewer',
         InQA: 'qa',
         NeedsChanges: 'developer',
-        NeedsRefinement: 'productDirector',
+        NeedsRefinement: validator.getStage(restartStatus)?.stakeholder ?? stages[0].stakeholder,
         Done: null,
       };
+      for (const stage of stages) {
+        roleMapping[stage.status] = stage.stakeholder;
+      }
+
+      // A parked task is not complete: report why it waits and how it resumes
+      if (isParkedStatus(status)) {
+        const parked = task.parked;
+        const resumeStatus = status === 'Cancelled' ? undefined : parked?.fromStatus;
+        const resumableBy = resumeStatus ? validator.getDevAllowedActors(status) : [];
+        const nextRole = (parked && roleMapping[parked.fromStatus]) || 'developer';
+        const waitingOn = parked?.blockedByTaskId ? ` (waiting on ${parked.blockedByTaskId})` : '';
+        return {
+          success: true,
+          taskId: input.taskId,
+          currentStatus: status,
+          phase: this.dbHandler.getRolePrompt(nextRole).phase,
+          nextRole,
+          systemPrompt: '',
+          allowedDecisions: resumeStatus ? ['resume'] : [],
+          transitionOnSuccess: resumeStatus ?? status,
+          transitionOnFailure: status,
+          focusAreas: [],
+          researchInstructions: '',
+          requiredOutputFields: [],
+          previousRoleNotes: this.gatherPreviousNotes(task),
+          parked: parked && {
+            reason: parked.reason,
+            blockedByTaskId: parked.blockedByTaskId,
+            since: parked.since,
+            resumeStatus,
+            resumableBy,
+          },
+          message: resumeStatus
+            ? `Task is ${status}: ${parked?.reason}${waitingOn}. Resume it to ${resumeStatus} as ${resumableBy.join(' or ')}.`
+            : status === 'Cancelled'
+              ? `Task is Cancelled: ${parked?.reason ?? 'no reason recorded'}. Cancelled is final.`
+              : `Task is ${status} with no recorded status to resume at.`,
+        };
+      }
 
-      const nextRole = roleMapping[status];
+      // Parallel stages hand out the prompt of the next reviewer that has not voted yet
+      const parallel = validator.getParallelReviewState(task);
+      const nextRole = parallel ? parallel.pending[0] : roleMapping[status];
       if (!nextRole) {
         return {
           success: true,
@@ -430,7 +769,7 @@ export class AIConductor {
 
       // Determine transitions based on current status
       const { transitionOnSuccess, transitionOnFailure, allowedDecisions } =
-        this.getTransitionsForStatus(status);
+        this.getTransitionsForStatus(status, validator, restartStatus);
 
       // Gather previous role notes for context
       const previousRoleNotes = this.gatherPreviousNotes(task);
@@ -454,6 +793,7 @@ export class AIConductor {
         researchInstructions: roleConfig.researchInstructions,
         requiredOutputFields: roleConfig.requiredOutputFields,
         previousRoleNotes,
+        pendingParallelReviewers: parallel?.pending,
       };
     } catch (error) {
       return {
@@ -475,47 +815,79 @@ export class AIConductor {
     }
   }
 
+  /**
+   * A role's system prompt with the task's context appended, as get_next_step
+   * builds it, for any role rather than the one the task's status calls for.
+   */
+  async getRolePromptForTask(input: GetRolePromptInput): Promise<GetRolePromptResult> {
+    try {
+      if (!this.dbHandler.hasRole(input.roleId)) {
+        throw new Error(`Unknown pipeline role: ${input.roleId}`);
+      }
+      const taskFile = await this.dbHandler.loadByFeatureSlug(input.featureSlug, input.repoName);
+      const task = taskFile.tasks.find((t) => t.taskId === input.taskId);
+      if (!task) {
+        throw new Error(`Task not found: ${input.taskId}`);
+      }
+
+      const roleConfig = this.dbHandler.getRolePrompt(input.roleId);
+      return {
+        success: true,
+        roleId: input.roleId,
+        phase: roleConfig.phase,
+        prompt: this.buildContextualPrompt(roleConfig.systemPrompt, task, this.gatherPreviousNotes(task)),
+      };
+    } catch (error) {
+      return { success: false, roleId: input.roleId, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
   /**
    * Get transition targets for a given status
+   * @param restartStatus Stage a NeedsRefinement task is resubmitted to (defaults to the first stage)
    */
-  private getTransitionsForStatus(status: TaskStatus): {
+  private getTransitionsForStatus(
+    status: TaskStatus,
+    validator: WorkflowValidator,
+    restartStatus: TaskStatus = validator.getInitialStatus()
+  ): {
     transitionOnSuccess: TaskStatus;
     transitionOnFailure: TaskStatus;
     allowedDecisions: string[];
   } {
-    const map: Record<TaskStatus, { transitionOnSuccess: TaskStatus; transitionOnFailure: TaskStatus; allowedDecisions: string[] }> = {
-      PendingProductDirector: { transitionOnSuccess: 'PendingArchitect', transitionOnFailure: 'NeedsRefinement', allowedDecisions: ['approve', 'reject'] },
-      PendingArchitect: { transitionOnSuccess: 'PendingUiUxExpert', transitionOnFailure: 'NeedsRefinement', allowedDecisions: ['approve', 'reject'] },
-      PendingUiUxExpert: { transitionOnSuccess: 'PendingSecurityOfficer', transitionOnFailure: 'NeedsRefinement', allowedDecisions: ['approve', 'reject'] },
-      PendingSecurityOfficer: { transitionOnSuccess: 'ReadyForDevelopment', transitionOnFailure: 'NeedsRefinement', allowedDecisions: ['approve', 'reject'] },
-      NeedsRefinement: { transitionOnSuccess: 'PendingProductDirector', transitionOnFailure: 'PendingProductDirector', allowedDecisions: ['restart'] },
+    // approveWithConditions passes like approve and records the reviewer's conditions
+    const reviewDecisions: ReviewDecision[] = ['approve', 'approveWithConditions', 'reject'];
+    const stage = validator.getStage(status);
+    if (stage) {
+      return { transitionOnSuccess: stage.onApprove, transitionOnFailure: stage.onReject, allowedDecisions: reviewDecisions };
+    }
+
+    const map: Partial<Record<TaskStatus, { transitionOnSuccess: TaskStatus; transitionOnFailure: TaskStatus; allowedDecisions: string[] }>> = {
+      NeedsRefinement: { transitionOnSuccess: restartStatus, transitionOnFailure: restartStatus, allowedDecisions: ['restart'] },
       ReadyForDevelopment: { transitionOnSuccess: 'ToDo', transitionOnFailure: 'ToDo', allowedDecisions: ['start'] },
       ToDo: { transitionOnSuccess: 'InProgress', transitionOnFailure: 'InProgress', allowedDecisions: ['start'] },
       InProgress: { transitionOnSuccess: 'InReview', transitionOnFailure: 'InProgress', allowedDecisions: ['submitForReview'] },
-      InReview: { transitionOnSuccess: 'InQA', transitionOnFailure: 'NeedsChanges', allowedDecisions: ['approve', 'reject'] },
-      InQA: { transitionOnSuccess: 'Done', transitionOnFailure: 'NeedsChanges', allowedDecisions: ['approve', 'reject'] },
+      InReview: { transitionOnSuccess: 'InQA', transitionOnFailure: 'NeedsChanges', allowedDecisions: reviewDecisions },
+      InQA: { transitionOnSuccess: 'Done', transitionOnFailure: 'NeedsChanges', allowedDecisions: reviewDecisions },
       NeedsChanges: { transitionOnSuccess: 'InProgress', transitionOnFailure: 'InProgress', allowedDecisions: ['startFix'] },
-      Done: { transitionOnSuccess: 'Done', transitionOnFailure: 'Done', allowedDecisions: [] },
     };
-    return map[status];
+    return map[status] ?? { transitionOnSuccess: status, transitionOnFailure: status, allowedDecisions: [] };
   }
 
   /**
-   * Gather notes from all previous roles for context
+   * Gather notes from all previous roles for context, including the review
+   * conditions each role raised
    */
   private gatherPreviousNotes(task: Task): Record<string, string> {
     const notes: Record<string, string> = {};
-    if (task.stakeholderReview.productDirector?.notes) {
-      notes.productDirector = task.stakeholderReview.productDirector.notes;
-    }
-    if (task.stakeholderReview.architect?.notes) {
-      notes.architect = task.stakeholderReview.architect.notes;
-    }
-    if (task.stakeholderReview.uiUxExpert?.notes) {
-      notes.uiUxExpert = task.stakeholderReview.uiUxExpert.notes;
+    for (const [role, review] of Object.entries(task.stakeholderReview)) {
+      if (review?.notes) {
+        notes[role] = review.notes;
+      }
     }
-    if (task.stakeholderReview.securityOfficer?.notes) {
-      notes.securityOfficer = task.stakeholderReview.securityOfficer.notes;
+    for (const condition of task.reviewConditions || []) {
+      const line = `Condition ${condition.id} (${condition.satisfied ? 'satisfied' : 'open'}): ${condition.condition}`;
+      notes[condition.raisedBy] = notes[condition.raisedBy] ? `${notes[condition.raisedBy]}\n${line}` : line;
     }
     return notes;
   }
@@ -577,6 +949,8 @@ export class AIConductor {
       if (!task) {
         throw new Error(`Task not found: ${input.taskId}`);
       }
+      checkExpectedVersion(task, input.expectedVersion);
+      this.checkAgentRole(task, input.actor, input.repoName);
 
       // 4. Validate current status matches expected
       if (task.status !== input.fromStatus) {
@@ -586,39 +960,66 @@ export class AIConductor {
       }
 
       // 5. Validate development workflow transition
-      const validation = this.validator.validateDevTransition(
-        input.fromStatus,
-        input.toStatus,
-        input.actor
-      );
+      const validator = this.getValidator(input.repoName);
+      const validation = validator.validateDevTransition(input.fromStatus, input.toStatus, input.actor, {
+        task,
+        featureTasks: taskFile.tasks,
+        metadata: input.metadata,
+        overrideJustification: input.overrideJustification,
+        reason: input.reason,
+        blockedByTaskId: input.blockedByTaskId,
+      });
 
       if (!validation.valid) {
-        throw new Error(`Workflow validation failed: ${validation.errors.join(', ')}`);
+        return {
+          success: false,
+          taskId: input.taskId,
+          previousStatus: input.fromStatus,
+          newStatus: input.fromStatus,
+          transition: {
+            from: input.fromStatus,
+            to: input.fromStatus,
+            actor: input.actor,
+            timestamp: new Date().toISOString(),
+            notes: '',
+          },
+          guardViolations: validation.guardViolations?.length ? validation.guardViolations : undefined,
+          error: `Workflow validation failed: ${validation.errors.join(', ')}`,
+        };
       }
 
-      // 6. Build transition record
+      // 6. Build transition record, keeping any guard override on the audit trail
+      const overridden = input.overrideJustification !== undefined ? validation.guardViolations ?? [] : [];
       const transition: Transition = {
         from: input.fromStatus,
         to: input.toStatus,
         actor: input.actor,
         timestamp: new Date().toISOString(),
-        notes: input.notes,
+        notes: input.notes ?? input.reason,
         ...input.metadata,
+        // Set after metadata so callers cannot claim another agent's name or a guard override
+        agent: currentAgent()?.name,
+        guardOverride:
+          overridden.length > 0
+            ? { guards: overridden.map((v) => v.guard), justification: input.overrideJustification! }
+            : undefined,
       };
 
-      // 7. Update task
-      task.status = input.toStatus;
+      // 7. Update task, passing through review stages that do not apply to it
       task.transitions.push(transition);
+      const { status: newStatus, skipped } = this.routeTask(task, input.toStatus, validator);
+      this.updateParkedState(task, input.fromStatus, input);
 
       // 8. Save atomically
-      await this.dbHandler.saveByFeatureSlug(input.featureSlug, taskFile, input.repoName);
+      await this.dbHandler.saveTasks(input.featureSlug, [task], input.repoName);
 
       return {
         success: true,
         taskId: input.taskId,
         previousStatus: input.fromStatus,
-        newStatus: input.toStatus,
+        newStatus,
         transition,
+        skippedStages: skipped.length > 0 ? skipped : undefined,
         message:
           validation.warnings.length > 0
             ? `Transition recorded with warnings: ${validation.warnings.join(', ')}`
@@ -637,6 +1038,7 @@ export class AIConductor {
           timestamp: new Date().toISOString(),
           notes: '',
         },
+        versionConflict: versionConflictOf(error),
         error: error instanceof Error ? error.message : String(error),
       };
     }
@@ -696,6 +1098,7 @@ export class AIConductor {
       if (!task) {
         throw new Error(`Task not found: ${input.taskId}`);
       }
+      checkExpectedVersion(task, input.expectedVersion);
 
       const criterion = task.acceptanceCriteria.find((ac) => ac.id === input.criterionId);
       if (!criterion) {
@@ -706,7 +1109,7 @@ export class AIConductor {
 
       criterion.verified = input.verified;
 
-      await this.dbHandler.saveByFeatureSlug(input.featureSlug, taskFile, input.repoName);
+      await this.dbHandler.saveTasks(input.featureSlug, [task], input.repoName);
 
       return {
         success: true,
@@ -721,6 +1124,58 @@ export class AIConductor {
         taskId: input.taskId,
         criterionId: input.criterionId,
         verified: false,
+        versionConflict: versionConflictOf(error),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Mark a review condition as satisfied or open again
+   */
+  async updateReviewCondition(input: UpdateReviewConditionInput): Promise<UpdateReviewConditionResult> {
+    try {
+      const fileValidation = await this.dbHandler.validateFeatureSlug(input.featureSlug, input.repoName);
+      if (!fileValidation.valid) {
+        throw new Error(`Invalid task file: ${fileValidation.error}`);
+      }
+
+      const taskFile = await this.dbHandler.loadByFeatureSlugWithLock(input.featureSlug, input.repoName);
+
+      const task = taskFile.tasks.find((t) => t.taskId === input.taskId);
+      if (!task) {
+        throw new Error(`Task not found: ${input.taskId}`);
+      }
+      checkExpectedVersion(task, input.expectedVersion);
+
+      const condition = (task.reviewConditions || []).find((c) => c.id === input.conditionId);
+      if (!condition) {
+        throw new Error(`Review condition not found: ${input.conditionId} in task ${input.taskId}`);
+      }
+      this.checkAgentRole(task, condition.raisedBy, input.repoName);
+
+      condition.satisfied = input.satisfied;
+      condition.satisfiedAt = input.satisfied ? new Date().toISOString() : undefined;
+      condition.resolution = input.satisfied ? input.resolution : undefined;
+
+      await this.dbHandler.saveTasks(input.featureSlug, [task], input.repoName);
+
+      const openConditions = task.reviewConditions!.filter((c) => !c.satisfied).map((c) => c.id);
+      return {
+        success: true,
+        taskId: input.taskId,
+        conditionId: input.conditionId,
+        satisfied: input.satisfied,
+        openConditions,
+        message: `Review condition ${input.conditionId} marked as ${input.satisfied ? 'satisfied' : 'open'}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        taskId: input.taskId,
+        conditionId: input.conditionId,
+        satisfied: false,
+        versionConflict: versionConflictOf(error),
         error: error instanceof Error ? error.message : String(error),
       };
     }
@@ -760,15 +1215,15 @@ export class AIConductor {
     try {
       const taskFile = await this.dbHandler.loadByFeatureSlug(input.featureSlug, input.repoName);
 
-      const totalTasks = taskFile.tasks.length;
-      const completedTasks = taskFile.tasks.filter((t) => t.status === 'Done').length;
-      const incompleteTasks = taskFile.tasks
-        .filter((t) => t.status !== 'Done')
-        .map((t) => ({
-          taskId: t.taskId,
-          title: t.title,
-          status: t.status,
-        }));
+      // Parked tasks in the excluded statuses (Cancelled by default) do not count either way
+      const excluded: TaskStatus[] = input.excludeStatuses ?? this.getQueueSettings().completionExcludedStatuses;
+      const summarize = (t: Task) => ({ taskId: t.taskId, title: t.title, status: t.status });
+      const countedTasks = taskFile.tasks.filter((t) => !excluded.includes(t.status));
+      const excludedTasks = taskFile.tasks.filter((t) => excluded.includes(t.status)).map(summarize);
+
+      const totalTasks = countedTasks.length;
+      const completedTasks = countedTasks.filter((t) => t.status === 'Done').length;
+      const incompleteTasks = countedTasks.filter((t) => t.status !== 'Done').map(summarize);
 
       const allComplete = completedTasks === totalTasks;
 
@@ -778,9 +1233,11 @@ export class AIConductor {
         totalTasks,
         completedTasks,
         incompleteTasks,
-        message: allComplete
+        excludedTasks,
+        message: (allComplete
           ? 'All tasks are complete!'
-          : `${completedTasks}/${totalTasks} tasks complete. ${incompleteTasks.length} task(s) remaining.`,
+          : `${completedTasks}/${totalTasks} tasks complete. ${incompleteTasks.length} task(s) remaining.`) +
+          (excludedTasks.length > 0 ? ` ${excludedTasks.length} task(s) excluded (${excluded.join(', ')}).` : ''),
       };
     } catch (error) {
       return {
@@ -789,6 +1246,7 @@ export class AIConductor {
         totalTasks: 0,
         completedTasks: 0,
         incompleteTasks: [],
+        excludedTasks: [],
         error: error instanceof Error ? error.message : String(error),
       };
     }
@@ -867,10 +1325,24 @@ export class AIConductor {
       };
 
       const taskId = this.dbHandler.addTask(input.featureSlug, task, input.repoName);
+
+      // Record leading stages that do not apply to the task as system transitions
+      const validator = this.getValidator(input.repoName);
+      let status = validator.getInitialStatus();
+      let skipped: SkippedStage[] = [];
+      if (validator.resolveNextStatus(status, task).skipped.length > 0) {
+        const taskFile = await this.dbHandler.loadByFeatureSlugWithLock(input.featureSlug, input.repoName);
+        const created = taskFile.tasks.find((t) => t.taskId === taskId)!;
+        ({ status, skipped } = this.routeTask(created, created.status, validator));
+        await this.dbHandler.saveTasks(input.featureSlug, [created], input.repoName);
+      }
+
       return {
         success: true,
         featureSlug: input.featureSlug,
         taskId,
+        status,
+        skippedStages: skipped.length > 0 ? skipped : undefined,
         message: `Task '${taskId}' added to feature '${input.featureSlug}'`,
       };
     } catch (error) {
@@ -921,7 +1393,8 @@ export class AIConductor {
         repoName,
         featureCount: result.featureCount,
         taskCount: result.taskCount,
-        message: `Repository '${repoName}' deleted with ${result.featureCount} features and ${result.taskCount} tasks`,
+        trashId: result.trashId,
+        message: `Repository '${repoName}' moved to the trash (item ${result.trashId}) with ${result.featureCount} features and ${result.taskCount} tasks`,
       };
     } catch (error) {
       return {
@@ -932,16 +1405,81 @@ export class AIConductor {
     }
   }
 
+  /**
+   * Export a repo with all its features, tasks and history as a portable bundle
+   */
+  async exportRepo(repoName: string): Promise<ExportRepoResult> {
+    try {
+      const bundle = this.dbHandler.exportRepo(repoName);
+      return {
+        success: true,
+        repoName,
+        bundle,
+        message: `Exported ${bundle.features.length} feature(s) from '${repoName}'`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        repoName,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Import a repo bundle. Features whose slug already exists in the target repo
+   * are skipped, overwritten or renamed with a prefix, per the conflict mode.
+   */
+  async importRepo(input: ImportRepoInput): Promise<ImportRepoResult> {
+    const bundle = upgradeRepoBundle(input.bundle);
+    const validationErrors = validateRepoBundle(bundle);
+    if (validationErrors.length > 0) {
+      return {
+        success: false,
+        features: [],
+        validationErrors,
+        error: `Invalid repo bundle: ${validationErrors.length} problem(s) found`,
+      };
+    }
+
+    try {
+      const conflictMode = input.conflictMode ?? 'skip';
+      const result = this.dbHandler.importRepo(bundle as RepoBundle, {
+        conflictMode,
+        prefix: input.prefix,
+        repoName: input.repoName,
+      });
+      const imported = result.features.filter((f) => f.action !== 'skipped').length;
+      return {
+        success: true,
+        ...result,
+        message:
+          `Imported ${imported} of ${result.features.length} feature(s) into '${result.repoName}'` +
+          (result.repoCreated ? ' (new repository)' : ''),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        features: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Delete a feature and all its tasks
    */
   async deleteFeature(repoName: string, featureSlug: string): Promise<DeleteFeatureResult> {
     try {
-      this.dbHandler.deleteFeature(featureSlug, repoName);
+      const trashId = this.dbHandler.deleteFeature(featureSlug, repoName);
+      if (trashId === undefined) {
+        return { success: false, featureSlug, error: `Feature not found: ${featureSlug} in repo ${repoName}` };
+      }
       return {
         success: true,
         featureSlug,
-        message: `Feature '${featureSlug}' deleted successfully`,
+        trashId,
+        message: `Feature '${featureSlug}' moved to the trash (item ${trashId})`,
       };
     } catch (error) {
       return {
@@ -999,20 +1537,51 @@ export class AIConductor {
         throw new Error('No fields to update');
       }
 
-      // Perform the update
-      this.dbHandler.updateTask(input.featureSlug, input.taskId, input.updates as Partial<Task>, input.repoName);
+      // Perform the update. Approvals given to the previous content no longer hold;
+      // they are superseded in the same transaction as the content change.
+      const validator = this.getValidator(input.repoName);
+      let superseded: StakeholderRole[] = [];
+      let previousStatus: TaskStatus | undefined;
+      let newStatus: TaskStatus | undefined;
+      this.dbHandler.updateTask(
+        input.featureSlug,
+        input.taskId,
+        input.updates as Partial<Task>,
+        input.repoName,
+        input.expectedVersion ?? task.version,
+        (updated) => {
+          previousStatus = updated.status;
+          superseded = this.supersedeStaleApprovals(updated, validator, input.repoName);
+          newStatus = updated.status;
+          return superseded.length > 0;
+        }
+      );
+      if (superseded.length === 0) {
+        return {
+          success: true,
+          featureSlug: input.featureSlug,
+          taskId: input.taskId,
+          message: `Task '${input.taskId}' updated successfully`,
+        };
+      }
 
+      const sentBack = newStatus !== previousStatus;
       return {
         success: true,
         featureSlug: input.featureSlug,
         taskId: input.taskId,
-        message: `Task '${input.taskId}' updated successfully`,
+        supersededApprovals: superseded,
+        newStatus: sentBack ? newStatus : undefined,
+        message:
+          `Task '${input.taskId}' updated; approvals superseded: ${superseded.join(', ')}` +
+          (sentBack ? `. Task sent back to ${newStatus}` : '. Task flagged for re-review'),
       };
     } catch (error) {
       return {
         success: false,
         featureSlug: input.featureSlug,
         taskId: input.taskId,
+        versionConflict: versionConflictOf(error),
         error: error instanceof Error ? error.message : String(error),
       };
     }
@@ -1042,9 +1611,9 @@ export class AIConductor {
       );
 
       // Perform deletion
-      this.dbHandler.deleteTask(featureSlug, taskId, repoName);
+      const trashId = this.dbHandler.deleteTask(featureSlug, taskId, repoName);
 
-      let message = `Task '${taskId}' deleted successfully`;
+      let message = `Task '${taskId}' moved to the trash (item ${trashId})`;
       if (dependentTasks.length > 0) {
         const depIds = dependentTasks.map((t) => t.taskId).join(', ');
         message += `. Warning: ${dependentTasks.length} task(s) had dependencies on this task: ${depIds}`;
@@ -1054,6 +1623,7 @@ export class AIConductor {
         success: true,
         featureSlug,
         taskId,
+        trashId,
         message,
       };
     } catch (error) {
@@ -1464,28 +2034,17 @@ export class AIConductor {
     try {
       const taskFile = await this.dbHandler.loadByFeatureSlug(featureSlug, repoName);
 
+      const validator = this.getValidator(repoName);
+      const stages = validator.getStages();
+
       // Count tasks by status group
-      const statusCounts: Record<TaskStatus, number> = {
-        PendingProductDirector: 0,
-        PendingArchitect: 0,
-        PendingUiUxExpert: 0,
-        PendingSecurityOfficer: 0,
-        ReadyForDevelopment: 0,
-        NeedsRefinement: 0,
-        ToDo: 0,
-        InProgress: 0,
-        InReview: 0,
-        InQA: 0,
-        NeedsChanges: 0,
-        Done: 0,
-      };
+      const statusCounts = {} as Record<TaskStatus, number>;
+      for (const status of validator.getAllStatuses()) {
+        statusCounts[status] = 0;
+      }
 
       // Map status to role for display
-      const roleMapping: Record<TaskStatus, string | null> = {
-        PendingProductDirector: 'Product Director',
-        PendingArchitect: 'Architect',
-        PendingUiUxExpert: 'UI/UX Expert',
-        PendingSecurityOfficer: 'Security Officer',
+      const roleMapping: Partial<Record<TaskStatus, string | null>> = {
         ReadyForDevelopment: null,
         NeedsRefinement: null,
         ToDo: null,
@@ -1495,10 +2054,13 @@ export class AIConductor {
         NeedsChanges: 'Developer',
         Done: null,
       };
+      for (const stage of stages) {
+        roleMapping[stage.status] = stage.label;
+      }
 
       // Build task snapshot
       const taskSnapshot = taskFile.tasks.map((task) => {
-        statusCounts[task.status]++;
+        statusCounts[task.status] = (statusCounts[task.status] ?? 0) + 1;
 
         // Get compact last decision from most recent transition or stakeholder review
         let lastDecision: string | undefined;
@@ -1521,7 +2083,7 @@ export class AIConductor {
 
       // Identify blockages
       const blockages = taskSnapshot
-        .filter((t) => ['PendingProductDirector', 'PendingArchitect', 'PendingUiUxExpert', 'PendingSecurityOfficer', 'NeedsRefinement', 'NeedsChanges'].includes(t.status))
+        .filter((t) => t.status.startsWith('Pending') || ['NeedsRefinement', 'NeedsChanges'].includes(t.status))
         .map((t) => {
           const task = taskFile.tasks.find((task) => task.taskId === t.taskId)!;
           const lastTransition = task.transitions[task.transitions.length - 1];
@@ -1570,7 +2132,7 @@ export class AIConductor {
 
       if (needsRefinementCount > 0) {
         const needsRefinementTasks = taskSnapshot.filter((t) => t.status === 'NeedsRefinement').map((t) => t.taskId).join(', ');
-        recommendations.push(`Fix and resubmit to Product Director: ${needsRefinementTasks}`);
+        recommendations.push(`Fix and resubmit to ${stages[0].label}: ${needsRefinementTasks}`);
       }
 
       if (needsChangesCount > 0) {
@@ -1624,8 +2186,10 @@ export class AIConductor {
       // 2. Load feature once with lock
       const taskFile = await this.dbHandler.loadByFeatureSlugWithLock(input.featureSlug, input.repoName);
 
+      const validator = this.getValidator(input.repoName);
+
       // 3. Process each task
-      const results = [];
+      const results: BatchTransitionResult[] = [];
       for (const taskId of input.taskIds) {
         try {
           const task = taskFile.tasks.find((t) => t.taskId === taskId);
@@ -1640,6 +2204,8 @@ export class AIConductor {
             continue;
           }
 
+          this.checkAgentRole(task, input.actor, input.repoName);
+
           // Validate current status
           if (task.status !== input.fromStatus) {
             results.push({
@@ -1653,13 +2219,20 @@ export class AIConductor {
           }
 
           // Validate transition
-          const validation = this.validator.validateDevTransition(input.fromStatus, input.toStatus, input.actor);
+          const validation = validator.validateDevTransition(input.fromStatus, input.toStatus, input.actor, {
+            task,
+            featureTasks: taskFile.tasks,
+            metadata: input.metadata,
+            reason: input.reason,
+            blockedByTaskId: input.blockedByTaskId,
+          });
           if (!validation.valid) {
             results.push({
               taskId,
               success: false,
               previousStatus: input.fromStatus,
               newStatus: input.fromStatus,
+              guardViolations: validation.guardViolations?.length ? validation.guardViolations : undefined,
               error: `Workflow validation failed: ${validation.errors.join(', ')}`,
             });
             continue;
@@ -1671,20 +2244,23 @@ export class AIConductor {
             to: input.toStatus,
             actor: input.actor,
             timestamp: new Date().toISOString(),
-            notes: input.notes,
+            notes: input.notes ?? input.reason,
             ...input.metadata,
+            agent: currentAgent()?.name,
+            guardOverride: undefined,
           };
 
           // Update task
           const previousStatus = task.status;
-          task.status = input.toStatus;
           task.transitions.push(transition);
+          const { status: newStatus } = this.routeTask(task, input.toStatus, validator);
+          this.updateParkedState(task, previousStatus, input);
 
           results.push({
             taskId,
             success: true,
             previousStatus,
-            newStatus: input.toStatus,
+            newStatus,
           });
         } catch (taskError) {
           results.push({
@@ -1697,8 +2273,9 @@ export class AIConductor {
         }
       }
 
-      // 4. Save all changes atomically
-      await this.dbHandler.saveByFeatureSlug(input.featureSlug, taskFile, input.repoName);
+      // 4. Save the changed tasks atomically
+      const changed = taskFile.tasks.filter((t) => results.some((r) => r.success && r.taskId === t.taskId));
+      await this.dbHandler.saveTasks(input.featureSlug, changed, input.repoName);
 
       const successCount = results.filter((r) => r.success).length;
       const failureCount = results.filter((r) => !r.success).length;
@@ -1722,6 +2299,7 @@ export class AIConductor {
         })),
         successCount: 0,
         failureCount: input.taskIds.length,
+        versionConflict: versionConflictOf(error),
         error: error instanceof Error ? error.message : String(error),
       };
     }
@@ -1744,7 +2322,7 @@ export class AIConductor {
       const taskFile = await this.dbHandler.loadByFeatureSlugWithLock(input.featureSlug, input.repoName);
 
       // 3. Process each update
-      const results = [];
+      const results: BatchCriteriaUpdateResult[] = [];
       for (const update of input.updates) {
         try {
           const task = taskFile.tasks.find((t) => t.taskId === update.taskId);
@@ -1790,8 +2368,9 @@ export class AIConductor {
         }
       }
 
-      // 4. Save all changes atomically
-      await this.dbHandler.saveByFeatureSlug(input.featureSlug, taskFile, input.repoName);
+      // 4. Save the changed tasks atomically
+      const changed = taskFile.tasks.filter((t) => results.some((r) => r.success && r.taskId === t.taskId));
+      await this.dbHandler.saveTasks(input.featureSlug, changed, input.repoName);
 
       const successCount = results.filter((r) => r.success).length;
       const failureCount = results.filter((r) => !r.success).length;
@@ -1815,6 +2394,7 @@ export class AIConductor {
         })),
         successCount: 0,
         failureCount: input.updates.length,
+        versionConflict: versionConflictOf(error),
         error: error instanceof Error ? error.message : String(error),
       };
     }
@@ -1869,6 +2449,7 @@ export class AIConductor {
    */
   async restoreWorkflowCheckpoint(input: RestoreWorkflowCheckpointInput): Promise<RestoreWorkflowCheckpointResult> {
     try {
+      this.refuseAgent('restore workflow checkpoints');
       const checkpoint = this.dbHandler.getCheckpoint(input.repoName, input.featureSlug, input.checkpointId);
       if (!checkpoint) {
         throw new Error(`Checkpoint not found: ${input.checkpointId}`);
@@ -1876,7 +2457,7 @@ export class AIConductor {
 
       const taskFile = await this.dbHandler.loadByFeatureSlugWithLock(input.featureSlug, input.repoName);
 
-      let restoredCount = 0;
+      const restored: Task[] = [];
       for (const snapshotTask of checkpoint.snapshot) {
         const task = taskFile.tasks.find((t) => t.taskId === snapshotTask.taskId);
         if (task) {
@@ -1889,21 +2470,22 @@ export class AIConductor {
             timestamp: new Date().toISOString(),
             notes: `Restored from checkpoint: ${checkpoint.description}`,
           });
-          restoredCount++;
+          restored.push(task);
         }
       }
 
-      await this.dbHandler.saveByFeatureSlug(input.featureSlug, taskFile, input.repoName);
+      await this.dbHandler.saveTasks(input.featureSlug, restored, input.repoName);
 
       return {
         success: true,
         checkpointId: input.checkpointId,
-        restoredTasks: restoredCount,
-        message: `Restored ${restoredCount} tasks from checkpoint: "${checkpoint.description}"`,
+        restoredTasks: restored.length,
+        message: `Restored ${restored.length} tasks from checkpoint: "${checkpoint.description}"`,
       };
     } catch (error) {
       return {
         success: false,
+        versionConflict: versionConflictOf(error),
         error: error instanceof Error ? error.message : String(error),
       };
     }
@@ -1920,19 +2502,22 @@ export class AIConductor {
       if (!task) {
         throw new Error(`Task not found: ${input.taskId}`);
       }
+      checkExpectedVersion(task, input.expectedVersion);
 
       if (task.transitions.length === 0) {
         throw new Error(`No transitions to rollback for task ${input.taskId}`);
       }
 
       const lastTransition = task.transitions[task.transitions.length - 1];
+      // Only the role that made the decision may take it back; transitions without one were the system's
+      this.checkAgentRole(task, lastTransition.approver ?? lastTransition.actor ?? 'system', input.repoName);
       const rolledBackFrom = task.status;
       const rolledBackTo = lastTransition.from;
 
       task.status = rolledBackTo;
       task.transitions.pop();
 
-      await this.dbHandler.saveByFeatureSlug(input.featureSlug, taskFile, input.repoName);
+      await this.dbHandler.saveTasks(input.featureSlug, [task], input.repoName);
 
       return {
         success: true,
@@ -1944,6 +2529,7 @@ export class AIConductor {
     } catch (error) {
       return {
         success: false,
+        versionConflict: versionConflictOf(error),
         error: error instanceof Error ? error.message : String(error),
       };
     }
@@ -2203,37 +2789,92 @@ export class AIConductor {
   }
 
   /**
-   * Validate review completeness before submission (Recommendation 7)
+   * Validate review completeness before submission (Recommendation 7).
+   * Checks the supplied review (or the stakeholder's stored review) against the
+   * role's requiredOutputFields from the role_prompts table.
    */
   async validateReviewCompleteness(input: ValidateReviewCompletenessInput): Promise<ValidateReviewCompletenessResult> {
-    const missingFields: string[] = [];
-
-    // Define required fields by stakeholder role
-    const requiredFields: Record<StakeholderRole, string[]> = {
-      productDirector: ['notes', 'marketAnalysis'],
-      architect: ['notes', 'technologyRecommendations', 'designPatterns'],
-      uiUxExpert: ['notes', 'usabilityFindings', 'accessibilityRequirements'],
-      securityOfficer: ['notes', 'securityRequirements', 'complianceNotes'],
-    };
+    try {
+      const mode = this.dbHandler.getReviewSettings(input.repoName).completenessMode;
 
-    const required = requiredFields[input.stakeholder] || [];
+      let decision = input.decision;
+      let fields: Record<string, unknown>;
+      if (input.notes !== undefined || input.additionalFields !== undefined) {
+        fields = { ...input.additionalFields, notes: input.notes };
+      } else {
+        const taskFile = await this.dbHandler.loadByFeatureSlug(input.featureSlug, input.repoName);
+        const task = taskFile.tasks.find((t) => t.taskId === input.taskId);
+        if (!task) {
+          throw new Error(`Task not found: ${input.taskId}`);
+        }
+        // The role's latest stage review, when it reviews more than one stage
+        const validator = this.getValidator(input.repoName);
+        const stored = validator
+          .getStages()
+          .filter((stage) => stageReviewers(stage).includes(input.stakeholder))
+          .map((stage) => validator.getStageReview(task, stage, input.stakeholder))
+          .filter((review) => review !== undefined)
+          .at(-1) ?? task.stakeholderReview[input.stakeholder];
+        fields = stored ? { ...stored } : {};
+        decision = decision ?? (stored && !stored.approved ? 'reject' : 'approve');
+      }
 
-    // In practice, validation would check if these fields are present in the review
-    // For now, we return the list of required fields
-    const isComplete = true; // Validation logic would determine this
+      const fieldErrors = this.checkReviewFields(input.stakeholder, decision ?? 'approve', fields);
+      const isComplete = fieldErrors.length === 0;
 
-    const warnings: string[] = [];
-    if (required.length > 0) {
-      warnings.push(`This role requires ${required.length} field(s): ${required.join(', ')}`);
+      return {
+        success: true,
+        isComplete,
+        missingFields: fieldErrors.map((e) => e.field),
+        fieldErrors,
+        mode,
+        warnings: !isComplete && mode === 'strict'
+          ? ['add_stakeholder_review will refuse this review until the missing fields are supplied']
+          : [],
+        message: isComplete
+          ? `Review by ${input.stakeholder} is complete`
+          : `Review by ${input.stakeholder} is missing ${fieldErrors.length} field(s): ${fieldErrors.map((e) => e.field).join(', ')}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        isComplete: false,
+        missingFields: [],
+        fieldErrors: [],
+        mode: 'warn',
+        warnings: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
     }
+  }
 
-    return {
-      success: true,
-      isComplete,
-      missingFields,
-      warnings,
-      message: `Review completeness check for ${input.stakeholder}: ${required.length} required field(s)`,
-    };
+  /**
+   * Field-level errors for a review: notes are always required, and approvals
+   * must supply every requiredOutputField of the role.
+   */
+  private checkReviewFields(
+    stakeholder: StakeholderRole,
+    decision: ReviewDecision,
+    fields: Record<string, unknown>
+  ): ReviewFieldError[] {
+    const isEmpty = (value: unknown): boolean =>
+      value === undefined ||
+      value === null ||
+      (typeof value === 'string' && value.trim() === '') ||
+      (Array.isArray(value) && value.length === 0);
+
+    const errors: ReviewFieldError[] = [];
+    if (isEmpty(fields.notes)) {
+      errors.push({ field: 'notes', message: 'notes are required' });
+    }
+    if (decision !== 'reject') {
+      for (const field of this.dbHandler.getRolePrompt(stakeholder).requiredOutputFields) {
+        if (isEmpty(fields[field])) {
+          errors.push({ field, message: `${field} is required for a ${stakeholder} approval` });
+        }
+      }
+    }
+    return errors;
   }
 
   /**
@@ -2310,20 +2951,244 @@ export class AIConductor {
     }
   }
 
+  /**
+   * Full-text search across tasks, acceptance criteria, review notes,
+   * transition notes and clarifications
+   */
+  async search(input: SearchInput): Promise<SearchResult> {
+    try {
+      const hits = this.dbHandler.search(input);
+      return {
+        success: true,
+        query: input.query,
+        hits,
+        message: `Found ${hits.length} match(es) for "${input.query}"`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        query: input.query,
+        hits: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Audit Log
+  // ─────────────────────────────────────────────────────────────────────
+
+  /**
+   * Page through the audit log, newest first.
+   */
+  async getAuditLog(query: AuditLogQuery = {}): Promise<AuditLogResult> {
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      return { success: false, entries: [], total: 0, limit, offset, error: 'limit must be an integer between 1 and 500' };
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return { success: false, entries: [], total: 0, limit, offset, error: 'offset must be a non-negative integer' };
+    }
+
+    try {
+      const { entries, total } = this.dbHandler.getAuditLog({ ...query, limit, offset });
+      return {
+        success: true,
+        entries,
+        total,
+        limit,
+        offset,
+        message: `Showing ${entries.length} of ${total} audit entr${total === 1 ? 'y' : 'ies'}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        entries: [],
+        total: 0,
+        limit,
+        offset,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   // ─────────────────────────────────────────────────────────────────────
   // Queue & Worker Settings
   // ─────────────────────────────────────────────────────────────────────
 
   /** Return queue-specific settings as a typed object. */
-  getQueueSettings(): { cronIntervalSeconds: number; baseReposFolder: string; cliTool: string; workerEnabled: boolean } {
+  getQueueSettings(): { cronIntervalSeconds: number; baseReposFolder: string; cliTool: string; workerEnabled: boolean; completionExcludedStatuses: ParkedStatus[] } {
     return this.dbHandler.getQueueSettings();
   }
 
   /** Update one or more queue-specific settings. */
-  updateQueueSettings(updates: Partial<{ cronIntervalSeconds: number; baseReposFolder: string; cliTool: string; workerEnabled: boolean }>): void {
+  updateQueueSettings(updates: Partial<{ cronIntervalSeconds: number; baseReposFolder: string; cliTool: string; workerEnabled: boolean; completionExcludedStatuses: ParkedStatus[] }>): void {
     this.dbHandler.updateQueueSettings(updates);
   }
 
+  // ─────────────────────────────────────────────────────────────────────
+  // Database Backups
+  // ─────────────────────────────────────────────────────────────────────
+
+  /** Return the backup schedule, retention count and directory. */
+  getBackupSettings(): BackupSettings {
+    return this.dbHandler.getBackupSettings();
+  }
+
+  /** Update the backup schedule and/or retention count. */
+  updateBackupSettings(updates: Partial<Pick<BackupSettings, 'intervalHours' | 'retention'>>): BackupSettings {
+    this.dbHandler.updateBackupSettings(updates);
+    return this.dbHandler.getBackupSettings();
+  }
+
+  /** Backups on disk, newest first. */
+  listBackups(): BackupInfo[] {
+    return this.dbHandler.listBackups();
+  }
+
+  /** Take an online backup of the database and prune old ones. */
+  async createBackup(reason: BackupReason = 'manual'): Promise<CreateBackupResult> {
+    try {
+      const { backup, pruned } = await this.dbHandler.backup(reason);
+      return {
+        success: true,
+        backup,
+        pruned,
+        message: `Backed up to ${backup.fileName}` + (pruned.length > 0 ? `, removed ${pruned.length} old backup(s)` : ''),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        pruned: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Trash
+  // ─────────────────────────────────────────────────────────────────────
+
+  /** Return how long deleted repos, features and tasks stay in the trash. */
+  getTrashSettings(): TrashSettings {
+    return this.dbHandler.getTrashSettings();
+  }
+
+  /** Update the trash retention period. */
+  updateTrashSettings(updates: Partial<TrashSettings>): TrashSettings {
+    this.dbHandler.updateTrashSettings(updates);
+    return this.dbHandler.getTrashSettings();
+  }
+
+  /** Permanently remove trash items older than the retention period. Returns the number purged. */
+  purgeTrash(now?: Date): number {
+    return this.dbHandler.purgeTrash(now);
+  }
+
+  /** Purge expired trash now and then hourly; servers call this at startup. */
+  scheduleTrashPurge(): NodeJS.Timeout {
+    return this.dbHandler.scheduleTrashPurge();
+  }
+
+  /**
+   * List deleted repos, features and tasks, newest first
+   */
+  async listTrash(repoName?: string): Promise<ListTrashResult> {
+    try {
+      const items = this.dbHandler.listTrash(repoName);
+      const { retentionDays } = this.dbHandler.getTrashSettings();
+      return {
+        success: true,
+        items,
+        retentionDays,
+        message: `${items.length} item(s) in the trash`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        items: [],
+        retentionDays: 0,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Restore a deleted repo, feature or task with all its history
+   */
+  async restoreFromTrash(trashId: number): Promise<RestoreFromTrashResult> {
+    try {
+      const item = this.dbHandler.restoreFromTrash(trashId);
+      const name = item.entityType === 'repo' ? item.repoName : item.entityType === 'feature' ? item.featureSlug : item.taskId;
+      return {
+        success: true,
+        item,
+        message: `Restored ${item.entityType} '${name}'`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Integrity Check
+  // ─────────────────────────────────────────────────────────────────────
+
+  /**
+   * Report database anomalies by category, optionally repairing what can be
+   * fixed safely
+   */
+  async checkIntegrity(options: { repair?: boolean } = {}): Promise<IntegrityCheckResult> {
+    try {
+      const report = this.dbHandler.checkIntegrity(options);
+      return {
+        success: true,
+        report,
+        message: report.repaired
+          ? `Found ${report.issueCount} issue(s); ${report.remainingCount} remain after repair`
+          : `Found ${report.issueCount} issue(s)`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Repo Review Settings
+  // ─────────────────────────────────────────────────────────────────────
+
+  /** Return a repo's review settings (completeness mode). */
+  getReviewSettings(repoName: string): RepoReviewSettings {
+    return this.dbHandler.getReviewSettings(repoName);
+  }
+
+  /** Update a repo's review settings. */
+  updateReviewSettings(repoName: string, updates: Partial<RepoReviewSettings>): RepoReviewSettings {
+    // The policy binds agents, so only callers without an agent identity may change it
+    const agent = currentAgent();
+    if (updates.separatedRoles !== undefined && agent) {
+      throw new Error(`Agent ${agent.name} may not change separatedRoles`);
+    }
+    for (const group of updates.separatedRoles ?? []) {
+      if (new Set(group).size < 2) {
+        throw new Error('Each separatedRoles group needs at least two different roles');
+      }
+      const unknown = group.filter((role) => role !== 'system' && !this.dbHandler.hasRole(role));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown pipeline role: ${unknown.join(', ')}`);
+      }
+    }
+    this.dbHandler.updateReviewSettings(repoName, updates);
+    return this.dbHandler.getReviewSettings(repoName);
+  }
+
   // ─────────────────────────────────────────────────────────────────────
   // Dev Queue Operations
   // ─────────────────────────────────────────────────────────────────────
@@ -2369,10 +3234,79 @@ export class AIConductor {
   // ─────────────────────────────────────────────────────────────────────
 
   /** Return all role prompt configs from the database. */
-  getAllRolePrompts(): Array<RolePromptConfig & { roleId: string; isCustom: boolean; updatedAt: string }> {
+  getAllRolePrompts(): PipelineRoleRecord[] {
     return this.dbHandler.getAllRolePrompts();
   }
 
+  /** Check whether a role (built-in or user-defined) is registered. */
+  hasPipelineRole(roleId: string): boolean {
+    return this.dbHandler.hasRole(roleId);
+  }
+
+  /**
+   * Register a user-defined pipeline role (e.g. performanceEngineer) with its own prompt config.
+   * Review-phase roles can then be used as workflow stage stakeholders.
+   */
+  async registerPipelineRole(input: RegisterPipelineRoleInput): Promise<{ success: boolean; role?: PipelineRoleRecord; error?: string }> {
+    try {
+      this.refuseAgent('register pipeline roles');
+      if (!/^[a-z][a-zA-Z0-9]*$/.test(input.roleId || '')) {
+        throw new Error('roleId must be camelCase letters and digits (e.g. performanceEngineer)');
+      }
+      // 'system' is an actor, not a role, but shares the same namespace in transitions
+      if (input.roleId === 'system' || this.dbHandler.hasRole(input.roleId)) {
+        throw new Error(`Role already exists: ${input.roleId}`);
+      }
+      if (!input.displayName || input.displayName.trim() === '') {
+        throw new Error('displayName is required');
+      }
+      if (!input.systemPrompt || input.systemPrompt.trim() === '') {
+        throw new Error('systemPrompt is required');
+      }
+      if (input.phase !== 'review' && input.phase !== 'execution') {
+        throw new Error(`phase must be 'review' or 'execution'`);
+      }
+
+      this.dbHandler.createRole(input.roleId, input.displayName.trim(), {
+        systemPrompt: input.systemPrompt,
+        focusAreas: input.focusAreas ?? [],
+        researchInstructions: input.researchInstructions ?? '',
+        requiredOutputFields: input.requiredOutputFields ?? [],
+        phase: input.phase,
+      });
+
+      const role = this.dbHandler.getAllRolePrompts().find((r) => r.roleId === input.roleId);
+      return { success: true, role };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Delete a user-defined pipeline role.
+   * Refused for built-in roles and for roles still used as a stage stakeholder by any repo.
+   */
+  async deletePipelineRole(roleId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      this.refuseAgent('delete pipeline roles');
+      if (isBuiltInRole(roleId)) {
+        throw new Error(`Built-in role '${roleId}' cannot be deleted`);
+      }
+      const usedBy = this.dbHandler.listWorkflowDefinitions()
+        .filter((d) => d.stages.some((stage) => stageReviewers(stage).includes(roleId)))
+        .map((d) => d.repoName);
+      if (usedBy.length > 0) {
+        throw new Error(`Role '${roleId}' is a stage stakeholder in the workflow of: ${usedBy.join(', ')}`);
+      }
+      if (!this.dbHandler.deleteRole(roleId)) {
+        throw new Error(`Unknown pipeline role: ${roleId}`);
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
   /** Return a single role prompt config from the database (falls back to static default). */
   getRolePrompt(roleId: PipelineRole): RolePromptConfig {
     return this.dbHandler.getRolePrompt(roleId);
@@ -2390,4 +3324,143 @@ export class AIConductor {
   resetRolePrompt(roleId: PipelineRole): RolePromptConfig {
     return this.dbHandler.resetRolePrompt(roleId);
   }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Agent Identities
+  // ─────────────────────────────────────────────────────────────────────
+
+  /**
+   * Create a named agent identity allowed to act in the given roles. The
+   * returned token authenticates MCP sessions as the agent; it is not stored
+   * and cannot be shown again.
+   */
+  async createAgentIdentity(input: CreateAgentIdentityInput): Promise<CreateAgentIdentityResult> {
+    try {
+      this.refuseAgent('create agent identities');
+      if (!/^[a-z][a-z0-9-]*$/.test(input.name || '')) {
+        throw new Error('name must be lowercase letters, digits and dashes (e.g. dev-agent-1)');
+      }
+      if (this.dbHandler.getAgentIdentity(input.name)) {
+        throw new Error(`Agent already exists: ${input.name}`);
+      }
+      const roles = [...new Set(input.roles ?? [])];
+      if (roles.length === 0) {
+        throw new Error('An agent needs at least one role');
+      }
+      const unknown = roles.filter((role) => role !== 'system' && !this.dbHandler.hasRole(role));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown pipeline role: ${unknown.join(', ')}`);
+      }
+
+      const token = generateAgentToken();
+      const identity = this.dbHandler.createAgentIdentity(input.name, roles, hashAgentToken(token));
+      return { success: true, identity, token };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  listAgentIdentities(): AgentIdentity[] {
+    return this.dbHandler.listAgentIdentities();
+  }
+
+  /** Return whether MCP sessions must authenticate as an agent identity. */
+  getAgentSettings(): AgentSettings {
+    return this.dbHandler.getAgentSettings();
+  }
+
+  /** Update the agent settings; agents themselves may not change them. */
+  updateAgentSettings(updates: Partial<AgentSettings>): AgentSettings {
+    this.refuseAgent('change agent settings');
+    this.dbHandler.updateAgentSettings(updates);
+    return this.dbHandler.getAgentSettings();
+  }
+
+  /** The agent a token belongs to, if any. */
+  findAgentIdentity(token: string): AgentIdentity | undefined {
+    return this.dbHandler.findAgentIdentityByTokenHash(hashAgentToken(token));
+  }
+
+  async deleteAgentIdentity(name: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      this.refuseAgent('delete agent identities');
+      if (!this.dbHandler.deleteAgentIdentity(name)) {
+        throw new Error(`Unknown agent: ${name}`);
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Workflow Definitions
+  // ─────────────────────────────────────────────────────────────────────
+
+  /** Return the active review pipeline for a repo (the default pipeline if none is stored). */
+  async getWorkflowDefinition(repoName: string): Promise<GetWorkflowDefinitionResult> {
+    try {
+      return { success: true, definition: this.dbHandler.getWorkflowDefinition(repoName) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Replace a repo's review pipeline.
+   * Refused when tasks still sit in a review stage the new definition drops.
+   */
+  async setWorkflowDefinition(input: SetWorkflowDefinitionInput): Promise<SetWorkflowDefinitionResult> {
+    try {
+      this.refuseAgent('change the review pipeline');
+      const reviewRoles = this.dbHandler.getAllRolePrompts()
+        .filter((r) => r.phase === 'review')
+        .map((r) => r.roleId);
+      const validation = this.validator.validateWorkflowDefinition(input.stages, reviewRoles);
+      if (!validation.valid) {
+        return { success: false, errors: validation.errors, error: 'Invalid workflow definition' };
+      }
+
+      const stranded = this.findStrandedTasks(input.repoName, input.stages.map((s) => s.status));
+      if (stranded.length > 0) {
+        return {
+          success: false,
+          error: `Tasks are in review stages removed by this definition: ${stranded.join(', ')}`,
+        };
+      }
+
+      const definition = this.dbHandler.setWorkflowDefinition(input.repoName, input.stages);
+      return { success: true, definition };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /** Drop a repo's custom review pipeline so it uses the default stages again. */
+  async resetWorkflowDefinition(repoName: string): Promise<SetWorkflowDefinitionResult> {
+    try {
+      this.refuseAgent('change the review pipeline');
+      const defaults = new WorkflowValidator().getStages();
+      const stranded = this.findStrandedTasks(repoName, defaults.map((s) => s.status));
+      if (stranded.length > 0) {
+        return {
+          success: false,
+          error: `Tasks are in review stages removed by the default definition: ${stranded.join(', ')}`,
+        };
+      }
+
+      const definition = this.dbHandler.resetWorkflowDefinition(repoName);
+      return { success: true, definition };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /** List "<featureSlug>/<taskId> (<status>)" for tasks in a review status not among `stageStatuses`. */
+  private findStrandedTasks(repoName: string, stageStatuses: TaskStatus[]): string[] {
+    return this.dbHandler
+      .getReviewStageTasks(repoName)
+      .filter((t) => !stageStatuses.includes(t.status))
+      .map((t) => `${t.featureSlug}/${t.taskId} (${t.status})`);
+  }
 }
@@ -4,9 +4,15 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs-extra';
-import { TaskFile, Task, Transition, AcceptanceCriterion, TestScenario, StakeholderReview } from './types.js';
-import { ROLE_SYSTEM_PROMPTS, RolePromptConfig } from './rolePrompts.js';
-import { PipelineRole } from './types.js';
+import { TaskFile, Task, Transition, AcceptanceCriterion, TestScenario, StakeholderReview, StakeholderReviewEntry } from './types.js';
+import { ROLE_SYSTEM_PROMPTS, BUILT_IN_ROLE_NAMES, RolePromptConfig, PipelineRoleRecord, isBuiltInRole } from './rolePrompts.js';
+import { AgentIdentity, AgentSettings, AuditEntityType, AuditEntry, AuditLogQuery, AuditOperation, BackupInfo, BackupReason, BackupSettings, BundleConflictMode, BundleRow, ImportedFeature, IntegrityCategory, IntegrityIssue, IntegrityReport, ParkedStatus, PipelineRole, RepoBundle, RepoBundleFeature, RepoReviewSettings, SearchHit, SearchInput, TaskStatus, TrashEntityType, TrashItem, TrashSettings, WorkflowDefinition, WorkflowStage } from './types.js';
+import { DEFAULT_WORKFLOW_STAGES, parseReviewKey } from './workflowDefinitions.js';
+import { VersionConflictError } from './versionConflict.js';
+import { MigrationRunner } from './migrationRunner.js';
+import { createBackup, defaultBackupDir, listBackups, pruneBackups } from './backupManager.js';
+import { BUNDLE_TABLES, FEATURE_COLUMNS, REPO_BUNDLE_FORMAT, REPO_BUNDLE_VERSION, REPO_COLUMNS } from './repoBundle.js';
+import { AuditSnapshot, currentActor, diffSnapshots, notifyAuditEntry } from './auditLog.js';
 
 /** Row interface for the dev_queue table (feature-level, not task-level). */
 export interface DevQueueRow {
@@ -22,6 +28,77 @@ export interface DevQueueRow {
   retry_count: number;
   worker_pid: number | null;
 }
+
+/** A trash row: the index entry of a deleted repo, feature or task */
+interface TrashRow {
+  id: number;
+  entity_type: TrashEntityType;
+  repo_name: string;
+  feature_slug: string | null;
+  task_id: string | null;
+  label: string;
+  deleted_at: string;
+  deleted_by: string;
+}
+
+/** The tables whose rows are marked deleted when an entity of each type goes to the trash */
+const TRASH_TABLES: Record<TrashEntityType, Array<'repos' | 'features' | 'tasks'>> = {
+  repo: ['repos', 'features', 'tasks'],
+  feature: ['features', 'tasks'],
+  task: ['tasks'],
+};
+
+/** Tables whose rows belong to a task */
+const TASK_CHILD_TABLES = ['transitions', 'acceptance_criteria', 'test_scenarios', 'stakeholder_reviews'];
+
+/** Tables whose rows belong to a feature */
+const FEATURE_CHILD_TABLES = [
+  'tasks',
+  'feature_refinement_steps',
+  'feature_acceptance_criteria',
+  'feature_test_scenarios',
+  'feature_clarifications',
+  'feature_attachments',
+  'workflow_checkpoints',
+];
+
+/** The integrity check's categories, in the order repair works through them */
+const INTEGRITY_CATEGORIES: Array<{ category: IntegrityCategory; description: string; repairable: boolean }> = [
+  {
+    category: 'null_repo_name',
+    description: 'Rows without a repo_name; repair assigns them to the default repo like the multi-repo migration did',
+    repairable: true,
+  },
+  {
+    category: 'orphan_feature_rows',
+    description: 'Tasks, refinement steps, feature criteria and scenarios, clarifications, attachments and checkpoints whose feature does not exist; repair moves tasks to the trash and deletes the rest',
+    repairable: true,
+  },
+  {
+    category: 'orphan_task_rows',
+    description: 'Transitions, reviews, acceptance criteria and test scenarios whose task does not exist; repair deletes them',
+    repairable: true,
+  },
+  {
+    category: 'dangling_dependencies',
+    description: 'Task dependencies on task IDs that do not exist in the feature; repair removes them from the list',
+    repairable: true,
+  },
+  {
+    category: 'duplicate_criterion_ids',
+    description: 'Acceptance criteria whose ID repeats another in the same task or feature, ignoring case and surrounding spaces',
+    repairable: false,
+  },
+];
+
+/** A row found by an integrity check, keyed by rowid */
+interface IntegrityRow {
+  row_id: number;
+  repo_name?: string | null;
+  feature_slug?: string | null;
+  task_id?: string | null;
+}
+
 export class DatabaseHandler {
   private db: Database.Database;
   private workspaceRoot: string;
@@ -40,217 +117,13 @@ export class DatabaseHandler {
     this.db = new Database(finalDbPath);
     this.db.pragma('journal_mode = WAL'); // Better concurrency
 
-    this.initializeTables();
-    this.runMigrations();
+    // The schema is built by the numbered files in migrations/
+    new MigrationRunner(this.db).up();
     this.migrateOldRoles();
     this.seedRolePrompts();
     this.seedDefaultSettings();
   }
 
-  /**
-   * Initialize database tables
-   */
-  private initializeTables(): void {
-    this.db.exec(`
-      -- Features table
-      CREATE TABLE IF NOT EXISTS features (
-        feature_slug TEXT PRIMARY KEY,
-        feature_name TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        last_modified TEXT NOT NULL
-      );
-
-      -- Tasks table
-      CREATE TABLE IF NOT EXISTS tasks (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        feature_slug TEXT NOT NULL,
-        task_id TEXT NOT NULL,
-        title TEXT NOT NULL,
-        description TEXT NOT NULL,
-        status TEXT NOT NULL,
-        assigned_to TEXT,
-        estimated_hours REAL,
-        order_of_execution INTEGER NOT NULL DEFAULT 0,
-        tags TEXT, -- JSON array
-        dependencies TEXT, -- JSON array
-        out_of_scope TEXT, -- JSON array
-        UNIQUE(feature_slug, task_id),
-        FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
-      );
-
-      -- Transitions table
-      CREATE TABLE IF NOT EXISTS transitions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        feature_slug TEXT NOT NULL,
-        task_id TEXT NOT NULL,
-        from_status TEXT NOT NULL,
-        to_status TEXT NOT NULL,
-        approver TEXT,
-        actor TEXT,
-        timestamp TEXT NOT NULL,
-        notes TEXT,
-        additional_data TEXT, -- JSON for all additional fields
-        FOREIGN KEY(feature_slug, task_id) REFERENCES tasks(feature_slug, task_id) ON DELETE CASCADE
-      );
-
-      -- Acceptance Criteria table
-      CREATE TABLE IF NOT EXISTS acceptance_criteria (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        feature_slug TEXT NOT NULL,
-        task_id TEXT NOT NULL,
-        criterion_id TEXT NOT NULL,
-        criterion TEXT NOT NULL,
-        priority TEXT NOT NULL,
-        verified INTEGER NOT NULL DEFAULT 0,
-        UNIQUE(feature_slug, task_id, criterion_id),
-        FOREIGN KEY(feature_slug, task_id) REFERENCES tasks(feature_slug, task_id) ON DELETE CASCADE
-      );
-
-      -- Test Scenarios table
-      CREATE TABLE IF NOT EXISTS test_scenarios (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        feature_slug TEXT NOT NULL,
-        task_id TEXT NOT NULL,
-        scenario_id TEXT NOT NULL,
-        title TEXT NOT NULL,
-        description TEXT NOT NULL,
-        manual_only INTEGER NOT NULL DEFAULT 0,
-        priority TEXT NOT NULL,
-        UNIQUE(feature_slug, task_id, scenario_id),
-        FOREIGN KEY(feature_slug, task_id) REFERENCES tasks(feature_slug, task_id) ON DELETE CASCADE
-      );
-
-      -- Stakeholder Reviews table
-      CREATE TABLE IF NOT EXISTS stakeholder_reviews (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        feature_slug TEXT NOT NULL,
-        task_id TEXT NOT NULL,
-        stakeholder TEXT NOT NULL,
-        approved INTEGER NOT NULL,
-        notes TEXT NOT NULL,
-        additional_data TEXT, -- JSON for role-specific fields
-        UNIQUE(feature_slug, task_id, stakeholder),
-        FOREIGN KEY(feature_slug, task_id) REFERENCES tasks(feature_slug, task_id) ON DELETE CASCADE
-      );
-
-      -- Workflow Checkpoints table (Recommendation 3)
-      CREATE TABLE IF NOT EXISTS workflow_checkpoints (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        repo_name TEXT NOT NULL,
-        feature_slug TEXT NOT NULL,
-        description TEXT NOT NULL,
-        saved_at TEXT NOT NULL,
-        snapshot TEXT NOT NULL,
-        FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
-      );
-
-      -- Feature Refinement Steps table
-      CREATE TABLE IF NOT EXISTS feature_refinement_steps (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        repo_name TEXT NOT NULL,
-        feature_slug TEXT NOT NULL,
-        step_number INTEGER NOT NULL,
-        step_name TEXT NOT NULL,
-        completed BOOLEAN DEFAULT 0,
-        completed_at TEXT,
-        summary TEXT,
-        data TEXT,
-        UNIQUE(repo_name, feature_slug, step_number),
-        FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
-      );
-
-      -- Feature Attachments table
-      CREATE TABLE IF NOT EXISTS feature_attachments (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        repo_name TEXT NOT NULL,
-        feature_slug TEXT NOT NULL,
-        attachment_name TEXT NOT NULL,
-        attachment_type TEXT NOT NULL,
-        file_path TEXT,
-        file_url TEXT,
-        analysis_summary TEXT,
-        extracted_data TEXT,
-        FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
-      );
-
-      -- Feature Clarifications table
-      CREATE TABLE IF NOT EXISTS feature_clarifications (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        repo_name TEXT NOT NULL,
-        feature_slug TEXT NOT NULL,
-        question TEXT NOT NULL,
-        answer TEXT,
-        asked_by TEXT DEFAULT 'llm',
-        created_at TEXT NOT NULL,
-        FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
-      );
-
-      -- Reviewer Presence table (T03: Presence Tracking)
-      CREATE TABLE IF NOT EXISTS reviewer_presence (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        reviewer_id TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'online',
-        current_feature TEXT,
-        started_at INTEGER NOT NULL,
-        expires_at INTEGER NOT NULL,
-        created_at TEXT NOT NULL,
-        UNIQUE(reviewer_id)
-      );
-
-      -- Indexes for performance
-      CREATE INDEX IF NOT EXISTS idx_tasks_feature ON tasks(feature_slug);
-      CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
-      CREATE INDEX IF NOT EXISTS idx_transitions_task ON transitions(feature_slug, task_id);
-      CREATE INDEX IF NOT EXISTS idx_acceptance_criteria_task ON acceptance_criteria(feature_slug, task_id);
-      CREATE INDEX IF NOT EXISTS idx_test_scenarios_task ON test_scenarios(feature_slug, task_id);
-      CREATE INDEX IF NOT EXISTS idx_stakeholder_reviews_task ON stakeholder_reviews(feature_slug, task_id);
-      CREATE INDEX IF NOT EXISTS idx_checkpoints_feature ON workflow_checkpoints(repo_name, feature_slug);
-      CREATE INDEX IF NOT EXISTS idx_presence_reviewer ON reviewer_presence(reviewer_id);
-      CREATE INDEX IF NOT EXISTS idx_presence_expiry ON reviewer_presence(expires_at);
-      CREATE INDEX IF NOT EXISTS idx_presence_status ON reviewer_presence(status);
-
-      -- Dev Queue table (feature-level: one entry per feature, not per task)
-      CREATE TABLE IF NOT EXISTS dev_queue (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        repo_name TEXT NOT NULL,
-        feature_slug TEXT NOT NULL,
-        status TEXT NOT NULL DEFAULT 'pending'
-          CHECK(status IN ('pending', 'running', 'completed', 'failed')),
-        cli_tool TEXT NOT NULL DEFAULT 'claude',
-        created_at TEXT NOT NULL,
-        started_at TEXT,
-        completed_at TEXT,
-        error_message TEXT,
-        retry_count INTEGER NOT NULL DEFAULT 0,
-        worker_pid INTEGER,
-        UNIQUE(repo_name, feature_slug, status)
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_dev_queue_status ON dev_queue(status);
-      CREATE INDEX IF NOT EXISTS idx_dev_queue_repo_feature ON dev_queue(repo_name, feature_slug);
-      CREATE INDEX IF NOT EXISTS idx_dev_queue_composite ON dev_queue(repo_name, feature_slug, status);
-
-      -- Application Settings table (key-value store)
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-
-      -- Role Prompts table
-      CREATE TABLE IF NOT EXISTS role_prompts (
-        role_id TEXT PRIMARY KEY,
-        system_prompt TEXT NOT NULL,
-        focus_areas TEXT NOT NULL DEFAULT '[]',
-        research_instructions TEXT NOT NULL DEFAULT '',
-        required_output_fields TEXT NOT NULL DEFAULT '[]',
-        phase TEXT NOT NULL DEFAULT 'review',
-        is_custom INTEGER NOT NULL DEFAULT 0,
-        updated_at TEXT NOT NULL
-      );
-    `);
-  }
-
   /**
    * Seed default application settings.
    * Idempotent — uses INSERT OR IGNORE to skip existing keys.
@@ -261,6 +134,9 @@ export class DatabaseHandler {
       baseReposFolder: '',
       cliTool: 'claude',
       workerEnabled: 'false',
+      backupIntervalHours: '24',
+      backupRetention: '7',
+      trashRetentionDays: '30',
     };
     const insert = this.db.prepare(
       `INSERT OR IGNORE INTO settings (key, value, updated_at) VALUES (?, ?, ?)`
@@ -287,6 +163,7 @@ export class DatabaseHandler {
    * Set a single setting value (upsert).
    */
   setSetting(key: string, value: string): void {
+    this.audit('setting', key, this.rowSnapshot('settings', 'key = ?', [key], ['key', 'updated_at']), { value });
     this.db.prepare(`
       INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
@@ -308,20 +185,24 @@ export class DatabaseHandler {
   /**
    * Get queue-specific settings as a typed object.
    */
-  getQueueSettings(): { cronIntervalSeconds: number; baseReposFolder: string; cliTool: string; workerEnabled: boolean } {
+  getQueueSettings(): { cronIntervalSeconds: number; baseReposFolder: string; cliTool: string; workerEnabled: boolean; completionExcludedStatuses: ParkedStatus[] } {
     const all = this.getAllSettings();
     return {
       cronIntervalSeconds: parseInt(all['cronIntervalSeconds'] ?? '60', 10),
       baseReposFolder: all['baseReposFolder'] ?? '',
       cliTool: all['cliTool'] ?? 'claude',
       workerEnabled: all['workerEnabled'] === 'true',
+      // Parked statuses left out of completion and readiness checks
+      completionExcludedStatuses: all['completionExcludedStatuses']
+        ? JSON.parse(all['completionExcludedStatuses'])
+        : ['Cancelled'],
     };
   }
 
   /**
    * Update multiple queue settings at once.
    */
-  updateQueueSettings(updates: Partial<{ cronIntervalSeconds: number; baseReposFolder: string; cliTool: string; workerEnabled: boolean }>): void {
+  updateQueueSettings(updates: Partial<{ cronIntervalSeconds: number; baseReposFolder: string; cliTool: string; workerEnabled: boolean; completionExcludedStatuses: ParkedStatus[] }>): void {
     if (updates.cronIntervalSeconds !== undefined) {
       this.setSetting('cronIntervalSeconds', String(updates.cronIntervalSeconds));
     }
@@ -334,6 +215,261 @@ export class DatabaseHandler {
     if (updates.workerEnabled !== undefined) {
       this.setSetting('workerEnabled', String(updates.workerEnabled));
     }
+    if (updates.completionExcludedStatuses !== undefined) {
+      this.setSetting('completionExcludedStatuses', JSON.stringify(updates.completionExcludedStatuses));
+    }
+  }
+
+  /**
+   * Get the backup schedule. The directory comes from BACKUP_DIR, not the settings table.
+   */
+  getBackupSettings(): BackupSettings {
+    const all = this.getAllSettings();
+    return {
+      intervalHours: parseInt(all['backupIntervalHours'] ?? '24', 10),
+      retention: parseInt(all['backupRetention'] ?? '7', 10),
+      directory: defaultBackupDir(this.db.name),
+    };
+  }
+
+  /**
+   * Update the backup schedule and/or retention count.
+   */
+  updateBackupSettings(updates: Partial<Pick<BackupSettings, 'intervalHours' | 'retention'>>): void {
+    if (updates.intervalHours !== undefined) {
+      this.setSetting('backupIntervalHours', String(updates.intervalHours));
+    }
+    if (updates.retention !== undefined) {
+      this.setSetting('backupRetention', String(updates.retention));
+    }
+  }
+
+  /**
+   * Take an online backup, then prune down to the retention count.
+   */
+  async backup(reason: BackupReason): Promise<{ backup: BackupInfo; pruned: string[] }> {
+    const { directory, retention } = this.getBackupSettings();
+    const backup = await createBackup(this.db, directory, reason);
+    return { backup, pruned: pruneBackups(directory, retention) };
+  }
+
+  /**
+   * Backups in the backup directory, newest first.
+   */
+  listBackups(): BackupInfo[] {
+    return listBackups(this.getBackupSettings().directory);
+  }
+
+  /**
+   * Get a repo's review settings. Stored as `<setting>:<repoName>` keys; repos
+   * without an entry use warn-only completeness checks, only flag tasks whose
+   * approvals were superseded and keep no roles apart.
+   */
+  getReviewSettings(repoName: string): RepoReviewSettings {
+    const mode = this.getSetting(`reviewCompletenessMode:${repoName}`);
+    const stalePolicy = this.getSetting(`staleApprovalPolicy:${repoName}`);
+    const separatedRoles = this.getSetting(`separatedRoles:${repoName}`);
+    return {
+      completenessMode: mode === 'strict' ? 'strict' : 'warn',
+      staleApprovalPolicy: stalePolicy === 'sendBack' ? 'sendBack' : 'flag',
+      separatedRoles: separatedRoles ? JSON.parse(separatedRoles) : [],
+    };
+  }
+
+  /**
+   * Update a repo's review settings.
+   */
+  updateReviewSettings(repoName: string, updates: Partial<RepoReviewSettings>): void {
+    if (updates.completenessMode !== undefined) {
+      this.setSetting(`reviewCompletenessMode:${repoName}`, updates.completenessMode);
+    }
+    if (updates.staleApprovalPolicy !== undefined) {
+      this.setSetting(`staleApprovalPolicy:${repoName}`, updates.staleApprovalPolicy);
+    }
+    if (updates.separatedRoles !== undefined) {
+      this.setSetting(`separatedRoles:${repoName}`, JSON.stringify(updates.separatedRoles));
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Audit Log
+  // ─────────────────────────────────────────────────────────────────────
+
+  /**
+   * Query the audit log, newest first.
+   */
+  getAuditLog(query: AuditLogQuery = {}): { entries: AuditEntry[]; total: number } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const filters: Array<[string, unknown]> = [
+      ['actor = ?', query.actor],
+      ['entity_type = ?', query.entityType],
+      ['entity_id = ?', query.entityId],
+      ['repo_name = ?', query.repoName],
+      ['feature_slug = ?', query.featureSlug],
+      ['operation = ?', query.operation],
+      ['timestamp >= ?', query.since],
+      ['timestamp <= ?', query.until],
+    ];
+    for (const [condition, value] of filters) {
+      if (value !== undefined) {
+        conditions.push(condition);
+        params.push(value);
+      }
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const total = (this.db.prepare(`SELECT COUNT(*) as count FROM audit_log ${where}`).get(...params) as { count: number }).count;
+    const rows = this.db.prepare(`
+      SELECT id, timestamp, actor, entity_type, entity_id, repo_name, feature_slug, operation, changes
+      FROM audit_log ${where}
+      ORDER BY id DESC
+      LIMIT ? OFFSET ?
+    `).all(...params, query.limit ?? 50, query.offset ?? 0) as Array<{
+      id: number;
+      timestamp: string;
+      actor: string;
+      entity_type: AuditEntityType;
+      entity_id: string;
+      repo_name: string | null;
+      feature_slug: string | null;
+      operation: AuditOperation;
+      changes: string;
+    }>;
+
+    return {
+      total,
+      entries: rows.map((row) => ({
+        id: row.id,
+        timestamp: row.timestamp,
+        actor: row.actor,
+        entityType: row.entity_type,
+        entityId: row.entity_id,
+        repoName: row.repo_name ?? undefined,
+        featureSlug: row.feature_slug ?? undefined,
+        operation: row.operation,
+        changes: JSON.parse(row.changes),
+      })),
+    };
+  }
+
+  /**
+   * Record a change from `before` to `after`; a missing before is a create and
+   * a missing after a delete. Nothing is written when no audited field changed.
+   */
+  private audit(
+    entityType: AuditEntityType,
+    entityId: string | number,
+    before: AuditSnapshot | undefined,
+    after: AuditSnapshot | undefined,
+    scope: { repoName?: string; featureSlug?: string } = {}
+  ): void {
+    const changes = diffSnapshots(before, after);
+    if (Object.keys(changes).length === 0) return;
+    const operation: AuditOperation = !before ? 'create' : !after ? 'delete' : 'update';
+    const entry: Omit<AuditEntry, 'id'> = {
+      timestamp: new Date().toISOString(),
+      actor: currentActor(),
+      entityType,
+      entityId: String(entityId),
+      repoName: scope.repoName,
+      featureSlug: scope.featureSlug,
+      operation,
+      changes,
+    };
+    const result = this.db.prepare(`
+      INSERT INTO audit_log (timestamp, actor, entity_type, entity_id, repo_name, feature_slug, operation, changes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.timestamp,
+      entry.actor,
+      entry.entityType,
+      entry.entityId,
+      entry.repoName ?? null,
+      entry.featureSlug ?? null,
+      entry.operation,
+      JSON.stringify(changes)
+    );
+    notifyAuditEntry({ id: Number(result.lastInsertRowid), ...entry });
+  }
+
+  /**
+   * A row's audited columns: everything except its id, its repo/feature keys
+   * and the given bookkeeping columns. A row in the trash has no snapshot.
+   */
+  private rowSnapshot(table: string, where: string, params: unknown[], omit: string[] = []): AuditSnapshot | undefined {
+    const row = this.db.prepare(`SELECT * FROM ${table} WHERE ${where}`).get(...params) as AuditSnapshot | undefined;
+    if (!row || row.deleted_at) return undefined;
+    for (const column of ['id', 'repo_name', 'feature_slug', 'deleted_at', ...omit]) {
+      delete row[column];
+    }
+    return row;
+  }
+
+  /**
+   * A task's audited state: its columns plus its criteria, scenarios and reviews.
+   * Status changes are audited here too; their history stays in transitions.
+   */
+  private taskSnapshot(repoName: string, featureSlug: string, taskId: string): AuditSnapshot | undefined {
+    const where = 'repo_name = ? AND feature_slug = ? AND task_id = ?';
+    const params = [repoName, featureSlug, taskId];
+    const task = this.rowSnapshot('tasks', where, params, ['task_id', 'version']);
+    if (!task) return undefined;
+
+    const children = (table: string, orderBy: string) =>
+      (this.db.prepare(`SELECT * FROM ${table} WHERE ${where} ORDER BY ${orderBy}`).all(...params) as AuditSnapshot[])
+        .map(({ id: _id, repo_name: _repo, feature_slug: _feature, task_id: _task, ...row }) => row);
+    return {
+      ...task,
+      acceptance_criteria: children('acceptance_criteria', 'criterion_id'),
+      test_scenarios: children('test_scenarios', 'scenario_id'),
+      stakeholder_reviews: children('stakeholder_reviews', 'stakeholder, stage'),
+    };
+  }
+
+  private featureSnapshot(repoName: string, featureSlug: string): AuditSnapshot | undefined {
+    return this.rowSnapshot('features', 'repo_name = ? AND feature_slug = ?', [repoName, featureSlug], ['last_modified']);
+  }
+
+  private repoSnapshot(repoName: string): AuditSnapshot | undefined {
+    return this.rowSnapshot('repos', 'repo_name = ?', [repoName], ['last_accessed_at']);
+  }
+
+  private roleSnapshot(roleId: string): AuditSnapshot | undefined {
+    return this.rowSnapshot('role_prompts', 'role_id = ?', [roleId], ['role_id', 'updated_at']);
+  }
+
+  /** Stages are stored as JSON text; audited parsed so the diff shows them */
+  private workflowSnapshot(repoName: string): AuditSnapshot | undefined {
+    const row = this.rowSnapshot('workflow_definitions', 'repo_name = ?', [repoName], ['updated_at']);
+    return row && { stages: JSON.parse(row.stages as string) };
+  }
+
+  /**
+   * Snapshot an entity, run a change to it and audit the difference.
+   */
+  private audited<T>(
+    entityType: AuditEntityType,
+    entityId: string | number,
+    scope: { repoName?: string; featureSlug?: string },
+    snapshot: () => AuditSnapshot | undefined,
+    change: () => T
+  ): T {
+    const before = snapshot();
+    const result = change();
+    this.audit(entityType, entityId, before, snapshot(), scope);
+    return result;
+  }
+
+  private auditQueueItem<T>(id: number, change: () => T): T {
+    const item = this.getQueueItem(id);
+    return this.audited(
+      'queue_item',
+      id,
+      { repoName: item?.repo_name, featureSlug: item?.feature_slug },
+      () => this.rowSnapshot('dev_queue', 'id = ?', [id]),
+      change
+    );
   }
 
   // ─────────────────────────────────────────────────────────────────────
@@ -370,7 +506,9 @@ export class DatabaseHandler {
       `).get(repoName, featureSlug) as { id: number } | undefined;
       return { id: existing?.id ?? 0, alreadyQueued: true };
     }
-    return { id: Number(result.lastInsertRowid), alreadyQueued: false };
+    const id = Number(result.lastInsertRowid);
+    this.audit('queue_item', id, undefined, this.rowSnapshot('dev_queue', 'id = ?', [id]), { repoName, featureSlug });
+    return { id, alreadyQueued: false };
   }
 
   /**
@@ -389,10 +527,10 @@ export class DatabaseHandler {
 
     if (!row) return null;
 
-    this.db.prepare(`
+    this.auditQueueItem(row.id, () => this.db.prepare(`
       UPDATE dev_queue SET status = 'running', started_at = ?, worker_pid = ?
       WHERE id = ?
-    `).run(new Date().toISOString(), workerPid, row.id);
+    `).run(new Date().toISOString(), workerPid, row.id));
 
     return { ...row, status: 'running', worker_pid: workerPid };
   }
@@ -401,20 +539,20 @@ export class DatabaseHandler {
    * Mark a queue item as completed.
    */
   completeQueueItem(id: number): void {
-    this.db.prepare(`
+    this.auditQueueItem(id, () => this.db.prepare(`
       UPDATE dev_queue SET status = 'completed', completed_at = ?
       WHERE id = ?
-    `).run(new Date().toISOString(), id);
+    `).run(new Date().toISOString(), id));
   }
 
   /**
    * Mark a queue item as failed with a sanitized error message.
    */
   failQueueItem(id: number, errorMessage: string): void {
-    this.db.prepare(`
+    this.auditQueueItem(id, () => this.db.prepare(`
       UPDATE dev_queue SET status = 'failed', completed_at = ?, error_message = ?, retry_count = retry_count + 1
       WHERE id = ?
-    `).run(new Date().toISOString(), this.sanitizeErrorMessage(errorMessage), id);
+    `).run(new Date().toISOString(), this.sanitizeErrorMessage(errorMessage), id));
   }
 
   /**
@@ -491,12 +629,12 @@ export class DatabaseHandler {
       return { success: false, error: `Cannot re-enqueue: a pending item already exists for feature ${existing.feature_slug} (item #${pendingDup.id})` };
     }
 
-    const result = this.db.prepare(`
+    const result = this.auditQueueItem(idNum, () => this.db.prepare(`
       UPDATE dev_queue
       SET status = 'pending', retry_count = 0, error_message = NULL,
           started_at = NULL, completed_at = NULL, worker_pid = NULL
       WHERE id = ? AND status = 'failed'
-    `).run(idNum);
+    `).run(idNum));
 
     if (result.changes === 0) {
       return { success: false, error: 'Failed to re-enqueue item (concurrent modification)' };
@@ -524,9 +662,9 @@ export class DatabaseHandler {
       return { success: false, error: `Cannot cancel item in '${existing.status}' status. Item must be in 'pending' status.` };
     }
 
-    const result = this.db.prepare(`
+    const result = this.auditQueueItem(idNum, () => this.db.prepare(`
       DELETE FROM dev_queue WHERE id = ? AND status = 'pending'
-    `).run(idNum);
+    `).run(idNum));
 
     if (result.changes === 0) {
       return { success: false, error: 'Failed to cancel item (concurrent modification)' };
@@ -540,10 +678,15 @@ export class DatabaseHandler {
    */
   pruneQueueItems(olderThanDays: number = 7): number {
     const cutoff = new Date(Date.now() - olderThanDays * 86400000).toISOString();
-    const result = this.db.prepare(`
-      DELETE FROM dev_queue WHERE status IN ('completed', 'failed') AND completed_at < ?
-    `).run(cutoff);
-    return Number(result.changes);
+    const ids = (this.db.prepare(`
+      SELECT id FROM dev_queue WHERE status IN ('completed', 'failed') AND completed_at < ?
+    `).all(cutoff) as Array<{ id: number }>).map((row) => row.id);
+    return this.db.transaction(() => {
+      for (const id of ids) {
+        this.auditQueueItem(id, () => this.db.prepare(`DELETE FROM dev_queue WHERE id = ?`).run(id));
+      }
+      return ids.length;
+    })();
   }
 
   /**
@@ -555,14 +698,15 @@ export class DatabaseHandler {
     if (count > 0) return;
 
     const insert = this.db.prepare(`
-      INSERT INTO role_prompts (role_id, system_prompt, focus_areas, research_instructions, required_output_fields, phase, is_custom, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, 0, ?)
+      INSERT INTO role_prompts (role_id, display_name, system_prompt, focus_areas, research_instructions, required_output_fields, phase, is_custom, is_builtin, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0, 1, ?)
     `);
 
     const seedAll = this.db.transaction(() => {
       for (const [roleId, config] of Object.entries(ROLE_SYSTEM_PROMPTS)) {
         insert.run(
           roleId,
+          BUILT_IN_ROLE_NAMES[roleId as keyof typeof BUILT_IN_ROLE_NAMES],
           config.systemPrompt,
           JSON.stringify(config.focusAreas),
           config.researchInstructions,
@@ -578,7 +722,7 @@ export class DatabaseHandler {
 
   /**
    * Retrieve a single role prompt config from the database.
-   * Falls back to static default if no row found.
+   * Falls back to static default if no row found; throws for unknown user-defined roles.
    */
   getRolePrompt(roleId: PipelineRole): RolePromptConfig {
     const row = this.db.prepare(
@@ -595,6 +739,9 @@ export class DatabaseHandler {
     } | undefined;
 
     if (!row) {
+      if (!isBuiltInRole(roleId)) {
+        throw new Error(`Unknown pipeline role: ${roleId}`);
+      }
       // Fallback to static default
       return ROLE_SYSTEM_PROMPTS[roleId];
     }
@@ -609,32 +756,72 @@ export class DatabaseHandler {
   }
 
   /**
-   * Retrieve all role prompt configs from the database.
+   * Retrieve all role prompt configs from the database, built-in roles first.
    */
-  getAllRolePrompts(): Array<RolePromptConfig & { roleId: string; isCustom: boolean; updatedAt: string }> {
-    const rows = this.db.prepare('SELECT * FROM role_prompts ORDER BY role_id').all() as Array<{
+  getAllRolePrompts(): PipelineRoleRecord[] {
+    const rows = this.db.prepare('SELECT * FROM role_prompts ORDER BY is_builtin DESC, role_id').all() as Array<{
       role_id: string;
+      display_name: string | null;
       system_prompt: string;
       focus_areas: string;
       research_instructions: string;
       required_output_fields: string;
       phase: string;
       is_custom: number;
+      is_builtin: number;
       updated_at: string;
     }>;
 
     return rows.map(row => ({
       roleId: row.role_id,
+      displayName: row.display_name ?? row.role_id,
       systemPrompt: row.system_prompt,
       focusAreas: JSON.parse(row.focus_areas),
       researchInstructions: row.research_instructions,
       requiredOutputFields: JSON.parse(row.required_output_fields),
       phase: row.phase as 'review' | 'execution',
+      isBuiltIn: row.is_builtin === 1,
       isCustom: row.is_custom === 1,
       updatedAt: row.updated_at,
     }));
   }
 
+  /**
+   * Check whether a role (built-in or user-defined) is registered.
+   */
+  hasRole(roleId: string): boolean {
+    return isBuiltInRole(roleId) || !!this.db.prepare('SELECT role_id FROM role_prompts WHERE role_id = ?').get(roleId);
+  }
+
+  /**
+   * Register a user-defined pipeline role with its prompt config (is_builtin = 0).
+   */
+  createRole(roleId: string, displayName: string, config: RolePromptConfig): void {
+    this.audited('role', roleId, {}, () => this.roleSnapshot(roleId), () => this.db.prepare(`
+      INSERT INTO role_prompts (role_id, display_name, system_prompt, focus_areas, research_instructions, required_output_fields, phase, is_custom, is_builtin, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 1, 0, ?)
+    `).run(
+      roleId,
+      displayName,
+      config.systemPrompt,
+      JSON.stringify(config.focusAreas),
+      config.researchInstructions,
+      JSON.stringify(config.requiredOutputFields),
+      config.phase,
+      new Date().toISOString()
+    ));
+  }
+
+  /**
+   * Remove a user-defined pipeline role. Built-in roles are never deleted.
+   */
+  deleteRole(roleId: string): boolean {
+    const result = this.audited('role', roleId, {}, () => this.roleSnapshot(roleId), () =>
+      this.db.prepare('DELETE FROM role_prompts WHERE role_id = ? AND is_builtin = 0').run(roleId)
+    );
+    return result.changes > 0;
+  }
+
   /**
    * Update a role prompt config. Marks is_custom = 1.
    */
@@ -645,13 +832,17 @@ export class DatabaseHandler {
     // Ensure the row exists first (may not if DB was freshly created with just seeds)
     const existing = this.db.prepare('SELECT role_id FROM role_prompts WHERE role_id = ?').get(roleId);
     if (!existing) {
+      if (!isBuiltInRole(roleId)) {
+        throw new Error(`Unknown pipeline role: ${roleId}`);
+      }
       // Insert default first, then update
       const defaults = ROLE_SYSTEM_PROMPTS[roleId];
       this.db.prepare(`
-        INSERT INTO role_prompts (role_id, system_prompt, focus_areas, research_instructions, required_output_fields, phase, is_custom, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, 0, ?)
+        INSERT INTO role_prompts (role_id, display_name, system_prompt, focus_areas, research_instructions, required_output_fields, phase, is_custom, is_builtin, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, 0, 1, ?)
       `).run(
         roleId,
+        BUILT_IN_ROLE_NAMES[roleId],
         defaults.systemPrompt,
         JSON.stringify(defaults.focusAreas),
         defaults.researchInstructions,
@@ -662,7 +853,7 @@ export class DatabaseHandler {
     }
 
     const current = this.getRolePrompt(roleId);
-    this.db.prepare(`
+    this.audited('role', roleId, {}, () => this.roleSnapshot(roleId), () => this.db.prepare(`
       UPDATE role_prompts
       SET system_prompt = ?,
           focus_areas = ?,
@@ -678,15 +869,19 @@ export class DatabaseHandler {
       JSON.stringify(update.requiredOutputFields ?? current.requiredOutputFields),
       new Date().toISOString(),
       roleId
-    );
+    ));
   }
 
   /**
    * Reset a role prompt to its static default. Sets is_custom = 0.
+   * User-defined roles have no static default and cannot be reset.
    */
   resetRolePrompt(roleId: PipelineRole): RolePromptConfig {
+    if (!isBuiltInRole(roleId)) {
+      throw new Error(`Role '${roleId}' is user-defined and has no built-in default`);
+    }
     const defaults = ROLE_SYSTEM_PROMPTS[roleId];
-    this.db.prepare(`
+    this.audited('role', roleId, {}, () => this.roleSnapshot(roleId), () => this.db.prepare(`
       UPDATE role_prompts
       SET system_prompt = ?,
           focus_areas = ?,
@@ -704,10 +899,152 @@ export class DatabaseHandler {
       defaults.phase,
       new Date().toISOString(),
       roleId
-    );
+    ));
     return defaults;
   }
 
+  // ─────────────────────────────────────────────────────────────────────
+  // Agent Identities
+  // ─────────────────────────────────────────────────────────────────────
+
+  /** The token hash is left out so it never reaches the audit log */
+  private agentSnapshot(name: string): AuditSnapshot | undefined {
+    const row = this.rowSnapshot('agent_identities', 'name = ?', [name], ['name', 'token_hash']);
+    return row && { ...row, roles: JSON.parse(row.roles as string) };
+  }
+
+  private toAgentIdentity(row: { name: string; roles: string; created_at: string }): AgentIdentity {
+    return { name: row.name, roles: JSON.parse(row.roles), createdAt: row.created_at };
+  }
+
+  /**
+   * Store an agent identity with the hash of its token.
+   */
+  createAgentIdentity(name: string, roles: string[], tokenHash: string): AgentIdentity {
+    this.audited('agent', name, {}, () => this.agentSnapshot(name), () => this.db.prepare(`
+      INSERT INTO agent_identities (name, roles, token_hash, created_at) VALUES (?, ?, ?, ?)
+    `).run(name, JSON.stringify(roles), tokenHash, new Date().toISOString()));
+    return this.getAgentIdentity(name)!;
+  }
+
+  getAgentIdentity(name: string): AgentIdentity | undefined {
+    const row = this.db.prepare('SELECT * FROM agent_identities WHERE name = ?').get(name) as
+      | { name: string; roles: string; created_at: string }
+      | undefined;
+    return row && this.toAgentIdentity(row);
+  }
+
+  findAgentIdentityByTokenHash(tokenHash: string): AgentIdentity | undefined {
+    const row = this.db.prepare('SELECT * FROM agent_identities WHERE token_hash = ?').get(tokenHash) as
+      | { name: string; roles: string; created_at: string }
+      | undefined;
+    return row && this.toAgentIdentity(row);
+  }
+
+  listAgentIdentities(): AgentIdentity[] {
+    const rows = this.db.prepare('SELECT * FROM agent_identities ORDER BY name').all() as Array<{
+      name: string;
+      roles: string;
+      created_at: string;
+    }>;
+    return rows.map((row) => this.toAgentIdentity(row));
+  }
+
+  /**
+   * Remove an agent identity; its token stops working at once.
+   */
+  deleteAgentIdentity(name: string): boolean {
+    const result = this.audited('agent', name, {}, () => this.agentSnapshot(name), () =>
+      this.db.prepare('DELETE FROM agent_identities WHERE name = ?').run(name)
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Get the agent settings. Off by default: sessions without an agent token are served unrestricted.
+   */
+  getAgentSettings(): AgentSettings {
+    return { requireIdentity: this.getSetting('agentsRequireIdentity') === 'true' };
+  }
+
+  updateAgentSettings(updates: Partial<AgentSettings>): void {
+    if (updates.requireIdentity !== undefined) {
+      this.setSetting('agentsRequireIdentity', String(updates.requireIdentity));
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Workflow Definitions
+  // ─────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get the review pipeline for a repo.
+   * Falls back to the default stages if the repo has no stored definition.
+   */
+  getWorkflowDefinition(repoName: string = 'default'): WorkflowDefinition {
+    const row = this.db.prepare(
+      'SELECT stages, updated_at FROM workflow_definitions WHERE repo_name = ?'
+    ).get(repoName) as { stages: string; updated_at: string } | undefined;
+
+    if (!row) {
+      return { repoName, stages: DEFAULT_WORKFLOW_STAGES, isCustom: false };
+    }
+
+    return {
+      repoName,
+      stages: JSON.parse(row.stages),
+      isCustom: true,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * List every stored (custom) review pipeline.
+   */
+  listWorkflowDefinitions(): WorkflowDefinition[] {
+    const rows = this.db.prepare(
+      'SELECT repo_name, stages, updated_at FROM workflow_definitions ORDER BY repo_name'
+    ).all() as Array<{ repo_name: string; stages: string; updated_at: string }>;
+    return rows.map((row) => ({
+      repoName: row.repo_name,
+      stages: JSON.parse(row.stages),
+      isCustom: true,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  /**
+   * Store a custom review pipeline for a repo (upsert). Stages must already be validated.
+   */
+  setWorkflowDefinition(repoName: string, stages: WorkflowStage[]): WorkflowDefinition {
+    const now = new Date().toISOString();
+    this.audited('workflow', repoName, { repoName }, () => this.workflowSnapshot(repoName), () => this.db.prepare(`
+      INSERT INTO workflow_definitions (repo_name, stages, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(repo_name) DO UPDATE SET stages = excluded.stages, updated_at = excluded.updated_at
+    `).run(repoName, JSON.stringify(stages), now));
+    return { repoName, stages, isCustom: true, updatedAt: now };
+  }
+
+  /**
+   * Remove a repo's custom review pipeline so it uses the default stages again.
+   */
+  resetWorkflowDefinition(repoName: string): WorkflowDefinition {
+    this.audited('workflow', repoName, { repoName }, () => this.workflowSnapshot(repoName), () =>
+      this.db.prepare('DELETE FROM workflow_definitions WHERE repo_name = ?').run(repoName)
+    );
+    return { repoName, stages: DEFAULT_WORKFLOW_STAGES, isCustom: false };
+  }
+
+  /**
+   * List tasks of a repo that are currently waiting in a review stage (status Pending*).
+   */
+  getReviewStageTasks(repoName: string): Array<{ featureSlug: string; taskId: string; status: TaskStatus }> {
+    const rows = this.db.prepare(
+      `SELECT feature_slug, task_id, status FROM tasks WHERE repo_name = ? AND status LIKE 'Pending%' AND deleted_at IS NULL`
+    ).all(repoName) as Array<{ feature_slug: string; task_id: string; status: TaskStatus }>;
+    return rows.map((row) => ({ featureSlug: row.feature_slug, taskId: row.task_id, status: row.status }));
+  }
+
   /**
    * Migrate old role names and statuses to new pipeline roles.
    * Runs once on startup; idempotent (safe to re-run).
@@ -742,194 +1079,6 @@ export class DatabaseHandler {
     migrate();
   }
 
-  /**
-   * Run database migrations
-   * Automatically applies pending migrations on startup
-   */
-  private runMigrations(): void {
-    // Create migrations tracking table if it doesn't exist
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS _migrations (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT UNIQUE NOT NULL,
-        applied_at TEXT NOT NULL
-      );
-    `);
-
-    // Check if multi-repo migration has been applied
-    const multiRepoMigration = this.db.prepare(`
-      SELECT * FROM _migrations WHERE name = '001_add_multi_repo_support'
-    `).get();
-
-    if (!multiRepoMigration) {
-      // Read and execute the migration
-      const __dirname = path.dirname(new URL(import.meta.url).pathname);
-      const migrationPath = path.join(__dirname, 'migrations', '001_add_multi_repo_support.sql');
-
-      try {
-        const migrationSQL = fs.readFileSync(migrationPath, 'utf-8');
-        this.db.exec(migrationSQL);
-
-        // Record that migration was applied
-        this.db.prepare(`
-          INSERT INTO _migrations (name, applied_at) VALUES (?, ?)
-        `).run('001_add_multi_repo_support', new Date().toISOString());
-      } catch (error) {
-        // Migration file might not exist in production build
-        // In that case, we'll create the essential multi-repo structures inline
-        console.warn('Migration file not found, applying inline migration...');
-        this.applyMultiRepoMigrationInline();
-      }
-    }
-
-    // Migration 002: Add description column to features table
-    const descriptionMigration = this.db.prepare(`
-      SELECT * FROM _migrations WHERE name = '002_add_feature_description'
-    `).get();
-
-    if (!descriptionMigration) {
-      try {
-        this.db.exec(`ALTER TABLE features ADD COLUMN description TEXT`);
-      } catch (e) {
-        // Column may already exist if DB was manually altered — safe to ignore
-      }
-      this.db.prepare(`
-        INSERT OR IGNORE INTO _migrations (name, applied_at) VALUES (?, ?)
-      `).run('002_add_feature_description', new Date().toISOString());
-    }
-
-    // Migration 003: Convert dev_queue from task-level to feature-level
-    const queueMigration = this.db.prepare(`
-      SELECT * FROM _migrations WHERE name = '003_feature_level_queue'
-    `).get();
-
-    if (!queueMigration) {
-      try {
-        this.db.exec(`
-          -- Recreate dev_queue without task_id column
-          DROP TABLE IF EXISTS dev_queue;
-          CREATE TABLE dev_queue (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            repo_name TEXT NOT NULL,
-            feature_slug TEXT NOT NULL,
-            status TEXT NOT NULL DEFAULT 'pending'
-              CHECK(status IN ('pending', 'running', 'completed', 'failed')),
-            cli_tool TEXT NOT NULL DEFAULT 'claude',
-            created_at TEXT NOT NULL,
-            started_at TEXT,
-            completed_at TEXT,
-            error_message TEXT,
-            retry_count INTEGER NOT NULL DEFAULT 0,
-            worker_pid INTEGER,
-            UNIQUE(repo_name, feature_slug, status)
-          );
-          CREATE INDEX IF NOT EXISTS idx_dev_queue_status ON dev_queue(status);
-          CREATE INDEX IF NOT EXISTS idx_dev_queue_repo_feature ON dev_queue(repo_name, feature_slug);
-          CREATE INDEX IF NOT EXISTS idx_dev_queue_composite ON dev_queue(repo_name, feature_slug, status);
-        `);
-      } catch (e) {
-        console.warn('dev_queue migration warning:', e);
-      }
-      this.db.prepare(`
-        INSERT OR IGNORE INTO _migrations (name, applied_at) VALUES (?, ?)
-      `).run('003_feature_level_queue', new Date().toISOString());
-    }
-  }
-
-  /**
-   * Apply multi-repo migration inline (fallback if migration file not found)
-   */
-  private applyMultiRepoMigrationInline(): void {
-    try {
-      this.db.exec(`
-        BEGIN TRANSACTION;
-
-        -- Create repos table
-        CREATE TABLE IF NOT EXISTS repos (
-          repo_name TEXT PRIMARY KEY,
-          repo_path TEXT NOT NULL,
-          repo_url TEXT,
-          default_branch TEXT DEFAULT 'main',
-          created_at TEXT NOT NULL,
-          last_accessed_at TEXT NOT NULL,
-          metadata TEXT
-        );
-
-        -- Create view
-        CREATE VIEW IF NOT EXISTS v_repo_summary AS
-        SELECT
-          r.repo_name,
-          r.repo_path,
-          r.last_accessed_at,
-          COUNT(DISTINCT f.feature_slug) as feature_count,
-          COUNT(DISTINCT t.task_id) as total_tasks,
-          SUM(CASE WHEN t.status = 'Done' THEN 1 ELSE 0 END) as completed_tasks
-        FROM repos r
-        LEFT JOIN features f ON r.repo_name = f.repo_name
-        LEFT JOIN tasks t ON f.repo_name = t.repo_name AND f.feature_slug = t.feature_slug
-        GROUP BY r.repo_name, r.repo_path, r.last_accessed_at;
-
-        -- Insert default repo
-        INSERT OR IGNORE INTO repos (repo_name, repo_path, created_at, last_accessed_at)
-        VALUES ('default', '', datetime('now'), datetime('now'));
-
-        COMMIT;
-      `);
-
-      // Add repo_name columns (these might fail if already exist, that's ok)
-      const columnsToAdd = [
-        { table: 'features', column: 'repo_name' },
-        { table: 'tasks', column: 'repo_name' },
-        { table: 'transitions', column: 'repo_name' },
-        { table: 'acceptance_criteria', column: 'repo_name' },
-        { table: 'test_scenarios', column: 'repo_name' },
-        { table: 'stakeholder_reviews', column: 'repo_name' }
-      ];
-
-      for (const { table, column } of columnsToAdd) {
-        try {
-          this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} TEXT`);
-        } catch (e) {
-          // Column already exists, ignore
-        }
-      }
-
-      // Update existing records
-      this.db.exec(`
-        UPDATE features SET repo_name = 'default' WHERE repo_name IS NULL;
-        UPDATE tasks SET repo_name = 'default' WHERE repo_name IS NULL;
-        UPDATE transitions SET repo_name = 'default' WHERE repo_name IS NULL;
-        UPDATE acceptance_criteria SET repo_name = 'default' WHERE repo_name IS NULL;
-        UPDATE test_scenarios SET repo_name = 'default' WHERE repo_name IS NULL;
-        UPDATE stakeholder_reviews SET repo_name = 'default' WHERE repo_name IS NULL;
-      `);
-
-      // Create unique indexes required for ON CONFLICT upserts
-      const indexStatements = [
-        `CREATE UNIQUE INDEX IF NOT EXISTS idx_features_repo_slug ON features(repo_name, feature_slug)`,
-        `CREATE INDEX IF NOT EXISTS idx_tasks_repo_feature ON tasks(repo_name, feature_slug)`,
-        `CREATE INDEX IF NOT EXISTS idx_transitions_repo_task ON transitions(repo_name, feature_slug, task_id)`,
-        `CREATE INDEX IF NOT EXISTS idx_acceptance_criteria_repo_task ON acceptance_criteria(repo_name, feature_slug, task_id)`,
-        `CREATE INDEX IF NOT EXISTS idx_test_scenarios_repo_task ON test_scenarios(repo_name, feature_slug, task_id)`,
-        `CREATE INDEX IF NOT EXISTS idx_stakeholder_reviews_repo_task ON stakeholder_reviews(repo_name, feature_slug, task_id)`,
-      ];
-      for (const stmt of indexStatements) {
-        try {
-          this.db.exec(stmt);
-        } catch (e) {
-          // Index may already exist, ignore
-        }
-      }
-    } catch (error) {
-      console.error('Error applying inline migration:', error);
-    }
-
-    // Record that migration was applied
-    this.db.prepare(`
-      INSERT OR IGNORE INTO _migrations (name, applied_at) VALUES (?, ?)
-    `).run('001_add_multi_repo_support', new Date().toISOString());
-  }
-
   /**
    * Load task file by feature_slug and repo_name
    */
@@ -939,7 +1088,7 @@ export class DatabaseHandler {
       const feature = this.db.prepare(`
         SELECT feature_slug, feature_name, created_at, last_modified
         FROM features
-        WHERE feature_slug = ? AND repo_name = ?
+        WHERE feature_slug = ? AND repo_name = ? AND deleted_at IS NULL
       `).get(featureSlug, repoName) as any;
 
       if (!feature) {
@@ -968,7 +1117,7 @@ export class DatabaseHandler {
    */
   private loadTasksForFeature(featureSlug: string, repoName: string = 'default'): Task[] {
     const taskRows = this.db.prepare(`
-      SELECT * FROM tasks WHERE feature_slug = ? AND repo_name = ? ORDER BY order_of_execution
+      SELECT * FROM tasks WHERE feature_slug = ? AND repo_name = ? AND deleted_at IS NULL ORDER BY order_of_execution, id
     `).all(featureSlug, repoName) as any[];
 
     return taskRows.map(row => this.mapRowToTask(featureSlug, repoName, row));
@@ -998,7 +1147,10 @@ export class DatabaseHandler {
       transitions,
       stakeholderReview,
       orderOfExecution: row.order_of_execution,
-      tags: row.tags ? JSON.parse(row.tags) : []
+      tags: row.tags ? JSON.parse(row.tags) : [],
+      parked: row.parked ? JSON.parse(row.parked) : undefined,
+      reviewConditions: row.review_conditions ? JSON.parse(row.review_conditions) : undefined,
+      version: row.version ?? 0
     };
   }
 
@@ -1009,7 +1161,7 @@ export class DatabaseHandler {
     const rows = this.db.prepare(`
       SELECT * FROM transitions
       WHERE feature_slug = ? AND repo_name = ? AND task_id = ?
-      ORDER BY timestamp
+      ORDER BY id
     `).all(featureSlug, repoName, taskId) as any[];
 
     return rows.map(row => {
@@ -1033,6 +1185,7 @@ export class DatabaseHandler {
     const rows = this.db.prepare(`
       SELECT * FROM acceptance_criteria
       WHERE feature_slug = ? AND repo_name = ? AND task_id = ?
+      ORDER BY id
     `).all(featureSlug, repoName, taskId) as any[];
 
     return rows.map(row => ({
@@ -1050,6 +1203,7 @@ export class DatabaseHandler {
     const rows = this.db.prepare(`
       SELECT * FROM test_scenarios
       WHERE feature_slug = ? AND repo_name = ? AND task_id = ?
+      ORDER BY id
     `).all(featureSlug, repoName, taskId) as any[];
 
     return rows.map(row => ({
@@ -1068,16 +1222,19 @@ export class DatabaseHandler {
     const rows = this.db.prepare(`
       SELECT * FROM stakeholder_reviews
       WHERE feature_slug = ? AND repo_name = ? AND task_id = ?
+      ORDER BY id
     `).all(featureSlug, repoName, taskId) as any[];
 
     const review: StakeholderReview = {};
 
     for (const row of rows) {
       const additional = row.additional_data ? JSON.parse(row.additional_data) : {};
-      review[row.stakeholder as keyof StakeholderReview] = {
+      review[row.stage ? `${row.stakeholder}@${row.stage}` : row.stakeholder] = {
         approved: Boolean(row.approved),
         notes: row.notes,
-        ...additional
+        ...additional,
+        ...(row.content_hash ? { contentHash: row.content_hash } : {}),
+        ...(row.superseded_at ? { supersededAt: row.superseded_at } : {})
       } as any;
     }
 
@@ -1085,7 +1242,10 @@ export class DatabaseHandler {
   }
 
   /**
-   * Save task file by feature_slug
+   * Save task file by feature_slug, replacing every task of the feature.
+   * Changes to individual tasks go through saveTasks instead.
+   * Tasks read from the database must still be at the stored version, otherwise
+   * the save is refused with a VersionConflictError.
    */
   async saveByFeatureSlug(featureSlug: string, taskFile: TaskFile, repoName: string = 'default'): Promise<void> {
     // Ensure featureSlug matches taskFile.featureSlug
@@ -1095,28 +1255,57 @@ export class DatabaseHandler {
 
     const saveTransaction = this.db.transaction((data: TaskFile, repo: string) => {
       const now = new Date().toISOString();
+      const scope = { repoName: repo, featureSlug: data.featureSlug };
+      this.releaseTrashedKey({ repoName: repo, featureSlug: data.featureSlug });
 
       // Upsert feature
-      this.db.prepare(`
+      this.audited('feature', data.featureSlug, scope, () => this.featureSnapshot(repo, data.featureSlug), () => this.db.prepare(`
         INSERT INTO features (repo_name, feature_slug, feature_name, created_at, last_modified)
         VALUES (?, ?, ?, ?, ?)
         ON CONFLICT(repo_name, feature_slug) DO UPDATE SET
           feature_name = excluded.feature_name,
           last_modified = excluded.last_modified
-      `).run(repo, data.featureSlug, data.featureName, data.createdAt || now, now);
+      `).run(repo, data.featureSlug, data.featureName, data.createdAt || now, now));
+
+      const stored = new Map(
+        (this.db.prepare(`SELECT task_id, version FROM tasks WHERE repo_name = ? AND feature_slug = ? AND deleted_at IS NULL`)
+          .all(repo, data.featureSlug) as Array<{ task_id: string; version: number }>)
+          .map((row) => [row.task_id, row.version])
+      );
+      for (const task of data.tasks) {
+        const current = stored.get(task.taskId);
+        if (current !== undefined && task.version !== undefined && task.version !== current) {
+          throw new VersionConflictError(task.taskId, task.version, current);
+        }
+      }
 
-      // Delete existing tasks and related data (CASCADE will handle related tables)
-      this.db.prepare(`DELETE FROM tasks WHERE repo_name = ? AND feature_slug = ?`).run(repo, data.featureSlug);
+      const taskIds = new Set([...stored.keys(), ...data.tasks.map((task) => task.taskId)]);
+      const before = new Map([...stored.keys()].map((taskId) => [taskId, this.taskSnapshot(repo, data.featureSlug, taskId)]));
+
+      // Delete existing tasks and related data (CASCADE will handle related tables); trashed tasks stay
+      this.db.prepare(`DELETE FROM tasks WHERE repo_name = ? AND feature_slug = ? AND deleted_at IS NULL`).run(repo, data.featureSlug);
 
       // Insert all tasks
-      for (const task of data.tasks) {
-        this.saveTask(data.featureSlug, task, repo);
+      const versions = data.tasks.map((task) => {
+        const current = stored.get(task.taskId);
+        this.releaseTrashedKey({ repoName: repo, featureSlug: data.featureSlug, taskId: task.taskId });
+        const version = current === undefined ? 0 : current + 1;
+        this.saveTask(data.featureSlug, task, repo, version);
+        return version;
+      });
+      for (const taskId of taskIds) {
+        this.audit('task', taskId, before.get(taskId), this.taskSnapshot(repo, data.featureSlug, taskId), scope);
       }
+      return versions;
     });
 
     try {
-      saveTransaction(taskFile, repoName);
+      const versions = saveTransaction(taskFile, repoName);
+      taskFile.tasks.forEach((task, index) => {
+        task.version = versions[index];
+      });
     } catch (error) {
+      if (error instanceof VersionConflictError) throw error;
       throw new Error(
         `Failed to save feature: ${error instanceof Error ? error.message : String(error)}`
       );
@@ -1124,20 +1313,72 @@ export class DatabaseHandler {
   }
 
   /**
-   * Save a single task with all related data
+   * Save only the given tasks of a feature, leaving the feature's other tasks untouched.
+   * Existing rows are updated in place and keep their ids; new transitions are appended
+   * after the stored ones. Tasks not yet stored are inserted.
+   * Each task must still be at the version it was read at; otherwise nothing is saved
+   * and a VersionConflictError reports the current version. Saved tasks get their new version.
    */
-  private saveTask(featureSlug: string, task: Task, repoName: string = 'default'): void {
-    // Insert task
+  async saveTasks(featureSlug: string, tasks: Task[], repoName: string = 'default'): Promise<void> {
+    const saveTransaction = this.db.transaction((changed: Task[]) => this.writeTasks(featureSlug, changed, repoName));
+
+    try {
+      const versions = saveTransaction(tasks);
+      tasks.forEach((task, index) => {
+        task.version = versions[index];
+      });
+    } catch (error) {
+      if (error instanceof VersionConflictError) throw error;
+      throw new Error(
+        `Failed to save tasks: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Write tasks for saveTasks and updateTask; the caller holds the transaction.
+   * Returns each task's new version.
+   */
+  private writeTasks(featureSlug: string, changed: Task[], repoName: string): number[] {
+    const versions: number[] = [];
+    for (const task of changed) {
+      const before = this.taskSnapshot(repoName, featureSlug, task.taskId);
+      const updated = this.db.prepare(`
+        UPDATE tasks SET
+          title = ?, description = ?, status = ?, assigned_to = ?, estimated_hours = ?,
+          order_of_execution = ?, tags = ?, dependencies = ?, out_of_scope = ?,
+          parked = ?, review_conditions = ?, version = version + 1
+        WHERE repo_name = ? AND feature_slug = ? AND task_id = ? AND version = ? AND deleted_at IS NULL
+      `).run(...this.taskColumnValues(task), repoName, featureSlug, task.taskId, task.version ?? 0);
+
+      if (updated.changes === 0) {
+        const current = this.db.prepare(`
+          SELECT version FROM tasks WHERE repo_name = ? AND feature_slug = ? AND task_id = ? AND deleted_at IS NULL
+        `).get(repoName, featureSlug, task.taskId) as { version: number } | undefined;
+        if (current) {
+          throw new VersionConflictError(task.taskId, task.version ?? 0, current.version);
+        }
+        this.releaseTrashedKey({ repoName, featureSlug, taskId: task.taskId });
+        this.saveTask(featureSlug, task, repoName);
+        versions.push(0);
+      } else {
+        this.saveTaskRelations(featureSlug, task, repoName);
+        versions.push((task.version ?? 0) + 1);
+      }
+      this.audit('task', task.taskId, before, this.taskSnapshot(repoName, featureSlug, task.taskId), { repoName, featureSlug });
+    }
+
     this.db.prepare(`
-      INSERT INTO tasks (
-        repo_name, feature_slug, task_id, title, description, status,
-        assigned_to, estimated_hours, order_of_execution,
-        tags, dependencies, out_of_scope
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).run(
-      repoName,
-      featureSlug,
-      task.taskId,
+      UPDATE features SET last_modified = ? WHERE feature_slug = ? AND repo_name = ?
+    `).run(new Date().toISOString(), featureSlug, repoName);
+    return versions;
+  }
+
+  /**
+   * Column values of a task row, in the order used by saveTask and saveTasks
+   */
+  private taskColumnValues(task: Task): unknown[] {
+    return [
       task.title,
       task.description,
       task.status,
@@ -1146,11 +1387,46 @@ export class DatabaseHandler {
       task.orderOfExecution,
       task.tags ? JSON.stringify(task.tags) : null,
       task.dependencies ? JSON.stringify(task.dependencies) : null,
-      task.outOfScope ? JSON.stringify(task.outOfScope) : null
-    );
+      task.outOfScope ? JSON.stringify(task.outOfScope) : null,
+      task.parked ? JSON.stringify(task.parked) : null,
+      task.reviewConditions && task.reviewConditions.length > 0 ? JSON.stringify(task.reviewConditions) : null
+    ];
+  }
+
+  /**
+   * Save a single task with all related data
+   */
+  private saveTask(featureSlug: string, task: Task, repoName: string = 'default', version: number = 0): void {
+    // Insert task
+    this.db.prepare(`
+      INSERT INTO tasks (
+        repo_name, feature_slug, task_id,
+        title, description, status, assigned_to, estimated_hours,
+        order_of_execution, tags, dependencies, out_of_scope,
+        parked, review_conditions, version
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(repoName, featureSlug, task.taskId, ...this.taskColumnValues(task), version);
+
+    this.saveTaskRelations(featureSlug, task, repoName);
+  }
+
+  /**
+   * Bring a task's transitions, criteria, scenarios and reviews in line with the task.
+   * Transitions are append-only: rows past the stored history are inserted, and stored
+   * rows beyond the task's history (dropped by a rollback) are deleted. The other
+   * relations are updated by key, inserted when new and deleted when removed.
+   */
+  private saveTaskRelations(featureSlug: string, task: Task, repoName: string): void {
+    const key = [repoName, featureSlug, task.taskId];
 
-    // Insert transitions
-    for (const transition of task.transitions) {
+    // Transitions
+    const storedIds = (this.db.prepare(`
+      SELECT id FROM transitions WHERE repo_name = ? AND feature_slug = ? AND task_id = ? ORDER BY id
+    `).all(...key) as Array<{ id: number }>).map((row) => row.id);
+    for (const id of storedIds.slice(task.transitions.length)) {
+      this.db.prepare(`DELETE FROM transitions WHERE id = ?`).run(id);
+    }
+    for (const transition of task.transitions.slice(storedIds.length)) {
       const { from, to, approver, actor, timestamp, notes, ...additional } = transition;
       this.db.prepare(`
         INSERT INTO transitions (
@@ -1158,9 +1434,7 @@ export class DatabaseHandler {
           approver, actor, timestamp, notes, additional_data
         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
-        repoName,
-        featureSlug,
-        task.taskId,
+        ...key,
         from,
         to,
         approver || null,
@@ -1171,62 +1445,73 @@ export class DatabaseHandler {
       );
     }
 
-    // Insert acceptance criteria
+    // Acceptance criteria
     for (const criterion of task.acceptanceCriteria) {
-      this.db.prepare(`
-        INSERT INTO acceptance_criteria (
-          repo_name, feature_slug, task_id, criterion_id, criterion, priority, verified
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
-      `).run(
-        repoName,
-        featureSlug,
-        task.taskId,
-        criterion.id,
-        criterion.criterion,
-        criterion.priority,
-        criterion.verified ? 1 : 0
-      );
+      const updated = this.db.prepare(`
+        UPDATE acceptance_criteria SET criterion = ?, priority = ?, verified = ?
+        WHERE repo_name = ? AND feature_slug = ? AND task_id = ? AND criterion_id = ?
+      `).run(criterion.criterion, criterion.priority, criterion.verified ? 1 : 0, ...key, criterion.id);
+      if (updated.changes === 0) {
+        this.db.prepare(`
+          INSERT INTO acceptance_criteria (
+            repo_name, feature_slug, task_id, criterion_id, criterion, priority, verified
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(...key, criterion.id, criterion.criterion, criterion.priority, criterion.verified ? 1 : 0);
+      }
     }
+    this.db.prepare(`
+      DELETE FROM acceptance_criteria
+      WHERE repo_name = ? AND feature_slug = ? AND task_id = ?
+        AND criterion_id NOT IN (SELECT value FROM json_each(?))
+    `).run(...key, JSON.stringify(task.acceptanceCriteria.map((c) => c.id)));
 
-    // Insert test scenarios
-    if (task.testScenarios) {
-      for (const scenario of task.testScenarios) {
+    // Test scenarios
+    const scenarios = task.testScenarios || [];
+    for (const scenario of scenarios) {
+      const updated = this.db.prepare(`
+        UPDATE test_scenarios SET title = ?, description = ?, manual_only = ?, priority = ?
+        WHERE repo_name = ? AND feature_slug = ? AND task_id = ? AND scenario_id = ?
+      `).run(scenario.title, scenario.description, scenario.manualOnly ? 1 : 0, scenario.priority, ...key, scenario.id);
+      if (updated.changes === 0) {
         this.db.prepare(`
           INSERT INTO test_scenarios (
             repo_name, feature_slug, task_id, scenario_id, title, description, manual_only, priority
           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-        `).run(
-          repoName,
-          featureSlug,
-          task.taskId,
-          scenario.id,
-          scenario.title,
-          scenario.description,
-          scenario.manualOnly ? 1 : 0,
-          scenario.priority
-        );
+        `).run(...key, scenario.id, scenario.title, scenario.description, scenario.manualOnly ? 1 : 0, scenario.priority);
       }
     }
-
-    // Insert stakeholder reviews
-    for (const [stakeholder, review] of Object.entries(task.stakeholderReview)) {
-      if (review) {
-        const { approved, notes, ...additional } = review;
+    this.db.prepare(`
+      DELETE FROM test_scenarios
+      WHERE repo_name = ? AND feature_slug = ? AND task_id = ?
+        AND scenario_id NOT IN (SELECT value FROM json_each(?))
+    `).run(...key, JSON.stringify(scenarios.map((s) => s.id)));
+
+    // Stakeholder reviews, one row per role and stage (see reviewKey)
+    const reviewKeys: string[] = [];
+    for (const [reviewKey, review] of Object.entries(task.stakeholderReview)) {
+      if (!review) continue;
+      reviewKeys.push(reviewKey);
+      const { role: stakeholder, stage = '' } = parseReviewKey(reviewKey);
+      const { approved, notes, contentHash, supersededAt, ...additional } = review as StakeholderReviewEntry;
+      const values = [approved ? 1 : 0, notes, JSON.stringify(additional), contentHash ?? null, supersededAt ?? null];
+      const updated = this.db.prepare(`
+        UPDATE stakeholder_reviews SET approved = ?, notes = ?, additional_data = ?, content_hash = ?, superseded_at = ?
+        WHERE repo_name = ? AND feature_slug = ? AND task_id = ? AND stakeholder = ? AND stage = ?
+      `).run(...values, ...key, stakeholder, stage);
+      if (updated.changes === 0) {
         this.db.prepare(`
           INSERT INTO stakeholder_reviews (
-            repo_name, feature_slug, task_id, stakeholder, approved, notes, additional_data
-          ) VALUES (?, ?, ?, ?, ?, ?, ?)
-        `).run(
-          repoName,
-          featureSlug,
-          task.taskId,
-          stakeholder,
-          approved ? 1 : 0,
-          notes,
-          JSON.stringify(additional)
-        );
+            approved, notes, additional_data, content_hash, superseded_at,
+            repo_name, feature_slug, task_id, stakeholder, stage
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(...values, ...key, stakeholder, stage);
       }
     }
+    this.db.prepare(`
+      DELETE FROM stakeholder_reviews
+      WHERE repo_name = ? AND feature_slug = ? AND task_id = ?
+        AND (CASE stage WHEN '' THEN stakeholder ELSE stakeholder || '@' || stage END) NOT IN (SELECT value FROM json_each(?))
+    `).run(...key, JSON.stringify(reviewKeys));
   }
 
   /**
@@ -1235,7 +1520,7 @@ export class DatabaseHandler {
   async validateFeatureSlug(featureSlug: string, repoName: string = 'default'): Promise<{ valid: boolean; error?: string }> {
     try {
       const feature = this.db.prepare(`
-        SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ?
+        SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ? AND deleted_at IS NULL
       `).get(featureSlug, repoName);
 
       if (!feature) {
@@ -1252,7 +1537,8 @@ export class DatabaseHandler {
   }
 
   /**
-   * Load task file with lock (same as loadByFeatureSlug for now, SQLite handles locking)
+   * Load task file for a read-modify-write. No lock is held: each task carries the
+   * version it was read at, and saveTasks / saveByFeatureSlug refuse stale writes.
    */
   async loadByFeatureSlugWithLock(featureSlug: string, repoName: string = 'default'): Promise<TaskFile> {
     return this.loadByFeatureSlug(featureSlug, repoName);
@@ -1270,7 +1556,9 @@ export class DatabaseHandler {
       VALUES (?, ?, ?, ?, ?)
     `).run(repoName, featureSlug, description, now, snapshot);
 
-    return result.lastInsertRowid as number;
+    const id = Number(result.lastInsertRowid);
+    this.audit('checkpoint', id, undefined, { description, saved_at: now, snapshot }, { repoName, featureSlug });
+    return id;
   }
 
   /**
@@ -1335,8 +1623,8 @@ export class DatabaseHandler {
         f.last_modified,
         COUNT(t.id) as total_tasks
       FROM features f
-      LEFT JOIN tasks t ON f.feature_slug = t.feature_slug AND f.repo_name = t.repo_name
-      WHERE f.repo_name = ?
+      LEFT JOIN tasks t ON f.feature_slug = t.feature_slug AND f.repo_name = t.repo_name AND t.deleted_at IS NULL
+      WHERE f.repo_name = ? AND f.deleted_at IS NULL
       GROUP BY f.feature_slug, f.feature_name, f.description, f.last_modified
       ORDER BY f.last_modified DESC
     `).all(repoName) as any[];
@@ -1350,6 +1638,76 @@ export class DatabaseHandler {
     }));
   }
 
+  /**
+   * Full-text search over the search_index kept in sync by migration 010's
+   * triggers. Hits are ranked by bm25 and carry a snippet with matched terms
+   * wrapped in **.
+   */
+  search(input: SearchInput): SearchHit[] {
+    const match = toFtsQuery(input.query);
+    if (!match) {
+      throw new Error('Search query must contain at least one word');
+    }
+
+    // Text of trashed features and tasks is still indexed, but not found
+    const conditions = [
+      'search_index MATCH ?',
+      't.deleted_at IS NULL',
+      `NOT EXISTS (
+        SELECT 1 FROM features f
+        WHERE f.repo_name = search_index.repo_name AND f.feature_slug = search_index.feature_slug AND f.deleted_at IS NOT NULL
+      )`,
+    ];
+    const values: any[] = [match];
+    if (input.repoName) {
+      conditions.push('search_index.repo_name = ?');
+      values.push(input.repoName);
+    }
+    if (input.featureSlug) {
+      conditions.push('search_index.feature_slug = ?');
+      values.push(input.featureSlug);
+    }
+    if (input.status) {
+      conditions.push('t.status = ?');
+      values.push(input.status);
+    }
+    if (input.role) {
+      conditions.push('search_index.role = ?');
+      values.push(input.role);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT
+        search_index.kind,
+        search_index.repo_name,
+        search_index.feature_slug,
+        search_index.task_id,
+        search_index.role,
+        snippet(search_index, 0, '**', '**', '…', 16) AS snippet,
+        t.title AS task_title,
+        t.status
+      FROM search_index
+      LEFT JOIN tasks t
+        ON t.repo_name = search_index.repo_name
+        AND t.feature_slug = search_index.feature_slug
+        AND t.task_id = search_index.task_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY rank
+      LIMIT ?
+    `).all(...values, input.limit ?? 20) as any[];
+
+    return rows.map(row => ({
+      kind: row.kind,
+      repoName: row.repo_name,
+      featureSlug: row.feature_slug,
+      taskId: row.task_id ?? undefined,
+      taskTitle: row.task_title ?? undefined,
+      status: row.status ?? undefined,
+      role: row.role ?? undefined,
+      snippet: row.snippet
+    }));
+  }
+
   /**
    * Create a new feature
    */
@@ -1357,10 +1715,13 @@ export class DatabaseHandler {
     const now = new Date().toISOString();
     const cleanDescription = description ? description.replace(/\x00/g, '').trim().slice(0, 10000) : null;
 
-    this.db.prepare(`
-      INSERT INTO features (repo_name, feature_slug, feature_name, description, created_at, last_modified)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).run(repoName, featureSlug, featureName, cleanDescription, now, now);
+    this.db.transaction(() => {
+      this.releaseTrashedKey({ repoName, featureSlug });
+      this.audited('feature', featureSlug, { repoName, featureSlug }, () => this.featureSnapshot(repoName, featureSlug), () => this.db.prepare(`
+        INSERT INTO features (repo_name, feature_slug, feature_name, description, created_at, last_modified)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(repoName, featureSlug, featureName, cleanDescription, now, now));
+    })();
   }
 
   /**
@@ -1368,7 +1729,7 @@ export class DatabaseHandler {
    */
   updateFeature(featureSlug: string, repoName: string = 'default', updates: { featureName?: string; description?: string }): void {
     const existing = this.db.prepare(
-      `SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ?`
+      `SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ? AND deleted_at IS NULL`
     ).get(featureSlug, repoName);
     if (!existing) {
       throw new Error(`Feature not found: ${featureSlug} in repo ${repoName}`);
@@ -1389,51 +1750,606 @@ export class DatabaseHandler {
     }
 
     values.push(featureSlug, repoName);
-    this.db.prepare(
+    this.audited('feature', featureSlug, { repoName, featureSlug }, () => this.featureSnapshot(repoName, featureSlug), () => this.db.prepare(
       `UPDATE features SET ${fields.join(', ')} WHERE feature_slug = ? AND repo_name = ?`
-    ).run(...values);
+    ).run(...values));
   }
 
   /**
-   * Delete a feature and all its tasks
+   * Move a feature and all its tasks to the trash.
+   * Returns the trash item id, or undefined when the feature does not exist.
    */
-  deleteFeature(featureSlug: string, repoName: string = 'default'): void {
-    this.db.prepare(`DELETE FROM features WHERE feature_slug = ? AND repo_name = ?`).run(featureSlug, repoName);
+  deleteFeature(featureSlug: string, repoName: string = 'default'): number | undefined {
+    return this.db.transaction(() => {
+      const feature = this.db.prepare(
+        `SELECT feature_name FROM features WHERE feature_slug = ? AND repo_name = ? AND deleted_at IS NULL`
+      ).get(featureSlug, repoName) as { feature_name: string } | undefined;
+      if (!feature) return undefined;
+
+      return this.audited('feature', featureSlug, { repoName, featureSlug }, () => this.featureSnapshot(repoName, featureSlug), () =>
+        this.moveToTrash('feature', { repoName, featureSlug }, feature.feature_name)
+      );
+    })();
   }
 
   /**
-   * Delete a repo and all associated features, tasks, and related data
+   * Move a repo and all associated features, tasks, and related data to the trash
    */
-  deleteRepo(repoName: string): { deleted: boolean; featureCount: number; taskCount: number } {
+  deleteRepo(repoName: string): { deleted: boolean; featureCount: number; taskCount: number; trashId?: number } {
     // Validate repo exists
-    const repo = this.db.prepare(`SELECT repo_name FROM repos WHERE repo_name = ?`).get(repoName) as any;
+    const repo = this.db.prepare(`SELECT repo_name FROM repos WHERE repo_name = ? AND deleted_at IS NULL`).get(repoName) as any;
     if (!repo) {
       return { deleted: false, featureCount: 0, taskCount: 0 };
     }
 
-    const featureCount = (this.db.prepare(`SELECT COUNT(*) as count FROM features WHERE repo_name = ?`).get(repoName) as any).count;
-    const taskCount = (this.db.prepare(`SELECT COUNT(*) as count FROM tasks WHERE repo_name = ?`).get(repoName) as any).count;
-
-    const doDelete = this.db.transaction(() => {
-      // Delete in child-first order (FK cascades handle most, but explicit for clarity)
-      this.db.prepare(`DELETE FROM feature_clarifications WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM feature_attachments WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM feature_acceptance_criteria WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM feature_test_scenarios WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM feature_refinement_steps WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM workflow_checkpoints WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM stakeholder_reviews WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM test_scenarios WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM acceptance_criteria WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM transitions WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM tasks WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM features WHERE repo_name = ?`).run(repoName);
-      this.db.prepare(`DELETE FROM repos WHERE repo_name = ?`).run(repoName);
+    const featureCount = (this.db.prepare(`SELECT COUNT(*) as count FROM features WHERE repo_name = ? AND deleted_at IS NULL`).get(repoName) as any).count;
+    const taskCount = (this.db.prepare(`SELECT COUNT(*) as count FROM tasks WHERE repo_name = ? AND deleted_at IS NULL`).get(repoName) as any).count;
+
+    const trashId = this.db.transaction(() =>
+      this.audited('repo', repoName, { repoName }, () => this.repoSnapshot(repoName), () =>
+        this.moveToTrash('repo', { repoName }, repoName)
+      )
+    )();
+    console.log(`[deleteRepo] Moved repo '${repoName}' to the trash: ${featureCount} features, ${taskCount} tasks at ${new Date().toISOString()}`);
+    return { deleted: true, featureCount, taskCount, trashId };
+  }
+
+  /**
+   * Permanently delete a repo with all its features, tasks, related data and trash items
+   */
+  private removeRepo(repoName: string): void {
+    // Delete in child-first order (FK cascades handle most, but explicit for clarity)
+    this.db.prepare(`DELETE FROM feature_clarifications WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM feature_attachments WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM feature_acceptance_criteria WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM feature_test_scenarios WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM feature_refinement_steps WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM workflow_checkpoints WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM workflow_definitions WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM settings WHERE key = ?`).run(`reviewCompletenessMode:${repoName}`);
+    this.db.prepare(`DELETE FROM settings WHERE key = ?`).run(`staleApprovalPolicy:${repoName}`);
+    this.db.prepare(`DELETE FROM settings WHERE key = ?`).run(`separatedRoles:${repoName}`);
+    this.db.prepare(`DELETE FROM stakeholder_reviews WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM test_scenarios WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM acceptance_criteria WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM transitions WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM tasks WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM features WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM repos WHERE repo_name = ?`).run(repoName);
+    this.db.prepare(`DELETE FROM trash WHERE repo_name = ?`).run(repoName);
+  }
+
+  /**
+   * Permanently delete a feature with its tasks, related data and trash items
+   */
+  private removeFeature(repoName: string, featureSlug: string): void {
+    this.db.prepare(`DELETE FROM features WHERE feature_slug = ? AND repo_name = ?`).run(featureSlug, repoName);
+    this.db.prepare(`DELETE FROM trash WHERE repo_name = ? AND feature_slug = ?`).run(repoName, featureSlug);
+  }
+
+  /**
+   * Permanently delete a task with its related data and trash item
+   */
+  private removeTask(repoName: string, featureSlug: string, taskId: string): void {
+    // CASCADE deletes the task's transitions, reviews, criteria and scenarios
+    this.db.prepare(`DELETE FROM tasks WHERE repo_name = ? AND feature_slug = ? AND task_id = ?`).run(repoName, featureSlug, taskId);
+    this.db.prepare(`DELETE FROM trash WHERE repo_name = ? AND feature_slug = ? AND task_id = ?`).run(repoName, featureSlug, taskId);
+  }
+
+  /**
+   * Export a repo and everything below it as a portable bundle
+   */
+  exportRepo(repoName: string): RepoBundle {
+    const repo = this.db.prepare(`SELECT ${Object.keys(REPO_COLUMNS).join(', ')} FROM repos WHERE repo_name = ? AND deleted_at IS NULL`)
+      .get(repoName) as BundleRow | undefined;
+    if (!repo) {
+      throw new Error(`Repository not found: ${repoName}`);
+    }
+
+    const features = this.db.prepare(
+      `SELECT ${Object.keys(FEATURE_COLUMNS).join(', ')} FROM features WHERE repo_name = ? AND deleted_at IS NULL ORDER BY created_at, feature_slug`
+    ).all(repoName) as BundleRow[];
+
+    const workflow = this.getWorkflowDefinition(repoName);
+    return {
+      format: REPO_BUNDLE_FORMAT,
+      version: REPO_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      repo,
+      ...(workflow.isCustom ? { workflowStages: workflow.stages } : {}),
+      features: features.map((feature) => this.featureBundle(repoName, feature)),
+    };
+  }
+
+  /**
+   * A feature's rows in bundle format, without its trashed tasks
+   */
+  private featureBundle(repoName: string, feature: BundleRow): RepoBundleFeature {
+    const entry = { feature } as RepoBundleFeature;
+    const featureSlug = feature.feature_slug as string;
+    for (const { key, table, columns } of BUNDLE_TABLES) {
+      entry[key] = 'task_id' in columns
+        ? this.bundleRows(table, columns, `repo_name = ? AND feature_slug = ? AND task_id IN (
+            SELECT task_id FROM tasks WHERE repo_name = ? AND feature_slug = ? AND deleted_at IS NULL
+          )`, repoName, featureSlug, repoName, featureSlug)
+        : this.bundleRows(table, columns, 'repo_name = ? AND feature_slug = ?', repoName, featureSlug);
+    }
+    return entry;
+  }
+
+  private bundleRows(table: string, columns: Record<string, unknown>, where: string, ...params: string[]): BundleRow[] {
+    return this.db.prepare(`SELECT ${Object.keys(columns).join(', ')} FROM ${table} WHERE ${where} ORDER BY id`)
+      .all(...params) as BundleRow[];
+  }
+
+  /**
+   * Insert a bundle row under the given repo/feature keys
+   */
+  private insertBundleRow(table: string, row: BundleRow, keys: BundleRow): void {
+    const values = { ...row, ...keys };
+    const columns = Object.keys(values);
+    this.db.prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+      .run(...columns.map((column) => values[column]));
+  }
+
+  /**
+   * Import a validated bundle in one transaction. The repo is created when it
+   * does not exist; an existing repo keeps its row and pipeline unless the
+   * conflict mode is overwrite. Overwritten features are deleted for good, not
+   * moved to the trash; a trashed repo or feature in the way is purged.
+   */
+  importRepo(
+    bundle: RepoBundle,
+    options: { conflictMode: BundleConflictMode; prefix?: string; repoName?: string }
+  ): { repoName: string; repoCreated: boolean; features: ImportedFeature[] } {
+    const repoName = options.repoName ?? (bundle.repo.repo_name as string);
+    if (options.conflictMode === 'rename' && !options.prefix) {
+      throw new Error('A prefix is required for the rename conflict mode');
+    }
+
+    const featureExists = (slug: string) =>
+      !!this.db.prepare(`SELECT 1 FROM features WHERE repo_name = ? AND feature_slug = ? AND deleted_at IS NULL`).get(repoName, slug);
+
+    return this.db.transaction(() => {
+      const repoCreated = !this.db.prepare(`SELECT 1 FROM repos WHERE repo_name = ? AND deleted_at IS NULL`).get(repoName);
+      if (repoCreated) {
+        this.releaseTrashedKey({ repoName });
+      }
+      if (repoCreated || options.conflictMode === 'overwrite') {
+        this.audited('repo', repoName, { repoName }, () => this.repoSnapshot(repoName), () => {
+          this.db.prepare(`DELETE FROM repos WHERE repo_name = ?`).run(repoName);
+          this.insertBundleRow('repos', { ...bundle.repo, last_accessed_at: new Date().toISOString() }, { repo_name: repoName });
+        });
+        if (bundle.workflowStages) {
+          this.setWorkflowDefinition(repoName, bundle.workflowStages);
+        }
+      }
+
+      const features: ImportedFeature[] = [];
+      for (const entry of bundle.features) {
+        const featureSlug = entry.feature.feature_slug as string;
+        let targetSlug = featureSlug;
+        let action: ImportedFeature['action'] = 'created';
+
+        if (featureExists(featureSlug)) {
+          if (options.conflictMode === 'skip') {
+            features.push({ featureSlug, action: 'skipped' });
+            continue;
+          }
+          if (options.conflictMode === 'overwrite') {
+            this.audited('feature', featureSlug, { repoName, featureSlug }, () => this.featureSnapshot(repoName, featureSlug), () =>
+              this.removeFeature(repoName, featureSlug)
+            );
+            action = 'overwritten';
+          } else {
+            targetSlug = `${options.prefix}${featureSlug}`;
+            if (featureExists(targetSlug)) {
+              throw new Error(`Cannot rename ${featureSlug}: ${targetSlug} already exists in ${repoName}`);
+            }
+            action = 'renamed';
+          }
+        }
+
+        const keys = { repo_name: repoName, feature_slug: targetSlug };
+        this.releaseTrashedKey({ repoName, featureSlug: targetSlug });
+        this.insertFeatureBundle(entry, keys);
+        features.push({ featureSlug, action, ...(action === 'renamed' ? { importedAs: targetSlug } : {}) });
+      }
+
+      return { repoName, repoCreated, features };
+    })();
+  }
+
+  /**
+   * Insert a bundle feature and its rows under the given keys
+   */
+  private insertFeatureBundle(entry: RepoBundleFeature, keys: { repo_name: string; feature_slug: string }): void {
+    const scope = { repoName: keys.repo_name, featureSlug: keys.feature_slug };
+    this.insertBundleRow('features', entry.feature, keys);
+    this.audit('feature', keys.feature_slug, undefined, this.featureSnapshot(keys.repo_name, keys.feature_slug), scope);
+    for (const { key, table } of BUNDLE_TABLES) {
+      for (const row of entry[key]) {
+        this.insertBundleRow(table, row, keys);
+      }
+    }
+  }
+
+  // ============================================================================
+  // Trash
+  // ============================================================================
+
+  /**
+   * Get the trash retention period.
+   */
+  getTrashSettings(): TrashSettings {
+    return { retentionDays: parseInt(this.getSetting('trashRetentionDays') ?? '30', 10) };
+  }
+
+  /**
+   * Update the trash retention period; 0 keeps items until they are restored.
+   */
+  updateTrashSettings(updates: Partial<TrashSettings>): void {
+    if (updates.retentionDays !== undefined) {
+      this.setSetting('trashRetentionDays', String(updates.retentionDays));
+    }
+  }
+
+  /**
+   * Deleted repos, features and tasks, newest first. Expired items are purged first.
+   */
+  listTrash(repoName?: string): TrashItem[] {
+    this.purgeTrash();
+    const rows = this.db.prepare(`
+      SELECT id, entity_type, repo_name, feature_slug, task_id, label, deleted_at, deleted_by
+      FROM trash ${repoName ? 'WHERE repo_name = ?' : ''}
+      ORDER BY id DESC
+    `).all(...(repoName ? [repoName] : [])) as TrashRow[];
+    return rows.map((row) => this.mapTrashRow(row));
+  }
+
+  /**
+   * Permanently remove trash items deleted more than the retention period ago,
+   * with their marked rows. Returns the number of items purged.
+   */
+  purgeTrash(now: Date = new Date()): number {
+    const { retentionDays } = this.getTrashSettings();
+    if (!(retentionDays > 0)) return 0;
+    const cutoff = new Date(now.getTime() - retentionDays * 86_400_000).toISOString();
+    return this.db.transaction(() => {
+      const expired = this.db.prepare(`SELECT * FROM trash WHERE deleted_at < ? ORDER BY id`).all(cutoff) as TrashRow[];
+      for (const { entity_type, repo_name, feature_slug, task_id } of expired) {
+        if (entity_type === 'repo') {
+          this.removeRepo(repo_name);
+        } else if (entity_type === 'feature') {
+          this.removeFeature(repo_name, feature_slug!);
+        } else {
+          this.removeTask(repo_name, feature_slug!, task_id!);
+        }
+      }
+      return expired.length;
+    })();
+  }
+
+  /**
+   * Purge expired trash now and then every intervalMinutes, so servers that
+   * run for days keep to the retention period.
+   */
+  scheduleTrashPurge(intervalMinutes: number = 60): NodeJS.Timeout {
+    const purge = () => {
+      try {
+        const purged = this.purgeTrash();
+        if (purged > 0) {
+          console.error(`[Trash] Purged ${purged} expired item(s)`);
+        }
+      } catch (err) {
+        console.error(`[Trash] Purge failed: ${err}`);
+      }
+    };
+    purge();
+    return setInterval(purge, intervalMinutes * 60 * 1000).unref();
+  }
+
+  /**
+   * Clear the deleted marks of a trashed entity and take it out of the trash.
+   * Rows below it that were deleted on their own stay in the trash. Refused
+   * when its repo or feature is not live.
+   */
+  restoreFromTrash(id: number): TrashItem {
+    this.purgeTrash();
+    return this.db.transaction(() => {
+      const row = this.db.prepare(`SELECT * FROM trash WHERE id = ?`).get(id) as TrashRow | undefined;
+      if (!row) {
+        throw new Error(`Trash item ${id} not found`);
+      }
+      const item = this.mapTrashRow(row);
+      const { repoName, featureSlug, taskId } = item;
+      if (item.entityType === 'feature'
+        && !this.db.prepare(`SELECT 1 FROM repos WHERE repo_name = ? AND deleted_at IS NULL`).get(repoName)) {
+        throw new Error(`Cannot restore feature ${featureSlug}: repo ${repoName} no longer exists`);
+      }
+      if (item.entityType === 'task'
+        && !this.db.prepare(`SELECT 1 FROM features WHERE repo_name = ? AND feature_slug = ? AND deleted_at IS NULL`).get(repoName, featureSlug)) {
+        throw new Error(`Cannot restore task ${taskId}: feature ${featureSlug} no longer exists in ${repoName}`);
+      }
+
+      const scope = { repoName, featureSlug };
+      const { where, params } = this.trashScope(item);
+      const restore = () => {
+        // A feature or task row is left marked while another trash item still covers it
+        const coveredFeature = `o.entity_type = 'feature' AND o.repo_name = features.repo_name AND o.feature_slug = features.feature_slug`;
+        const coveredTask = `o.repo_name = tasks.repo_name AND o.feature_slug = tasks.feature_slug
+          AND (o.entity_type = 'feature' OR (o.entity_type = 'task' AND o.task_id = tasks.task_id))`;
+        for (const table of TRASH_TABLES[item.entityType]) {
+          const covered = table === 'features' ? coveredFeature : table === 'tasks' ? coveredTask : '0';
+          this.db.prepare(`
+            UPDATE ${table} SET deleted_at = NULL
+            WHERE ${where} AND deleted_at IS NOT NULL
+              AND NOT EXISTS (SELECT 1 FROM trash o WHERE o.id != ? AND ${covered})
+          `).run(...params, id);
+        }
+        this.db.prepare(`DELETE FROM trash WHERE id = ?`).run(id);
+      };
+
+      if (item.entityType === 'repo') {
+        this.audited('repo', repoName, scope, () => this.repoSnapshot(repoName), restore);
+      } else if (item.entityType === 'feature') {
+        this.audited('feature', featureSlug!, scope, () => this.featureSnapshot(repoName, featureSlug!), restore);
+      } else {
+        this.audited('task', taskId!, scope, () => this.taskSnapshot(repoName, featureSlug!, taskId!), restore);
+        this.db.prepare(`UPDATE features SET last_modified = ? WHERE repo_name = ? AND feature_slug = ?`)
+          .run(new Date().toISOString(), repoName, featureSlug);
+      }
+      return item;
+    })();
+  }
+
+  /**
+   * Mark a repo, feature or task and everything live below it deleted, and
+   * index it in the trash. Returns the trash item id.
+   */
+  private moveToTrash(
+    entityType: TrashEntityType,
+    key: { repoName: string; featureSlug?: string; taskId?: string },
+    label: string
+  ): number {
+    const now = new Date().toISOString();
+    const { where, params } = this.trashScope(key);
+    for (const table of TRASH_TABLES[entityType]) {
+      this.db.prepare(`UPDATE ${table} SET deleted_at = ? WHERE ${where} AND deleted_at IS NULL`).run(now, ...params);
+    }
+    const result = this.db.prepare(`
+      INSERT INTO trash (entity_type, repo_name, feature_slug, task_id, label, deleted_at, deleted_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(entityType, key.repoName, key.featureSlug ?? null, key.taskId ?? null, label, now, currentActor());
+    return Number(result.lastInsertRowid);
+  }
+
+  /** The WHERE clause selecting a repo, feature or task and the rows below it */
+  private trashScope(key: { repoName: string; featureSlug?: string; taskId?: string }): { where: string; params: string[] } {
+    if (key.taskId !== undefined) {
+      return { where: 'repo_name = ? AND feature_slug = ? AND task_id = ?', params: [key.repoName, key.featureSlug!, key.taskId] };
+    }
+    if (key.featureSlug !== undefined) {
+      return { where: 'repo_name = ? AND feature_slug = ?', params: [key.repoName, key.featureSlug] };
+    }
+    return { where: 'repo_name = ?', params: [key.repoName] };
+  }
+
+  /**
+   * Purge a trashed repo, feature or task holding the given key, so a new one
+   * can be created under its name.
+   */
+  private releaseTrashedKey(key: { repoName: string; featureSlug?: string; taskId?: string }): void {
+    const { where, params } = this.trashScope(key);
+    const table = key.taskId !== undefined ? 'tasks' : key.featureSlug !== undefined ? 'features' : 'repos';
+    if (!this.db.prepare(`SELECT 1 FROM ${table} WHERE ${where} AND deleted_at IS NOT NULL`).get(...params)) return;
+
+    if (key.taskId !== undefined) {
+      this.removeTask(key.repoName, key.featureSlug!, key.taskId);
+    } else if (key.featureSlug !== undefined) {
+      this.removeFeature(key.repoName, key.featureSlug);
+    } else {
+      this.removeRepo(key.repoName);
+    }
+  }
+
+  private mapTrashRow(row: TrashRow): TrashItem {
+    const { retentionDays } = this.getTrashSettings();
+    return {
+      id: row.id,
+      entityType: row.entity_type,
+      repoName: row.repo_name,
+      featureSlug: row.feature_slug ?? undefined,
+      taskId: row.task_id ?? undefined,
+      label: row.label,
+      deletedAt: row.deleted_at,
+      deletedBy: row.deleted_by,
+      ...(retentionDays > 0
+        ? { expiresAt: new Date(Date.parse(row.deleted_at) + retentionDays * 86_400_000).toISOString() }
+        : {}),
+    };
+  }
+
+  // ============================================================================
+  // Integrity Check
+  // ============================================================================
+
+  /**
+   * Scan for rows the schema's keys cannot rule out: NULL repo names, rows
+   * whose task or feature is gone, dependencies on missing tasks and duplicate
+   * criterion IDs. With `repair`, everything repairable is fixed in one
+   * transaction and the database is scanned again.
+   */
+  checkIntegrity(options: { repair?: boolean } = {}): IntegrityReport {
+    const found = this.findIntegrityIssues();
+    let remaining: Record<IntegrityCategory, IntegrityIssue[]> | undefined;
+    if (options.repair) {
+      this.db.transaction(() => this.repairIntegrityIssues())();
+      remaining = this.findIntegrityIssues();
+    }
+
+    const count = (issues: Record<IntegrityCategory, IntegrityIssue[]>) =>
+      Object.values(issues).reduce((total, list) => total + list.length, 0);
+    return {
+      checkedAt: new Date().toISOString(),
+      repaired: !!options.repair,
+      issueCount: count(found),
+      ...(remaining ? { remainingCount: count(remaining) } : {}),
+      categories: INTEGRITY_CATEGORIES.map(({ category, description, repairable }) => ({
+        category,
+        description,
+        repairable,
+        issues: found[category],
+        ...(remaining ? { remaining: remaining[category].length } : {}),
+      })),
+    };
+  }
+
+  private findIntegrityIssues(): Record<IntegrityCategory, IntegrityIssue[]> {
+    return {
+      null_repo_name: this.nullRepoNameIssues(),
+      orphan_feature_rows: this.orphanRowIssues(FEATURE_CHILD_TABLES, 'features', ['repo_name', 'feature_slug']),
+      orphan_task_rows: this.orphanRowIssues(TASK_CHILD_TABLES, 'tasks', ['repo_name', 'feature_slug', 'task_id']),
+      dangling_dependencies: this.danglingDependencyIssues().map(({ issue }) => issue),
+      duplicate_criterion_ids: this.duplicateCriterionIssues(),
+    };
+  }
+
+  /**
+   * Each step looks again rather than reusing the report, so rows moved to the
+   * default repo are checked for a missing feature or task too.
+   */
+  private repairIntegrityIssues(): void {
+    for (const table of new Set(this.nullRepoNameIssues().map((issue) => issue.table))) {
+      // Rows that would collide with an existing key are left for a person to sort out
+      this.db.prepare(`UPDATE OR IGNORE ${table} SET repo_name = 'default' WHERE repo_name IS NULL`).run();
+    }
+
+    for (const issue of this.orphanRowIssues(FEATURE_CHILD_TABLES, 'features', ['repo_name', 'feature_slug'])) {
+      if (issue.table === 'tasks') {
+        const { repoName, featureSlug, taskId } = issue as Required<IntegrityIssue>;
+        const task = this.taskSnapshot(repoName, featureSlug, taskId)!;
+        this.moveToTrash('task', { repoName, featureSlug, taskId }, task.title as string);
+        this.audit('task', taskId, task, undefined, { repoName, featureSlug });
+      } else {
+        this.db.prepare(`DELETE FROM ${issue.table} WHERE rowid = ?`).run(issue.rowId);
+      }
+    }
+
+    for (const issue of this.orphanRowIssues(TASK_CHILD_TABLES, 'tasks', ['repo_name', 'feature_slug', 'task_id'])) {
+      this.db.prepare(`DELETE FROM ${issue.table} WHERE rowid = ?`).run(issue.rowId);
+    }
+
+    for (const { issue, dependencies } of this.danglingDependencyIssues()) {
+      if (!dependencies) continue;
+      const { repoName, featureSlug, taskId } = issue as Required<IntegrityIssue>;
+      this.audited('task', taskId, { repoName, featureSlug }, () => this.taskSnapshot(repoName, featureSlug, taskId), () =>
+        this.db.prepare(`UPDATE tasks SET dependencies = ?, version = version + 1 WHERE rowid = ?`)
+          .run(JSON.stringify(dependencies), issue.rowId)
+      );
+    }
+  }
+
+  private integrityIssue(table: string, row: IntegrityRow, detail: string): IntegrityIssue {
+    return {
+      table,
+      rowId: row.row_id,
+      ...(row.repo_name ? { repoName: row.repo_name } : {}),
+      ...(row.feature_slug ? { featureSlug: row.feature_slug } : {}),
+      ...(row.task_id ? { taskId: row.task_id } : {}),
+      detail,
+    };
+  }
+
+  /** audit_log rows may have no repo by design */
+  private nullRepoNameIssues(): IntegrityIssue[] {
+    const tables = this.db.prepare(`
+      SELECT m.name FROM sqlite_master m
+      WHERE m.type = 'table' AND m.name != 'audit_log' AND m.sql NOT LIKE 'CREATE VIRTUAL TABLE%'
+        AND EXISTS (SELECT 1 FROM pragma_table_info(m.name) WHERE name = 'repo_name')
+      ORDER BY m.name
+    `).pluck().all() as string[];
+    return tables.flatMap((table) =>
+      (this.db.prepare(`SELECT rowid AS row_id, * FROM ${table} WHERE repo_name IS NULL`).all() as IntegrityRow[])
+        .map((row) => this.integrityIssue(table, row, 'repo_name is NULL'))
+    );
+  }
+
+  /**
+   * Rows of the given tables with no matching parent row. Rows without a repo
+   * are reported under null_repo_name instead, and trashed tasks not at all.
+   */
+  private orphanRowIssues(tables: string[], parent: 'features' | 'tasks', keys: string[]): IntegrityIssue[] {
+    const match = keys.map((key) => `p.${key} = c.${key}`).join(' AND ');
+    return tables.flatMap((table) =>
+      (this.db.prepare(`
+        SELECT c.rowid AS row_id, ${keys.map((key) => `c.${key}`).join(', ')}${parent === 'features' && table === 'tasks' ? ', c.task_id' : ''}
+        FROM ${table} c
+        WHERE c.repo_name IS NOT NULL${table === 'tasks' ? ' AND c.deleted_at IS NULL' : ''}
+          AND NOT EXISTS (SELECT 1 FROM ${parent} p WHERE ${match})
+        ORDER BY c.rowid
+      `).all() as IntegrityRow[]).map((row) =>
+        this.integrityIssue(table, row, parent === 'features'
+          ? `Feature ${row.feature_slug} does not exist in repo ${row.repo_name}`
+          : `Task ${row.task_id} does not exist in feature ${row.feature_slug}`)
+      )
+    );
+  }
+
+  /**
+   * Tasks depending on task IDs missing from their feature, with the list that
+   * remains once those are dropped. A list that is not a JSON array of IDs has
+   * no repaired list.
+   */
+  private danglingDependencyIssues(): Array<{ issue: IntegrityIssue; dependencies?: string[] }> {
+    const rows = this.db.prepare(`
+      SELECT rowid AS row_id, repo_name, feature_slug, task_id, dependencies FROM tasks
+      WHERE repo_name IS NOT NULL AND dependencies IS NOT NULL AND deleted_at IS NULL
+      ORDER BY rowid
+    `).all() as Array<IntegrityRow & { dependencies: string }>;
+    const taskIds = this.db.prepare(`SELECT task_id FROM tasks WHERE repo_name = ? AND feature_slug = ? AND deleted_at IS NULL`).pluck();
+
+    return rows.flatMap((row) => {
+      let dependencies: unknown;
+      try {
+        dependencies = JSON.parse(row.dependencies);
+      } catch {
+        dependencies = undefined;
+      }
+      if (!Array.isArray(dependencies) || dependencies.some((id) => typeof id !== 'string')) {
+        return [{ issue: this.integrityIssue('tasks', row, 'dependencies is not a JSON array of task IDs') }];
+      }
+      const existing = new Set(taskIds.all(row.repo_name, row.feature_slug) as string[]);
+      const missing = (dependencies as string[]).filter((id) => !existing.has(id));
+      if (missing.length === 0) return [];
+      return [{
+        issue: this.integrityIssue('tasks', row, `Depends on missing task${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`),
+        dependencies: (dependencies as string[]).filter((id) => existing.has(id)),
+      }];
     });
+  }
 
-    doDelete();
-    console.log(`[deleteRepo] Deleted repo '${repoName}': ${featureCount} features, ${taskCount} tasks removed at ${new Date().toISOString()}`);
-    return { deleted: true, featureCount, taskCount };
+  /**
+   * Criteria repeating an earlier criterion's ID within their task (or, for
+   * feature-level criteria, their feature). The unique keys only catch exact repeats.
+   */
+  private duplicateCriterionIssues(): IntegrityIssue[] {
+    return (['acceptance_criteria', 'feature_acceptance_criteria'] as const).flatMap((table) => {
+      const scope = table === 'acceptance_criteria' ? ['repo_name', 'feature_slug', 'task_id'] : ['repo_name', 'feature_slug'];
+      const rows = this.db.prepare(`
+        SELECT * FROM (
+          SELECT c.rowid AS row_id, ${scope.map((key) => `c.${key}`).join(', ')}, c.criterion_id,
+            (SELECT o.criterion_id FROM ${table} o
+             WHERE ${scope.map((key) => `o.${key} = c.${key}`).join(' AND ')}
+               AND lower(trim(o.criterion_id)) = lower(trim(c.criterion_id)) AND o.rowid < c.rowid
+             ORDER BY o.rowid LIMIT 1) AS duplicate_of
+          FROM ${table} c
+        )
+        WHERE duplicate_of IS NOT NULL
+        ORDER BY row_id
+      `).all() as Array<IntegrityRow & { criterion_id: string; duplicate_of: string }>;
+      return rows.map((row) => this.integrityIssue(table, row, `Criterion ID '${row.criterion_id}' repeats '${row.duplicate_of}'`));
+    });
   }
 
   /**
@@ -1443,12 +2359,13 @@ export class DatabaseHandler {
     const now = new Date().toISOString();
 
     // Ensure feature exists
-    const feature = this.db.prepare(`SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ?`).get(featureSlug, repoName);
+    const feature = this.db.prepare(`SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ? AND deleted_at IS NULL`).get(featureSlug, repoName);
     if (!feature) {
       throw new Error(`Feature not found: ${featureSlug} in repo ${repoName}`);
     }
 
     const taskId = task.taskId || `T${Date.now()}`;
+    this.releaseTrashedKey({ repoName, featureSlug, taskId });
 
     // Insert task
     this.db.prepare(`
@@ -1463,7 +2380,7 @@ export class DatabaseHandler {
       taskId,
       task.title || 'New Task',
       task.description || '',
-      task.status || 'PendingProductDirector',
+      task.status || this.getWorkflowDefinition(repoName).stages[0].status,
       task.assignedTo || null,
       task.estimatedHours || null,
       task.orderOfExecution || 0,
@@ -1507,30 +2424,45 @@ export class DatabaseHandler {
       UPDATE features SET last_modified = ? WHERE feature_slug = ? AND repo_name = ?
     `).run(now, featureSlug, repoName);
 
+    this.audit('task', taskId, undefined, this.taskSnapshot(repoName, featureSlug, taskId), { repoName, featureSlug });
     return taskId;
   }
 
   /**
-   * Update specific fields of a task
+   * Update specific fields of a task and increment its version
+   * @param expectedVersion Refuse the update with a VersionConflictError unless the task is at this version
+   * @param afterUpdate Called with the updated task inside the transaction; return true to save
+   *   the changes it made to the task (such as superseded approvals) in the same transaction
    */
-  updateTask(featureSlug: string, taskId: string, updates: Partial<Task>, repoName: string = 'default'): void {
+  updateTask(
+    featureSlug: string,
+    taskId: string,
+    updates: Partial<Task>,
+    repoName: string = 'default',
+    expectedVersion?: number,
+    afterUpdate?: (task: Task) => boolean
+  ): void {
     const now = new Date().toISOString();
 
     const updateTransaction = this.db.transaction(() => {
       // Verify feature exists
-      const feature = this.db.prepare(`SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ?`).get(featureSlug, repoName);
+      const feature = this.db.prepare(`SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ? AND deleted_at IS NULL`).get(featureSlug, repoName);
       if (!feature) {
         throw new Error(`Feature not found: ${featureSlug} in repo ${repoName}`);
       }
 
       // Verify task exists
-      const task = this.db.prepare(`SELECT task_id FROM tasks WHERE feature_slug = ? AND repo_name = ? AND task_id = ?`).get(featureSlug, repoName, taskId);
+      const task = this.db.prepare(`SELECT task_id, version FROM tasks WHERE feature_slug = ? AND repo_name = ? AND task_id = ? AND deleted_at IS NULL`).get(featureSlug, repoName, taskId) as { task_id: string; version: number } | undefined;
       if (!task) {
         throw new Error(`Task not found: ${taskId}`);
       }
+      if (expectedVersion !== undefined && expectedVersion !== task.version) {
+        throw new VersionConflictError(taskId, expectedVersion, task.version);
+      }
+      const before = this.taskSnapshot(repoName, featureSlug, taskId);
 
       // Update basic task fields if provided
-      const updateFields: string[] = [];
+      const updateFields: string[] = ['version = version + 1'];
       const updateValues: any[] = [];
 
       if (updates.title !== undefined) {
@@ -1562,15 +2494,13 @@ export class DatabaseHandler {
         updateValues.push(JSON.stringify(updates.outOfScope));
       }
 
-      // Only execute update if there are fields to update
-      if (updateFields.length > 0) {
-        updateValues.push(repoName, featureSlug, taskId);
-        this.db.prepare(`
-          UPDATE tasks
-          SET ${updateFields.join(', ')}
-          WHERE repo_name = ? AND feature_slug = ? AND task_id = ?
-        `).run(...updateValues);
-      }
+      // Runs even when only criteria or scenarios change, so the version is bumped
+      updateValues.push(repoName, featureSlug, taskId);
+      this.db.prepare(`
+        UPDATE tasks
+        SET ${updateFields.join(', ')}
+        WHERE repo_name = ? AND feature_slug = ? AND task_id = ?
+      `).run(...updateValues);
 
       // Handle acceptance criteria - delete old and insert new
       if (updates.acceptanceCriteria !== undefined) {
@@ -1614,42 +2544,53 @@ export class DatabaseHandler {
       this.db.prepare(`
         UPDATE features SET last_modified = ? WHERE feature_slug = ? AND repo_name = ?
       `).run(now, featureSlug, repoName);
+
+      this.audit('task', taskId, before, this.taskSnapshot(repoName, featureSlug, taskId), { repoName, featureSlug });
+
+      if (afterUpdate) {
+        const row = this.db.prepare(`
+          SELECT * FROM tasks WHERE repo_name = ? AND feature_slug = ? AND task_id = ?
+        `).get(repoName, featureSlug, taskId);
+        const updated = this.mapRowToTask(featureSlug, repoName, row);
+        if (afterUpdate(updated)) {
+          this.writeTasks(featureSlug, [updated], repoName);
+        }
+      }
     });
 
     updateTransaction();
   }
 
   /**
-   * Delete a task from a feature
+   * Move a task and its transitions, reviews, criteria and scenarios to the trash.
+   * Returns the trash item id.
    */
-  deleteTask(featureSlug: string, taskId: string, repoName: string = 'default'): void {
+  deleteTask(featureSlug: string, taskId: string, repoName: string = 'default'): number {
     const now = new Date().toISOString();
 
     const deleteTransaction = this.db.transaction(() => {
       // Verify feature exists
-      const feature = this.db.prepare(`SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ?`).get(featureSlug, repoName);
+      const feature = this.db.prepare(`SELECT feature_slug FROM features WHERE feature_slug = ? AND repo_name = ? AND deleted_at IS NULL`).get(featureSlug, repoName);
       if (!feature) {
         throw new Error(`Feature not found: ${featureSlug} in repo ${repoName}`);
       }
 
       // Verify task exists before deletion
-      const task = this.db.prepare(`SELECT task_id FROM tasks WHERE repo_name = ? AND feature_slug = ? AND task_id = ?`).get(repoName, featureSlug, taskId);
+      const task = this.taskSnapshot(repoName, featureSlug, taskId);
       if (!task) {
         throw new Error(`Task not found: ${taskId}`);
       }
-
-      // Delete task (CASCADE will automatically delete related data)
-      this.db.prepare(`
-        DELETE FROM tasks WHERE repo_name = ? AND feature_slug = ? AND task_id = ?
-      `).run(repoName, featureSlug, taskId);
+      const trashId = this.moveToTrash('task', { repoName, featureSlug, taskId }, task.title as string);
+      this.audit('task', taskId, task, undefined, { repoName, featureSlug });
 
       // Update feature last_modified
       this.db.prepare(`
         UPDATE features SET last_modified = ? WHERE feature_slug = ? AND repo_name = ?
       `).run(now, featureSlug, repoName);
+      return trashId;
     });
 
-    deleteTransaction();
+    return deleteTransaction();
   }
 
   // ============================================================================
@@ -1662,12 +2603,13 @@ export class DatabaseHandler {
   registerRepo(repoName: string, repoPath: string, repoUrl?: string, defaultBranch?: string, metadata?: Record<string, any>): void {
     // Check if repo already exists
     const existing = this.db.prepare(`
-      SELECT repo_name FROM repos WHERE repo_name = ?
+      SELECT repo_name FROM repos WHERE repo_name = ? AND deleted_at IS NULL
     `).get(repoName);
 
     if (existing) {
       throw new Error(`Repository "${repoName}" is already registered`);
     }
+    this.db.transaction(() => this.releaseTrashedKey({ repoName }))();
 
     const now = new Date().toISOString();
 
@@ -1683,6 +2625,7 @@ export class DatabaseHandler {
       now,
       metadata ? JSON.stringify(metadata) : null
     );
+    this.audit('repo', repoName, undefined, this.repoSnapshot(repoName), { repoName });
   }
 
   /**
@@ -1690,7 +2633,7 @@ export class DatabaseHandler {
    */
   getRepo(repoName: string): any | null {
     const repo = this.db.prepare(`
-      SELECT * FROM repos WHERE repo_name = ?
+      SELECT * FROM repos WHERE repo_name = ? AND deleted_at IS NULL
     `).get(repoName) as any;
 
     if (!repo) return null;
@@ -1732,7 +2675,7 @@ export class DatabaseHandler {
 
     // Try to find repo by exact path match
     const repo = this.db.prepare(`
-      SELECT repo_name, repo_path FROM repos WHERE repo_path = ?
+      SELECT repo_name, repo_path FROM repos WHERE repo_path = ? AND deleted_at IS NULL
     `).get(cwd) as any;
 
     if (repo) {
@@ -1771,8 +2714,11 @@ export class DatabaseHandler {
   ): void {
     const now = new Date().toISOString();
     const stepName = `step${stepNumber}`;
+    const snapshot = () => this.rowSnapshot(
+      'feature_refinement_steps', 'repo_name = ? AND feature_slug = ? AND step_number = ?', [repoName, featureSlug, stepNumber]
+    );
 
-    this.db.prepare(`
+    this.audited('refinement_step', stepNumber, { repoName, featureSlug }, snapshot, () => this.db.prepare(`
       INSERT INTO feature_refinement_steps (
         repo_name, feature_slug, step_number, step_name, completed, completed_at, summary, data
       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
@@ -1790,7 +2736,7 @@ export class DatabaseHandler {
       completed ? now : null,
       summary,
       data ? JSON.stringify(data) : null
-    );
+    ));
   }
 
   /**
@@ -1853,7 +2799,10 @@ export class DatabaseHandler {
     let count = 0;
 
     for (const ac of criteria) {
-      this.db.prepare(`
+      const snapshot = () => this.rowSnapshot(
+        'feature_acceptance_criteria', 'repo_name = ? AND feature_slug = ? AND criterion_id = ?', [repoName, featureSlug, ac.criterionId], ['created_at']
+      );
+      this.audited('feature_criterion', ac.criterionId, { repoName, featureSlug }, snapshot, () => this.db.prepare(`
         INSERT INTO feature_acceptance_criteria (
           repo_name, feature_slug, criterion_id, criterion, priority, source, created_at
         ) VALUES (?, ?, ?, ?, ?, ?, ?)
@@ -1869,7 +2818,7 @@ export class DatabaseHandler {
         ac.priority,
         ac.source || 'generated',
         now
-      );
+      ));
       count++;
     }
 
@@ -1919,7 +2868,10 @@ export class DatabaseHandler {
     let count = 0;
 
     for (const scenario of scenarios) {
-      this.db.prepare(`
+      const snapshot = () => this.rowSnapshot(
+        'feature_test_scenarios', 'repo_name = ? AND feature_slug = ? AND scenario_id = ?', [repoName, featureSlug, scenario.scenarioId], ['created_at']
+      );
+      this.audited('feature_scenario', scenario.scenarioId, { repoName, featureSlug }, snapshot, () => this.db.prepare(`
         INSERT INTO feature_test_scenarios (
           repo_name, feature_slug, scenario_id, title, description, priority, type,
           preconditions, expected_result, created_at
@@ -1942,7 +2894,7 @@ export class DatabaseHandler {
         scenario.preconditions || null,
         scenario.expectedResult || null,
         now
-      );
+      ));
       count++;
     }
 
@@ -2001,7 +2953,9 @@ export class DatabaseHandler {
       askedBy
     );
 
-    return Number(result.lastInsertRowid);
+    const id = Number(result.lastInsertRowid);
+    this.audit('clarification', id, undefined, this.rowSnapshot('feature_clarifications', 'id = ?', [id]), { repoName, featureSlug });
+    return id;
   }
 
   /**
@@ -2060,7 +3014,9 @@ export class DatabaseHandler {
       now
     );
 
-    return Number(result.lastInsertRowid);
+    const id = Number(result.lastInsertRowid);
+    this.audit('attachment', id, undefined, this.rowSnapshot('feature_attachments', 'id = ?', [id]), { repoName, featureSlug });
+    return id;
   }
 
   /**
@@ -2095,7 +3051,7 @@ export class DatabaseHandler {
   getRefinementStatus(repoName: string, featureSlug: string): any {
     // Get feature info
     const feature = this.db.prepare(`
-      SELECT feature_name FROM features WHERE repo_name = ? AND feature_slug = ?
+      SELECT feature_name FROM features WHERE repo_name = ? AND feature_slug = ? AND deleted_at IS NULL
     `).get(repoName, featureSlug) as any;
 
     if (!feature) {
@@ -2120,7 +3076,7 @@ export class DatabaseHandler {
 
     // Get task count
     const taskCount = this.db.prepare(`
-      SELECT COUNT(*) as count FROM tasks WHERE repo_name = ? AND feature_slug = ?
+      SELECT COUNT(*) as count FROM tasks WHERE repo_name = ? AND feature_slug = ? AND deleted_at IS NULL
     `).get(repoName, featureSlug) as any;
 
     return {
@@ -2240,3 +3196,19 @@ export class DatabaseHandler {
     }, intervalMinutes * 60 * 1000);
   }
 }
+
+/**
+ * Turn free text into an FTS5 query: every word is quoted so punctuation and
+ * FTS operators are matched literally, and a trailing * keeps prefix search.
+ */
+function toFtsQuery(query: string): string {
+  return query
+    .split(/\s+/)
+    .map(word => {
+      const prefix = word.endsWith('*');
+      const term = word.replace(/\*+$/, '').replace(/"/g, '""');
+      return term ? `"${term}"${prefix ? '*' : ''}` : '';
+    })
+    .filter(Boolean)
+    .join(' ');
+}
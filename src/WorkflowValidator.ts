@@ -6,13 +6,336 @@ import {
   StakeholderRole,
   ReviewDecision,
   ValidationResult,
-  WORKFLOW_RULES,
-  DEV_WORKFLOW_RULES,
+  WorkflowRule,
+  DevWorkflowRule,
+  WorkflowStage,
+  StageCondition,
+  SkippedStage,
+  ParallelReviewState,
+  StakeholderReviewEntry,
   ActorType,
   Task,
+  Transition,
+  TransitionGuard,
+  GuardViolation,
 } from './types.js';
+import {
+  DEFAULT_WORKFLOW_STAGES,
+  STAGE_EXIT_STATUSES,
+  NON_REVIEW_STATUSES,
+  buildReviewRules,
+  buildDevRules,
+  matchesCondition,
+  describeCondition,
+  stageReviewers,
+  reviewKey,
+  approvalsRequired,
+  isParkedStatus,
+} from './workflowDefinitions.js';
+import { DEFAULT_TRANSITION_GUARDS } from './transitionGuards.js';
+
+const BUILT_IN_STAKEHOLDERS: StakeholderRole[] = ['productDirector', 'architect', 'uiUxExpert', 'securityOfficer'];
 
 export class WorkflowValidator {
+  private stages: WorkflowStage[];
+  private reviewRules: Record<string, WorkflowRule>;
+  private devRules: Record<string, DevWorkflowRule>;
+  private guards: TransitionGuard[];
+
+  /**
+   * @param stages Review stages of the repo's active workflow definition (defaults to the built-in pipeline)
+   * @param guards Rules checked before development transitions (defaults to the built-in guards)
+   */
+  constructor(stages: WorkflowStage[] = DEFAULT_WORKFLOW_STAGES, guards: TransitionGuard[] = DEFAULT_TRANSITION_GUARDS) {
+    this.stages = stages;
+    this.reviewRules = buildReviewRules(stages);
+    this.devRules = buildDevRules(stages);
+    this.guards = [...guards];
+  }
+
+  /**
+   * Add a transition guard, replacing any existing guard with the same name
+   */
+  registerGuard(guard: TransitionGuard): void {
+    this.guards = [...this.guards.filter((g) => g.name !== guard.name), guard];
+  }
+
+  /**
+   * Get the transition guards checked by validateDevTransition
+   */
+  getGuards(): TransitionGuard[] {
+    return this.guards;
+  }
+
+  /**
+   * Get the review stages this validator enforces, in pipeline order
+   */
+  getStages(): WorkflowStage[] {
+    return this.stages;
+  }
+
+  /**
+   * Get the status a new task enters the review pipeline at
+   */
+  getInitialStatus(): TaskStatus {
+    return this.stages[0].status;
+  }
+
+  /**
+   * Get every status a task can hold under this definition (review stages first)
+   */
+  getAllStatuses(): TaskStatus[] {
+    return [...this.stages.map((s) => s.status), ...NON_REVIEW_STATUSES];
+  }
+
+  /**
+   * Get the stage awaiting review at the given status, if any
+   */
+  getStage(status: TaskStatus): WorkflowStage | null {
+    return this.stages.find((s) => s.status === status) ?? null;
+  }
+
+  /**
+   * Get why a stage does not apply to a task, or null when the task must be reviewed there
+   */
+  getSkipReason(stage: WorkflowStage, task: Pick<Task, 'tags' | 'estimatedHours'>): string | null {
+    if (stage.skipWhen && matchesCondition(stage.skipWhen, task)) {
+      return `Skipped ${stage.label}: task is ${describeCondition(stage.skipWhen)}`;
+    }
+    if (stage.requiredWhen && !matchesCondition(stage.requiredWhen, task)) {
+      return `Skipped ${stage.label}: only required when task is ${describeCondition(stage.requiredWhen)}`;
+    }
+    return null;
+  }
+
+  /**
+   * Get the key of a reviewer's review of a stage in Task.stakeholderReview
+   */
+  getReviewKey(stage: WorkflowStage, reviewer: StakeholderRole): string {
+    return reviewKey(this.stages, stage, reviewer);
+  }
+
+  /**
+   * Get a reviewer's review of a stage; a role reviewing several stages has one per stage
+   */
+  getStageReview(task: Pick<Task, 'stakeholderReview'>, stage: WorkflowStage, reviewer: StakeholderRole): StakeholderReviewEntry | undefined {
+    return task.stakeholderReview[this.getReviewKey(stage, reviewer)] as StakeholderReviewEntry | undefined;
+  }
+
+  /**
+   * Check whether a stage still holds enough valid (not superseded) approvals to pass
+   */
+  hasValidApprovals(stage: WorkflowStage, task: Pick<Task, 'stakeholderReview'>): boolean {
+    const approvals = stageReviewers(stage).filter((reviewer) => {
+      const review = this.getStageReview(task, stage, reviewer);
+      return review?.approved === true && !review.supersededAt;
+    });
+    return approvals.length >= approvalsRequired(stage);
+  }
+
+  /**
+   * Get the stage a rejected task returns to, or null when it restarts at the first stage.
+   * Set by a rejection that named `returnTo`; the return round lasts until the task
+   * reaches ReadyForDevelopment or is rejected again.
+   */
+  getReturnTarget(task: Pick<Task, 'transitions'>): TaskStatus | null {
+    for (let i = task.transitions.length - 1; i >= 0; i--) {
+      const transition = task.transitions[i];
+      if (transition.to === 'ReadyForDevelopment') return null;
+      if (transition.to === 'NeedsRefinement') return transition.returnTo ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * Validate the stage a rejection sends the task back to: a review stage at or
+   * before the current one, on a stage that rejects to NeedsRefinement
+   */
+  validateReturnTarget(currentStatus: TaskStatus, returnTo: TaskStatus, decision: ReviewDecision): string[] {
+    if (decision !== 'reject') {
+      return ['returnTo can only be given with a reject decision'];
+    }
+    const stage = this.getStage(currentStatus);
+    if (stage && stage.onReject !== 'NeedsRefinement') {
+      return [`returnTo is not supported: ${currentStatus} rejects to ${stage.onReject}`];
+    }
+    const statuses = this.stages.map((s) => s.status);
+    const index = statuses.indexOf(returnTo);
+    if (index === -1 || index > statuses.indexOf(currentStatus)) {
+      const valid = statuses.slice(0, statuses.indexOf(currentStatus) + 1);
+      return [`Invalid returnTo '${returnTo}'. Valid: ${valid.join(', ')}`];
+    }
+    return [];
+  }
+
+  /**
+   * Resolve the status a task actually lands on when routed to `target`.
+   * Stages that do not apply to the task are passed through via their onApprove
+   * target; each one is returned so the caller can record it as a system transition.
+   * While a rejected task is returning to a named stage, later stages whose
+   * approvals are still valid are passed through too.
+   */
+  resolveNextStatus(
+    target: TaskStatus,
+    task: Pick<Task, 'tags' | 'estimatedHours'> & Partial<Pick<Task, 'stakeholderReview' | 'transitions'>>
+  ): { status: TaskStatus; skipped: SkippedStage[] } {
+    const skipped: SkippedStage[] = [];
+    const returning = task.transitions !== undefined && this.getReturnTarget({ transitions: task.transitions }) !== null;
+    let status = target;
+    let stage = this.getStage(status);
+    while (stage) {
+      let reason = this.getSkipReason(stage, task);
+      if (!reason && returning && task.stakeholderReview && this.hasValidApprovals(stage, { stakeholderReview: task.stakeholderReview })) {
+        reason = `Skipped ${stage.label}: approval still valid`;
+      }
+      if (!reason) break;
+      skipped.push({ status, reason });
+      status = stage.onApprove;
+      stage = this.getStage(status);
+    }
+    return { status, skipped };
+  }
+
+  /**
+   * Validate a list of stages before it is stored as a workflow definition
+   * @param knownStakeholders Review roles a stage may use (built-in plus registered user-defined roles)
+   */
+  validateWorkflowDefinition(
+    stages: WorkflowStage[],
+    knownStakeholders: StakeholderRole[] = BUILT_IN_STAKEHOLDERS
+  ): { valid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!Array.isArray(stages) || stages.length === 0) {
+      return { valid: false, errors: ['Workflow definition must have at least one stage'] };
+    }
+
+    const statuses = stages.map((s) => s.status);
+    const targets = new Set<string>([...statuses, ...STAGE_EXIT_STATUSES]);
+
+    stages.forEach((stage, index) => {
+      const where = `Stage ${index + 1} (${stage.status})`;
+      if (!stage.status || !stage.status.startsWith('Pending') || stage.status === 'Pending') {
+        errors.push(`${where}: status must be of the form Pending<Name>`);
+      }
+      if (statuses.indexOf(stage.status) !== index) {
+        errors.push(`${where}: duplicate status`);
+      }
+      if (!knownStakeholders.includes(stage.stakeholder)) {
+        errors.push(`${where}: unknown stakeholder '${stage.stakeholder}'. Valid: ${knownStakeholders.join(', ')}`);
+      }
+      if (stage.parallelReviewers !== undefined || stage.quorum !== undefined) {
+        errors.push(...this.validateParallelStage(stage, where, knownStakeholders));
+      }
+      // A role may only review twice through a conditional stage (e.g. a second security pass)
+      const earlierReviewers = stages.slice(0, index).flatMap((s) => stageReviewers(s));
+      for (const reviewer of stageReviewers(stage)) {
+        if (earlierReviewers.includes(reviewer) && !stage.requiredWhen) {
+          errors.push(
+            `${where}: stakeholder '${reviewer}' already reviews an earlier stage (repeat reviews need requiredWhen)`
+          );
+        }
+      }
+      if (!stage.label || stage.label.trim() === '') {
+        errors.push(`${where}: label is required`);
+      }
+      if (!targets.has(stage.onApprove)) {
+        errors.push(`${where}: onApprove '${stage.onApprove}' is not a stage status or one of ${STAGE_EXIT_STATUSES.join(', ')}`);
+      } else if (statuses.indexOf(stage.onApprove) !== -1 && statuses.indexOf(stage.onApprove) <= index) {
+        errors.push(`${where}: onApprove must point to a later stage`);
+      }
+      if (!targets.has(stage.onReject)) {
+        errors.push(`${where}: onReject '${stage.onReject}' is not a stage status or one of ${STAGE_EXIT_STATUSES.join(', ')}`);
+      }
+      if (!Array.isArray(stage.allowedActors) || stage.allowedActors.length === 0) {
+        errors.push(`${where}: allowedActors must list at least one actor`);
+      }
+      if (stage.requiredWhen !== undefined) {
+        errors.push(...this.validateCondition(stage.requiredWhen, `${where}: requiredWhen`));
+      }
+      if (stage.skipWhen !== undefined) {
+        errors.push(...this.validateCondition(stage.skipWhen, `${where}: skipWhen`));
+      }
+    });
+
+    if (errors.length === 0) {
+      // Approving every stage from the first one must end at ReadyForDevelopment
+      let current: TaskStatus = stages[0].status;
+      while (statuses.includes(current)) {
+        current = stages[statuses.indexOf(current)].onApprove;
+      }
+      if (current !== 'ReadyForDevelopment') {
+        errors.push(`Approving every stage ends at '${current}' instead of ReadyForDevelopment`);
+      }
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Validate the reviewers and quorum of a parallel stage
+   */
+  private validateParallelStage(
+    stage: WorkflowStage,
+    where: string,
+    knownStakeholders: StakeholderRole[]
+  ): string[] {
+    const errors: string[] = [];
+    const reviewers = stage.parallelReviewers;
+    if (!Array.isArray(reviewers) || reviewers.length < 2) {
+      return [`${where}: parallelReviewers must list at least two roles`];
+    }
+    if (!reviewers.includes(stage.stakeholder)) {
+      errors.push(`${where}: parallelReviewers must include the stage stakeholder '${stage.stakeholder}'`);
+    }
+    if (new Set(reviewers).size !== reviewers.length) {
+      errors.push(`${where}: parallelReviewers contains duplicates`);
+    }
+    for (const reviewer of reviewers) {
+      if (!knownStakeholders.includes(reviewer)) {
+        errors.push(`${where}: unknown parallel reviewer '${reviewer}'. Valid: ${knownStakeholders.join(', ')}`);
+      }
+    }
+    const approvals = stage.quorum?.approvals;
+    if (
+      approvals !== undefined &&
+      approvals !== 'all' &&
+      approvals !== 'majority' &&
+      !(Number.isInteger(approvals) && approvals >= 1 && approvals <= reviewers.length)
+    ) {
+      errors.push(`${where}: quorum.approvals must be 'all', 'majority' or a whole number from 1 to ${reviewers.length}`);
+    }
+    return errors;
+  }
+
+  /**
+   * Validate the shape of a stage condition
+   */
+  private validateCondition(condition: StageCondition, where: string): string[] {
+    const errors: string[] = [];
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+      return [`${where} must be an object`];
+    }
+    for (const key of ['tagsAny', 'tagsAll'] as const) {
+      const tags = condition[key];
+      if (tags !== undefined && (!Array.isArray(tags) || tags.some((t) => typeof t !== 'string' || t.trim() === ''))) {
+        errors.push(`${where}.${key} must be an array of non-empty strings`);
+      }
+    }
+    for (const key of ['minEstimatedHours', 'maxEstimatedHours'] as const) {
+      const hours = condition[key];
+      if (hours !== undefined && (typeof hours !== 'number' || hours < 0)) {
+        errors.push(`${where}.${key} must be a non-negative number`);
+      }
+    }
+    const known = ['tagsAny', 'tagsAll', 'minEstimatedHours', 'maxEstimatedHours'];
+    const unknown = Object.keys(condition).filter((k) => !known.includes(k));
+    if (unknown.length > 0) {
+      errors.push(`${where} has unknown field(s): ${unknown.join(', ')}. Valid: ${known.join(', ')}`);
+    }
+    return errors;
+  }
+
   /**
    * Validate if a review transition is allowed
    */
@@ -52,7 +375,7 @@ export class WorkflowValidator {
     }
 
     // Get workflow rule for current status
-    const rule = WORKFLOW_RULES[currentStatus];
+    const rule = this.reviewRules[currentStatus];
     if (!rule) {
       errors.push(`No workflow rule defined for status: ${currentStatus}`);
       return {
@@ -65,8 +388,15 @@ export class WorkflowValidator {
       };
     }
 
-    // Validate correct stakeholder
-    if (rule.expectedStakeholder !== stakeholder) {
+    // Validate correct stakeholder (any of the reviewers on a parallel stage)
+    const reviewers = stageReviewers(this.getStage(currentStatus)!);
+    if (reviewers.length > 1) {
+      if (!reviewers.includes(stakeholder)) {
+        errors.push(
+          `Wrong stakeholder. Task at status ${currentStatus} is reviewed in parallel by ${reviewers.join(', ')}, got ${stakeholder}.`
+        );
+      }
+    } else if (rule.expectedStakeholder !== stakeholder) {
       errors.push(
         `Wrong stakeholder. Expected ${rule.expectedStakeholder}, got ${stakeholder}. ` +
           `Task at status ${currentStatus} requires review from ${rule.expectedStakeholder}.`
@@ -74,7 +404,7 @@ export class WorkflowValidator {
     }
 
     // Calculate next status based on decision
-    const nextStatus = decision === 'approve' ? rule.onApprove : rule.onReject;
+    const nextStatus = decision === 'reject' ? rule.onReject : rule.onApprove;
 
     // Add warning if rejecting
     if (decision === 'reject') {
@@ -95,7 +425,7 @@ export class WorkflowValidator {
    * Get current expected stakeholder for a task
    */
   getExpectedStakeholder(status: TaskStatus): StakeholderRole | null {
-    const rule = WORKFLOW_RULES[status];
+    const rule = this.reviewRules[status];
     return rule ? rule.expectedStakeholder : null;
   }
 
@@ -103,7 +433,7 @@ export class WorkflowValidator {
    * Get possible next statuses for a given status
    */
   getAllowedTransitions(status: TaskStatus): TaskStatus[] {
-    const rule = WORKFLOW_RULES[status];
+    const rule = this.reviewRules[status];
     if (!rule) return [];
     return [rule.onApprove, rule.onReject];
   }
@@ -116,51 +446,78 @@ export class WorkflowValidator {
     pending: StakeholderRole[];
     currentStakeholder: StakeholderRole | null;
   } {
-    const allStakeholders: StakeholderRole[] = [
-      'productDirector',
-      'architect',
-      'uiUxExpert',
-      'securityOfficer',
-    ];
-
     const completed: StakeholderRole[] = [];
     const pending: StakeholderRole[] = [];
 
-    // Check which stakeholders have approved
-    if (task.stakeholderReview.productDirector?.approved) {
-      completed.push('productDirector');
-    } else if (task.status === 'PendingProductDirector') {
-      pending.push('productDirector');
-    }
-
-    if (task.stakeholderReview.architect?.approved) {
-      completed.push('architect');
-    } else if (task.status === 'PendingArchitect') {
-      pending.push('architect');
+    // Check which stage stakeholders have approved; everyone else is still pending
+    // unless their stage does not apply to this task. Superseded approvals do not count.
+    // A role reviewing several stages is completed once it has approved all of them.
+    for (const stage of this.stages) {
+      for (const reviewer of stageReviewers(stage)) {
+        const review = this.getStageReview(task, stage, reviewer);
+        if (review?.approved && !review.supersededAt) {
+          if (!completed.includes(reviewer)) {
+            completed.push(reviewer);
+          }
+        } else if (this.getSkipReason(stage, task)) {
+          continue;
+        } else if (!pending.includes(reviewer)) {
+          pending.push(reviewer);
+        }
+      }
     }
 
-    if (task.stakeholderReview.uiUxExpert?.approved) {
-      completed.push('uiUxExpert');
-    } else if (task.status === 'PendingUiUxExpert') {
-      pending.push('uiUxExpert');
-    }
+    const currentStakeholder = this.getExpectedStakeholder(task.status);
 
-    if (task.stakeholderReview.securityOfficer?.approved) {
-      completed.push('securityOfficer');
-    } else if (task.status === 'PendingSecurityOfficer') {
-      pending.push('securityOfficer');
-    }
+    return { completed: completed.filter((reviewer) => !pending.includes(reviewer)), pending, currentStakeholder };
+  }
 
-    // Determine remaining pending reviews
-    for (const stakeholder of allStakeholders) {
-      if (!completed.includes(stakeholder) && !pending.includes(stakeholder)) {
-        pending.push(stakeholder);
+  /**
+   * Get the votes cast on the parallel stage a task is currently in, or null if
+   * the task is not in a parallel stage. Only votes cast since the task last
+   * entered the stage count, so a rework round starts from a clean slate.
+   */
+  getParallelReviewState(task: Task): ParallelReviewState | null {
+    const stage = this.getStage(task.status);
+    if (!stage) return null;
+    const reviewers = stageReviewers(stage);
+    if (reviewers.length < 2) return null;
+
+    const entered = [...task.transitions].reverse().find((t) => t.to === stage.status)?.timestamp ?? '';
+    const approved: StakeholderRole[] = [];
+    const rejected: StakeholderRole[] = [];
+    const pending: StakeholderRole[] = [];
+    for (const reviewer of reviewers) {
+      const vote = this.getStageReview(task, stage, reviewer);
+      if (!vote || vote.stage !== stage.status || (vote.reviewedAt ?? '') < entered) {
+        pending.push(reviewer);
+      } else if (vote.approved) {
+        approved.push(reviewer);
+      } else {
+        rejected.push(reviewer);
       }
     }
 
-    const currentStakeholder = this.getExpectedStakeholder(task.status);
+    return { status: stage.status, reviewers, approved, rejected, pending, approvalsRequired: approvalsRequired(stage) };
+  }
 
-    return { completed, pending, currentStakeholder };
+  /**
+   * Decide a parallel stage from its votes: 'approve' once the quorum is met,
+   * 'reject' on a rejection (unless the stage waits for all votes) or when the
+   * quorum can no longer be reached, otherwise null while votes are outstanding.
+   */
+  evaluateQuorum(state: ParallelReviewState): ReviewDecision | null {
+    const stage = this.getStage(state.status)!;
+    if (state.approved.length >= state.approvalsRequired) {
+      return 'approve';
+    }
+    if (state.rejected.length > 0 && stage.quorum?.rejectOnAnyReject !== false) {
+      return 'reject';
+    }
+    if (state.approved.length + state.pending.length < state.approvalsRequired) {
+      return 'reject';
+    }
+    return null;
   }
 
   /**
@@ -203,22 +560,37 @@ export class WorkflowValidator {
    * Check if a status is a terminal state
    */
   isTerminalState(status: TaskStatus): boolean {
-    return status === 'ReadyForDevelopment' || status === 'NeedsRefinement' || status === 'Done';
+    return status === 'ReadyForDevelopment' || status === 'NeedsRefinement' || status === 'Done' || status === 'Cancelled';
   }
 
   /**
-   * Validate development workflow transition
+   * Validate development workflow transition.
+   * Any active status can be parked (Blocked, OnHold, Cancelled) by its own actors or
+   * the system; Blocked and OnHold tasks resume at the status they were parked from,
+   * which is only known when the caller supplies the task. A system actor overriding
+   * failing guards may act on any status, on behalf of the status's own actors; a
+   * justification given when no guard fails is refused, so it cannot waive actor rules.
    */
   validateDevTransition(
     currentStatus: TaskStatus,
     targetStatus: TaskStatus,
-    actor: ActorType
+    actor: ActorType,
+    guardContext?: {
+      task: Task;
+      featureTasks: Task[];
+      metadata?: Partial<Transition>;
+      /** Lets a system actor pass failing guards; the guards are reported as warnings */
+      overrideJustification?: string;
+      /** Why the task is being parked; required for parked targets */
+      reason?: string;
+      blockedByTaskId?: string;
+    }
   ): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
 
     // Check if current status exists in dev workflow rules
-    const rule = DEV_WORKFLOW_RULES[currentStatus];
+    const rule = this.devRules[currentStatus];
     if (!rule) {
       errors.push(`No development workflow rule defined for status: ${currentStatus}`);
       return {
@@ -231,22 +603,66 @@ export class WorkflowValidator {
       };
     }
 
+    const parking = isParkedStatus(targetStatus) && !isParkedStatus(currentStatus);
+    const resumeStatus =
+      currentStatus !== 'Cancelled' && isParkedStatus(currentStatus) ? guardContext?.task.parked?.fromStatus : undefined;
+    const resuming = resumeStatus !== undefined && targetStatus === resumeStatus;
+
+    // Check transition guards (only when the caller supplies the task). A resumed task
+    // returns to a status it already entered, so the guards are not checked again.
+    let guardViolations: GuardViolation[] | undefined;
+    if (guardContext && !resuming) {
+      guardViolations = this.guards
+        .filter((guard) => guard.appliesTo.includes(targetStatus))
+        .map((guard) =>
+          guard.check({ ...guardContext, fromStatus: currentStatus, toStatus: targetStatus, actor })
+        )
+        .filter((violation): violation is GuardViolation => violation !== null);
+    }
+    const justification = guardContext?.overrideJustification;
+    const overriding = justification !== undefined && (guardViolations?.length ?? 0) > 0;
+    const allowedActors: ActorType[] =
+      (parking || overriding) && !rule.allowedActors.includes('system')
+        ? [...rule.allowedActors, 'system']
+        : rule.allowedActors;
+    // A task rejected with returnTo may also resubmit straight to that stage
+    const returnTo =
+      currentStatus === 'NeedsRefinement' && guardContext ? this.getReturnTarget(guardContext.task) : null;
+    const extraTarget = resumeStatus ?? returnTo;
+    const allowedTransitions =
+      extraTarget && !rule.allowedTransitions.includes(extraTarget)
+        ? [...rule.allowedTransitions, extraTarget]
+        : rule.allowedTransitions;
+
     // Check if actor is allowed for this status
-    if (!rule.allowedActors.includes(actor)) {
+    if (!allowedActors.includes(actor)) {
       errors.push(
         `Actor '${actor}' is not allowed to perform actions on status '${currentStatus}'. ` +
-          `Allowed actors: ${rule.allowedActors.join(', ')}`
+          `Allowed actors: ${allowedActors.join(', ')}`
       );
     }
 
     // Check if target status is allowed
-    if (!rule.allowedTransitions.includes(targetStatus)) {
+    if (!allowedTransitions.includes(targetStatus)) {
       errors.push(
         `Invalid transition from '${currentStatus}' to '${targetStatus}'. ` +
-          `Allowed transitions: ${rule.allowedTransitions.join(', ')}`
+          `Allowed transitions: ${allowedTransitions.join(', ')}`
       );
     }
 
+    // Parked statuses carry a reason and optionally the task being waited on
+    if (isParkedStatus(targetStatus) && guardContext) {
+      if (!guardContext.reason || guardContext.reason.trim() === '') {
+        errors.push(`A reason is required to move a task to ${targetStatus}`);
+      }
+      const blockerId = guardContext.blockedByTaskId;
+      if (blockerId === guardContext.task.taskId) {
+        errors.push('A task cannot be blocked by itself');
+      } else if (blockerId && !guardContext.featureTasks.some((t) => t.taskId === blockerId)) {
+        errors.push(`Blocker task not found: ${blockerId}`);
+      }
+    }
+
     // Add warnings for specific transitions
     if (targetStatus === 'NeedsChanges') {
       warnings.push('Task requires changes. Will need to be re-reviewed.');
@@ -256,13 +672,33 @@ export class WorkflowValidator {
       warnings.push('Task requires refinement. Will restart stakeholder review cycle.');
     }
 
+    // Transition guards: a system actor may pass the failing ones with a justification
+    if (guardViolations) {
+      if (justification !== undefined && actor !== 'system') {
+        errors.push(`Only the system actor can override transition guards (got '${actor}')`);
+      } else if (justification !== undefined && justification.trim() === '') {
+        errors.push('Guard override requires a non-empty justification');
+      } else if (justification !== undefined && guardViolations.length === 0) {
+        errors.push('No transition guard fails; overrideJustification only bypasses failing guards');
+      } else if (guardViolations.length > 0 && justification !== undefined) {
+        warnings.push(
+          `Guards overridden by system (${guardViolations.map((v) => v.guard).join(', ')}): ${justification}`
+        );
+      } else {
+        for (const violation of guardViolations) {
+          errors.push(`[${violation.guard}] ${violation.message}`);
+        }
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
       warnings,
       currentStatus,
       expectedStakeholder: null,
-      allowedTransitions: rule.allowedTransitions,
+      allowedTransitions,
+      guardViolations,
     };
   }
 
@@ -270,15 +706,23 @@ export class WorkflowValidator {
    * Get allowed transitions for development workflow
    */
   getDevAllowedTransitions(status: TaskStatus): TaskStatus[] {
-    const rule = DEV_WORKFLOW_RULES[status];
+    const rule = this.devRules[status];
     return rule ? rule.allowedTransitions : [];
   }
 
+  /**
+   * Actors allowed to move a task out of a status via transition_task_status
+   */
+  getDevAllowedActors(status: TaskStatus): ActorType[] {
+    const rule = this.devRules[status];
+    return rule ? rule.allowedActors : [];
+  }
+
   /**
    * Check if actor can perform action on given status
    */
   canActorTransition(status: TaskStatus, actor: ActorType): boolean {
-    const rule = DEV_WORKFLOW_RULES[status];
+    const rule = this.devRules[status];
     if (!rule) return false;
     return rule.allowedActors.includes(actor);
   }
@@ -0,0 +1,283 @@
+/**
+ * Agent Identity Test Suite
+ *
+ * Work done inside withAgent is restricted to the agent's roles and stamped
+ * with its name on transitions and reviews. A repo's separatedRoles stop one
+ * agent from acting in two roles of a group on the same task. Agents may not
+ * change pipelines, roles, checkpoints, agent identities or agent settings.
+ * Work outside an agent scope is not restricted, but while agent identity is
+ * required the dashboard API needs the MCP_AUTH_TOKEN.
+ */
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { createServer } from 'http';
+import { AIConductor } from '../AIConductor.js';
+import { DEFAULT_WORKFLOW_STAGES } from '../workflowDefinitions.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { withAgent } from '../agentIdentity.js';
+import { requireApiToken } from '../dashboard/apiAuth.js';
+import { AgentIdentity, TaskStatus } from '../types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'billing';
+const FEATURE_SLUG = 'invoices';
+
+describe('Agent Identity', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  async function createAgent(name: string, roles: string[]): Promise<AgentIdentity> {
+    const result = await manager.createAgentIdentity({ name, roles });
+    expect(result.success).toBe(true);
+    return result.identity!;
+  }
+
+  function transition(taskId: string, fromStatus: TaskStatus, toStatus: TaskStatus, actor: 'system' | 'developer' | 'codeReviewer' | 'qa') {
+    return manager.transitionTaskStatus({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId,
+      fromStatus,
+      toStatus,
+      actor,
+      metadata: { filesChanged: ['invoice.ts'] },
+    });
+  }
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'agent-identity-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/billing' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Invoices' });
+    for (const taskId of ['T01', 'T02']) {
+      await manager.addTask({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId,
+        title: `Invoice ${taskId}`,
+        description: 'Persist invoices',
+        orderOfExecution: 1,
+      });
+    }
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('identities are created with a one-time token and checked roles', async () => {
+    const result = await manager.createAgentIdentity({ name: 'dev-agent', roles: ['developer', 'qa'] });
+    expect(result).toMatchObject({ success: true, identity: { name: 'dev-agent', roles: ['developer', 'qa'] } });
+    expect(manager.findAgentIdentity(result.token!)).toMatchObject({ name: 'dev-agent' });
+    expect(manager.findAgentIdentity('not-a-token')).toBeUndefined();
+
+    // Only the hash is stored, and it stays out of the audit log
+    const db = (dbHandler as any).db;
+    expect(db.prepare(`SELECT token_hash FROM agent_identities`).pluck().get()).not.toBe(result.token);
+    const [created] = (await manager.getAuditLog({ entityType: 'agent' })).entries;
+    expect(Object.keys(created.changes).sort()).toEqual(['created_at', 'roles']);
+
+    expect((await manager.createAgentIdentity({ name: 'dev-agent', roles: ['qa'] })).error).toBe('Agent already exists: dev-agent');
+    expect((await manager.createAgentIdentity({ name: 'Dev Agent', roles: ['qa'] })).success).toBe(false);
+    expect((await manager.createAgentIdentity({ name: 'ops', roles: ['janitor'] })).error).toBe('Unknown pipeline role: janitor');
+
+    expect((await manager.deleteAgentIdentity('dev-agent')).success).toBe(true);
+    expect(manager.findAgentIdentity(result.token!)).toBeUndefined();
+  });
+
+  test('reviews and transitions are limited to the agent roles and record the agent', async () => {
+    const reviewer = await createAgent('pd-agent', ['productDirector']);
+
+    const review = (stakeholder: string) =>
+      withAgent(reviewer, () =>
+        manager.addReview({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', stakeholder, decision: 'approve', notes: 'OK' })
+      );
+
+    expect(await review('productDirector')).toMatchObject({ success: true, newStatus: 'PendingArchitect', transition: { agent: 'pd-agent' } });
+    const refused = await review('architect');
+    expect(refused.success).toBe(false);
+    expect(refused.error).toBe('Agent pd-agent may not act as architect; its roles are: productDirector');
+
+    const task = (await manager.getFeature(REPO_NAME, FEATURE_SLUG)).feature!.tasks.find((t) => t.taskId === 'T01')!;
+    expect(task.transitions.map((t) => t.agent)).toEqual(['pd-agent']);
+    expect(task.stakeholderReview.productDirector).toMatchObject({ approved: true, agent: 'pd-agent' });
+
+    // Transition metadata cannot claim another agent, and callers without one are not restricted
+    const moved = await manager.transitionTaskStatus({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T02',
+      fromStatus: 'PendingProductDirector',
+      toStatus: 'OnHold',
+      actor: 'system',
+      reason: 'Waiting on finance',
+      metadata: { agent: 'pd-agent' },
+    });
+    expect(moved.success).toBe(true);
+    expect(moved.transition.agent).toBeUndefined();
+
+    const asSystem = await withAgent(reviewer, () =>
+      manager.transitionTaskStatus({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T02',
+        fromStatus: 'OnHold',
+        toStatus: 'PendingProductDirector',
+        actor: 'system',
+      })
+    );
+    expect(asSystem.error).toBe('Agent pd-agent may not act as system; its roles are: productDirector');
+  });
+
+  test('rollbacks and review conditions need the role that made the decision', async () => {
+    const architect = await createAgent('arch-agent', ['architect']);
+    const security = await createAgent('sec-agent', ['securityOfficer']);
+    for (const stakeholder of ['productDirector', 'architect', 'uiUxExpert']) {
+      await manager.addReview({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', stakeholder, decision: 'approve', notes: 'OK' });
+    }
+    await manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'securityOfficer',
+      decision: 'approveWithConditions',
+      notes: 'OK once downloads are limited',
+      conditions: ['Rate-limit invoice downloads'],
+    });
+
+    const refused = 'Agent arch-agent may not act as securityOfficer; its roles are: architect';
+    const rollback = () => manager.rollbackLastDecision({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+    const settle = () =>
+      manager.updateReviewCondition({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        conditionId: 'RC-1',
+        satisfied: true,
+        resolution: 'Limited to 10 per minute',
+      });
+    expect((await withAgent(architect, rollback)).error).toBe(refused);
+    expect((await withAgent(architect, settle)).error).toBe(refused);
+
+    expect((await withAgent(security, settle)).openConditions).toEqual([]);
+    expect(await withAgent(security, rollback)).toMatchObject({ success: true, rolledBackTo: 'PendingSecurityOfficer' });
+  });
+
+  test('agents may not change pipelines, roles, checkpoints, agent identities or agent settings', async () => {
+    const admin = await createAgent('admin-agent', ['system', 'productDirector']);
+    const saved = await manager.saveWorkflowCheckpoint({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, description: 'Start' });
+
+    await withAgent(admin, async () => {
+      const stages = DEFAULT_WORKFLOW_STAGES.filter((stage) => stage.stakeholder !== 'uiUxExpert');
+      expect((await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages })).error).toBe(
+        'Agent admin-agent may not change the review pipeline'
+      );
+      expect((await manager.resetWorkflowDefinition(REPO_NAME)).error).toBe('Agent admin-agent may not change the review pipeline');
+      const role = await manager.registerPipelineRole({
+        roleId: 'performanceEngineer',
+        displayName: 'Performance Engineer',
+        systemPrompt: 'Review for performance',
+        phase: 'review',
+      });
+      expect(role.error).toBe('Agent admin-agent may not register pipeline roles');
+      expect((await manager.deletePipelineRole('architect')).error).toBe('Agent admin-agent may not delete pipeline roles');
+      const restore = await manager.restoreWorkflowCheckpoint({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, checkpointId: saved.checkpointId! });
+      expect(restore.error).toBe('Agent admin-agent may not restore workflow checkpoints');
+      expect(() => manager.updateAgentSettings({ requireIdentity: false })).toThrow('Agent admin-agent may not change agent settings');
+      expect((await manager.createAgentIdentity({ name: 'helper', roles: ['system'] })).error).toBe(
+        'Agent admin-agent may not create agent identities'
+      );
+      expect((await manager.deleteAgentIdentity('admin-agent')).error).toBe('Agent admin-agent may not delete agent identities');
+    });
+
+    expect(manager.listAgentIdentities().map((agent) => agent.name)).toEqual(['admin-agent']);
+
+    expect(manager.hasPipelineRole('performanceEngineer')).toBe(false);
+    expect(manager.updateAgentSettings({ requireIdentity: true })).toEqual({ requireIdentity: true });
+    expect((await manager.restoreWorkflowCheckpoint({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, checkpointId: saved.checkpointId! })).success).toBe(true);
+  });
+
+  test('the dashboard API needs the MCP_AUTH_TOKEN while agent identity is required', async () => {
+    const app = express();
+    app.use('/api', requireApiToken(manager, 'admin-token'));
+    app.get('/api/repos', (_req, res) => res.json({ success: true }));
+    app.post('/api/ws/broadcast', (_req, res) => res.json({ success: true }));
+    const httpServer = createServer(app);
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/api`;
+    const get = (token?: string) => fetch(`${base}/repos`, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+
+    try {
+      expect((await get()).status).toBe(200);
+
+      manager.updateAgentSettings({ requireIdentity: true });
+      const refused = await get();
+      expect(refused.status).toBe(401);
+      expect((await refused.json()).error).toContain('send the MCP_AUTH_TOKEN as a bearer token');
+      expect((await get('wrong-token')).status).toBe(401);
+      expect((await get('admin-token')).status).toBe(200);
+      // The MCP process relays task events without a token
+      expect((await fetch(`${base}/ws/broadcast`, { method: 'POST' })).status).toBe(200);
+    } finally {
+      httpServer.closeAllConnections();
+      await new Promise((resolve) => httpServer.close(resolve));
+    }
+  });
+
+  test('separatedRoles keep one agent from developing and reviewing the same task', async () => {
+    for (const taskId of ['T01', 'T02']) {
+      for (const stakeholder of ['productDirector', 'architect', 'uiUxExpert', 'securityOfficer']) {
+        await manager.addReview({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId, stakeholder, decision: 'approve', notes: 'OK' });
+      }
+      await transition(taskId, 'ReadyForDevelopment', 'ToDo', 'system');
+    }
+    const fullStack = await createAgent('full-stack', ['developer', 'codeReviewer']);
+    const reviewerAgent = await createAgent('review-agent', ['codeReviewer']);
+
+    expect(() => manager.updateReviewSettings(REPO_NAME, { separatedRoles: [['developer']] })).toThrow('at least two different roles');
+    expect(() => withAgent(fullStack, () => manager.updateReviewSettings(REPO_NAME, { separatedRoles: [] }))).toThrow(
+      'Agent full-stack may not change separatedRoles'
+    );
+    expect(manager.updateReviewSettings(REPO_NAME, { separatedRoles: [['developer', 'codeReviewer']] }).separatedRoles).toEqual([
+      ['developer', 'codeReviewer'],
+    ]);
+
+    // T02 is developed by someone else
+    await transition('T02', 'ToDo', 'InProgress', 'developer');
+    await transition('T02', 'InProgress', 'InReview', 'developer');
+
+    await withAgent(fullStack, async () => {
+      expect((await transition('T01', 'ToDo', 'InProgress', 'developer')).success).toBe(true);
+      expect((await transition('T01', 'InProgress', 'InReview', 'developer')).success).toBe(true);
+      const selfReview = await transition('T01', 'InReview', 'InQA', 'codeReviewer');
+      expect(selfReview.error).toBe('Agent full-stack already acted as developer on T01 and may not also act as codeReviewer');
+
+      // Batches are held to the same rule, task by task
+      const batch = await manager.batchTransitionTasks({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskIds: ['T01'],
+        fromStatus: 'InReview',
+        toStatus: 'InQA',
+        actor: 'codeReviewer',
+      });
+      expect(batch.results[0].error).toBe(selfReview.error);
+
+      // The rule is per task: developing T01 does not stop the agent reviewing T02
+      expect((await transition('T02', 'InReview', 'InQA', 'codeReviewer')).success).toBe(true);
+    });
+
+    expect((await withAgent(reviewerAgent, () => transition('T01', 'InReview', 'InQA', 'codeReviewer'))).success).toBe(true);
+  });
+});
@@ -726,6 +726,7 @@ describe('All MCP Tools - Comprehensive Test Suite', () => {
       expect(result.currentStatus).toBe('PendingProductDirector');
       expect(result.phase).toBe('review');
       expect(result.allowedDecisions).toContain('approve');
+      expect(result.allowedDecisions).toContain('approveWithConditions');
       expect(result.allowedDecisions).toContain('reject');
       expect(result.focusAreas.length).toBeGreaterThan(0);
       expect(result.systemPrompt).toBeTruthy();
@@ -757,8 +758,12 @@ describe('All MCP Tools - Comprehensive Test Suite', () => {
       // Transition through dev workflow to Done
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'ReadyForDevelopment', toStatus: 'ToDo', actor: 'system' });
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'ToDo', toStatus: 'InProgress', actor: 'developer' });
-      await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InProgress', toStatus: 'InReview', actor: 'developer' });
+      await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InProgress', toStatus: 'InReview', actor: 'developer', metadata: { filesChanged: ['login.ts'] } });
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InReview', toStatus: 'InQA', actor: 'codeReviewer' });
+      await manager.batchUpdateAcceptanceCriteria({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, updates: [
+        { taskId: 'T01', criterionId: 'AC-1', verified: true },
+        { taskId: 'T01', criterionId: 'AC-2', verified: true },
+      ] });
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InQA', toStatus: 'Done', actor: 'qa' });
 
       const result = await manager.getNextStep({
@@ -835,7 +840,11 @@ describe('All MCP Tools - Comprehensive Test Suite', () => {
       });
       expect(result.success).toBe(true);
 
-      // InQA -> Done
+      // InQA -> Done (Must Have criteria verified first)
+      await manager.batchUpdateAcceptanceCriteria({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, updates: [
+        { taskId: 'T01', criterionId: 'AC-1', verified: true },
+        { taskId: 'T01', criterionId: 'AC-2', verified: true },
+      ] });
       result = await manager.transitionTaskStatus({
         repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01',
         fromStatus: 'InQA', toStatus: 'Done', actor: 'qa',
@@ -869,7 +878,7 @@ describe('All MCP Tools - Comprehensive Test Suite', () => {
       // Move to InReview
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'ReadyForDevelopment', toStatus: 'ToDo', actor: 'system' });
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'ToDo', toStatus: 'InProgress', actor: 'developer' });
-      await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InProgress', toStatus: 'InReview', actor: 'developer' });
+      await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InProgress', toStatus: 'InReview', actor: 'developer', metadata: { filesChanged: ['login.ts'] } });
 
       // Reject to NeedsChanges
       const result = await manager.transitionTaskStatus({
@@ -1075,8 +1084,12 @@ describe('All MCP Tools - Comprehensive Test Suite', () => {
 
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'ReadyForDevelopment', toStatus: 'ToDo', actor: 'system' });
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'ToDo', toStatus: 'InProgress', actor: 'developer' });
-      await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InProgress', toStatus: 'InReview', actor: 'developer' });
+      await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InProgress', toStatus: 'InReview', actor: 'developer', metadata: { filesChanged: ['login.ts'] } });
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InReview', toStatus: 'InQA', actor: 'codeReviewer' });
+      await manager.batchUpdateAcceptanceCriteria({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, updates: [
+        { taskId: 'T01', criterionId: 'AC-1', verified: true },
+        { taskId: 'T01', criterionId: 'AC-2', verified: true },
+      ] });
       await manager.transitionTaskStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', fromStatus: 'InQA', toStatus: 'Done', actor: 'qa' });
 
       const result = await manager.verifyAllTasksComplete({
@@ -0,0 +1,124 @@
+/**
+ * Audit Log Test Suite
+ *
+ * Every mutation outside the transitions table leaves an append-only audit
+ * entry with its actor, the entity and a before/after diff of the changed
+ * fields. Entries can be filtered and paged newest first.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { withActor } from '../auditLog.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+
+describe('Audit Log', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from activity',
+      orderOfExecution: 1,
+      acceptanceCriteria: [{ id: 'AC-1', criterion: 'Scores update nightly', priority: 'Must Have', verified: false }],
+    });
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('task edits and deletes record the actor and a before/after diff', async () => {
+    await withActor('mcp:test-client', () =>
+      manager.updateTask({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        updates: {
+          title: 'Score model v2',
+          acceptanceCriteria: [{ id: 'AC-1', criterion: 'Scores update hourly', priority: 'Must Have', verified: false }],
+        },
+      })
+    );
+    await manager.deleteTask(REPO_NAME, FEATURE_SLUG, 'T01');
+
+    const { entries } = await manager.getAuditLog({ entityType: 'task', entityId: 'T01' });
+    expect(entries.map((e) => [e.operation, e.actor])).toEqual([
+      ['delete', 'system'],
+      ['update', 'mcp:test-client'],
+      ['create', 'system'],
+    ]);
+
+    const [deleted, updated] = entries;
+    expect(updated).toMatchObject({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG });
+    expect(Object.keys(updated.changes).sort()).toEqual(['acceptance_criteria', 'title']);
+    expect(updated.changes.title).toEqual({ before: 'Score model', after: 'Score model v2' });
+    expect(updated.changes.acceptance_criteria.after).toEqual([
+      { criterion_id: 'AC-1', criterion: 'Scores update hourly', priority: 'Must Have', verified: 0 },
+    ]);
+    expect(deleted.changes.title).toEqual({ before: 'Score model v2', after: null });
+  });
+
+  test('settings, role prompts, features and repos are audited', async () => {
+    manager.updateQueueSettings({ cronIntervalSeconds: 30, cliTool: 'claude' });
+    manager.updateRolePrompt('architect', { focusAreas: ['Data model'] });
+    await manager.updateFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring v2' });
+    await manager.deleteRepo(REPO_NAME);
+
+    const settings = await manager.getAuditLog({ entityType: 'setting' });
+    expect(settings.entries.map((e) => [e.entityId, e.changes.value])).toEqual([
+      ['cronIntervalSeconds', { before: '60', after: '30' }],
+    ]);
+
+    const [role] = (await manager.getAuditLog({ entityType: 'role' })).entries;
+    expect(role).toMatchObject({ entityId: 'architect', operation: 'update' });
+    expect(role.changes.focus_areas.after).toBe(JSON.stringify(['Data model']));
+    expect(role.changes.is_custom).toEqual({ before: 0, after: 1 });
+
+    const features = await manager.getAuditLog({ entityType: 'feature', entityId: FEATURE_SLUG });
+    expect(features.entries.map((e) => e.operation)).toEqual(['update', 'create']);
+    expect(features.entries[0].changes).toEqual({ feature_name: { before: 'Lead Scoring', after: 'Lead Scoring v2' } });
+
+    // Entries outlive the repo they describe
+    const repo = await manager.getAuditLog({ entityType: 'repo', repoName: REPO_NAME });
+    expect(repo.entries.map((e) => e.operation)).toEqual(['delete', 'create']);
+    expect(repo.entries[0].changes.repo_path).toEqual({ before: '/test/crm', after: null });
+  });
+
+  test('the log is append-only and pages newest first', async () => {
+    const db = (dbHandler as any).db;
+    expect(() => db.prepare(`UPDATE audit_log SET actor = 'someone'`).run()).toThrow('audit_log is append-only');
+    expect(() => db.prepare(`DELETE FROM audit_log`).run()).toThrow('audit_log is append-only');
+
+    for (const title of ['One', 'Two', 'Three']) {
+      await manager.updateTask({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', updates: { title } });
+    }
+    const all = await manager.getAuditLog({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG });
+    const page = await manager.getAuditLog({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, limit: 2, offset: 1 });
+    expect(page).toMatchObject({ success: true, total: all.total, limit: 2, offset: 1 });
+    expect(page.entries).toEqual(all.entries.slice(1, 3));
+    expect(page.entries.map((e) => e.changes.title?.after)).toEqual(['Two', 'One']);
+
+    expect((await manager.getAuditLog({ limit: 0 })).error).toBe('limit must be an integer between 1 and 500');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Backups Test Suite
+ *
+ * Online backups of the task database: snapshots with retention, the schedule
+ * kept in the settings table, and restores that validate a backup before it
+ * replaces the live database.
+ */
+
+import Database from 'better-sqlite3';
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { BackupScheduler } from '../backup-scheduler.js';
+import { listBackups, pruneBackups, restoreBackup } from '../backupManager.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+
+describe('Backups', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+  let dbPath: string;
+  let backupDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'backups-'));
+    dbPath = path.join(tmpDir, 'tasks.db');
+    backupDir = path.join(tmpDir, 'backups');
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from activity',
+      orderOfExecution: 1,
+    });
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function taskTitles(file: string): string[] {
+    const db = new Database(file, { readonly: true });
+    try {
+      return (db.prepare(`SELECT title FROM tasks WHERE deleted_at IS NULL ORDER BY task_id`).all() as Array<{ title: string }>).map((r) => r.title);
+    } finally {
+      db.close();
+    }
+  }
+
+  test('a backup is a consistent copy and old backups are pruned to the retention count', async () => {
+    expect(manager.getBackupSettings()).toEqual({ intervalHours: 24, retention: 7, directory: backupDir });
+    manager.updateBackupSettings({ retention: 2 });
+
+    const first = await manager.createBackup();
+    expect(first.success).toBe(true);
+    expect(first.backup).toMatchObject({ reason: 'manual', path: path.join(backupDir, first.backup!.fileName) });
+    expect(taskTitles(first.backup!.path)).toEqual(['Score model']);
+
+    await manager.createBackup();
+    const third = await manager.createBackup();
+    expect(third.pruned).toEqual([first.backup!.fileName]);
+    expect(manager.listBackups().map((b) => b.fileName)).toEqual([
+      third.backup!.fileName,
+      expect.stringMatching(/^tasks-\d{8}T\d{9}Z-manual\.db$/),
+    ]);
+  });
+
+  test('the scheduler backs up only when the newest backup is older than the interval', async () => {
+    const scheduler = new BackupScheduler(manager);
+    manager.updateBackupSettings({ intervalHours: 0 });
+    expect(await scheduler.tick()).toBe(false);
+
+    manager.updateBackupSettings({ intervalHours: 6 });
+    expect(await scheduler.tick()).toBe(true);
+    expect(await scheduler.tick()).toBe(false);
+    expect(await scheduler.tick(new Date(Date.now() + 7 * 3_600_000))).toBe(true);
+    expect(manager.listBackups().map((b) => b.reason)).toEqual(['scheduled', 'scheduled']);
+  });
+
+  test('restore swaps in the backup and keeps the replaced database', async () => {
+    const { backup } = await manager.createBackup();
+    await manager.deleteTask(REPO_NAME, FEATURE_SLUG, 'T01');
+    dbHandler.close();
+
+    const report = await restoreBackup(backup!.path, dbPath, backupDir);
+    expect(report.migrationsApplied).toEqual([]);
+    expect(report.safetyBackup?.reason).toBe('pre-restore');
+    expect(taskTitles(report.safetyBackup!.path)).toEqual([]);
+
+    dbHandler = new DatabaseHandler(tmpDir);
+    const restored = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    expect(restored.tasks.map((t) => t.taskId)).toEqual(['T01']);
+
+    // The replaced database outlives retention
+    expect(pruneBackups(backupDir, 1)).toEqual([]);
+    await dbHandler.backup('scheduled');
+    expect(pruneBackups(backupDir, 1)).toEqual([backup!.fileName]);
+    expect(listBackups(backupDir).map((b) => b.reason)).toEqual(['scheduled', 'pre-restore']);
+  });
+
+  test('restore refuses an invalid backup and leaves the database untouched', async () => {
+    dbHandler.close();
+    const corrupt = path.join(tmpDir, 'corrupt.db');
+    nodeFs.writeFileSync(corrupt, 'not a database');
+    await expect(restoreBackup(corrupt, dbPath, backupDir)).rejects.toThrow('Cannot restore corrupt.db');
+
+    const newer = path.join(tmpDir, 'newer.db');
+    nodeFs.copyFileSync(dbPath, newer);
+    const db = new Database(newer);
+    db.prepare(`INSERT INTO _migrations (name, applied_at, checksum) VALUES ('999_from_the_future', '', '')`).run();
+    db.close();
+    await expect(restoreBackup(newer, dbPath, backupDir)).rejects.toThrow('unknown migrations: 999_from_the_future');
+
+    expect(listBackups(backupDir)).toEqual([]);
+    expect(nodeFs.existsSync(`${dbPath}.restoring`)).toBe(false);
+    expect(taskTitles(dbPath)).toEqual(['Score model']);
+  });
+});
@@ -147,6 +147,7 @@ describe('Dev Queue System', () => {
         baseReposFolder: '',
         cliTool: 'claude',
         workerEnabled: false,
+        completionExcludedStatuses: ['Cancelled'],
       });
     });
   });
@@ -345,6 +346,37 @@ describe('Dev Queue System', () => {
       expect(enqueued2).toBe(0);
     });
 
+    test('scan ignores tasks in excluded parked statuses', async () => {
+      manager.updateQueueSettings({ workerEnabled: true });
+      await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test' });
+      await manager.createFeature({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        featureName: FEATURE_NAME,
+      });
+      for (const taskId of ['T01', 'T02']) {
+        await manager.addTask({
+          repoName: REPO_NAME,
+          featureSlug: FEATURE_SLUG,
+          taskId,
+          title: `Task ${taskId}`,
+          description: 'A test task',
+          orderOfExecution: 1,
+        });
+      }
+
+      const db = dbHandler['db'];
+      db.prepare(`UPDATE tasks SET status = 'ReadyForDevelopment' WHERE task_id = 'T01' AND feature_slug = ?`).run(FEATURE_SLUG);
+      db.prepare(`UPDATE tasks SET status = 'OnHold' WHERE task_id = 'T02' AND feature_slug = ?`).run(FEATURE_SLUG);
+
+      // OnHold is not excluded by default, so the feature is not ready
+      const scanner = new CronScanner(manager);
+      expect(await scanner.scan()).toBe(0);
+
+      manager.updateQueueSettings({ completionExcludedStatuses: ['OnHold', 'Cancelled'] });
+      expect(await scanner.scan()).toBe(1);
+    });
+
     test('start/stop controls the loop', () => {
       const scanner = new CronScanner(manager);
       expect(scanner.isRunning).toBe(false);
@@ -0,0 +1,132 @@
+/**
+ * Incremental Persistence Test Suite
+ *
+ * Mutations write only the affected task: other tasks keep their rows,
+ * transitions are appended, and rows keep their ids and order.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'warehouse';
+const FEATURE_SLUG = 'stock-alerts';
+
+describe('Incremental Persistence', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'incremental-persistence-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/warehouse' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Stock Alerts' });
+    for (const [taskId, title] of [['T01', 'Low stock threshold'], ['T02', 'Alert emails']]) {
+      await manager.addTask({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId,
+        title,
+        description: title,
+        orderOfExecution: 1,
+        acceptanceCriteria: [{ id: 'AC-1', criterion: `${title} works`, priority: 'Must Have', verified: false }],
+      });
+    }
+    for (const stakeholder of ['productDirector', 'architect']) {
+      await review('T01', stakeholder);
+      await review('T02', stakeholder);
+    }
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function review(taskId: string, stakeholder: string) {
+    return manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId,
+      stakeholder,
+      decision: 'approve',
+      notes: 'OK',
+    });
+  }
+
+  function rowIds(table: string, taskId: string): number[] {
+    return (
+      dbHandler['db']
+        .prepare(`SELECT id FROM ${table} WHERE repo_name = ? AND feature_slug = ? AND task_id = ? ORDER BY id`)
+        .all(REPO_NAME, FEATURE_SLUG, taskId) as Array<{ id: number }>
+    ).map((row) => row.id);
+  }
+
+  test('a review leaves the other tasks of the feature untouched', async () => {
+    const before = {
+      task: rowIds('tasks', 'T02'),
+      transitions: rowIds('transitions', 'T02'),
+      reviews: rowIds('stakeholder_reviews', 'T02'),
+      criteria: rowIds('acceptance_criteria', 'T02'),
+    };
+
+    await review('T01', 'uiUxExpert');
+
+    expect(rowIds('tasks', 'T02')).toEqual(before.task);
+    expect(rowIds('transitions', 'T02')).toEqual(before.transitions);
+    expect(rowIds('stakeholder_reviews', 'T02')).toEqual(before.reviews);
+    expect(rowIds('acceptance_criteria', 'T02')).toEqual(before.criteria);
+  });
+
+  test('transitions are appended and existing rows keep their ids', async () => {
+    const taskId = rowIds('tasks', 'T01');
+    const transitions = rowIds('transitions', 'T01');
+    const reviews = rowIds('stakeholder_reviews', 'T01');
+
+    await review('T01', 'uiUxExpert');
+
+    expect(rowIds('tasks', 'T01')).toEqual(taskId);
+    const after = rowIds('transitions', 'T01');
+    expect(after.slice(0, transitions.length)).toEqual(transitions);
+    expect(after).toHaveLength(transitions.length + 1);
+    expect(rowIds('stakeholder_reviews', 'T01').slice(0, reviews.length)).toEqual(reviews);
+
+    const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    const t01 = taskFile.tasks.find((t) => t.taskId === 'T01')!;
+    expect(t01.transitions.map((t) => t.to)).toEqual(['PendingArchitect', 'PendingUiUxExpert', 'PendingSecurityOfficer']);
+  });
+
+  test('updating a criterion updates its row in place', async () => {
+    const criteria = rowIds('acceptance_criteria', 'T01');
+
+    await manager.updateAcceptanceCriteria({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      criterionId: 'AC-1',
+      verified: true,
+    });
+
+    expect(rowIds('acceptance_criteria', 'T01')).toEqual(criteria);
+    const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    expect(taskFile.tasks.find((t) => t.taskId === 'T01')!.acceptanceCriteria[0].verified).toBe(true);
+  });
+
+  test('a rollback deletes only the last transition row', async () => {
+    const transitions = rowIds('transitions', 'T01');
+
+    const result = await manager.rollbackLastDecision({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+    expect(result.success).toBe(true);
+
+    expect(rowIds('transitions', 'T01')).toEqual(transitions.slice(0, -1));
+  });
+});
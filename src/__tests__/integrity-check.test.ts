@@ -0,0 +1,167 @@
+/**
+ * Integrity Check Test Suite
+ *
+ * The integrity check reports rows the schema's keys let through, by category,
+ * and in repair mode fixes the repairable ones in one transaction: orphaned
+ * tasks go to the trash, other orphaned rows are deleted and dangling
+ * dependencies are dropped.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { IntegrityCategory, IntegrityReport } from '../types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+
+describe('Integrity Check', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  function issuesByCategory(report: IntegrityReport): Record<IntegrityCategory, string[]> {
+    return Object.fromEntries(
+      report.categories.map((c) => [c.category, c.issues.map((issue) => `${issue.table}: ${issue.detail}`)])
+    ) as Record<IntegrityCategory, string[]>;
+  }
+
+  /** Write rows the foreign keys would refuse, as a migration with them off could */
+  function seedAnomalies(): void {
+    const db = (dbHandler as any).db;
+    db.pragma('foreign_keys = OFF');
+    db.prepare(`INSERT INTO tasks (repo_name, feature_slug, task_id, title, description, status)
+      VALUES (?, 'gone', 'T09', 'Lost task', '', 'PendingArchitect')`).run(REPO_NAME);
+    db.prepare(`INSERT INTO transitions (repo_name, feature_slug, task_id, from_status, to_status, actor, timestamp)
+      VALUES (?, ?, 'T07', 'PendingArchitect', 'PendingProductDirector', 'architect', '2025-01-01T00:00:00Z')`).run(REPO_NAME, FEATURE_SLUG);
+    db.prepare(`INSERT INTO acceptance_criteria (repo_name, feature_slug, task_id, criterion_id, criterion, priority)
+      VALUES (?, ?, 'T07', 'AC-1', 'Stale', 'Must Have')`).run(REPO_NAME, FEATURE_SLUG);
+    db.prepare(`INSERT INTO feature_refinement_steps (repo_name, feature_slug, step_number, step_name)
+      VALUES (?, 'gone', 1, 'Scope')`).run(REPO_NAME);
+    db.prepare(`INSERT INTO workflow_definitions (repo_name, stages, updated_at) VALUES (NULL, '[]', '2025-01-01T00:00:00Z')`).run();
+    db.pragma('foreign_keys = ON');
+  }
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'integrity-check-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    for (const [taskId, dependencies] of [['T01', []], ['T02', ['T01']]] as const) {
+      await manager.addTask({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId,
+        title: `Task ${taskId}`,
+        description: 'Scoring work',
+        orderOfExecution: 1,
+        dependencies: [...dependencies],
+        acceptanceCriteria: [{ id: 'AC-1', criterion: 'Scores update nightly', priority: 'Must Have', verified: false }],
+      });
+    }
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('a healthy database has no issues', async () => {
+    const result = await manager.checkIntegrity();
+    expect(result).toMatchObject({ success: true, message: 'Found 0 issue(s)' });
+    expect(result.report!.categories.map((c) => [c.category, c.issues.length])).toEqual([
+      ['null_repo_name', 0],
+      ['orphan_feature_rows', 0],
+      ['orphan_task_rows', 0],
+      ['dangling_dependencies', 0],
+      ['duplicate_criterion_ids', 0],
+    ]);
+  });
+
+  test('anomalies are reported by category without changing anything', async () => {
+    seedAnomalies();
+    await manager.deleteTask(REPO_NAME, FEATURE_SLUG, 'T01');
+    await manager.addFeatureAcceptanceCriteria({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      criteria: [
+        { criterionId: 'FAC-1', criterion: 'Scores are explainable', priority: 'Must Have' },
+        { criterionId: 'fac-1 ', criterion: 'Scores are auditable', priority: 'Should Have' },
+      ],
+    });
+
+    const { report } = await manager.checkIntegrity();
+    expect(report).toMatchObject({ repaired: false, issueCount: 7 });
+    expect(report!.remainingCount).toBeUndefined();
+    expect(issuesByCategory(report!)).toEqual({
+      null_repo_name: ['workflow_definitions: repo_name is NULL'],
+      orphan_feature_rows: [
+        `tasks: Feature gone does not exist in repo ${REPO_NAME}`,
+        `feature_refinement_steps: Feature gone does not exist in repo ${REPO_NAME}`,
+      ],
+      orphan_task_rows: [
+        `transitions: Task T07 does not exist in feature ${FEATURE_SLUG}`,
+        `acceptance_criteria: Task T07 does not exist in feature ${FEATURE_SLUG}`,
+      ],
+      dangling_dependencies: ['tasks: Depends on missing task T01'],
+      duplicate_criterion_ids: ["feature_acceptance_criteria: Criterion ID 'fac-1 ' repeats 'FAC-1'"],
+    });
+    expect(report!.categories.find((c) => c.category === 'orphan_feature_rows')!.issues[0]).toMatchObject({
+      repoName: REPO_NAME,
+      featureSlug: 'gone',
+      taskId: 'T09',
+    });
+
+    expect((await manager.checkIntegrity()).report!.issueCount).toBe(7);
+  });
+
+  test('repair fixes the repairable issues and leaves duplicate criterion IDs', async () => {
+    seedAnomalies();
+    await manager.deleteTask(REPO_NAME, FEATURE_SLUG, 'T01');
+    await manager.addFeatureAcceptanceCriteria({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      criteria: [
+        { criterionId: 'FAC-1', criterion: 'Scores are explainable', priority: 'Must Have' },
+        { criterionId: 'Fac-1', criterion: 'Scores are auditable', priority: 'Should Have' },
+      ],
+    });
+
+    const taskT02 = async () => (await manager.getFeature(REPO_NAME, FEATURE_SLUG)).feature!.tasks.find((t) => t.taskId === 'T02')!;
+    const { version } = await taskT02();
+
+    const result = await manager.checkIntegrity({ repair: true });
+    expect(result.message).toBe('Found 7 issue(s); 1 remain after repair');
+    expect(result.report!.categories.map((c) => [c.category, c.remaining])).toEqual([
+      ['null_repo_name', 0],
+      ['orphan_feature_rows', 0],
+      ['orphan_task_rows', 0],
+      ['dangling_dependencies', 0],
+      ['duplicate_criterion_ids', 1],
+    ]);
+
+    // The workflow row took the default repo; the orphaned task waits in the trash
+    const db = (dbHandler as any).db;
+    expect(db.prepare(`SELECT repo_name FROM workflow_definitions`).pluck().all()).toEqual(['default']);
+    expect((await manager.listTrash(REPO_NAME)).items.map((item) => [item.featureSlug, item.taskId])).toEqual([
+      ['gone', 'T09'],
+      [FEATURE_SLUG, 'T01'],
+    ]);
+
+    const t02 = await taskT02();
+    expect(t02.dependencies).toEqual([]);
+    expect(t02.version).toBe(version! + 1);
+    const [audit] = (await manager.getAuditLog({ entityType: 'task', entityId: 'T02' })).entries;
+    expect(audit.changes.dependencies).toEqual({ before: '["T01"]', after: '[]' });
+
+    expect((await manager.checkIntegrity()).report!.issueCount).toBe(1);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * MCP over HTTP Test Suite
+ *
+ * The /mcp endpoint serves the MCP server over streamable HTTP. Requests need
+ * the configured bearer token, every client gets its own session, and tool
+ * calls run against the dashboard's AIConductor. With requireIdentity on, only
+ * sessions with an agent token can call tools.
+ */
+
+import express from 'express';
+import { AddressInfo } from 'net';
+import { createServer, Server as HttpServer } from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { createMcpRoutes, McpRoutes } from '../dashboard/routes/mcp.routes.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const AUTH_TOKEN = 'test-token';
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+
+describe('MCP over HTTP', () => {
+  let manager: AIConductor;
+  let mcpRoutes: McpRoutes;
+  let httpServer: HttpServer;
+  let url: URL;
+  let tmpDir: string;
+  const clients: Client[] = [];
+
+  async function connect(name: string, token = AUTH_TOKEN): Promise<Client> {
+    const client = new Client({ name, version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  }
+
+  function post(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'mcp-http-'));
+    manager = new AIConductor(tmpDir);
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from activity',
+      orderOfExecution: 1,
+    });
+
+    const app = express();
+    app.use(express.json());
+    mcpRoutes = createMcpRoutes(manager, AUTH_TOKEN);
+    app.use('/mcp', mcpRoutes.router);
+
+    httpServer = createServer(app);
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+    url = new URL(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await mcpRoutes.closeSessions();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+    try {
+      ((manager as any).dbHandler as DatabaseHandler).close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('requests without the bearer token are refused', async () => {
+    const initialize = { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} };
+
+    const missing = await post(initialize);
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toMatch(/^Bearer error="invalid_token"/);
+
+    expect((await post(initialize, { Authorization: 'Bearer wrong-token' })).status).toBe(401);
+    expect(mcpRoutes.sessionCount()).toBe(0);
+  });
+
+  test('each client gets a session and its tool calls reach AIConductor', async () => {
+    const developer = await connect('developer-agent');
+    const reviewer = await connect('review-agent');
+    expect(mcpRoutes.sessionCount()).toBe(2);
+
+    expect((await developer.listTools()).tools.map((t) => t.name)).toContain('update_task');
+    await developer.callTool({
+      name: 'update_task',
+      arguments: { repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', updates: { title: 'Score model v2' } },
+    });
+
+    const status = await reviewer.callTool({
+      name: 'get_task_status',
+      arguments: { repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' },
+    });
+    expect(status.isError).toBeFalsy();
+    const [update] = (await manager.getAuditLog({ entityType: 'task', entityId: 'T01', operation: 'update' })).entries;
+    expect(update).toMatchObject({ actor: 'mcp:developer-agent', changes: { title: { before: 'Score model', after: 'Score model v2' } } });
+  });
+
+  test('requireIdentity refuses tool calls from sessions without an agent identity', async () => {
+    const { token } = await manager.createAgentIdentity({ name: 'dev-agent', roles: ['developer'] });
+    manager.updateAgentSettings({ requireIdentity: true });
+    const args = { name: 'get_task_status', arguments: { repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' } };
+
+    const shared = await connect('shared-token-client');
+    expect((await shared.listTools()).tools.length).toBeGreaterThan(0);
+    await expect(shared.callTool(args)).rejects.toThrow('This server requires an agent identity');
+
+    const agent = await connect('dev-agent', token);
+    expect((await agent.callTool(args)).isError).toBeFalsy();
+  });
+
+  test('requests outside a session are rejected and sessions can be ended', async () => {
+    const listTools = { jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} };
+    const auth = { Authorization: `Bearer ${AUTH_TOKEN}` };
+
+    expect((await post(listTools, auth)).status).toBe(400);
+    expect((await post(listTools, { ...auth, 'Mcp-Session-Id': 'no-such-session' })).status).toBe(404);
+
+    const client = await connect('short-lived-agent');
+    expect(mcpRoutes.sessionCount()).toBe(1);
+    await (client.transport as StreamableHTTPClientTransport).terminateSession();
+    expect(mcpRoutes.sessionCount()).toBe(0);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Migrations Test Suite
+ *
+ * The file-based migration runner: numbered files applied in order with their
+ * checksums, down scripts, dry runs that leave the database untouched, and a
+ * refusal to open a database whose applied migrations were edited.
+ */
+
+import Database from 'better-sqlite3';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { MigrationChecksumError, MigrationRunner, migrationChecksum } from '../migrationRunner.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+describe('Migrations', () => {
+  let tmpDir: string;
+  let migrationsDir: string;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+    migrationsDir = path.join(tmpDir, 'migrations');
+    nodeFs.mkdirSync(migrationsDir);
+    writeMigration('001_create_notes.sql', 'CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL);');
+    writeMigration('001_create_notes.down.sql', 'DROP TABLE notes;');
+    writeMigration('002_add_note_author.sql', 'ALTER TABLE notes ADD COLUMN author TEXT;');
+    writeMigration('002_add_note_author.down.sql', 'ALTER TABLE notes DROP COLUMN author;');
+    db = new Database(path.join(tmpDir, 'runner.db'));
+  });
+
+  afterEach(() => {
+    db.close();
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeMigration(file: string, sql: string) {
+    nodeFs.writeFileSync(path.join(migrationsDir, file), sql);
+  }
+
+  function columns(table: string): string[] {
+    return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((c) => c.name);
+  }
+
+  test('pending migrations are applied in order and recorded with checksums', () => {
+    const runner = new MigrationRunner(db, migrationsDir);
+    expect(runner.up()).toEqual(['001_create_notes', '002_add_note_author']);
+    expect(columns('notes')).toEqual(['id', 'body', 'author']);
+
+    const recorded = db.prepare(`SELECT name, checksum FROM _migrations ORDER BY name`).all();
+    expect(recorded).toEqual([
+      { name: '001_create_notes', checksum: migrationChecksum('CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL);') },
+      { name: '002_add_note_author', checksum: migrationChecksum('ALTER TABLE notes ADD COLUMN author TEXT;') },
+    ]);
+    expect(runner.up()).toEqual([]);
+    expect(runner.status().every((m) => m.applied && !m.modified)).toBe(true);
+  });
+
+  test('a dry run reports pending migrations without changing the database', () => {
+    const runner = new MigrationRunner(db, migrationsDir);
+    expect(runner.up({ dryRun: true })).toEqual(['001_create_notes', '002_add_note_author']);
+    expect(columns('notes')).toEqual([]);
+    expect(runner.status().map((m) => m.applied)).toEqual([false, false]);
+  });
+
+  test('a failing migration is rolled back and left pending', () => {
+    writeMigration('003_broken.sql', 'CREATE TABLE tags (name TEXT); INSERT INTO missing_table VALUES (1);');
+    const runner = new MigrationRunner(db, migrationsDir);
+
+    expect(() => runner.up()).toThrow('Migration 003_broken failed');
+    expect(columns('tags')).toEqual([]);
+    expect(runner.status().map((m) => m.applied)).toEqual([true, true, false]);
+  });
+
+  test('down reverts the latest migrations and needs a down script', () => {
+    writeMigration('003_add_tags.sql', 'CREATE TABLE tags (name TEXT);');
+    const runner = new MigrationRunner(db, migrationsDir);
+    runner.up();
+
+    expect(() => runner.down()).toThrow('Cannot revert 003_add_tags: no down script');
+
+    nodeFs.unlinkSync(path.join(migrationsDir, '003_add_tags.sql'));
+    db.prepare(`DELETE FROM _migrations WHERE name = '003_add_tags'`).run();
+    expect(runner.down()).toEqual(['002_add_note_author']);
+    expect(columns('notes')).toEqual(['id', 'body']);
+    expect(runner.status().map((m) => m.applied)).toEqual([true, false]);
+  });
+
+  test('an applied migration edited afterwards is refused', () => {
+    const runner = new MigrationRunner(db, migrationsDir);
+    runner.up();
+    writeMigration('002_add_note_author.sql', 'ALTER TABLE notes ADD COLUMN author TEXT NOT NULL DEFAULT \'\';');
+
+    expect(runner.status()[1].modified).toBe(true);
+    expect(() => runner.up()).toThrow(MigrationChecksumError);
+    expect(() => runner.verify()).toThrow('Applied migrations were modified after they ran: 002_add_note_author');
+  });
+
+  test('a foreign-keys-off migration must leave every reference intact', () => {
+    const runner = new MigrationRunner(db, migrationsDir);
+    runner.up();
+    db.exec(`CREATE TABLE comments (note_id INTEGER REFERENCES notes(id)); INSERT INTO notes (id, body) VALUES (1, 'hi');`);
+    db.exec(`INSERT INTO comments VALUES (1)`);
+
+    writeMigration('003_drop_notes.sql', '-- migrate:foreign-keys-off\nDELETE FROM notes;');
+    expect(() => runner.up()).toThrow('rows without a parent in comments -> notes');
+    expect(db.prepare(`SELECT COUNT(*) AS count FROM notes`).get()).toEqual({ count: 1 });
+    expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+  });
+
+  test('DatabaseHandler builds the schema from the migrations and refuses a modified one', () => {
+    const dbPath = path.join(tmpDir, 'tasks.db');
+    new DatabaseHandler(tmpDir, dbPath).close();
+
+    const opened = new Database(dbPath);
+    const applied = opened.prepare(`SELECT name FROM _migrations WHERE checksum IS NOT NULL ORDER BY name`).all();
+    expect(applied).toContainEqual({ name: '008_task_version' });
+    opened.prepare(`UPDATE _migrations SET checksum = 'edited' WHERE name = '005_parked_tasks'`).run();
+    opened.close();
+
+    expect(() => new DatabaseHandler(tmpDir, dbPath)).toThrow(MigrationChecksumError);
+  });
+});
@@ -7,7 +7,6 @@
 import { AIConductor } from '../AIConductor.js';
 import { DatabaseHandler } from '../DatabaseHandler.js';
 import * as path from 'path';
-import * as fs from 'fs-extra';
 
 describe('Multi-Repo Support', () => {
   let manager: AIConductor;
@@ -21,11 +20,6 @@ describe('Multi-Repo Support', () => {
     // Create new manager with test database
     manager = new AIConductor(testDbPath);
     dbHandler = manager['dbHandler'];
-    
-    // Apply multi-repo migration
-    const migrationPath = path.join(process.cwd(), 'src', 'migrations', '001_add_multi_repo_support.sql');
-    const migrationSQL = fs.readFileSync(migrationPath, 'utf-8');
-    dbHandler['db'].exec(migrationSQL);
   });
 
   afterEach(() => {
@@ -86,7 +80,6 @@ describe('Multi-Repo Support', () => {
       await manager.registerRepo({ repoName: 'repo-2', repoPath: '/test/repo-2' });
 
       // Create features in different repos with different slugs
-      // (Note: Due to existing schema constraint, feature_slug is still unique globally)
       dbHandler.createFeature('feature-repo1', 'Feature 1', 'repo-1');
       dbHandler.createFeature('feature-repo2', 'Feature 1 in Repo 2', 'repo-2');
 
@@ -226,6 +219,94 @@ describe('Multi-Repo Support', () => {
     });
   });
 
+  describe('Same Feature Slug in Different Repos', () => {
+    const SLUG = 'auth-refactor';
+
+    beforeEach(async () => {
+      for (const repoName of ['repo-1', 'repo-2']) {
+        await manager.registerRepo({ repoName, repoPath: `/test/${repoName}` });
+        const created = await manager.createFeature({ repoName, featureSlug: SLUG, featureName: `Auth Refactor (${repoName})` });
+        expect(created.success).toBe(true);
+        await manager.addTask({
+          repoName,
+          featureSlug: SLUG,
+          taskId: 'T01',
+          title: `Token rotation in ${repoName}`,
+          description: 'Rotate refresh tokens',
+          orderOfExecution: 1,
+          acceptanceCriteria: [{ id: 'AC-1', criterion: 'Tokens rotate', priority: 'Must Have', verified: false }],
+        });
+      }
+    });
+
+    test('both repos keep their own feature, tasks and reviews', async () => {
+      await manager.addReview({
+        repoName: 'repo-1',
+        featureSlug: SLUG,
+        taskId: 'T01',
+        stakeholder: 'productDirector',
+        decision: 'approve',
+        notes: 'OK',
+      });
+
+      const repo1 = await dbHandler.loadByFeatureSlug(SLUG, 'repo-1');
+      const repo2 = await dbHandler.loadByFeatureSlug(SLUG, 'repo-2');
+      expect(repo1.featureName).toBe('Auth Refactor (repo-1)');
+      expect(repo2.featureName).toBe('Auth Refactor (repo-2)');
+      expect(repo1.tasks[0].title).toBe('Token rotation in repo-1');
+      expect(repo2.tasks[0].title).toBe('Token rotation in repo-2');
+      expect(repo1.tasks[0].status).toBe('PendingArchitect');
+      expect(repo2.tasks[0].status).toBe('PendingProductDirector');
+      expect(repo2.tasks[0].transitions).toEqual([]);
+      expect(repo2.tasks[0].stakeholderReview.productDirector).toBeUndefined();
+    });
+
+    test('feature-level data stays in its own repo', async () => {
+      await manager.updateRefinementStep({ repoName: 'repo-1', featureSlug: SLUG, stepNumber: 1, completed: true, summary: 'Scoped' });
+      await manager.addFeatureAcceptanceCriteria({
+        repoName: 'repo-1',
+        featureSlug: SLUG,
+        criteria: [{ criterionId: 'AC-1', criterion: 'Sessions survive rotation', priority: 'Must Have' }],
+      });
+      await manager.saveWorkflowCheckpoint({ repoName: 'repo-1', featureSlug: SLUG, description: 'Before review' });
+
+      expect(dbHandler.getRefinementSteps('repo-1', SLUG).find((s: any) => s.stepNumber === 1)?.completed).toBe(true);
+      expect(dbHandler.getRefinementSteps('repo-2', SLUG).find((s: any) => s.stepNumber === 1)?.completed).toBe(false);
+      expect(dbHandler.getFeatureAcceptanceCriteria('repo-1', SLUG)).toHaveLength(1);
+      expect(dbHandler.getFeatureAcceptanceCriteria('repo-2', SLUG)).toHaveLength(0);
+      expect((await manager.listWorkflowCheckpoints({ repoName: 'repo-2', featureSlug: SLUG })).checkpoints).toHaveLength(0);
+    });
+
+    test('deleting the feature in one repo cascades only within that repo', async () => {
+      await manager.addFeatureAcceptanceCriteria({
+        repoName: 'repo-1',
+        featureSlug: SLUG,
+        criteria: [{ criterionId: 'AC-1', criterion: 'Sessions survive rotation', priority: 'Must Have' }],
+      });
+      await manager.saveWorkflowCheckpoint({ repoName: 'repo-2', featureSlug: SLUG, description: 'Before review' });
+
+      const deleted = await manager.deleteFeature('repo-1', SLUG);
+      expect(deleted.success).toBe(true);
+      // The rows go when the trash item is purged
+      dbHandler.purgeTrash(new Date(Date.now() + 31 * 86_400_000));
+
+      const count = (table: string, repoName: string) =>
+        (dbHandler['db']
+          .prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE repo_name = ? AND feature_slug = ?`)
+          .get(repoName, SLUG) as { count: number }).count;
+      for (const table of ['tasks', 'acceptance_criteria', 'feature_refinement_steps', 'feature_acceptance_criteria']) {
+        expect(count(table, 'repo-1')).toBe(0);
+      }
+      expect(count('tasks', 'repo-2')).toBe(1);
+      expect(count('acceptance_criteria', 'repo-2')).toBe(1);
+      expect(count('feature_refinement_steps', 'repo-2')).toBe(8);
+      expect(count('workflow_checkpoints', 'repo-2')).toBe(1);
+
+      const repo2 = await dbHandler.loadByFeatureSlug(SLUG, 'repo-2');
+      expect(repo2.tasks[0].title).toBe('Token rotation in repo-2');
+    });
+  });
+
   describe('Basic Refinement Workflow', () => {
     beforeEach(async () => {
       // Register test-repo before each test
@@ -0,0 +1,174 @@
+/**
+ * Parked Tasks Test Suite
+ *
+ * Blocked, OnHold and Cancelled: mandatory reasons, linked blocker tasks,
+ * resuming at the parked-from status and exclusion from completion checks.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { TaskStatus } from '../types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'payments';
+const FEATURE_SLUG = 'refunds';
+
+describe('Parked Tasks', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'parked-tasks-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/payments' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Refunds' });
+    for (const [taskId, title] of [['T01', 'Refund API'], ['T02', 'Refund emails'], ['T03', 'Partial refunds']]) {
+      await manager.addTask({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId,
+        title,
+        description: title,
+        orderOfExecution: 1,
+      });
+    }
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function transition(
+    taskId: string,
+    fromStatus: TaskStatus,
+    toStatus: TaskStatus,
+    actor: 'system' | 'developer' | 'productDirector',
+    extra: { reason?: string; blockedByTaskId?: string } = {}
+  ) {
+    return manager.transitionTaskStatus({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId,
+      fromStatus,
+      toStatus,
+      actor,
+      ...extra,
+    });
+  }
+
+  async function loadTask(taskId: string) {
+    const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    return taskFile.tasks.find((t) => t.taskId === taskId)!;
+  }
+
+  test('parking requires a reason and an existing blocker task', async () => {
+    const noReason = await transition('T01', 'PendingProductDirector', 'Blocked', 'system');
+    expect(noReason.success).toBe(false);
+    expect(noReason.error).toContain('A reason is required to move a task to Blocked');
+
+    const badBlocker = await transition('T01', 'PendingProductDirector', 'Blocked', 'system', {
+      reason: 'Waiting on ledger team',
+      blockedByTaskId: 'T99',
+    });
+    expect(badBlocker.error).toContain('Blocker task not found: T99');
+  });
+
+  test('a blocked task records its reason and resumes where it was parked', async () => {
+    const parked = await transition('T02', 'PendingProductDirector', 'Blocked', 'productDirector', {
+      reason: 'Email templates need the refund API',
+      blockedByTaskId: 'T01',
+    });
+    expect(parked.success).toBe(true);
+    expect(parked.transition.notes).toBe('Email templates need the refund API');
+
+    const task = await loadTask('T02');
+    expect(task.status).toBe('Blocked');
+    expect(task.parked).toMatchObject({
+      reason: 'Email templates need the refund API',
+      blockedByTaskId: 'T01',
+      fromStatus: 'PendingProductDirector',
+    });
+
+    // Moving to OnHold keeps the resume status
+    await transition('T02', 'Blocked', 'OnHold', 'system', { reason: 'Deprioritised this sprint' });
+    expect((await loadTask('T02')).parked!.fromStatus).toBe('PendingProductDirector');
+
+    const wrongTarget = await transition('T02', 'OnHold', 'PendingArchitect', 'system');
+    expect(wrongTarget.success).toBe(false);
+
+    const resumed = await transition('T02', 'OnHold', 'PendingProductDirector', 'system');
+    expect(resumed.success).toBe(true);
+    const resumedTask = await loadTask('T02');
+    expect(resumedTask.status).toBe('PendingProductDirector');
+    expect(resumedTask.parked).toBeUndefined();
+    expect(resumedTask.transitions.map((t) => t.to)).toEqual(['Blocked', 'OnHold', 'PendingProductDirector']);
+  });
+
+  test('get_next_step reports a parked task with its reason and how to resume it', async () => {
+    await transition('T02', 'PendingProductDirector', 'Blocked', 'system', {
+      reason: 'Email templates need the refund API',
+      blockedByTaskId: 'T01',
+    });
+    const step = await manager.getNextStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T02' });
+    expect(step).toMatchObject({
+      success: true,
+      currentStatus: 'Blocked',
+      nextRole: 'productDirector',
+      allowedDecisions: ['resume'],
+      transitionOnSuccess: 'PendingProductDirector',
+      parked: {
+        reason: 'Email templates need the refund API',
+        blockedByTaskId: 'T01',
+        resumeStatus: 'PendingProductDirector',
+        resumableBy: ['system', 'developer'],
+      },
+      message: 'Task is Blocked: Email templates need the refund API (waiting on T01). Resume it to PendingProductDirector as system or developer.',
+    });
+
+    await transition('T03', 'PendingProductDirector', 'Cancelled', 'system', { reason: 'Out of scope for v1' });
+    const cancelled = await manager.getNextStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T03' });
+    expect(cancelled.allowedDecisions).toEqual([]);
+    expect(cancelled.parked).toMatchObject({ reason: 'Out of scope for v1', resumableBy: [] });
+    expect(cancelled.message).toBe('Task is Cancelled: Out of scope for v1. Cancelled is final.');
+  });
+
+  test('Cancelled is final', async () => {
+    await transition('T03', 'PendingProductDirector', 'Cancelled', 'system', { reason: 'Out of scope for v1' });
+
+    const reopened = await transition('T03', 'Cancelled', 'PendingProductDirector', 'system');
+    expect(reopened.success).toBe(false);
+    expect((await loadTask('T03')).parked!.reason).toBe('Out of scope for v1');
+  });
+
+  test('verifyAllTasksComplete leaves out Cancelled tasks by default', async () => {
+    await transition('T03', 'PendingProductDirector', 'Cancelled', 'system', { reason: 'Out of scope for v1' });
+    await transition('T02', 'PendingProductDirector', 'OnHold', 'system', { reason: 'Waiting on legal' });
+
+    const result = await manager.verifyAllTasksComplete({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG });
+    expect(result.totalTasks).toBe(2);
+    expect(result.incompleteTasks.map((t) => t.taskId)).toEqual(['T01', 'T02']);
+    expect(result.excludedTasks.map((t) => t.taskId)).toEqual(['T03']);
+
+    const override = await manager.verifyAllTasksComplete({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      excludeStatuses: ['OnHold', 'Cancelled'],
+    });
+    expect(override.totalTasks).toBe(1);
+    expect(override.excludedTasks.map((t) => t.taskId)).toEqual(['T02', 'T03']);
+
+    manager.updateQueueSettings({ completionExcludedStatuses: [] });
+    const none = await manager.verifyAllTasksComplete({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG });
+    expect(none.totalTasks).toBe(3);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Pipeline Roles Test Suite
+ *
+ * User-defined roles registered next to the seven built-in roles: prompt
+ * config storage, use as a workflow stage stakeholder, review storage and
+ * get_next_step output.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { WorkflowStage } from '../types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'api-gateway';
+const FEATURE_SLUG = 'rate-limits';
+
+const PERF_ROLE = {
+  roleId: 'performanceEngineer',
+  displayName: 'Performance Engineer',
+  systemPrompt: 'You are a performance engineer reviewing a task for latency and throughput risks.',
+  phase: 'review' as const,
+  focusAreas: ['Latency budgets', 'Load testing'],
+  requiredOutputFields: ['loadTestPlan', 'latencyBudget'],
+};
+
+const PERF_STAGES: WorkflowStage[] = [
+  {
+    status: 'PendingArchitect',
+    stakeholder: 'architect',
+    label: 'Architect',
+    onApprove: 'PendingPerformance',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['architect', 'system'],
+  },
+  {
+    status: 'PendingPerformance',
+    stakeholder: 'performanceEngineer',
+    label: 'Performance',
+    onApprove: 'ReadyForDevelopment',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['performanceEngineer', 'system'],
+  },
+];
+
+describe('Pipeline Roles', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-roles-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('Registration', () => {
+    test('built-in roles are listed with display names', () => {
+      const roles = manager.getAllRolePrompts();
+      expect(roles).toHaveLength(7);
+      const pd = roles.find((r) => r.roleId === 'productDirector')!;
+      expect(pd.displayName).toBe('Product Director');
+      expect(pd.isBuiltIn).toBe(true);
+    });
+
+    test('registers a user-defined role with its own prompt config', async () => {
+      const result = await manager.registerPipelineRole(PERF_ROLE);
+      expect(result.success).toBe(true);
+      expect(result.role).toMatchObject({
+        roleId: 'performanceEngineer',
+        displayName: 'Performance Engineer',
+        isBuiltIn: false,
+        requiredOutputFields: ['loadTestPlan', 'latencyBudget'],
+      });
+
+      expect(manager.hasPipelineRole('performanceEngineer')).toBe(true);
+      expect(manager.getRolePrompt('performanceEngineer').systemPrompt).toBe(PERF_ROLE.systemPrompt);
+    });
+
+    test('rejects duplicate, built-in and malformed role ids', async () => {
+      await manager.registerPipelineRole(PERF_ROLE);
+
+      expect((await manager.registerPipelineRole(PERF_ROLE)).error).toContain('Role already exists');
+      expect((await manager.registerPipelineRole({ ...PERF_ROLE, roleId: 'architect' })).success).toBe(false);
+      expect((await manager.registerPipelineRole({ ...PERF_ROLE, roleId: 'Perf-Engineer' })).success).toBe(false);
+    });
+
+    test('user-defined roles can be edited but not reset', async () => {
+      await manager.registerPipelineRole(PERF_ROLE);
+
+      manager.updateRolePrompt('performanceEngineer', { focusAreas: ['Cold starts'] });
+      expect(manager.getRolePrompt('performanceEngineer').focusAreas).toEqual(['Cold starts']);
+      expect(() => manager.resetRolePrompt('performanceEngineer')).toThrow('no built-in default');
+    });
+
+    test('built-in roles cannot be deleted', async () => {
+      const result = await manager.deletePipelineRole('qa');
+      expect(result.success).toBe(false);
+      expect(manager.hasPipelineRole('qa')).toBe(true);
+    });
+  });
+
+  describe('Workflow usage', () => {
+    beforeEach(async () => {
+      await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/gateway' });
+      await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Rate Limits' });
+    });
+
+    test('unregistered roles cannot be used as stage stakeholders', async () => {
+      const result = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages: PERF_STAGES });
+      expect(result.success).toBe(false);
+      expect(result.errors!.some((e) => e.includes("unknown stakeholder 'performanceEngineer'"))).toBe(true);
+    });
+
+    test('a user-defined role reviews its stage and its fields are stored', async () => {
+      await manager.registerPipelineRole(PERF_ROLE);
+      expect((await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages: PERF_STAGES })).success).toBe(true);
+
+      await manager.addTask({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        title: 'Token bucket limiter',
+        description: 'Add per-key rate limiting',
+        orderOfExecution: 1,
+      });
+      await manager.addReview({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        stakeholder: 'architect',
+        decision: 'approve',
+        notes: 'Design is sound',
+      });
+
+      const step = await manager.getNextStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+      expect(step.nextRole).toBe('performanceEngineer');
+      expect(step.systemPrompt).toContain(PERF_ROLE.systemPrompt);
+      expect(step.requiredOutputFields).toEqual(['loadTestPlan', 'latencyBudget']);
+      expect(step.previousRoleNotes).toEqual({ architect: 'Design is sound' });
+
+      const review = await manager.addReview({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        stakeholder: 'performanceEngineer',
+        decision: 'approve',
+        notes: 'Within budget',
+        additionalFields: { loadTestPlan: '10k rps soak', latencyBudget: 'p99 < 20ms' },
+      });
+      expect(review.success).toBe(true);
+      expect(review.newStatus).toBe('ReadyForDevelopment');
+
+      const row = dbHandler['db']
+        .prepare(`SELECT approved, notes, additional_data FROM stakeholder_reviews WHERE task_id = ? AND stakeholder = ?`)
+        .get('T01', 'performanceEngineer') as { approved: number; notes: string; additional_data: string };
+      expect(row.approved).toBe(1);
+      expect(row.notes).toBe('Within budget');
+      expect(JSON.parse(row.additional_data)).toEqual({ loadTestPlan: '10k rps soak', latencyBudget: 'p99 < 20ms' });
+
+      const status = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+      expect(status.completedReviews).toEqual(['architect', 'performanceEngineer']);
+    });
+
+    test('a role used by a workflow cannot be deleted until the workflow drops it', async () => {
+      await manager.registerPipelineRole(PERF_ROLE);
+      await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages: PERF_STAGES });
+
+      const refused = await manager.deletePipelineRole('performanceEngineer');
+      expect(refused.success).toBe(false);
+      expect(refused.error).toContain(REPO_NAME);
+
+      await manager.resetWorkflowDefinition(REPO_NAME);
+      expect((await manager.deletePipelineRole('performanceEngineer')).success).toBe(true);
+      expect(manager.hasPipelineRole('performanceEngineer')).toBe(false);
+    });
+  });
+});
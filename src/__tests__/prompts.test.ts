@@ -0,0 +1,122 @@
+/**
+ * MCP Prompts Test Suite
+ *
+ * Every pipeline role is served as a prompt taking repoName, featureSlug and
+ * taskId. Getting one returns the role's system prompt with the task context
+ * get_next_step builds; registering a role adds it to the list.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { PromptListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { registerPrompts } from '../prompts.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+const TASK_ARGS = { repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' };
+
+describe('MCP Prompts', () => {
+  let manager: AIConductor;
+  let client: Client;
+  let stopNotifications: () => void;
+  let tmpDir: string;
+  let listChanged: number;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+    manager = new AIConductor(tmpDir);
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from activity',
+      orderOfExecution: 1,
+      acceptanceCriteria: [{ id: 'AC-1', criterion: 'Scores update nightly', priority: 'Must Have', verified: false }],
+    });
+
+    const server = new Server(
+      { name: 'aiconductor-test', version: '1.0.0' },
+      { capabilities: { prompts: { listChanged: true } } }
+    );
+    stopNotifications = registerPrompts(server, manager);
+
+    listChanged = 0;
+    client = new Client({ name: 'prompts-test', version: '1.0.0' });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    stopNotifications();
+    await client.close();
+    try {
+      ((manager as any).dbHandler as DatabaseHandler).close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('every role is a prompt taking the task coordinates', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(expect.arrayContaining(['productDirector', 'architect', 'developer', 'qa']));
+    expect(prompts.find((p) => p.name === 'architect')).toMatchObject({
+      title: 'Architect',
+      arguments: [
+        { name: 'repoName', required: true },
+        { name: 'featureSlug', required: true },
+        { name: 'taskId', required: true },
+      ],
+    });
+  });
+
+  test('a prompt is the role system prompt with the task context', async () => {
+    const { messages } = await client.getPrompt({ name: 'architect', arguments: TASK_ARGS });
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe('user');
+
+    const text = (messages[0].content as { text: string }).text;
+    expect(text.startsWith(manager.getRolePrompt('architect').systemPrompt)).toBe(true);
+    expect(text).toContain('- **Task ID**: T01');
+    expect(text).toContain('- [ ] (Must Have) Scores update nightly');
+    expect(text).toBe((await manager.getRolePromptForTask({ ...TASK_ARGS, roleId: 'architect' })).prompt);
+  });
+
+  test('unknown prompts, missing arguments and unknown tasks are invalid params', async () => {
+    await expect(client.getPrompt({ name: 'janitor', arguments: TASK_ARGS })).rejects.toMatchObject({ code: -32602 });
+    await expect(client.getPrompt({ name: 'architect', arguments: { repoName: REPO_NAME } })).rejects.toThrow(
+      'Missing arguments for architect: featureSlug, taskId'
+    );
+    await expect(client.getPrompt({ name: 'architect', arguments: { ...TASK_ARGS, taskId: 'T99' } })).rejects.toThrow(
+      'Task not found: T99'
+    );
+  });
+
+  test('registering a role adds a prompt and announces the change', async () => {
+    await manager.registerPipelineRole({
+      roleId: 'performanceEngineer',
+      displayName: 'Performance Engineer',
+      systemPrompt: 'You review tasks for performance risks.',
+      phase: 'review',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(listChanged).toBe(1);
+    const { messages } = await client.getPrompt({ name: 'performanceEngineer', arguments: TASK_ARGS });
+    expect((messages[0].content as { text: string }).text).toMatch(/^You review tasks for performance risks\.\n\n## Task Context/);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Repo Bundles Test Suite
+ *
+ * Exporting a repo as a versioned JSON bundle and importing it into another
+ * instance: the round trip keeps every feature- and task-level row, bundles are
+ * validated before anything is written, and existing features are skipped,
+ * overwritten or renamed per the conflict mode.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { DEFAULT_WORKFLOW_STAGES } from '../workflowDefinitions.js';
+import { RepoBundle } from '../types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+
+describe('Repo Bundles', () => {
+  let source: AIConductor;
+  let target: AIConductor;
+  let tmpDirs: string[];
+
+  function instance(): AIConductor {
+    const tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'repo-bundles-'));
+    tmpDirs.push(tmpDir);
+    return new AIConductor(tmpDir);
+  }
+
+  async function exportBundle(manager: AIConductor, repoName = REPO_NAME): Promise<RepoBundle> {
+    const result = await manager.exportRepo(repoName);
+    expect(result.success).toBe(true);
+    return result.bundle!;
+  }
+
+  beforeEach(async () => {
+    tmpDirs = [];
+    source = instance();
+    target = instance();
+
+    await source.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await source.setWorkflowDefinition({ repoName: REPO_NAME, stages: DEFAULT_WORKFLOW_STAGES });
+    await source.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await source.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from activity',
+      orderOfExecution: 1,
+      acceptanceCriteria: [{ id: 'AC-1', criterion: 'Scores update nightly', priority: 'Must Have', verified: false }],
+      testScenarios: [{ id: 'TS-1', title: 'Nightly run', description: 'Scores change', manualOnly: false, priority: 'P1' }],
+    });
+    await source.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      decision: 'approve',
+      notes: 'Worth doing',
+    });
+    await source.addClarification({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, question: 'Which CRM fields?', answer: 'Activity only' });
+    await source.updateRefinementStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, stepNumber: 1, completed: true, summary: 'Scoped' });
+    await source.addAttachmentAnalysis({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      attachmentName: 'weights.xlsx',
+      attachmentType: 'excel',
+      analysisSummary: 'Scoring weights',
+    });
+    await source.saveWorkflowCheckpoint({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, description: 'After review' });
+  });
+
+  afterEach(() => {
+    for (const manager of [source, target]) {
+      try {
+        ((manager as any).dbHandler as DatabaseHandler).close();
+      } catch {
+        /* ignore */
+      }
+    }
+    for (const tmpDir of tmpDirs) {
+      nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  test('a bundle round-trips every feature- and task-level row into another instance', async () => {
+    const bundle = await exportBundle(source);
+    expect(bundle).toMatchObject({ format: 'aiconductor-repo-bundle', version: 2, workflowStages: DEFAULT_WORKFLOW_STAGES });
+    const [feature] = bundle.features;
+    expect(feature.tasks).toHaveLength(1);
+    expect(feature.transitions.length).toBeGreaterThan(0);
+    for (const key of ['stakeholderReviews', 'acceptanceCriteria', 'testScenarios', 'clarifications', 'attachments', 'checkpoints'] as const) {
+      expect(feature[key]).toHaveLength(1);
+    }
+
+    const result = await target.importRepo({ bundle: JSON.parse(JSON.stringify(bundle)) });
+    expect(result).toMatchObject({ success: true, repoName: REPO_NAME, repoCreated: true });
+    expect(result.features).toEqual([{ featureSlug: FEATURE_SLUG, action: 'created' }]);
+
+    const { exportedAt: _sourceTime, ...expected } = bundle;
+    const { exportedAt: _targetTime, ...actual } = await exportBundle(target);
+    expect(actual).toEqual(expected);
+
+    const status = await target.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect(status.status).toBe('PendingArchitect');
+  });
+
+  test('existing features are skipped, overwritten or renamed with a prefix', async () => {
+    const bundle = await exportBundle(source);
+    await target.importRepo({ bundle });
+    await target.updateTask({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', updates: { title: 'Edited' } });
+
+    const skipped = await target.importRepo({ bundle });
+    expect(skipped.features).toEqual([{ featureSlug: FEATURE_SLUG, action: 'skipped' }]);
+    expect((await exportBundle(target)).features[0].tasks[0].title).toBe('Edited');
+
+    const overwritten = await target.importRepo({ bundle, conflictMode: 'overwrite' });
+    expect(overwritten.features).toEqual([{ featureSlug: FEATURE_SLUG, action: 'overwritten' }]);
+    expect((await exportBundle(target)).features[0].tasks[0].title).toBe('Score model');
+
+    expect((await target.importRepo({ bundle, conflictMode: 'rename' })).error).toBe(
+      'A prefix is required for the rename conflict mode'
+    );
+    const renamed = await target.importRepo({ bundle, conflictMode: 'rename', prefix: 'team-b-' });
+    expect(renamed.features).toEqual([{ featureSlug: FEATURE_SLUG, action: 'renamed', importedAs: 'team-b-lead-scoring' }]);
+    const slugs = (await exportBundle(target)).features.map((f) => f.feature.feature_slug).sort();
+    expect(slugs).toEqual(['lead-scoring', 'team-b-lead-scoring']);
+
+    const intoOtherRepo = await target.importRepo({ bundle, repoName: 'crm-copy' });
+    expect(intoOtherRepo).toMatchObject({ success: true, repoName: 'crm-copy', repoCreated: true });
+  });
+
+  test('a version 1 bundle, without review stages, is upgraded on import', async () => {
+    const bundle = JSON.parse(JSON.stringify(await exportBundle(source)));
+    bundle.version = 1;
+    for (const row of bundle.features[0].stakeholderReviews) {
+      delete row.stage;
+    }
+
+    const result = await target.importRepo({ bundle });
+    expect(result.success).toBe(true);
+    expect((await exportBundle(target)).features[0].stakeholderReviews).toEqual([
+      expect.objectContaining({ stakeholder: 'productDirector', stage: '', notes: 'Worth doing' }),
+    ]);
+  });
+
+  test('an invalid bundle is rejected before anything is written', async () => {
+    const bundle = await exportBundle(source);
+    const broken = JSON.parse(JSON.stringify(bundle));
+    delete broken.features[0].tasks[0].title;
+    broken.features[0].transitions[0].extra = 1;
+
+    const result = await target.importRepo({ bundle: broken });
+    expect(result.success).toBe(false);
+    expect(result.validationErrors).toEqual([
+      "/features/0/tasks/0 must have required property 'title'",
+      '/features/0/transitions/0 must NOT have additional properties',
+    ]);
+
+    const newer = await target.importRepo({ bundle: { ...bundle, version: 3 } });
+    expect(newer.validationErrors).toEqual(['Bundle version 3 is newer than this server supports (2)']);
+
+    expect((await target.listRepos()).repos?.map((r) => r.repoName)).toEqual(['default']);
+  });
+});
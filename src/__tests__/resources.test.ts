@@ -0,0 +1,138 @@
+/**
+ * MCP Resources Test Suite
+ *
+ * Features and tasks are listed and read as aiconductor:// resources. A client
+ * subscribed to a URI is notified when a change touches it, and creating or
+ * deleting a task announces that the resource list changed.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { parseResourceUri, registerResources, resourceUri } from '../resources.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+const FEATURE_URI = `aiconductor://${REPO_NAME}/${FEATURE_SLUG}`;
+const TASK_URI = `${FEATURE_URI}/T01`;
+
+describe('MCP Resources', () => {
+  let manager: AIConductor;
+  let client: Client;
+  let stopNotifications: () => void;
+  let tmpDir: string;
+  let updated: string[];
+  let listChanged: number;
+
+  /** Let queued notifications reach the client */
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'resources-'));
+    manager = new AIConductor(tmpDir);
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from activity',
+      orderOfExecution: 1,
+    });
+
+    const server = new Server(
+      { name: 'aiconductor-test', version: '1.0.0' },
+      { capabilities: { resources: { subscribe: true, listChanged: true } } }
+    );
+    stopNotifications = registerResources(server, manager);
+
+    updated = [];
+    listChanged = 0;
+    client = new Client({ name: 'resources-test', version: '1.0.0' });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    stopNotifications();
+    await client.close();
+    try {
+      ((manager as any).dbHandler as DatabaseHandler).close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('URIs round-trip with encoded segments', () => {
+    const key = { repoName: 'my repo', featureSlug: 'a/b', taskId: 'T01' };
+    expect(resourceUri(key)).toBe('aiconductor://my%20repo/a%2Fb/T01');
+    expect(parseResourceUri(resourceUri(key))).toEqual(key);
+    expect(parseResourceUri(FEATURE_URI)).toEqual({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG });
+    expect(parseResourceUri('aiconductor://crm')).toBeUndefined();
+    expect(parseResourceUri('file:///crm/lead-scoring')).toBeUndefined();
+  });
+
+  test('features and tasks are listed, templated and read as JSON', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map((r) => r.uri)).toEqual([FEATURE_URI, TASK_URI]);
+    expect(resources[1]).toMatchObject({ title: 'Score model', description: 'PendingProductDirector', mimeType: 'application/json' });
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      'aiconductor://{repoName}/{featureSlug}',
+      'aiconductor://{repoName}/{featureSlug}/{taskId}',
+    ]);
+
+    const feature = JSON.parse((await client.readResource({ uri: FEATURE_URI })).contents[0].text as string);
+    expect(feature).toMatchObject({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    expect(feature.tasks).toHaveLength(1);
+
+    const task = JSON.parse((await client.readResource({ uri: TASK_URI })).contents[0].text as string);
+    expect(task).toMatchObject({ taskId: 'T01', title: 'Score model' });
+
+    await expect(client.readResource({ uri: `${FEATURE_URI}/T99` })).rejects.toMatchObject({ code: -32002 });
+  });
+
+  test('subscribers are notified of changes to their resources only', async () => {
+    await client.subscribeResource({ uri: TASK_URI });
+
+    await manager.updateTask({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01', updates: { title: 'Score model v2' } });
+    await settle();
+    expect(updated).toEqual([TASK_URI]);
+    expect(listChanged).toBe(0);
+
+    await client.subscribeResource({ uri: FEATURE_URI });
+    await client.unsubscribeResource({ uri: TASK_URI });
+    updated = [];
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T02',
+      title: 'Score decay',
+      description: 'Decay stale scores',
+      orderOfExecution: 2,
+    });
+    await settle();
+    expect(updated).toEqual([FEATURE_URI]);
+    expect(listChanged).toBe(1);
+  });
+});
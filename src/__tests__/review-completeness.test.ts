@@ -0,0 +1,185 @@
+/**
+ * Review Completeness Test Suite
+ *
+ * validate_review_completeness and add_stakeholder_review check reviews against
+ * the role's requiredOutputFields; strict repos refuse incomplete reviews.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'checkout';
+const FEATURE_SLUG = 'saved-cards';
+
+describe('Review Completeness', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'review-completeness-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/checkout' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Saved Cards' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Store card tokens',
+      description: 'Persist tokenised cards per customer',
+      orderOfExecution: 1,
+    });
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('defaults to warn mode and reports missing fields per field', async () => {
+    expect(manager.getReviewSettings(REPO_NAME).completenessMode).toBe('warn');
+
+    const result = await manager.validateReviewCompleteness({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      notes: 'Looks valuable',
+      additionalFields: { marketAnalysis: 'Repeat buyers want it' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.isComplete).toBe(false);
+    expect(result.missingFields).toEqual(['competitorAnalysis']);
+    expect(result.fieldErrors[0].message).toContain('required for a productDirector approval');
+  });
+
+  test('uses the requiredOutputFields stored in role_prompts', async () => {
+    manager.updateRolePrompt('productDirector', { requiredOutputFields: ['marketAnalysis'] });
+
+    const result = await manager.validateReviewCompleteness({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      notes: 'Looks valuable',
+      additionalFields: { marketAnalysis: 'Repeat buyers want it' },
+    });
+    expect(result.isComplete).toBe(true);
+  });
+
+  test('rejections only need notes', async () => {
+    const result = await manager.validateReviewCompleteness({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      decision: 'reject',
+      notes: ' ',
+    });
+    expect(result.missingFields).toEqual(['notes']);
+  });
+
+  test('warn mode records incomplete reviews with a warning', async () => {
+    const result = await manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      decision: 'approve',
+      notes: 'Looks valuable',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.newStatus).toBe('PendingArchitect');
+    expect(result.fieldErrors!.map((e) => e.field)).toEqual(['marketAnalysis', 'competitorAnalysis']);
+    expect(result.message).toContain('incomplete review');
+
+    // Without a review in the input the stored review is inspected
+    const stored = await manager.validateReviewCompleteness({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+    });
+    expect(stored.missingFields).toEqual(['marketAnalysis', 'competitorAnalysis']);
+  });
+
+  test('strict mode refuses incomplete reviews and leaves the task in place', async () => {
+    manager.updateReviewSettings(REPO_NAME, { completenessMode: 'strict' });
+
+    const refused = await manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      decision: 'approve',
+      notes: 'Looks valuable',
+      additionalFields: { marketAnalysis: 'Repeat buyers want it' },
+    });
+    expect(refused.success).toBe(false);
+    expect(refused.fieldErrors).toEqual([
+      { field: 'competitorAnalysis', message: 'competitorAnalysis is required for a productDirector approval' },
+    ]);
+
+    const status = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect(status.status).toBe('PendingProductDirector');
+
+    const accepted = await manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      decision: 'approve',
+      notes: 'Looks valuable',
+      additionalFields: { marketAnalysis: 'Repeat buyers want it', competitorAnalysis: 'Competitors offer it' },
+    });
+    expect(accepted.success).toBe(true);
+    expect(accepted.fieldErrors).toBeUndefined();
+
+    // Other repos keep the default
+    expect(manager.getReviewSettings('other-repo').completenessMode).toBe('warn');
+  });
+
+  test('custom output fields on a built-in role are stored with the review', async () => {
+    manager.updateRolePrompt('architect', { requiredOutputFields: ['technologyRecommendations', 'dataRetention'] });
+    manager.updateReviewSettings(REPO_NAME, { completenessMode: 'strict' });
+    await manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      decision: 'approve',
+      notes: 'Looks valuable',
+      additionalFields: { marketAnalysis: 'Repeat buyers want it', competitorAnalysis: 'Competitors offer it' },
+    });
+
+    const accepted = await manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'architect',
+      decision: 'approve',
+      notes: 'Use the vault',
+      additionalFields: { technologyRecommendations: ['Vault'], dataRetention: 'Delete after 2 years of inactivity' },
+    });
+    expect(accepted.success).toBe(true);
+
+    const stored = await manager.validateReviewCompleteness({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'architect',
+    });
+    expect(stored.isComplete).toBe(true);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Review Conditions Test Suite
+ *
+ * approveWithConditions reviews: conditions stored as tracked items, shown to
+ * later roles in get_next_step, and required to be satisfied before Done.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { ReviewDecision, TaskStatus } from '../types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'accounts';
+const FEATURE_SLUG = 'password-reset';
+
+describe('Review Conditions', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'review-conditions-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/accounts' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Password Reset' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Reset endpoint',
+      description: 'Email a one-time reset link',
+      orderOfExecution: 1,
+    });
+    for (const stakeholder of ['productDirector', 'architect', 'uiUxExpert']) {
+      await review(stakeholder, 'approve');
+    }
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function review(stakeholder: string, decision: ReviewDecision, conditions?: string[]) {
+    return manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder,
+      decision,
+      notes: 'OK',
+      conditions,
+    });
+  }
+
+  function transition(fromStatus: TaskStatus, toStatus: TaskStatus, actor: 'system' | 'developer' | 'codeReviewer' | 'qa') {
+    return manager.transitionTaskStatus({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      fromStatus,
+      toStatus,
+      actor,
+      metadata: { filesChanged: ['reset.ts'] },
+    });
+  }
+
+  test('get_next_step offers approveWithConditions to reviewers', async () => {
+    const step = await manager.getNextStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+    expect(step.nextRole).toBe('securityOfficer');
+    expect(step.allowedDecisions).toEqual(['approve', 'approveWithConditions', 'reject']);
+  });
+
+  test('conditions are required with approveWithConditions and only allowed there', async () => {
+    const missing = await review('securityOfficer', 'approveWithConditions', ['  ']);
+    expect(missing.success).toBe(false);
+    expect(missing.error).toContain('approveWithConditions requires at least one condition');
+
+    const misplaced = await review('securityOfficer', 'approve', ['Add rate limiting']);
+    expect(misplaced.error).toContain('conditions can only be given with an approveWithConditions decision');
+  });
+
+  test('an approval with conditions moves the task on and records tracked conditions', async () => {
+    const result = await review('securityOfficer', 'approveWithConditions', [
+      'Add rate limiting to the reset endpoint',
+      'Expire reset links after 30 minutes',
+    ]);
+    expect(result.newStatus).toBe('ReadyForDevelopment');
+    expect(result.conditions!.map((c) => c.id)).toEqual(['RC-1', 'RC-2']);
+    expect(result.message).toContain('Conditions to satisfy before Done: RC-1, RC-2');
+
+    const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    expect(taskFile.tasks[0].reviewConditions![0]).toMatchObject({
+      id: 'RC-1',
+      condition: 'Add rate limiting to the reset endpoint',
+      raisedBy: 'securityOfficer',
+      satisfied: false,
+    });
+
+    const step = await manager.getNextStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+    expect(step.nextRole).toBe('developer');
+    expect(step.previousRoleNotes.securityOfficer).toContain(
+      'Condition RC-1 (open): Add rate limiting to the reset endpoint'
+    );
+  });
+
+  test('Done is refused until every condition is satisfied', async () => {
+    await review('securityOfficer', 'approveWithConditions', ['Add rate limiting to the reset endpoint']);
+    await transition('ReadyForDevelopment', 'ToDo', 'system');
+    await transition('ToDo', 'InProgress', 'developer');
+    await transition('InProgress', 'InReview', 'developer');
+    await transition('InReview', 'InQA', 'codeReviewer');
+
+    const blocked = await transition('InQA', 'Done', 'qa');
+    expect(blocked.success).toBe(false);
+    expect(blocked.guardViolations).toEqual([
+      expect.objectContaining({ guard: 'reviewConditionsSatisfied', details: ['RC-1'] }),
+    ]);
+
+    const updated = await manager.updateReviewCondition({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      conditionId: 'RC-1',
+      satisfied: true,
+      resolution: 'Limited to 5 requests per hour per account',
+    });
+    expect(updated.success).toBe(true);
+    expect(updated.openConditions).toEqual([]);
+
+    const done = await transition('InQA', 'Done', 'qa');
+    expect(done.success).toBe(true);
+  });
+
+  test('updating an unknown condition fails', async () => {
+    const result = await manager.updateReviewCondition({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      conditionId: 'RC-9',
+      satisfied: true,
+    });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Review condition not found: RC-9');
+  });
+});
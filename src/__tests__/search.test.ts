@@ -0,0 +1,142 @@
+/**
+ * Search Test Suite
+ *
+ * The FTS5 search index: tasks, acceptance criteria, review notes and
+ * clarifications are indexed as they are written, edits and deletes keep the
+ * index in step, and hits can be narrowed by repo, feature, status and role.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+
+describe('Search', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'search-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from website activity',
+      orderOfExecution: 1,
+      acceptanceCriteria: [
+        { id: 'AC-1', criterion: 'Scores are recalculated nightly', priority: 'Must Have', verified: false },
+      ],
+    });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T02',
+      title: 'Scoring dashboard',
+      description: 'Show the score distribution to sales managers',
+      orderOfExecution: 2,
+    });
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('tasks and acceptance criteria are found with highlighted snippets', async () => {
+    const result = await manager.search({ query: 'nightly' });
+    expect(result.success).toBe(true);
+    expect(result.hits).toEqual([
+      expect.objectContaining({
+        kind: 'criterion',
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        taskTitle: 'Score model',
+        snippet: 'Scores are recalculated **nightly**',
+      }),
+    ]);
+
+    const stemmed = await manager.search({ query: 'activities' });
+    expect(stemmed.hits.map((h) => h.taskId)).toEqual(['T01']);
+  });
+
+  test('review notes and clarifications are indexed and filtered by role and status', async () => {
+    await manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T02',
+      stakeholder: 'productDirector',
+      decision: 'approve',
+      notes: 'Managers need a weekly export',
+    });
+    await manager.addClarification({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      question: 'Which export format?',
+      answer: 'CSV weekly',
+    });
+
+    const all = await manager.search({ query: 'weekly' });
+    expect(all.hits.map((h) => h.kind).sort()).toEqual(['clarification', 'review', 'transition']);
+
+    const byRole = await manager.search({ query: 'weekly', role: 'productDirector' });
+    expect(byRole.hits.every((h) => h.role === 'productDirector')).toBe(true);
+    expect(byRole.hits.map((h) => h.kind)).toContain('review');
+
+    const byStatus = await manager.search({ query: 'score*', status: 'PendingArchitect' });
+    expect(byStatus.hits.map((h) => h.taskId)).toEqual(['T02']);
+  });
+
+  test('edits and deletes keep the index in sync', async () => {
+    await manager.updateTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T02',
+      updates: { description: 'Show a leaderboard to sales managers' },
+    });
+    expect((await manager.search({ query: 'distribution' })).hits).toEqual([]);
+    expect((await manager.search({ query: 'leaderboard' })).hits.map((h) => h.taskId)).toEqual(['T02']);
+
+    await manager.deleteTask(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect((await manager.search({ query: 'nightly' })).hits).toEqual([]);
+  });
+
+  test('filters by repo and treats query syntax as plain words', async () => {
+    await manager.registerRepo({ repoName: 'billing', repoPath: '/test/billing' });
+    await manager.createFeature({ repoName: 'billing', featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: 'billing',
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score invoices',
+      description: 'Flag risky invoices',
+      orderOfExecution: 1,
+    });
+
+    const billing = await manager.search({ query: 'score', repoName: 'billing' });
+    expect(billing.hits.map((h) => [h.repoName, h.taskId])).toEqual([['billing', 'T01']]);
+
+    const operators = await manager.search({ query: 'score AND "invoices' });
+    expect(operators.success).toBe(true);
+    expect(operators.hits).toEqual([]);
+
+    const empty = await manager.search({ query: '  ' });
+    expect(empty.success).toBe(false);
+    expect(empty.error).toBe('Search query must contain at least one word');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Stale Approvals Test Suite
+ *
+ * Reviews record a hash of the task content they approved; editing that
+ * content supersedes the approvals and, under the sendBack policy, returns
+ * the task to the earliest affected stage.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'storefront';
+const FEATURE_SLUG = 'gift-cards';
+
+describe('Stale Approvals', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'stale-approvals-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/storefront' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Gift Cards' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Redeem gift cards',
+      description: 'Apply a gift card balance at checkout',
+      orderOfExecution: 1,
+      acceptanceCriteria: [{ id: 'AC-1', criterion: 'Balance is deducted', priority: 'Must Have', verified: false }],
+    });
+    for (const stakeholder of ['productDirector', 'architect']) {
+      await manager.addReview({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        stakeholder,
+        decision: 'approve',
+        notes: 'OK',
+      });
+    }
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function reviewRow(stakeholder: string) {
+    return dbHandler['db']
+      .prepare(`SELECT approved, content_hash, superseded_at FROM stakeholder_reviews WHERE task_id = ? AND stakeholder = ?`)
+      .get('T01', stakeholder) as { approved: number; content_hash: string | null; superseded_at: string | null };
+  }
+
+  test('each review records the hash of the content it approved', () => {
+    const pd = reviewRow('productDirector');
+    const architect = reviewRow('architect');
+    expect(pd.content_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(architect.content_hash).toBe(pd.content_hash);
+  });
+
+  test('edits outside the reviewed content keep approvals valid', async () => {
+    const result = await manager.updateTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      updates: { title: 'Redeem gift cards at checkout', estimatedHours: 3 },
+    });
+    expect(result.success).toBe(true);
+    expect(result.supersededApprovals).toBeUndefined();
+    expect(reviewRow('architect').superseded_at).toBeNull();
+  });
+
+  test('a material edit supersedes approvals and flags the task', async () => {
+    const result = await manager.updateTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      updates: { description: 'Apply one or more gift card balances at checkout' },
+    });
+    expect(result.supersededApprovals).toEqual(['productDirector', 'architect']);
+    expect(result.newStatus).toBeUndefined();
+    expect(result.message).toContain('flagged for re-review');
+
+    // The approvals stay on record, marked superseded
+    const row = reviewRow('architect');
+    expect(row.approved).toBe(1);
+    expect(row.superseded_at).not.toBeNull();
+
+    const status = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect(status.status).toBe('PendingUiUxExpert');
+    expect(status.supersededApprovals).toEqual(['productDirector', 'architect']);
+    expect(status.completedReviews).toEqual([]);
+  });
+
+  test('the edit and the superseded approvals are written in one transaction', async () => {
+    dbHandler['db'].exec(`
+      CREATE TRIGGER fail_supersede BEFORE UPDATE OF superseded_at ON stakeholder_reviews
+      BEGIN SELECT RAISE(ABORT, 'supersede failed'); END
+    `);
+    const before = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+
+    const result = await manager.updateTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      updates: { description: 'Apply one or more gift card balances at checkout' },
+    });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('supersede failed');
+
+    // Neither write landed: the old content still carries its valid approvals
+    const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    expect(taskFile.tasks[0].description).toBe('Apply a gift card balance at checkout');
+    expect(taskFile.tasks[0].version).toBe(before.version);
+    expect(reviewRow('architect').superseded_at).toBeNull();
+  });
+
+  test('the sendBack policy returns the task to the earliest affected stage', async () => {
+    manager.updateReviewSettings(REPO_NAME, { staleApprovalPolicy: 'sendBack' });
+
+    const result = await manager.updateTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      updates: {
+        acceptanceCriteria: [
+          { id: 'AC-1', criterion: 'Balance is deducted', priority: 'Must Have', verified: false },
+          { id: 'AC-2', criterion: 'Remaining balance is shown', priority: 'Should Have', verified: false },
+        ],
+      },
+    });
+    expect(result.newStatus).toBe('PendingProductDirector');
+
+    const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    const last = taskFile.tasks[0].transitions.at(-1)!;
+    expect(last).toMatchObject({ from: 'PendingUiUxExpert', to: 'PendingProductDirector', actor: 'system' });
+    expect(last.notes).toContain('approvals superseded: productDirector, architect');
+
+    // A fresh approval replaces the superseded one
+    await manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      decision: 'approve',
+      notes: 'Still valuable',
+    });
+    const status = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect(status.status).toBe('PendingArchitect');
+    expect(status.supersededApprovals).toEqual(['architect']);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Targeted Rejection Test Suite
+ *
+ * A rejection can name the review stage the task returns to; the resubmitted
+ * task re-enters there and passes through later stages whose approvals are
+ * still valid.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { TaskStatus } from '../types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'travel';
+const FEATURE_SLUG = 'seat-selection';
+
+describe('Targeted Rejection', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'targeted-rejection-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/travel' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Seat Selection' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Seat map',
+      description: 'Show the cabin seat map during booking',
+      orderOfExecution: 1,
+    });
+    for (const stakeholder of ['productDirector', 'architect', 'uiUxExpert']) {
+      await review(stakeholder, 'approve');
+    }
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function review(stakeholder: string, decision: 'approve' | 'reject', returnTo?: TaskStatus) {
+    return manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder,
+      decision,
+      notes: decision === 'approve' ? 'OK' : 'Seat locking needs a distributed lock',
+      returnTo,
+    });
+  }
+
+  function resubmit(toStatus: TaskStatus) {
+    return manager.transitionTaskStatus({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      fromStatus: 'NeedsRefinement',
+      toStatus,
+      actor: 'system',
+    });
+  }
+
+  test('returnTo must be an earlier or current stage on a rejection', async () => {
+    const approveWithTarget = await review('securityOfficer', 'approve', 'PendingArchitect');
+    expect(approveWithTarget.success).toBe(false);
+    expect(approveWithTarget.error).toContain('returnTo can only be given with a reject decision');
+
+    const unknownStage = await review('securityOfficer', 'reject', 'InProgress');
+    expect(unknownStage.error).toContain("Invalid returnTo 'InProgress'");
+  });
+
+  test('a rejected task returns to the named stage and skips still-valid approvals', async () => {
+    const rejected = await review('securityOfficer', 'reject', 'PendingArchitect');
+    expect(rejected.newStatus).toBe('NeedsRefinement');
+    expect(rejected.transition!.returnTo).toBe('PendingArchitect');
+    expect(rejected.message).toContain('returns to PendingArchitect');
+
+    const step = await manager.getNextStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+    expect(step.nextRole).toBe('architect');
+    expect(step.transitionOnSuccess).toBe('PendingArchitect');
+
+    // The architect has to review again; product and UI/UX approvals stand
+    const status = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect(status.supersededApprovals).toEqual(['architect']);
+
+    const resubmitted = await resubmit('PendingArchitect');
+    expect(resubmitted.success).toBe(true);
+
+    const approved = await review('architect', 'approve');
+    expect(approved.newStatus).toBe('PendingSecurityOfficer');
+    expect(approved.skippedStages).toEqual([
+      { status: 'PendingUiUxExpert', reason: 'Skipped UI/UX Expert: approval still valid' },
+    ]);
+
+    const done = await review('securityOfficer', 'approve');
+    expect(done.newStatus).toBe('ReadyForDevelopment');
+  });
+
+  test('without returnTo the task restarts at the first stage', async () => {
+    await review('securityOfficer', 'reject');
+
+    const step = await manager.getNextStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+    expect(step.transitionOnSuccess).toBe('PendingProductDirector');
+
+    const shortcut = await resubmit('PendingArchitect');
+    expect(shortcut.success).toBe(false);
+
+    await resubmit('PendingProductDirector');
+    const approved = await review('productDirector', 'approve');
+    expect(approved.newStatus).toBe('PendingArchitect');
+  });
+});
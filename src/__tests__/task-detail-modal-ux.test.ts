@@ -40,6 +40,11 @@ describe('getBadgeClass', () => {
     expect(getBadgeClass('NeedsRefinement')).toBe('badge-blocked');
   });
 
+  it('returns badge-blocked for Blocked and OnHold', () => {
+    expect(getBadgeClass('Blocked')).toBe('badge-blocked');
+    expect(getBadgeClass('OnHold')).toBe('badge-blocked');
+  });
+
   it('returns badge-review for any Pending* status', () => {
     expect(getBadgeClass('PendingProductDirector')).toBe('badge-review');
     expect(getBadgeClass('PendingArchitect')).toBe('badge-review');
@@ -0,0 +1,131 @@
+/**
+ * Tool Registry Test Suite
+ *
+ * MCP tool arguments are validated against each tool's inputSchema before the
+ * handler runs. Invalid calls come back as error results naming the offending
+ * fields; valid ones are dispatched to AIConductor and returned as JSON.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { ToolRegistry } from '../toolRegistry.js';
+import { createTools } from '../tools/index.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+
+describe('Tool Registry', () => {
+  let manager: AIConductor;
+  let registry: ToolRegistry;
+  let tmpDir: string;
+
+  async function call(name: string, args?: Record<string, unknown>) {
+    const result = await registry.call(name, args);
+    return { isError: result.isError ?? false, body: JSON.parse((result.content[0] as { text: string }).text) };
+  }
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'tool-registry-'));
+    manager = new AIConductor(tmpDir);
+    registry = new ToolRegistry(createTools(manager));
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from activity',
+      orderOfExecution: 1,
+      acceptanceCriteria: [{ id: 'AC-1', criterion: 'Scores update nightly', priority: 'Must Have', verified: false }],
+    });
+  });
+
+  afterEach(() => {
+    try {
+      ((manager as any).dbHandler as DatabaseHandler).close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('every tool is listed once with its schema', () => {
+    const tools = registry.list();
+    expect(new Set(tools.map((t) => t.name)).size).toBe(tools.length);
+    expect(tools.find((t) => t.name === 'get_task_status')?.inputSchema.required).toEqual(['repoName', 'featureSlug', 'taskId']);
+    expect(() => new ToolRegistry([...createTools(manager), ...createTools(manager)])).toThrow('Duplicate tool: get_next_step');
+  });
+
+  test('valid calls are dispatched and returned as JSON', async () => {
+    const status = await call('get_task_status', { repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+    expect(status).toMatchObject({ isError: false, body: { status: 'PendingProductDirector' } });
+
+    const settings = await call('update_review_settings', { repoName: REPO_NAME, completenessMode: 'strict' });
+    expect(settings.body).toMatchObject({ success: true, repoName: REPO_NAME, completenessMode: 'strict' });
+
+    expect((await call('list_repos')).body.repos.map((r: { repoName: string }) => r.repoName).sort()).toEqual([REPO_NAME, 'default']);
+  });
+
+  test('invalid calls name the offending fields and never reach the handler', async () => {
+    const missing = await call('get_task_status', { repoName: REPO_NAME, featureSlug: FEATURE_SLUG });
+    expect(missing).toEqual({
+      isError: true,
+      body: {
+        error: 'Invalid arguments for get_task_status: taskId is required',
+        invalidArguments: [{ field: 'taskId', message: 'is required' }],
+      },
+    });
+
+    const review = await call('add_stakeholder_review', {
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      decision: 'maybe',
+      notes: 42,
+    });
+    expect(review.body.invalidArguments).toEqual([
+      { field: 'decision', message: 'must be one of "approve", "reject", "approveWithConditions"' },
+      { field: 'notes', message: 'must be string' },
+    ]);
+    expect((await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01')).status).toBe('PendingProductDirector');
+
+    const batch = await call('batch_update_acceptance_criteria', {
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      updates: [{ taskId: 'T01', verified: true }],
+    });
+    expect(batch.body.error).toBe('Invalid arguments for batch_update_acceptance_criteria: updates.0.criterionId is required');
+  });
+
+  test('status arguments must be a task status', async () => {
+    const transition = await call('transition_task_status', {
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      fromStatus: 'PendingProductDirector',
+      toStatus: 'Finished',
+      actor: 'system',
+    });
+    expect(transition.isError).toBe(true);
+    expect(transition.body.invalidArguments).toEqual([{ field: 'toStatus', message: expect.stringContaining('must match pattern') }]);
+
+    const custom = await call('get_tasks_by_status', { repoName: REPO_NAME, featureSlug: FEATURE_SLUG, status: 'PendingCompliance' });
+    expect(custom.body).toMatchObject({ success: true, count: 0 });
+    const filter = await call('get_next_task', { repoName: REPO_NAME, featureSlug: FEATURE_SLUG, statusFilter: ['ToDo', 'Later'] });
+    expect(filter.body.invalidArguments).toEqual([{ field: 'statusFilter.1', message: expect.stringContaining('must match pattern') }]);
+  });
+
+  test('unknown tools are error results; failed operations return their result as is', async () => {
+    expect(await call('no_such_tool', {})).toEqual({ isError: true, body: { error: 'Unknown tool: no_such_tool' } });
+
+    const failed = await call('get_feature', { repoName: REPO_NAME, featureSlug: 'missing' });
+    expect(failed.isError).toBe(false);
+    expect(failed.body.success).toBe(false);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Transition Guards Test Suite
+ *
+ * Guard rules checked by validateDevTransition: dependencies Done before
+ * InProgress, filesChanged before InReview, Must Have criteria verified before
+ * Done, plus system overrides and custom guards.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { WorkflowValidator } from '../WorkflowValidator.js';
+import { TaskStatus, Transition } from '../types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'billing';
+const FEATURE_SLUG = 'invoices';
+
+describe('Transition Guards', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'transition-guards-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/billing' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Invoices' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Invoice model',
+      description: 'Persist invoices',
+      orderOfExecution: 1,
+      acceptanceCriteria: [
+        { id: 'AC-1', criterion: 'Invoices are stored', priority: 'Must Have', verified: false },
+        { id: 'AC-2', criterion: 'Totals are cached', priority: 'Could Have', verified: false },
+      ],
+    });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T02',
+      title: 'Invoice PDF',
+      description: 'Render invoices as PDF',
+      orderOfExecution: 2,
+      dependencies: ['T01'],
+    });
+    for (const taskId of ['T01', 'T02']) {
+      for (const stakeholder of ['productDirector', 'architect', 'uiUxExpert', 'securityOfficer']) {
+        // T02's security approval carries a condition, checked before it is Done
+        const conditional = taskId === 'T02' && stakeholder === 'securityOfficer';
+        await manager.addReview({
+          repoName: REPO_NAME,
+          featureSlug: FEATURE_SLUG,
+          taskId,
+          stakeholder,
+          decision: conditional ? 'approveWithConditions' : 'approve',
+          notes: 'OK',
+          ...(conditional ? { conditions: ['Sign the PDFs'] } : {}),
+        });
+      }
+      await transition(taskId, 'ReadyForDevelopment', 'ToDo', 'system');
+    }
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function transition(
+    taskId: string,
+    fromStatus: TaskStatus,
+    toStatus: TaskStatus,
+    actor: 'system' | 'developer' | 'codeReviewer' | 'qa',
+    extra: { metadata?: Partial<Transition>; overrideJustification?: string } = {}
+  ) {
+    return manager.transitionTaskStatus({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId,
+      fromStatus,
+      toStatus,
+      actor,
+      ...extra,
+    });
+  }
+
+  test('a task cannot start while its dependencies are not Done', async () => {
+    const result = await transition('T02', 'ToDo', 'InProgress', 'developer');
+
+    expect(result.success).toBe(false);
+    expect(result.guardViolations).toEqual([
+      { guard: 'dependenciesDone', message: 'Dependencies not Done: T01 (ToDo)', details: ['T01'] },
+    ]);
+  });
+
+  test('InReview requires filesChanged in the transition metadata', async () => {
+    await transition('T01', 'ToDo', 'InProgress', 'developer');
+
+    const missing = await transition('T01', 'InProgress', 'InReview', 'developer', { metadata: { filesChanged: [] } });
+    expect(missing.success).toBe(false);
+    expect(missing.guardViolations![0].guard).toBe('filesChangedRecorded');
+
+    const ok = await transition('T01', 'InProgress', 'InReview', 'developer', { metadata: { filesChanged: ['invoice.ts'] } });
+    expect(ok.success).toBe(true);
+  });
+
+  test('Done requires every Must Have criterion to be verified', async () => {
+    await transition('T01', 'ToDo', 'InProgress', 'developer');
+    await transition('T01', 'InProgress', 'InReview', 'developer', { metadata: { filesChanged: ['invoice.ts'] } });
+    await transition('T01', 'InReview', 'InQA', 'codeReviewer');
+
+    const blocked = await transition('T01', 'InQA', 'Done', 'qa');
+    expect(blocked.success).toBe(false);
+    expect(blocked.guardViolations).toEqual([
+      expect.objectContaining({ guard: 'mustHaveCriteriaVerified', details: ['AC-1'] }),
+    ]);
+
+    await manager.updateAcceptanceCriteria({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      criterionId: 'AC-1',
+      verified: true,
+    });
+    const done = await transition('T01', 'InQA', 'Done', 'qa');
+    expect(done.success).toBe(true);
+
+    // With T01 Done, T02 may start
+    const started = await transition('T02', 'ToDo', 'InProgress', 'developer');
+    expect(started.success).toBe(true);
+  });
+
+  test('the system actor can override guards and the justification is recorded', async () => {
+    const denied = await transition('T02', 'ToDo', 'InProgress', 'developer', {
+      overrideJustification: 'T01 is nearly done',
+    });
+    expect(denied.success).toBe(false);
+    expect(denied.error).toContain('Only the system actor can override');
+
+    const result = await transition('T02', 'ToDo', 'InProgress', 'system', {
+      overrideJustification: 'PDF work only needs the T01 schema, which is merged',
+    });
+    expect(result.success).toBe(true);
+    expect(result.message).toContain('Guards overridden by system (dependenciesDone)');
+    expect(result.transition.guardOverride).toEqual({
+      guards: ['dependenciesDone'],
+      justification: 'PDF work only needs the T01 schema, which is merged',
+    });
+
+    const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    const stored = taskFile.tasks.find((t) => t.taskId === 'T02')!.transitions.at(-1)!;
+    expect(stored.guardOverride!.guards).toEqual(['dependenciesDone']);
+  });
+
+  test('every guard can be overridden by the system actor, whoever the status belongs to', async () => {
+    const override = (taskId: string, fromStatus: TaskStatus, toStatus: TaskStatus) =>
+      transition(taskId, fromStatus, toStatus, 'system', { overrideJustification: 'Hotfix for the release' });
+    const overridden = (result: Awaited<ReturnType<typeof override>>) => {
+      expect(result.success).toBe(true);
+      return result.transition.guardOverride!.guards;
+    };
+
+    expect(overridden(await override('T02', 'ToDo', 'InProgress'))).toEqual(['dependenciesDone']);
+    expect(overridden(await override('T02', 'InProgress', 'InReview'))).toEqual(['filesChangedRecorded']);
+    expect((await transition('T02', 'InReview', 'InQA', 'codeReviewer')).success).toBe(true);
+    expect(overridden(await override('T02', 'InQA', 'Done'))).toEqual(['reviewConditionsSatisfied']);
+
+    await transition('T01', 'ToDo', 'InProgress', 'developer');
+    await transition('T01', 'InProgress', 'InReview', 'developer', { metadata: { filesChanged: ['invoice.ts'] } });
+    await transition('T01', 'InReview', 'InQA', 'codeReviewer');
+    // Without a justification the system still may not act for QA
+    expect((await transition('T01', 'InQA', 'Done', 'system')).error).toContain("Actor 'system' is not allowed");
+    expect(overridden(await override('T01', 'InQA', 'Done'))).toEqual(['mustHaveCriteriaVerified']);
+  });
+
+  test('an override only waives failing guards, never the actor rules', async () => {
+    await transition('T02', 'ToDo', 'InProgress', 'system', { overrideJustification: 'Hotfix for the release' });
+    await transition('T02', 'InProgress', 'InReview', 'developer', { metadata: { filesChanged: ['pdf.ts'] } });
+
+    // No guard fails on InReview -> InQA, so the system cannot stand in for the code reviewer
+    const skipReview = await transition('T02', 'InReview', 'InQA', 'system', { overrideJustification: 'x' });
+    expect(skipReview.success).toBe(false);
+    expect(skipReview.error).toContain('No transition guard fails');
+    expect(skipReview.error).toContain("Actor 'system' is not allowed");
+
+    // Metadata cannot record an override that did not happen
+    const reviewed = await transition('T02', 'InReview', 'InQA', 'codeReviewer', {
+      metadata: { guardOverride: { guards: ['mustHaveCriteriaVerified'], justification: 'forged' } },
+    });
+    expect(reviewed.success).toBe(true);
+    expect(reviewed.transition.guardOverride).toBeUndefined();
+    const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    expect(taskFile.tasks.find((t) => t.taskId === 'T02')!.transitions.at(-1)!.guardOverride).toBeUndefined();
+  });
+
+  test('guards registered on the manager apply to every transition', async () => {
+    manager.registerTransitionGuard({
+      name: 'estimateRequired',
+      description: 'Tasks need an estimate before work starts',
+      appliesTo: ['InProgress'],
+      check: ({ task }) =>
+        task.estimatedHours ? null : { guard: 'estimateRequired', message: 'estimatedHours is required' },
+    });
+    expect(manager.getTransitionGuards().map((g) => g.name)).toContain('estimateRequired');
+
+    const result = await transition('T01', 'ToDo', 'InProgress', 'developer');
+    expect(result.success).toBe(false);
+    expect(result.guardViolations).toEqual([{ guard: 'estimateRequired', message: 'estimatedHours is required' }]);
+
+    const batch = await manager.batchTransitionTasks({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskIds: ['T01'],
+      fromStatus: 'ToDo',
+      toStatus: 'InProgress',
+      actor: 'developer',
+    });
+    expect(batch.results[0].success).toBe(false);
+  });
+
+  test('custom guards can be registered on the validator', () => {
+    const validator = new WorkflowValidator();
+    validator.registerGuard({
+      name: 'estimateRequired',
+      description: 'Tasks need an estimate before work starts',
+      appliesTo: ['InProgress'],
+      check: ({ task }) =>
+        task.estimatedHours ? null : { guard: 'estimateRequired', message: 'estimatedHours is required' },
+    });
+
+    const task = { taskId: 'T09', dependencies: [], acceptanceCriteria: [] } as any;
+    const result = validator.validateDevTransition('ToDo', 'InProgress', 'developer', { task, featureTasks: [task] });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('[estimateRequired] estimatedHours is required');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Trash Test Suite
+ *
+ * Deleting a repo, feature or task marks its rows deleted and lists it in the
+ * trash. Marked rows are hidden from every listing until the item is restored
+ * with its full history or purged after the retention period.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+
+describe('Trash', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'trash-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from activity',
+      orderOfExecution: 1,
+      acceptanceCriteria: [{ id: 'AC-1', criterion: 'Scores update nightly', priority: 'Must Have', verified: false }],
+    });
+    await manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder: 'productDirector',
+      decision: 'approve',
+      notes: 'Worth doing',
+    });
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('a deleted task is hidden until restored with its reviews and transitions', async () => {
+    const before = (await manager.getFeature(REPO_NAME, FEATURE_SLUG)).feature!.tasks[0];
+
+    const deleted = await manager.deleteTask(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect(deleted.message).toBe(`Task 'T01' moved to the trash (item ${deleted.trashId})`);
+    const byStatus = await manager.getTasksByStatus({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, status: before.status });
+    expect(byStatus.count).toBe(0);
+
+    const { items } = await manager.listTrash(REPO_NAME);
+    expect(items).toEqual([
+      expect.objectContaining({ id: deleted.trashId, entityType: 'task', taskId: 'T01', label: 'Score model', deletedBy: 'system' }),
+    ]);
+    expect(Date.parse(items[0].expiresAt!) - Date.parse(items[0].deletedAt)).toBe(30 * 86_400_000);
+
+    const restored = await manager.restoreFromTrash(deleted.trashId!);
+    expect(restored.message).toBe("Restored task 'T01'");
+    expect((await manager.getFeature(REPO_NAME, FEATURE_SLUG)).feature!.tasks[0]).toEqual(before);
+    expect((await manager.listTrash()).items).toEqual([]);
+  });
+
+  test('deleted features and repos leave the listings and come back on restore', async () => {
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T02',
+      title: 'Score decay',
+      description: 'Lower scores of idle leads',
+      orderOfExecution: 2,
+    });
+    const task = await manager.deleteTask(REPO_NAME, FEATURE_SLUG, 'T02');
+    const feature = await manager.deleteFeature(REPO_NAME, FEATURE_SLUG);
+    expect(feature.success).toBe(true);
+    expect((await manager.listFeatures(REPO_NAME)).features).toEqual([]);
+    expect((await manager.deleteFeature(REPO_NAME, FEATURE_SLUG)).error).toBe(`Feature not found: ${FEATURE_SLUG} in repo ${REPO_NAME}`);
+
+    // The rows stay where they are, marked deleted
+    const db = (dbHandler as any).db;
+    expect(db.prepare(`SELECT task_id FROM tasks WHERE deleted_at IS NOT NULL ORDER BY task_id`).pluck().all()).toEqual(['T01', 'T02']);
+
+    // Restoring the feature brings back T01, but T02 was deleted on its own and stays in the trash
+    expect((await manager.restoreFromTrash(feature.trashId!)).success).toBe(true);
+    expect((await manager.listFeatures(REPO_NAME)).features.map((f) => [f.featureName, f.totalTasks])).toEqual([['Lead Scoring', 1]]);
+    expect((await manager.listTrash()).items.map((item) => item.id)).toEqual([task.trashId]);
+
+    manager.updateReviewSettings(REPO_NAME, { completenessMode: 'strict' });
+    const repo = await manager.deleteRepo(REPO_NAME);
+    expect((await manager.listRepos()).repos?.map((r) => r.repoName)).toEqual(['default']);
+    expect((await manager.restoreFromTrash(task.trashId!)).error).toBe(
+      `Cannot restore task T02: feature ${FEATURE_SLUG} no longer exists in ${REPO_NAME}`
+    );
+
+    expect((await manager.restoreFromTrash(repo.trashId!)).success).toBe(true);
+    expect((await manager.listRepos()).repos?.map((r) => r.repoName).sort()).toEqual([REPO_NAME, 'default']);
+    expect((await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01')).status).toBe('PendingArchitect');
+    expect(manager.getReviewSettings(REPO_NAME).completenessMode).toBe('strict');
+  });
+
+  test('a new feature under a trashed slug purges the trashed one, and an import overwrite skips the trash', async () => {
+    const feature = await manager.deleteFeature(REPO_NAME, FEATURE_SLUG);
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Replacement' });
+    expect((await manager.restoreFromTrash(feature.trashId!)).error).toBe(`Trash item ${feature.trashId} not found`);
+    expect((await manager.getFeature(REPO_NAME, FEATURE_SLUG)).feature!.tasks).toEqual([]);
+
+    const bundle = dbHandler.exportRepo(REPO_NAME);
+    dbHandler.importRepo(bundle, { conflictMode: 'overwrite' });
+    expect((await manager.listTrash()).items).toEqual([]);
+  });
+
+  test('items older than the retention period are purged with their rows', async () => {
+    await manager.deleteTask(REPO_NAME, FEATURE_SLUG, 'T01');
+    const later = new Date(Date.now() + 2 * 86_400_000);
+
+    manager.updateTrashSettings({ retentionDays: 0 });
+    expect(dbHandler.purgeTrash(later)).toBe(0);
+    expect((await manager.listTrash()).items[0].expiresAt).toBeUndefined();
+
+    manager.updateTrashSettings({ retentionDays: 1 });
+    expect(dbHandler.purgeTrash(later)).toBe(1);
+    const db = (dbHandler as any).db;
+    expect(db.prepare(`SELECT COUNT(*) FROM tasks`).pluck().get()).toBe(0);
+    expect(db.prepare(`SELECT COUNT(*) FROM stakeholder_reviews`).pluck().get()).toBe(0);
+    expect((await manager.listTrash()).items).toEqual([]);
+    expect((await manager.restoreFromTrash(1)).error).toBe('Trash item 1 not found');
+  });
+
+  test('the purge runs when a server schedules it, not only when the trash is read', async () => {
+    const deleted = await manager.deleteFeature(REPO_NAME, FEATURE_SLUG);
+    const db = (dbHandler as any).db;
+    db.prepare(`UPDATE trash SET deleted_at = ?`).run(new Date(Date.now() - 31 * 86_400_000).toISOString());
+
+    clearInterval(manager.scheduleTrashPurge());
+    expect(db.prepare(`SELECT COUNT(*) FROM trash WHERE id = ?`).pluck().get(deleted.trashId)).toBe(0);
+    expect(db.prepare(`SELECT COUNT(*) FROM features`).pluck().get()).toBe(0);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Version Conflicts Test Suite
+ *
+ * Per-task versions: every save increments the version, stale writes are refused
+ * with a VersionConflictError carrying the current version, and retryOnConflict
+ * re-runs read-modify-write operations that hit a conflict.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { VersionConflictError, retryOnConflict } from '../versionConflict.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'crm';
+const FEATURE_SLUG = 'lead-scoring';
+
+describe('Version Conflicts', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'version-conflicts-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/crm' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Lead Scoring' });
+    await manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      title: 'Score model',
+      description: 'Score leads from activity',
+      orderOfExecution: 1,
+    });
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function review(stakeholder: string, expectedVersion?: number) {
+    return manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId: 'T01',
+      stakeholder,
+      decision: 'approve',
+      notes: 'OK',
+      expectedVersion,
+    });
+  }
+
+  test('each write increments the task version', async () => {
+    const before = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect(before.version).toBe(0);
+
+    await review('productDirector', 0);
+    const after = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect(after.version).toBe(1);
+  });
+
+  test('a write with a stale expectedVersion is refused with the current version', async () => {
+    await review('productDirector');
+
+    const stale = await review('architect', 0);
+    expect(stale.success).toBe(false);
+    expect(stale.versionConflict).toEqual({ taskId: 'T01', expectedVersion: 0, currentVersion: 1 });
+
+    const status = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+    expect(status.status).toBe('PendingArchitect');
+  });
+
+  test('saving a task read before another save throws a typed conflict', async () => {
+    const first = await dbHandler.loadByFeatureSlugWithLock(FEATURE_SLUG, REPO_NAME);
+    const second = await dbHandler.loadByFeatureSlugWithLock(FEATURE_SLUG, REPO_NAME);
+
+    first.tasks[0].title = 'Score model v2';
+    await dbHandler.saveTasks(FEATURE_SLUG, [first.tasks[0]], REPO_NAME);
+    expect(first.tasks[0].version).toBe(1);
+
+    second.tasks[0].estimatedHours = 5;
+    await expect(dbHandler.saveTasks(FEATURE_SLUG, [second.tasks[0]], REPO_NAME)).rejects.toBeInstanceOf(
+      VersionConflictError
+    );
+    await expect(dbHandler.saveByFeatureSlug(FEATURE_SLUG, second, REPO_NAME)).rejects.toMatchObject({
+      code: 'VERSION_CONFLICT',
+      taskId: 'T01',
+      currentVersion: 1,
+    });
+
+    const stored = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+    expect(stored.tasks[0].title).toBe('Score model v2');
+  });
+
+  test('retryOnConflict re-runs the operation until it stops conflicting', async () => {
+    const conflict = { taskId: 'T01', expectedVersion: 0, currentVersion: 1 };
+    const attempts = [
+      { success: false, versionConflict: conflict },
+      { success: false, versionConflict: conflict },
+      { success: true },
+    ];
+    let calls = 0;
+    const result = await retryOnConflict(async () => attempts[calls++]);
+    expect(result.success).toBe(true);
+    expect(calls).toBe(3);
+
+    calls = 0;
+    const noRetry = await retryOnConflict(async () => attempts[calls++], 0);
+    expect(noRetry.versionConflict).toEqual(conflict);
+    expect(calls).toBe(1);
+  });
+});
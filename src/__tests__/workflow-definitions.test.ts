@@ -0,0 +1,548 @@
+/**
+ * Workflow Definitions Test Suite
+ *
+ * Per-repo review pipelines: storage with default fallback, definition
+ * validation, and the review / transition / next-step logic driven by the
+ * active definition.
+ */
+
+import { AIConductor } from '../AIConductor.js';
+import { DatabaseHandler } from '../DatabaseHandler.js';
+import { WorkflowStage } from '../types.js';
+import * as path from 'path';
+import * as os from 'os';
+import * as nodeFs from 'fs';
+
+const REPO_NAME = 'backend-service';
+const FEATURE_SLUG = 'workflow-feature';
+
+/** Backend-only pipeline: no UI/UX stage. */
+const BACKEND_STAGES: WorkflowStage[] = [
+  {
+    status: 'PendingProductDirector',
+    stakeholder: 'productDirector',
+    label: 'Product Director',
+    onApprove: 'PendingArchitect',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['productDirector', 'system'],
+  },
+  {
+    status: 'PendingArchitect',
+    stakeholder: 'architect',
+    label: 'Architect',
+    onApprove: 'PendingCompliance',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['architect', 'system'],
+  },
+  {
+    status: 'PendingCompliance',
+    stakeholder: 'securityOfficer',
+    label: 'Compliance',
+    onApprove: 'ReadyForDevelopment',
+    onReject: 'PendingArchitect',
+    allowedActors: ['securityOfficer', 'system'],
+  },
+];
+
+/** Default pipeline with tag/estimate routing: backend-only skips UI/UX, auth and payments get a second security pass. */
+const ROUTED_STAGES: WorkflowStage[] = [
+  {
+    status: 'PendingProductDirector',
+    stakeholder: 'productDirector',
+    label: 'Product Director',
+    onApprove: 'PendingArchitect',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['productDirector', 'system'],
+    skipWhen: { tagsAny: ['chore'], maxEstimatedHours: 1 },
+  },
+  {
+    status: 'PendingArchitect',
+    stakeholder: 'architect',
+    label: 'Architect',
+    onApprove: 'PendingUiUxExpert',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['architect', 'system'],
+  },
+  {
+    status: 'PendingUiUxExpert',
+    stakeholder: 'uiUxExpert',
+    label: 'UI/UX Expert',
+    onApprove: 'PendingSecurityOfficer',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['uiUxExpert', 'system'],
+    skipWhen: { tagsAny: ['backend-only'] },
+  },
+  {
+    status: 'PendingSecurityOfficer',
+    stakeholder: 'securityOfficer',
+    label: 'Security Officer',
+    onApprove: 'PendingSecuritySecondPass',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['securityOfficer', 'system'],
+  },
+  {
+    status: 'PendingSecuritySecondPass',
+    stakeholder: 'securityOfficer',
+    label: 'Security Second Pass',
+    onApprove: 'ReadyForDevelopment',
+    onReject: 'PendingSecurityOfficer',
+    allowedActors: ['securityOfficer', 'system'],
+    requiredWhen: { tagsAny: ['auth', 'payments'] },
+  },
+];
+
+/** Architect and Security review at the same time after the Product Director. */
+const PARALLEL_STAGES: WorkflowStage[] = [
+  { ...BACKEND_STAGES[0], onApprove: 'PendingTechnicalReview' },
+  {
+    status: 'PendingTechnicalReview',
+    stakeholder: 'architect',
+    label: 'Technical Review',
+    onApprove: 'ReadyForDevelopment',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['system'],
+    parallelReviewers: ['architect', 'securityOfficer', 'uiUxExpert'],
+    quorum: { approvals: 'all' },
+  },
+];
+
+describe('Workflow Definitions', () => {
+  let manager: AIConductor;
+  let dbHandler: DatabaseHandler;
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = nodeFs.mkdtempSync(path.join(os.tmpdir(), 'workflow-definitions-'));
+    manager = new AIConductor(tmpDir);
+    dbHandler = (manager as any).dbHandler as DatabaseHandler;
+
+    await manager.registerRepo({ repoName: REPO_NAME, repoPath: '/test/backend' });
+    await manager.createFeature({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, featureName: 'Workflow Feature' });
+  });
+
+  afterEach(() => {
+    try {
+      dbHandler.close();
+    } catch {
+      /* ignore */
+    }
+    nodeFs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  async function addTask(taskId: string) {
+    return manager.addTask({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId,
+      title: `Task ${taskId}`,
+      description: 'Task description',
+      orderOfExecution: 1,
+    });
+  }
+
+  async function review(taskId: string, stakeholder: WorkflowStage['stakeholder'], decision: 'approve' | 'reject') {
+    return manager.addReview({
+      repoName: REPO_NAME,
+      featureSlug: FEATURE_SLUG,
+      taskId,
+      stakeholder,
+      decision,
+      notes: `${stakeholder} ${decision}`,
+    });
+  }
+
+  describe('Storage', () => {
+    test('falls back to the default pipeline when no definition is stored', async () => {
+      const result = await manager.getWorkflowDefinition(REPO_NAME);
+      expect(result.success).toBe(true);
+      expect(result.definition!.isCustom).toBe(false);
+      expect(result.definition!.stages.map((s) => s.status)).toEqual([
+        'PendingProductDirector',
+        'PendingArchitect',
+        'PendingUiUxExpert',
+        'PendingSecurityOfficer',
+      ]);
+    });
+
+    test('stores a custom pipeline and resets it to the default', async () => {
+      const saved = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages: BACKEND_STAGES });
+      expect(saved.success).toBe(true);
+
+      const loaded = await manager.getWorkflowDefinition(REPO_NAME);
+      expect(loaded.definition!.isCustom).toBe(true);
+      expect(loaded.definition!.stages).toEqual(BACKEND_STAGES);
+
+      // Other repos are unaffected
+      const other = await manager.getWorkflowDefinition('other-repo');
+      expect(other.definition!.isCustom).toBe(false);
+
+      const reset = await manager.resetWorkflowDefinition(REPO_NAME);
+      expect(reset.success).toBe(true);
+      expect(reset.definition!.isCustom).toBe(false);
+    });
+  });
+
+  describe('Validation', () => {
+    test('rejects an empty pipeline', async () => {
+      const result = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages: [] });
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('Workflow definition must have at least one stage');
+    });
+
+    test('rejects statuses that do not start with Pending and unknown targets', async () => {
+      const result = await manager.setWorkflowDefinition({
+        repoName: REPO_NAME,
+        stages: [{ ...BACKEND_STAGES[0], status: 'Compliance' as any, onApprove: 'Nowhere' as any }],
+      });
+      expect(result.success).toBe(false);
+      expect(result.errors!.some((e) => e.includes('Pending<Name>'))).toBe(true);
+      expect(result.errors!.some((e) => e.includes("onApprove 'Nowhere'"))).toBe(true);
+    });
+
+    test('a role may review a second stage only when that stage is conditional', async () => {
+      const stages = ROUTED_STAGES.map((s) => ({ ...s }));
+      delete stages[4].requiredWhen;
+      const result = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages });
+      expect(result.success).toBe(false);
+      expect(result.errors!.some((e) => e.includes("'securityOfficer' already reviews an earlier stage"))).toBe(true);
+    });
+
+    test('rejects malformed stage conditions', async () => {
+      const stages = ROUTED_STAGES.map((s) => ({ ...s }));
+      stages[2].skipWhen = { tagsAny: 'backend-only', maxHours: 2 } as any;
+      const result = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages });
+      expect(result.success).toBe(false);
+      expect(result.errors!.some((e) => e.includes('skipWhen.tagsAny must be an array'))).toBe(true);
+      expect(result.errors!.some((e) => e.includes('unknown field(s): maxHours'))).toBe(true);
+    });
+
+    test('rejects approvals that loop back to an earlier stage', async () => {
+      const stages = BACKEND_STAGES.map((s) => ({ ...s }));
+      stages[2].onApprove = 'PendingProductDirector';
+      const result = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages });
+      expect(result.success).toBe(false);
+      expect(result.errors!.some((e) => e.includes('later stage'))).toBe(true);
+    });
+
+    test('refuses to drop a stage that still holds tasks', async () => {
+      await addTask('T01');
+      await review('T01', 'productDirector', 'approve');
+      await review('T01', 'architect', 'approve');
+      await review('T01', 'uiUxExpert', 'approve'); // now PendingSecurityOfficer
+
+      const result = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages: BACKEND_STAGES });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(`${FEATURE_SLUG}/T01 (PendingSecurityOfficer)`);
+    });
+  });
+
+  describe('Pipeline-driven workflow', () => {
+    beforeEach(async () => {
+      await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages: BACKEND_STAGES });
+    });
+
+    test('new tasks start at the first stage and follow the custom approvals', async () => {
+      await addTask('T01');
+
+      let result = await review('T01', 'productDirector', 'approve');
+      expect(result.newStatus).toBe('PendingArchitect');
+
+      result = await review('T01', 'architect', 'approve');
+      expect(result.newStatus).toBe('PendingCompliance');
+
+      // UI/UX is not part of this pipeline
+      const wrongRole = await review('T01', 'uiUxExpert', 'approve');
+      expect(wrongRole.success).toBe(false);
+
+      result = await review('T01', 'securityOfficer', 'approve');
+      expect(result.success).toBe(true);
+      expect(result.newStatus).toBe('ReadyForDevelopment');
+    });
+
+    test('rejection follows the stage onReject target', async () => {
+      await addTask('T01');
+      await review('T01', 'productDirector', 'approve');
+      await review('T01', 'architect', 'approve');
+
+      const result = await review('T01', 'securityOfficer', 'reject');
+      expect(result.newStatus).toBe('PendingArchitect');
+    });
+
+    test('getNextStep reports the stage role and targets', async () => {
+      await addTask('T01');
+      await review('T01', 'productDirector', 'approve');
+      await review('T01', 'architect', 'approve');
+
+      const step = await manager.getNextStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+      expect(step.success).toBe(true);
+      expect(step.nextRole).toBe('securityOfficer');
+      expect(step.transitionOnSuccess).toBe('ReadyForDevelopment');
+      expect(step.transitionOnFailure).toBe('PendingArchitect');
+    });
+
+    test('transitionTaskStatus uses the stage allowed actors', async () => {
+      await addTask('T01');
+
+      const denied = await manager.transitionTaskStatus({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        fromStatus: 'PendingProductDirector',
+        toStatus: 'PendingArchitect',
+        actor: 'developer',
+      });
+      expect(denied.success).toBe(false);
+
+      const allowed = await manager.transitionTaskStatus({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        fromStatus: 'PendingProductDirector',
+        toStatus: 'PendingArchitect',
+        actor: 'system',
+      });
+      expect(allowed.success).toBe(true);
+    });
+
+    test('review summary counts only the stages of the pipeline', async () => {
+      await addTask('T01');
+      await review('T01', 'productDirector', 'approve');
+
+      const summary = await manager.getReviewSummary(REPO_NAME, FEATURE_SLUG);
+      expect(Object.keys(summary.stakeholderProgress).sort()).toEqual(['architect', 'productDirector', 'securityOfficer']);
+      expect(summary.stakeholderProgress.productDirector.completed).toBe(1);
+      expect(summary.tasksByStatus.PendingArchitect).toBe(1);
+      expect(summary.tasksByStatus).not.toHaveProperty('PendingUiUxExpert');
+    });
+  });
+
+  describe('Conditional routing', () => {
+    beforeEach(async () => {
+      const saved = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages: ROUTED_STAGES });
+      expect(saved.success).toBe(true);
+    });
+
+    async function addTaggedTask(taskId: string, tags: string[], estimatedHours?: number) {
+      return manager.addTask({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId,
+        title: `Task ${taskId}`,
+        description: 'Task description',
+        orderOfExecution: 1,
+        tags,
+        estimatedHours,
+      });
+    }
+
+    async function transitionsOf(taskId: string) {
+      const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+      return taskFile.tasks.find((t) => t.taskId === taskId)!.transitions;
+    }
+
+    test('backend-only tasks skip UI/UX and record a system transition with the reason', async () => {
+      await addTaggedTask('T01', ['backend-only']);
+      await review('T01', 'productDirector', 'approve');
+
+      const result = await review('T01', 'architect', 'approve');
+      expect(result.success).toBe(true);
+      expect(result.newStatus).toBe('PendingSecurityOfficer');
+      expect(result.skippedStages).toEqual([
+        { status: 'PendingUiUxExpert', reason: 'Skipped UI/UX Expert: task is tagged any of backend-only' },
+      ]);
+
+      const transitions = await transitionsOf('T01');
+      expect(transitions.slice(-2)).toMatchObject([
+        { from: 'PendingArchitect', to: 'PendingUiUxExpert', approver: 'architect' },
+        { from: 'PendingUiUxExpert', to: 'PendingSecurityOfficer', actor: 'system', notes: result.skippedStages![0].reason },
+      ]);
+
+      const status = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+      expect(status.pendingReviews).not.toContain('uiUxExpert');
+    });
+
+    test('auth tasks require a second security pass; other tasks skip it', async () => {
+      await addTaggedTask('T01', ['auth']);
+      await addTaggedTask('T02', []);
+      for (const taskId of ['T01', 'T02']) {
+        await review(taskId, 'productDirector', 'approve');
+        await review(taskId, 'architect', 'approve');
+        await review(taskId, 'uiUxExpert', 'approve');
+      }
+
+      const auth = await review('T01', 'securityOfficer', 'approve');
+      expect(auth.newStatus).toBe('PendingSecuritySecondPass');
+      const waiting = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+      expect(waiting.pendingReviews).toEqual(['securityOfficer']);
+      expect(waiting.completedReviews).not.toContain('securityOfficer');
+
+      const second = await manager.addReview({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        stakeholder: 'securityOfficer',
+        decision: 'approve',
+        notes: 'Token rotation checked',
+        additionalFields: { securityRequirements: ['Rotate refresh tokens'] },
+      });
+      expect(second.newStatus).toBe('ReadyForDevelopment');
+
+      // Each pass keeps its own review
+      const taskFile = await dbHandler.loadByFeatureSlug(FEATURE_SLUG, REPO_NAME);
+      const reviews = taskFile.tasks.find((t) => t.taskId === 'T01')!.stakeholderReview;
+      expect(reviews.securityOfficer).toMatchObject({ approved: true, notes: 'securityOfficer approve' });
+      expect(reviews['securityOfficer@PendingSecuritySecondPass']).toMatchObject({
+        approved: true,
+        notes: 'Token rotation checked',
+        securityRequirements: ['Rotate refresh tokens'],
+      });
+
+      const plain = await review('T02', 'securityOfficer', 'approve');
+      expect(plain.newStatus).toBe('ReadyForDevelopment');
+      expect(plain.skippedStages![0].reason).toContain('only required when task is tagged any of auth, payments');
+    });
+
+    test('a task returning after a rejection still gets its second security pass', async () => {
+      await addTaggedTask('T01', ['auth']);
+      await review('T01', 'productDirector', 'approve');
+      await review('T01', 'architect', 'approve');
+      const rejected = await manager.addReview({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        stakeholder: 'uiUxExpert',
+        decision: 'reject',
+        notes: 'Login form needs a redesign first',
+        returnTo: 'PendingArchitect',
+      });
+      expect(rejected.newStatus).toBe('NeedsRefinement');
+
+      await manager.transitionTaskStatus({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        fromStatus: 'NeedsRefinement',
+        toStatus: 'PendingArchitect',
+        actor: 'system',
+      });
+      await review('T01', 'architect', 'approve');
+      await review('T01', 'uiUxExpert', 'approve');
+
+      // The first pass's approval does not stand in for the second pass
+      const first = await review('T01', 'securityOfficer', 'approve');
+      expect(first.newStatus).toBe('PendingSecuritySecondPass');
+      expect(first.skippedStages).toBeUndefined();
+      expect((await review('T01', 'securityOfficer', 'approve')).newStatus).toBe('ReadyForDevelopment');
+    });
+
+    test('new tasks skip leading stages that do not apply', async () => {
+      const result = await addTaggedTask('T01', ['chore'], 0.5);
+      expect(result.success).toBe(true);
+      expect(result.status).toBe('PendingArchitect');
+      expect(result.skippedStages!.map((s) => s.status)).toEqual(['PendingProductDirector']);
+
+      const transitions = await transitionsOf('T01');
+      expect(transitions).toHaveLength(1);
+      expect(transitions[0]).toMatchObject({ from: 'PendingProductDirector', to: 'PendingArchitect', actor: 'system' });
+
+      // Larger chores still get a Product Director review
+      const larger = await addTaggedTask('T02', ['chore'], 3);
+      expect(larger.status).toBe('PendingProductDirector');
+      expect(larger.skippedStages).toBeUndefined();
+    });
+  });
+
+  describe('Parallel reviews', () => {
+    async function useParallelStages(quorum: WorkflowStage['quorum']) {
+      const stages = [PARALLEL_STAGES[0], { ...PARALLEL_STAGES[1], quorum }];
+      const saved = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages });
+      expect(saved.success).toBe(true);
+      await addTask('T01');
+      await review('T01', 'productDirector', 'approve');
+    }
+
+    test('rejects parallel stages without the stakeholder or with an impossible quorum', async () => {
+      const stages = [
+        PARALLEL_STAGES[0],
+        { ...PARALLEL_STAGES[1], parallelReviewers: ['securityOfficer', 'uiUxExpert'], quorum: { approvals: 5 } },
+      ];
+      const result = await manager.setWorkflowDefinition({ repoName: REPO_NAME, stages });
+      expect(result.success).toBe(false);
+      expect(result.errors!.some((e) => e.includes("must include the stage stakeholder 'architect'"))).toBe(true);
+      expect(result.errors!.some((e) => e.includes('quorum.approvals'))).toBe(true);
+    });
+
+    test('all-must-approve stage waits for every vote and stores each in stakeholder_reviews', async () => {
+      await useParallelStages({ approvals: 'all' });
+
+      const first = await review('T01', 'securityOfficer', 'approve');
+      expect(first.success).toBe(true);
+      expect(first.newStatus).toBe('PendingTechnicalReview');
+      expect(first.parallelReview!.pending).toEqual(['architect', 'uiUxExpert']);
+      expect(first.transition).toBeUndefined();
+
+      const duplicate = await review('T01', 'securityOfficer', 'approve');
+      expect(duplicate.success).toBe(false);
+      expect(duplicate.error).toContain('already voted');
+
+      const status = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+      expect(status.parallelReview).toMatchObject({ approved: ['securityOfficer'], pending: ['architect', 'uiUxExpert'] });
+
+      const summary = await manager.getReviewSummary(REPO_NAME, FEATURE_SLUG);
+      expect(summary.parallelReviews).toEqual([
+        expect.objectContaining({ taskId: 'T01', approvalsRequired: 3, pending: ['architect', 'uiUxExpert'] }),
+      ]);
+
+      const step = await manager.getNextStep({ repoName: REPO_NAME, featureSlug: FEATURE_SLUG, taskId: 'T01' });
+      expect(step.nextRole).toBe('architect');
+      expect(step.pendingParallelReviewers).toEqual(['architect', 'uiUxExpert']);
+
+      await review('T01', 'architect', 'approve');
+      const last = await review('T01', 'uiUxExpert', 'approve');
+      expect(last.newStatus).toBe('ReadyForDevelopment');
+
+      const votes = dbHandler['db']
+        .prepare(`SELECT stakeholder, approved FROM stakeholder_reviews WHERE task_id = ? ORDER BY stakeholder`)
+        .all('T01') as Array<{ stakeholder: string; approved: number }>;
+      expect(votes.map((v) => v.stakeholder)).toEqual(['architect', 'productDirector', 'securityOfficer', 'uiUxExpert']);
+    });
+
+    test('any reject sends the task back by default', async () => {
+      await useParallelStages({ approvals: 'all' });
+
+      await review('T01', 'architect', 'approve');
+      const result = await review('T01', 'securityOfficer', 'reject');
+      expect(result.newStatus).toBe('NeedsRefinement');
+    });
+
+    test('majority quorum tolerates a rejection when configured to wait for all votes', async () => {
+      await useParallelStages({ approvals: 'majority', rejectOnAnyReject: false });
+
+      const rejected = await review('T01', 'uiUxExpert', 'reject');
+      expect(rejected.newStatus).toBe('PendingTechnicalReview');
+
+      await review('T01', 'architect', 'approve');
+      const result = await review('T01', 'securityOfficer', 'approve');
+      expect(result.newStatus).toBe('ReadyForDevelopment');
+    });
+
+    test('votes from an earlier round do not count after the task re-enters the stage', async () => {
+      await useParallelStages({ approvals: 'all' });
+      await review('T01', 'architect', 'approve');
+      await review('T01', 'securityOfficer', 'reject'); // NeedsRefinement
+
+      await manager.transitionTaskStatus({
+        repoName: REPO_NAME,
+        featureSlug: FEATURE_SLUG,
+        taskId: 'T01',
+        fromStatus: 'NeedsRefinement',
+        toStatus: 'PendingProductDirector',
+        actor: 'system',
+      });
+      await review('T01', 'productDirector', 'approve');
+
+      const status = await manager.getTaskStatus(REPO_NAME, FEATURE_SLUG, 'T01');
+      expect(status.parallelReview!.pending).toEqual(['architect', 'securityOfficer', 'uiUxExpert']);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Agent identity - Which named agent an MCP session acts as
+ *
+ * An MCP session that authenticates with an agent's token (a bearer token over
+ * HTTP, MCP_AGENT_TOKEN over stdio) runs each tool call inside withAgent.
+ * AIConductor reads it back with currentAgent to refuse reviews and
+ * transitions in roles the agent was not given, and records the agent's name
+ * on what it writes. Agents may not change pipelines, roles or checkpoints.
+ * Callers outside such a scope (the dashboard, scheduled jobs, sessions
+ * without an agent token) are not restricted, unless the requireIdentity
+ * agent setting refuses the latter.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, randomBytes } from 'crypto';
+import { AgentIdentity } from './types.js';
+
+const agentStorage = new AsyncLocalStorage<AgentIdentity>();
+
+/**
+ * Run fn, and everything it awaits, as agent.
+ */
+export function withAgent<T>(agent: AgentIdentity, fn: () => T): T {
+  return agentStorage.run(agent, fn);
+}
+
+/**
+ * The agent of the current scope, if any.
+ */
+export function currentAgent(): AgentIdentity | undefined {
+  return agentStorage.getStore();
+}
+
+export function generateAgentToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/** Tokens are stored and looked up by this hash, never in the clear */
+export function hashAgentToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+/**
+ * Agent identity CLI
+ * Usage: node dist/agents.js [list | add <name> --roles <role,role> | remove <name> | require-identity <on|off>] [--db path]
+ *
+ * The token printed by `add` is what the agent's MCP session presents, as a
+ * bearer token over HTTP or as MCP_AGENT_TOKEN over stdio. It is not stored.
+ * `require-identity on` refuses tool calls from MCP sessions without one.
+ */
+import path from 'path';
+import { AIConductor } from './AIConductor.js';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function agents(args: string[]) {
+  const [command = 'list', name] = args.filter(
+    (arg, i) => !arg.startsWith('--') && args[i - 1] !== '--db' && args[i - 1] !== '--roles'
+  );
+  const dbPath = option(args, '--db') || process.env.DATABASE_PATH || path.join(process.cwd(), 'tasks.db');
+  console.log(`📁 Database: ${dbPath}`);
+  const reviewManager = new AIConductor(undefined, dbPath);
+
+  switch (command) {
+    case 'list': {
+      const identities = reviewManager.listAgentIdentities();
+      if (identities.length === 0) {
+        console.log('   No agents yet.');
+      }
+      for (const identity of identities) {
+        console.log(`   ${identity.name}  ${identity.roles.join(', ')}  (created ${identity.createdAt})`);
+      }
+      console.log(`   Agent identity required: ${reviewManager.getAgentSettings().requireIdentity ? 'on' : 'off'}`);
+      break;
+    }
+    case 'add': {
+      const roles = (option(args, '--roles') ?? '').split(',').map((role) => role.trim()).filter(Boolean);
+      if (!name || roles.length === 0) {
+        throw new Error('Usage: add <name> --roles <role,role>');
+      }
+      const result = await reviewManager.createAgentIdentity({ name, roles });
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      console.log(`✅ Added ${name} (${roles.join(', ')})`);
+      console.log(`🔑 Token: ${result.token}`);
+      console.log('   Save it now; it cannot be shown again.');
+      break;
+    }
+    case 'remove': {
+      if (!name) {
+        throw new Error('Usage: remove <name>');
+      }
+      const result = await reviewManager.deleteAgentIdentity(name);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      console.log(`🗑️  Removed ${name}; its token no longer works`);
+      break;
+    }
+    case 'require-identity': {
+      if (name !== 'on' && name !== 'off') {
+        throw new Error('Usage: require-identity <on|off>');
+      }
+      reviewManager.updateAgentSettings({ requireIdentity: name === 'on' });
+      console.log(
+        name === 'on'
+          ? '🔒 MCP sessions now need an agent token to call tools'
+          : '🔓 MCP sessions without an agent token can call tools again'
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}. Use list, add, remove or require-identity.`);
+  }
+}
+
+agents(process.argv.slice(2)).catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
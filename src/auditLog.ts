@@ -0,0 +1,68 @@
+/**
+ * Audit log - Who changed what, outside of task status transitions
+ *
+ * DatabaseHandler writes one audit_log row per mutation. The actor is not
+ * passed through every call: entry points (the MCP tool handler, dashboard API
+ * requests) run their work inside withActor, and the handler reads it back
+ * with currentActor. Anything outside such a scope, like the queue worker or
+ * the backup scheduler, is recorded as `system`.
+ *
+ * Every entry is also passed to the listeners registered with onAuditEntry, so
+ * the MCP server can tell subscribed clients what changed. Listeners run
+ * synchronously, possibly inside a transaction that is later rolled back.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditChange, AuditEntry } from './types.js';
+
+/** A stored entity's audited fields */
+export type AuditSnapshot = Record<string, unknown>;
+
+const actorStorage = new AsyncLocalStorage<string>();
+const listeners = new Set<(entry: AuditEntry) => void>();
+
+/**
+ * Run fn, and everything it awaits, with changes attributed to actor.
+ */
+export function withActor<T>(actor: string, fn: () => T): T {
+  return actorStorage.run(actor, fn);
+}
+
+/**
+ * The actor of the current scope, or `system` outside withActor.
+ */
+export function currentActor(): string {
+  return actorStorage.getStore() ?? 'system';
+}
+
+/**
+ * The fields that differ between two snapshots. A missing snapshot (before a
+ * create, after a delete) counts as every field being null.
+ */
+export function diffSnapshots(before: AuditSnapshot | undefined, after: AuditSnapshot | undefined): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  for (const field of new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Call listener with every audit entry written in this process. Returns a
+ * function that removes it.
+ */
+export function onAuditEntry(listener: (entry: AuditEntry) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function notifyAuditEntry(entry: AuditEntry): void {
+  for (const listener of listeners) {
+    listener(entry);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Backup Scheduler — Takes a scheduled backup of the task database whenever
+ * the newest backup is older than the backupIntervalHours setting. Retention
+ * is applied by each backup.
+ */
+import { AIConductor } from './AIConductor.js';
+
+/** How often the scheduler checks whether a backup is due */
+const CHECK_INTERVAL_MS = 60_000;
+
+export class BackupScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private manager: AIConductor;
+
+  constructor(manager: AIConductor) {
+    this.manager = manager;
+  }
+
+  /** Whether the scheduler loop is currently active. */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start the scheduler loop. Settings are read on each check, so a new
+   * interval takes effect without a restart.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.scheduleNext();
+    console.error('[BackupScheduler] Started');
+  }
+
+  /** Stop the scheduler loop. */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    console.error('[BackupScheduler] Stopped');
+  }
+
+  /**
+   * Take a scheduled backup if one is due. Any kind of backup (manual,
+   * scheduled or pre-restore) restarts the interval.
+   *
+   * Returns true when a backup was taken.
+   */
+  async tick(now: Date = new Date()): Promise<boolean> {
+    const { intervalHours } = this.manager.getBackupSettings();
+    if (!(intervalHours > 0)) return false;
+
+    const [latest] = this.manager.listBackups();
+    if (latest && now.getTime() - Date.parse(latest.createdAt) < intervalHours * 3_600_000) {
+      return false;
+    }
+
+    const result = await this.manager.createBackup('scheduled');
+    if (result.success) {
+      console.error(`[BackupScheduler] ${result.message}`);
+    } else {
+      console.error('[BackupScheduler] Backup failed:', result.error);
+    }
+    return result.success;
+  }
+
+  // ────────────────────────────────────────────────────────────────────
+  // Private helpers
+  // ────────────────────────────────────────────────────────────────────
+
+  private scheduleNext(): void {
+    if (!this.running) return;
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.tick();
+      } finally {
+        this.scheduleNext();
+      }
+    }, CHECK_INTERVAL_MS);
+
+    // Prevent the timer from keeping the process alive during shutdown
+    if (this.timer && typeof this.timer === 'object' && 'unref' in this.timer) {
+      this.timer.unref();
+    }
+  }
+}
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+/**
+ * Database backup CLI
+ * Usage: node dist/backup.js [list | create | restore <file>] [--db path]
+ *
+ * Stop the MCP server and dashboard before restoring.
+ */
+import path from 'path';
+import { DatabaseHandler } from './DatabaseHandler.js';
+import { defaultBackupDir, listBackups, restoreBackup } from './backupManager.js';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+async function backup(args: string[]) {
+  const [command = 'list', target] = args.filter((arg, i) => !arg.startsWith('--') && args[i - 1] !== '--db');
+  const dbPath = option(args, '--db') || process.env.DATABASE_PATH || path.join(process.cwd(), 'tasks.db');
+  const backupDir = defaultBackupDir(dbPath);
+
+  console.log(`📁 Database: ${dbPath}`);
+  console.log(`🗄️  Backups:  ${backupDir}`);
+
+  switch (command) {
+    case 'list': {
+      const backups = listBackups(backupDir);
+      if (backups.length === 0) {
+        console.log('   No backups yet.');
+      }
+      for (const entry of backups) {
+        console.log(`   ${entry.fileName}  ${formatSize(entry.sizeBytes)}`);
+      }
+      break;
+    }
+    case 'create': {
+      const db = new DatabaseHandler(undefined, dbPath);
+      try {
+        const { backup: created, pruned } = await db.backup('manual');
+        console.log(`✅ Backed up to ${created.fileName} (${formatSize(created.sizeBytes)})`);
+        for (const name of pruned) {
+          console.log(`   🗑️  removed ${name}`);
+        }
+      } finally {
+        db.close();
+      }
+      break;
+    }
+    case 'restore': {
+      if (!target) {
+        throw new Error('Usage: restore <backup file>');
+      }
+      // A bare file name refers to the backup directory
+      const backupFile = target.includes(path.sep) ? path.resolve(target) : path.join(backupDir, target);
+      const report = await restoreBackup(backupFile, dbPath, backupDir);
+      for (const name of report.migrationsApplied) {
+        console.log(`   ✅ migrated ${name}`);
+      }
+      if (report.safetyBackup) {
+        console.log(`   💾 previous database saved as ${report.safetyBackup.fileName}`);
+      }
+      console.log(`✅ Restored ${path.basename(report.restoredFrom)}`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command: ${command}. Use list, create or restore.`);
+  }
+}
+
+backup(process.argv.slice(2)).catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
@@ -0,0 +1,171 @@
+/**
+ * Backups - Online snapshots of the task database
+ *
+ * Snapshots are taken with SQLite's online backup API, so they are consistent
+ * while the MCP server and dashboard keep writing. Each one is a plain database
+ * file named `tasks-<UTC timestamp>-<reason>.db` in the backup directory; pruning
+ * keeps the newest `retention` manual and scheduled files. `pre-restore` files
+ * are never pruned, since one may be the only copy of a replaced database.
+ *
+ * A restore never touches the live database until the backup has passed
+ * validation: it is copied to a staging file, checked with `integrity_check`,
+ * refused when it records migrations this build does not know, and migrated up
+ * to the current schema. Only then is the current database saved as a
+ * `pre-restore` backup and replaced by the staging file.
+ */
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import path from 'path';
+import { MigrationRunner } from './migrationRunner.js';
+import { BackupInfo, BackupReason } from './types.js';
+
+const BACKUP_FILE = /^tasks-(\d{8}T\d{9}Z)-(manual|scheduled|pre-restore)\.db$/;
+
+export interface RestoreReport {
+  restoredFrom: string;
+  /** Backup of the database that was replaced, if there was one */
+  safetyBackup?: BackupInfo;
+  /** Migrations applied to bring the backup up to the current schema */
+  migrationsApplied: string[];
+}
+
+export function defaultBackupDir(dbPath: string): string {
+  return process.env.BACKUP_DIR || path.join(path.dirname(dbPath), 'backups');
+}
+
+/** 2026-10-19T08:30:00.125Z -> 20261019T083000125Z */
+function backupFileName(createdAt: Date, reason: BackupReason): string {
+  return `tasks-${createdAt.toISOString().replace(/[-:.]/g, '')}-${reason}.db`;
+}
+
+function describeBackup(dir: string, fileName: string): BackupInfo | undefined {
+  const match = BACKUP_FILE.exec(fileName);
+  if (!match) return undefined;
+  const [, stamp, reason] = match;
+  const createdAt = stamp.replace(
+    /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/,
+    '$1-$2-$3T$4:$5:$6.$7Z'
+  );
+  const file = path.join(dir, fileName);
+  return {
+    fileName,
+    path: file,
+    reason: reason as BackupReason,
+    createdAt,
+    sizeBytes: fs.statSync(file).size,
+  };
+}
+
+/**
+ * Snapshot an open database into the backup directory
+ */
+export async function createBackup(db: Database.Database, dir: string, reason: BackupReason): Promise<BackupInfo> {
+  fs.ensureDirSync(dir);
+  let createdAt = new Date();
+  while (fs.existsSync(path.join(dir, backupFileName(createdAt, reason)))) {
+    createdAt = new Date(createdAt.getTime() + 1);
+  }
+  const fileName = backupFileName(createdAt, reason);
+  await db.backup(path.join(dir, fileName));
+  return describeBackup(dir, fileName)!;
+}
+
+/**
+ * Backups in the directory, newest first
+ */
+export function listBackups(dir: string): BackupInfo[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .map((fileName) => describeBackup(dir, fileName))
+    .filter((backup): backup is BackupInfo => backup !== undefined)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Delete all but the newest `retention` backups, leaving `pre-restore` backups
+ * alone. Returns the deleted file names.
+ */
+export function pruneBackups(dir: string, retention: number): string[] {
+  const expired = listBackups(dir)
+    .filter((backup) => backup.reason !== 'pre-restore')
+    .slice(Math.max(retention, 1));
+  for (const backup of expired) {
+    fs.removeSync(backup.path);
+  }
+  return expired.map((backup) => backup.fileName);
+}
+
+/**
+ * Check a backup file and migrate it to the current schema in place.
+ * Returns the migrations applied; throws when the file cannot be restored.
+ */
+export function validateBackup(file: string): string[] {
+  const db = new Database(file, { fileMustExist: true });
+  try {
+    const integrity = db.pragma('integrity_check', { simple: true });
+    if (integrity !== 'ok') {
+      throw new Error(`integrity check failed: ${integrity}`);
+    }
+    const tracked = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = '_migrations'`).get();
+    if (!tracked) {
+      throw new Error('not a task database (no _migrations table)');
+    }
+
+    const runner = new MigrationRunner(db);
+    const known = new Set(runner.discover().map((migration) => migration.name));
+    const unknown = (db.prepare(`SELECT name FROM _migrations ORDER BY name`).all() as Array<{ name: string }>)
+      .map((row) => row.name)
+      .filter((name) => !known.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`written by a newer version (unknown migrations: ${unknown.join(', ')})`);
+    }
+    return runner.up();
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Replace the database at `dbPath` with a validated copy of `backupFile`.
+ * Nothing may have the database open while it runs: stop the MCP server and
+ * dashboard first.
+ */
+export async function restoreBackup(backupFile: string, dbPath: string, backupDir: string): Promise<RestoreReport> {
+  if (!fs.existsSync(backupFile)) {
+    throw new Error(`Backup not found: ${backupFile}`);
+  }
+
+  const staging = `${dbPath}.restoring`;
+  const removeStaging = () => ['', '-wal', '-shm'].forEach((suffix) => fs.removeSync(staging + suffix));
+  removeStaging();
+  fs.copySync(backupFile, staging);
+
+  try {
+    let migrationsApplied: string[];
+    try {
+      migrationsApplied = validateBackup(staging);
+    } catch (error) {
+      throw new Error(
+        `Cannot restore ${path.basename(backupFile)}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    let safetyBackup: BackupInfo | undefined;
+    if (fs.existsSync(dbPath)) {
+      const current = new Database(dbPath, { fileMustExist: true });
+      try {
+        safetyBackup = await createBackup(current, backupDir, 'pre-restore');
+      } finally {
+        current.close();
+      }
+    }
+
+    fs.removeSync(`${dbPath}-wal`);
+    fs.removeSync(`${dbPath}-shm`);
+    fs.renameSync(staging, dbPath);
+    return { restoredFrom: backupFile, safetyBackup, migrationsApplied };
+  } finally {
+    removeStaging();
+  }
+}
@@ -6,6 +6,10 @@
  * This module lets MCP tool handlers deliver task-change events to browser
  * clients by POSTing to the dashboard's internal `/api/ws/broadcast` endpoint.
  *
+ * When the WebSocket server does live in this process (tool calls arriving over
+ * the dashboard's /mcp endpoint, or stdio with the dashboard started alongside),
+ * the dashboard registers a local broadcaster and events skip the HTTP hop.
+ *
  * It is intentionally fire-and-forget: a broadcast failure must never surface
  * as an MCP tool error.
  */
@@ -13,17 +17,34 @@
 const DASHBOARD_URL =
   process.env.DASHBOARD_INTERNAL_URL ?? 'http://localhost:5111';
 
+type BroadcastEvent = {
+  type: string;
+  [key: string]: unknown;
+};
+
+let localBroadcast: ((event: BroadcastEvent) => void) | undefined;
+
+/**
+ * Deliver events directly once this process's dashboard is serving WebSocket
+ * clients. Called by the dashboard when its HTTP server starts listening.
+ */
+export function setLocalBroadcast(broadcast: (event: BroadcastEvent) => void): void {
+  localBroadcast = broadcast;
+}
+
 /**
  * Broadcast a WebSocket event to all connected dashboard clients.
  *
- * Attempts an HTTP POST to the dashboard.  If the dashboard is not reachable
+ * Delivers locally when possible, otherwise attempts an HTTP POST to the
+ * dashboard.  If the dashboard is not reachable
  * (e.g. running in a unit-test environment), it logs a debug message and
  * returns silently.
  */
-export async function broadcastEvent(event: {
-  type: string;
-  [key: string]: unknown;
-}): Promise<void> {
+export async function broadcastEvent(event: BroadcastEvent): Promise<void> {
+  if (localBroadcast) {
+    localBroadcast(event);
+    return;
+  }
   try {
     const res = await fetch(`${DASHBOARD_URL}/api/ws/broadcast`, {
       method: 'POST',
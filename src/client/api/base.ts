@@ -4,15 +4,20 @@
 
 const API_BASE = '/api';
 
+/** localStorage key of the MCP_AUTH_TOKEN, needed by the API while agent identity is required */
+const API_TOKEN_KEY = 'aiconductor.apiToken';
+
 export class BaseClient {
   protected static async request<T>(
     url: string,
     options?: RequestInit
   ): Promise<T> {
+    const token = localStorage.getItem(API_TOKEN_KEY);
     const response = await fetch(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
         ...options?.headers,
       },
     });
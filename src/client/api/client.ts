@@ -6,7 +6,7 @@ import { FeatureAPI } from './features.api.js';
 import { TaskAPI } from './tasks.api.js';
 import { SettingsAPI, RolePromptConfig } from './settings.api.js';
 import { QueueAPI, QueueItem, QueueStats } from './queue.api.js';
-import { Feature, Task, ReviewSummary } from '../types/index.js';
+import { Feature, Task, ReviewSummary, WorkflowDefinition } from '../types/index.js';
 
 /**
  * Unified API Client that combines all API modules
@@ -26,6 +26,10 @@ export class APIClient {
     return RepoAPI.deleteRepo(repoName);
   }
 
+  static async getWorkflowDefinition(repoName: string): Promise<WorkflowDefinition> {
+    return RepoAPI.getWorkflowDefinition(repoName);
+  }
+
   // Re-export Feature Operations
   static async listFeatures(repoName: string = 'default'): Promise<Feature[]> {
     return FeatureAPI.listFeatures(repoName);
@@ -2,6 +2,7 @@
  * Repository API client
  */
 import { BaseClient } from './base.js';
+import { WorkflowDefinition } from '../types/index.js';
 
 export class RepoAPI extends BaseClient {
   /**
@@ -29,4 +30,14 @@ export class RepoAPI extends BaseClient {
       method: 'DELETE',
     });
   }
+
+  /**
+   * Get the review pipeline (workflow definition) used by a repository
+   */
+  static async getWorkflowDefinition(repoName: string): Promise<WorkflowDefinition> {
+    const data = await this.request<{ definition: WorkflowDefinition }>(
+      `${this.apiBase}/repos/${encodeURIComponent(repoName)}/workflow`
+    );
+    return data.definition;
+  }
 }
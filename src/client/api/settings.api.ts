@@ -1,19 +1,24 @@
 /**
- * Settings API - Role Prompt & Queue configuration endpoints
+ * Settings API - Role Prompt, Queue & Backup configuration endpoints
  */
 import { BaseClient } from './base.js';
 
 export interface RolePromptConfig {
   roleId: string;
+  displayName: string;
   systemPrompt: string;
   focusAreas: string[];
   researchInstructions: string;
   requiredOutputFields: string[];
   phase: 'review' | 'execution';
+  isBuiltIn: boolean;
   isCustom: boolean;
   updatedAt: string;
 }
 
+export type NewRoleInput = Pick<RolePromptConfig, 'roleId' | 'displayName' | 'systemPrompt' | 'phase'> &
+  Partial<Pick<RolePromptConfig, 'focusAreas' | 'researchInstructions' | 'requiredOutputFields'>>;
+
 export interface QueueSettings {
   cronIntervalSeconds: number;
   baseReposFolder: string;
@@ -21,6 +26,20 @@ export interface QueueSettings {
   workerEnabled: boolean;
 }
 
+export interface BackupSettings {
+  intervalHours: number;
+  retention: number;
+  directory: string;
+}
+
+export interface BackupInfo {
+  fileName: string;
+  path: string;
+  reason: 'manual' | 'scheduled' | 'pre-restore';
+  createdAt: string;
+  sizeBytes: number;
+}
+
 export class SettingsAPI extends BaseClient {
   // ─── Queue & Worker Settings ───────────────────────────────────────
 
@@ -60,6 +79,56 @@ export class SettingsAPI extends BaseClient {
     };
   }
 
+  // ─── Database Backups ──────────────────────────────────────────────
+
+  /**
+   * Fetch the backup schedule and the backups on disk (newest first).
+   */
+  static async getBackups(): Promise<{ settings: BackupSettings; backups: BackupInfo[] }> {
+    const data = await this.request<BackupSettings & { success: boolean; backups: BackupInfo[] }>(
+      `${this.apiBase}/settings/backups`
+    );
+    return {
+      settings: {
+        intervalHours: data.intervalHours,
+        retention: data.retention,
+        directory: data.directory,
+      },
+      backups: data.backups,
+    };
+  }
+
+  /**
+   * Update the backup schedule (partial update).
+   */
+  static async updateBackupSettings(
+    updates: Partial<Pick<BackupSettings, 'intervalHours' | 'retention'>>
+  ): Promise<BackupSettings> {
+    const data = await this.request<BackupSettings & { success: boolean }>(
+      `${this.apiBase}/settings/backups`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(updates),
+      }
+    );
+    return {
+      intervalHours: data.intervalHours,
+      retention: data.retention,
+      directory: data.directory,
+    };
+  }
+
+  /**
+   * Take a backup now.
+   */
+  static async createBackup(): Promise<BackupInfo> {
+    const data = await this.request<{ success: boolean; backup: BackupInfo }>(
+      `${this.apiBase}/settings/backups`,
+      { method: 'POST' }
+    );
+    return data.backup;
+  }
+
   // ─── Role Prompt Settings ──────────────────────────────────────────
   /**
    * Fetch all role prompt configs.
@@ -98,4 +167,27 @@ export class SettingsAPI extends BaseClient {
     );
     return data;
   }
+
+  /**
+   * Register a user-defined pipeline role.
+   */
+  static async createRole(input: NewRoleInput): Promise<RolePromptConfig> {
+    return this.request<RolePromptConfig & { success: boolean }>(
+      `${this.apiBase}/settings/role-prompts`,
+      {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }
+    );
+  }
+
+  /**
+   * Delete a user-defined pipeline role.
+   */
+  static async deleteRole(roleId: string): Promise<void> {
+    await this.request<{ success: boolean }>(
+      `${this.apiBase}/settings/role-prompts/${roleId}`,
+      { method: 'DELETE' }
+    );
+  }
 }
@@ -1,7 +1,8 @@
-import React, { useState, useCallback } from 'react';
-import { Task, TaskStatus } from '../types';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Task, TaskStatus, WorkflowStage } from '../types';
 import { useAppState } from '../state/AppState';
 import { APIClient } from '../api/client';
+import { useWebSocket } from '../hooks/useWebSocket';
 import TaskCard from './TaskCard';
 import TaskDetailModal from './TaskDetailModal';
 import styles from './Board.module.css';
@@ -10,11 +11,8 @@ interface BoardProps {
   tasks: Task[];
 }
 
-const COLUMNS: { status: TaskStatus; label: string }[] = [
-  { status: 'PendingProductDirector', label: 'Pending Product' },
-  { status: 'PendingArchitect', label: 'Pending Arch' },
-  { status: 'PendingUiUxExpert', label: 'Pending UX' },
-  { status: 'PendingSecurityOfficer', label: 'Pending Security' },
+// Review-stage columns come from the repo's workflow definition; these follow them
+const DEV_COLUMNS: { status: TaskStatus; label: string }[] = [
   { status: 'NeedsRefinement', label: 'Needs Refinement' },
   { status: 'ReadyForDevelopment', label: 'Ready' },
   { status: 'InProgress', label: 'In Progress' },
@@ -22,6 +20,9 @@ const COLUMNS: { status: TaskStatus; label: string }[] = [
   { status: 'InQA', label: 'In QA' },
   { status: 'NeedsChanges', label: 'Needs Changes' },
   { status: 'Done', label: 'Done' },
+  { status: 'Blocked', label: 'Blocked' },
+  { status: 'OnHold', label: 'On Hold' },
+  { status: 'Cancelled', label: 'Cancelled' },
 ];
 
 const Board: React.FC<BoardProps> = ({ tasks }) => {
@@ -30,6 +31,33 @@ const Board: React.FC<BoardProps> = ({ tasks }) => {
   const [modalLoading, setModalLoading] = useState(false);
   const [modalError, setModalError] = useState<string | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
+  const [stages, setStages] = useState<WorkflowStage[]>([]);
+
+  const loadWorkflow = useCallback(async () => {
+    try {
+      const definition = await APIClient.getWorkflowDefinition(currentRepo);
+      setStages(definition.stages);
+    } catch (error) {
+      console.error('Failed to load workflow definition:', error);
+    }
+  }, [currentRepo]);
+
+  useEffect(() => {
+    loadWorkflow();
+  }, [loadWorkflow]);
+
+  useWebSocket({
+    onMessage: useCallback((message: any) => {
+      if (message.type === 'workflow-changed' && message.repoName === currentRepo) {
+        loadWorkflow();
+      }
+    }, [currentRepo, loadWorkflow]),
+  });
+
+  const columns = React.useMemo(() => [
+    ...stages.map(stage => ({ status: stage.status, label: `Pending ${stage.label}` })),
+    ...DEV_COLUMNS,
+  ], [stages]);
 
   const handleTaskClick = useCallback(async (taskId: string) => {
     setModalOpen(true);
@@ -54,7 +82,7 @@ const Board: React.FC<BoardProps> = ({ tasks }) => {
 
   const tasksByStatus = React.useMemo(() => {
     const grouped: Record<TaskStatus, Task[]> = {} as any;
-    COLUMNS.forEach(col => {
+    columns.forEach(col => {
       grouped[col.status] = [];
     });
 
@@ -65,13 +93,13 @@ const Board: React.FC<BoardProps> = ({ tasks }) => {
     });
 
     return grouped;
-  }, [tasks]);
+  }, [tasks, columns]);
 
   return (
     <>
       <div className={styles.boardContainer} role="region" aria-label="Task board">
         <div className={styles.board}>
-          {COLUMNS.map(column => {
+          {columns.map(column => {
             const columnTasks = tasksByStatus[column.status] || [];
             const isEmpty = columnTasks.length === 0;
 
@@ -19,7 +19,7 @@ const ContentHeader: React.FC<ContentHeaderProps> = ({ featureTitle, tasks }) =>
       ['InProgress', 'InReview', 'InQA'].includes(t.status)
     ).length;
     const blocked = tasks.filter(t =>
-      ['NeedsChanges', 'NeedsRefinement'].includes(t.status)
+      ['NeedsChanges', 'NeedsRefinement', 'Blocked', 'OnHold'].includes(t.status)
     ).length;
     const percent = total > 0 ? Math.round((done / total) * 100) : 0;
 
@@ -1,18 +1,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { SettingsAPI, RolePromptConfig, QueueSettings } from '../api/settings.api.js';
+import { SettingsAPI, RolePromptConfig, QueueSettings, NewRoleInput, BackupSettings, BackupInfo } from '../api/settings.api.js';
 import { QueueAPI, QueueItem } from '../api/queue.api.js';
 import styles from './SettingsPage.module.css';
 
-const ROLE_LABELS: Record<string, string> = {
-  productDirector: 'Product Director',
-  architect: 'Architect',
-  uiUxExpert: 'UI/UX Expert',
-  securityOfficer: 'Security Officer',
-  developer: 'Developer',
-  codeReviewer: 'Code Reviewer',
-  qa: 'QA Engineer',
-};
-
+// Built-in roles in pipeline order; user-defined roles follow, sorted by name
 const ROLE_ORDER = [
   'productDirector',
   'architect',
@@ -30,6 +21,24 @@ interface EditState {
   requiredOutputFields: string; // comma-separated for textarea
 }
 
+const EMPTY_NEW_ROLE = {
+  roleId: '',
+  displayName: '',
+  phase: 'review' as NewRoleInput['phase'],
+  systemPrompt: '',
+  requiredOutputFields: '', // comma-separated
+};
+
+function sortRoles(roles: RolePromptConfig[]): RolePromptConfig[] {
+  const builtIn = ROLE_ORDER
+    .map(id => roles.find(p => p.roleId === id))
+    .filter(Boolean) as RolePromptConfig[];
+  const custom = roles
+    .filter(p => !ROLE_ORDER.includes(p.roleId))
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+  return [...builtIn, ...custom];
+}
+
 interface SaveState {
   status: 'idle' | 'saving' | 'success' | 'error';
   message?: string;
@@ -42,6 +51,8 @@ const SettingsPage: React.FC = () => {
   const [expanded, setExpanded] = useState<string | null>(null);
   const [editStates, setEditStates] = useState<Record<string, EditState>>({});
   const [saveStates, setSaveStates] = useState<Record<string, SaveState>>({});
+  const [newRole, setNewRole] = useState(EMPTY_NEW_ROLE);
+  const [newRoleState, setNewRoleState] = useState<SaveState>({ status: 'idle' });
 
   // Queue settings state
   const [queueSettings, setQueueSettings] = useState<QueueSettings>({
@@ -67,6 +78,24 @@ const SettingsPage: React.FC = () => {
   const [pruneConfirm, setPruneConfirm] = useState(false);
   const [pruneDays, setPruneDays] = useState(7);
 
+  // Backup state
+  const [backupSettings, setBackupSettings] = useState<BackupSettings>({ intervalHours: 24, retention: 7, directory: '' });
+  const [backupDraft, setBackupDraft] = useState<BackupSettings>({ intervalHours: 24, retention: 7, directory: '' });
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [backupSaveState, setBackupSaveState] = useState<SaveState>({ status: 'idle' });
+  const [backupRunState, setBackupRunState] = useState<SaveState>({ status: 'idle' });
+
+  const loadBackups = useCallback(async () => {
+    try {
+      const data = await SettingsAPI.getBackups();
+      setBackupSettings(data.settings);
+      setBackupDraft(data.settings);
+      setBackups(data.backups);
+    } catch (err) {
+      setBackupRunState({ status: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  }, []);
+
   const loadQueueItems = useCallback(async () => {
     setQueueLoading(true);
     setQueueError(null);
@@ -135,9 +164,7 @@ const SettingsPage: React.FC = () => {
         SettingsAPI.getAllRolePrompts(),
         SettingsAPI.getQueueSettings(),
       ]);
-      const sorted = ROLE_ORDER
-        .map(id => data.find(p => p.roleId === id))
-        .filter(Boolean) as RolePromptConfig[];
+      const sorted = sortRoles(data);
       setPrompts(sorted);
 
       // Initialise edit state from loaded data
@@ -160,9 +187,10 @@ const SettingsPage: React.FC = () => {
   useEffect(() => {
     loadPrompts();
     loadQueueItems();
-  }, [loadPrompts, loadQueueItems]);
+    loadBackups();
+  }, [loadPrompts, loadQueueItems, loadBackups]);
 
-  function promptToEditState(p: RolePromptConfig): EditState {
+  function promptToEditState(p: Pick<RolePromptConfig, 'systemPrompt' | 'focusAreas' | 'researchInstructions' | 'requiredOutputFields'>): EditState {
     return {
       systemPrompt: p.systemPrompt,
       focusAreas: p.focusAreas.join('\n'),
@@ -206,8 +234,10 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  const roleLabel = (roleId: string) => prompts.find(p => p.roleId === roleId)?.displayName ?? roleId;
+
   const resetRole = async (roleId: string) => {
-    if (!window.confirm(`Reset "${ROLE_LABELS[roleId] ?? roleId}" prompt to built-in default? This cannot be undone.`)) {
+    if (!window.confirm(`Reset "${roleLabel(roleId)}" prompt to built-in default? This cannot be undone.`)) {
       return;
     }
 
@@ -216,7 +246,7 @@ const SettingsPage: React.FC = () => {
     try {
       const defaults = await SettingsAPI.resetRolePrompt(roleId);
       setPrompts(prev => prev.map(p => p.roleId === roleId ? { ...p, ...defaults, isCustom: false } : p));
-      setEditStates(prev => ({ ...prev, [roleId]: promptToEditState({ ...defaults, roleId, isCustom: false, updatedAt: '' }) }));
+      setEditStates(prev => ({ ...prev, [roleId]: promptToEditState(defaults) }));
       setSaveStates(prev => ({ ...prev, [roleId]: { status: 'success', message: 'Reset to default' } }));
       setTimeout(() => setSaveStates(prev => ({ ...prev, [roleId]: { status: 'idle' } })), 3000);
     } catch (err) {
@@ -227,6 +257,45 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  const deleteRole = async (roleId: string) => {
+    if (!window.confirm(`Delete the "${roleLabel(roleId)}" role? This cannot be undone.`)) {
+      return;
+    }
+
+    setSaveStates(prev => ({ ...prev, [roleId]: { status: 'saving' } }));
+
+    try {
+      await SettingsAPI.deleteRole(roleId);
+      setPrompts(prev => prev.filter(p => p.roleId !== roleId));
+      setExpanded(null);
+    } catch (err) {
+      setSaveStates(prev => ({
+        ...prev,
+        [roleId]: { status: 'error', message: err instanceof Error ? err.message : String(err) },
+      }));
+    }
+  };
+
+  const createRole = async () => {
+    setNewRoleState({ status: 'saving' });
+    try {
+      const created = await SettingsAPI.createRole({
+        roleId: newRole.roleId.trim(),
+        displayName: newRole.displayName.trim(),
+        phase: newRole.phase,
+        systemPrompt: newRole.systemPrompt,
+        requiredOutputFields: newRole.requiredOutputFields.split(',').map(s => s.trim()).filter(Boolean),
+      });
+      setPrompts(prev => sortRoles([...prev, created]));
+      setEditStates(prev => ({ ...prev, [created.roleId]: promptToEditState(created) }));
+      setNewRole(EMPTY_NEW_ROLE);
+      setNewRoleState({ status: 'success', message: `Role "${created.displayName}" added` });
+      setTimeout(() => setNewRoleState({ status: 'idle' }), 3000);
+    } catch (err) {
+      setNewRoleState({ status: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
   const toggleExpanded = (roleId: string) => {
     setExpanded(prev => (prev === roleId ? null : roleId));
   };
@@ -247,6 +316,44 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  const saveBackupSettings = async () => {
+    setBackupSaveState({ status: 'saving' });
+    try {
+      const updated = await SettingsAPI.updateBackupSettings({
+        intervalHours: backupDraft.intervalHours,
+        retention: backupDraft.retention,
+      });
+      setBackupSettings(updated);
+      setBackupDraft(updated);
+      setBackupSaveState({ status: 'success', message: 'Backup settings saved' });
+      setTimeout(() => setBackupSaveState({ status: 'idle' }), 3000);
+    } catch (err) {
+      setBackupSaveState({
+        status: 'error',
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  const runBackup = async () => {
+    setBackupRunState({ status: 'saving' });
+    try {
+      const created = await SettingsAPI.createBackup();
+      await loadBackups();
+      setBackupRunState({ status: 'success', message: `Backed up to ${created.fileName}` });
+      setTimeout(() => setBackupRunState({ status: 'idle' }), 3000);
+    } catch (err) {
+      setBackupRunState({
+        status: 'error',
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  const backupHasChanges =
+    backupDraft.intervalHours !== backupSettings.intervalHours ||
+    backupDraft.retention !== backupSettings.retention;
+
   const queueHasChanges =
     queueDraft.cronIntervalSeconds !== queueSettings.cronIntervalSeconds ||
     queueDraft.baseReposFolder !== queueSettings.baseReposFolder ||
@@ -308,8 +415,11 @@ const SettingsPage: React.FC = () => {
                   <span className={styles.rolePhase} aria-label={`Phase: ${prompt.phase}`}>
                     {prompt.phase === 'review' ? '📋' : '⚙️'}
                   </span>
-                  <span className={styles.roleName}>{ROLE_LABELS[prompt.roleId] ?? prompt.roleId}</span>
-                  {prompt.isCustom && (
+                  <span className={styles.roleName}>{prompt.displayName}</span>
+                  {!prompt.isBuiltIn && (
+                    <span className={styles.customTag} aria-label="User-defined role">user-defined</span>
+                  )}
+                  {prompt.isBuiltIn && prompt.isCustom && (
                     <span className={styles.customTag} aria-label="Custom prompt">modified</span>
                   )}
                 </div>
@@ -322,7 +432,7 @@ const SettingsPage: React.FC = () => {
                   id={`role-panel-${prompt.roleId}`}
                   className={styles.roleBody}
                   role="region"
-                  aria-label={`${ROLE_LABELS[prompt.roleId] ?? prompt.roleId} prompt settings`}
+                  aria-label={`${prompt.displayName} prompt settings`}
                 >
                   {/* System Prompt */}
                   <div className={styles.field}>
@@ -336,7 +446,7 @@ const SettingsPage: React.FC = () => {
                       rows={14}
                       value={edit.systemPrompt}
                       onChange={e => updateEdit(prompt.roleId, 'systemPrompt', e.target.value)}
-                      aria-label={`System prompt for ${ROLE_LABELS[prompt.roleId]}`}
+                      aria-label={`System prompt for ${prompt.displayName}`}
                       maxLength={10000}
                       disabled={isSaving}
                     />
@@ -355,7 +465,7 @@ const SettingsPage: React.FC = () => {
                       rows={5}
                       value={edit.focusAreas}
                       onChange={e => updateEdit(prompt.roleId, 'focusAreas', e.target.value)}
-                      aria-label={`Focus areas for ${ROLE_LABELS[prompt.roleId]}`}
+                      aria-label={`Focus areas for ${prompt.displayName}`}
                       disabled={isSaving}
                     />
                   </div>
@@ -372,7 +482,7 @@ const SettingsPage: React.FC = () => {
                       rows={4}
                       value={edit.researchInstructions}
                       onChange={e => updateEdit(prompt.roleId, 'researchInstructions', e.target.value)}
-                      aria-label={`Research instructions for ${ROLE_LABELS[prompt.roleId]}`}
+                      aria-label={`Research instructions for ${prompt.displayName}`}
                       maxLength={2000}
                       disabled={isSaving}
                     />
@@ -390,7 +500,7 @@ const SettingsPage: React.FC = () => {
                       className={styles.input}
                       value={edit.requiredOutputFields}
                       onChange={e => updateEdit(prompt.roleId, 'requiredOutputFields', e.target.value)}
-                      aria-label={`Required output fields for ${ROLE_LABELS[prompt.roleId]}`}
+                      aria-label={`Required output fields for ${prompt.displayName}`}
                       disabled={isSaving}
                     />
                   </div>
@@ -405,14 +515,25 @@ const SettingsPage: React.FC = () => {
                     >
                       {isSaving ? 'Saving…' : 'Save Changes'}
                     </button>
-                    <button
-                      className={styles.resetBtn}
-                      onClick={() => resetRole(prompt.roleId)}
-                      disabled={isSaving}
-                      title="Restore this role's prompt to the built-in default"
-                    >
-                      Reset to Default
-                    </button>
+                    {prompt.isBuiltIn ? (
+                      <button
+                        className={styles.resetBtn}
+                        onClick={() => resetRole(prompt.roleId)}
+                        disabled={isSaving}
+                        title="Restore this role's prompt to the built-in default"
+                      >
+                        Reset to Default
+                      </button>
+                    ) : (
+                      <button
+                        className={styles.resetBtn}
+                        onClick={() => deleteRole(prompt.roleId)}
+                        disabled={isSaving}
+                        title="Delete this user-defined role"
+                      >
+                        Delete Role
+                      </button>
+                    )}
 
                     {save.status === 'success' && (
                       <span className={styles.successMsg} role="status">✓ {save.message}</span>
@@ -428,6 +549,108 @@ const SettingsPage: React.FC = () => {
         })}
       </div>
 
+      {/* ── Add User-Defined Role ── */}
+      <hr className={styles.sectionDivider} />
+
+      <div className={styles.sectionHeader}>
+        <h2 className={styles.sectionTitle}>Add Role</h2>
+        <p className={styles.sectionSubtitle}>
+          Register a new pipeline role such as a performance engineer or data privacy officer.
+          Review-phase roles can be used as stages in a repository&apos;s workflow.
+        </p>
+      </div>
+
+      <div className={styles.queueCard}>
+        <div className={styles.queueGrid}>
+          <div className={styles.queueField}>
+            <label className={styles.queueLabel} htmlFor="newRoleId">Role ID</label>
+            <span className={styles.queueHint}>camelCase, e.g. performanceEngineer</span>
+            <input
+              id="newRoleId"
+              type="text"
+              className={styles.input}
+              value={newRole.roleId}
+              onChange={e => setNewRole(prev => ({ ...prev, roleId: e.target.value }))}
+              disabled={newRoleState.status === 'saving'}
+            />
+          </div>
+
+          <div className={styles.queueField}>
+            <label className={styles.queueLabel} htmlFor="newRoleName">Display Name</label>
+            <span className={styles.queueHint}>Shown on the board and in this page</span>
+            <input
+              id="newRoleName"
+              type="text"
+              className={styles.input}
+              value={newRole.displayName}
+              onChange={e => setNewRole(prev => ({ ...prev, displayName: e.target.value }))}
+              disabled={newRoleState.status === 'saving'}
+            />
+          </div>
+
+          <div className={styles.queueField}>
+            <label className={styles.queueLabel} htmlFor="newRolePhase">Phase</label>
+            <span className={styles.queueHint}>Review roles approve or reject tasks before development</span>
+            <select
+              id="newRolePhase"
+              className={styles.selectInput}
+              value={newRole.phase}
+              onChange={e => setNewRole(prev => ({ ...prev, phase: e.target.value as NewRoleInput['phase'] }))}
+              disabled={newRoleState.status === 'saving'}
+            >
+              <option value="review">Review</option>
+              <option value="execution">Execution</option>
+            </select>
+          </div>
+
+          <div className={styles.queueField}>
+            <label className={styles.queueLabel} htmlFor="newRoleFields">Required Output Fields</label>
+            <span className={styles.queueHint}>Comma-separated, e.g. loadTestPlan, latencyBudget</span>
+            <input
+              id="newRoleFields"
+              type="text"
+              className={styles.input}
+              value={newRole.requiredOutputFields}
+              onChange={e => setNewRole(prev => ({ ...prev, requiredOutputFields: e.target.value }))}
+              disabled={newRoleState.status === 'saving'}
+            />
+          </div>
+        </div>
+
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="newRolePrompt">
+            System Prompt
+            <span className={styles.hint}>Markdown supported. Max 10,000 characters.</span>
+          </label>
+          <textarea
+            id="newRolePrompt"
+            className={`${styles.textarea} ${styles.textareaSmall}`}
+            rows={6}
+            value={newRole.systemPrompt}
+            onChange={e => setNewRole(prev => ({ ...prev, systemPrompt: e.target.value }))}
+            maxLength={10000}
+            disabled={newRoleState.status === 'saving'}
+          />
+        </div>
+
+        <div className={styles.queueActions}>
+          <button
+            className={styles.saveBtn}
+            onClick={createRole}
+            disabled={newRoleState.status === 'saving' || !newRole.roleId.trim() || !newRole.displayName.trim() || !newRole.systemPrompt.trim()}
+            aria-busy={newRoleState.status === 'saving'}
+          >
+            {newRoleState.status === 'saving' ? 'Adding…' : 'Add Role'}
+          </button>
+          {newRoleState.status === 'success' && (
+            <span className={styles.successMsg} role="status">✓ {newRoleState.message}</span>
+          )}
+          {newRoleState.status === 'error' && (
+            <span className={styles.errorMsg} role="alert">✗ {newRoleState.message}</span>
+          )}
+        </div>
+      </div>
+
       {/* ── Queue & Worker Configuration ── */}
       <hr className={styles.sectionDivider} />
 
@@ -685,6 +908,131 @@ const SettingsPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      {/* ── Database Backups ── */}
+      <hr className={styles.sectionDivider} />
+
+      <div className={styles.sectionHeader}>
+        <h2 className={styles.sectionTitle}>Database Backups</h2>
+        <p className={styles.sectionSubtitle}>
+          Online snapshots of the task database, taken on a schedule or on demand. Restore one with{' '}
+          <code>npm run backup -- restore &lt;file&gt;</code> while the server is stopped.
+        </p>
+      </div>
+
+      <div className={styles.queueCard}>
+        <div className={styles.queueGrid}>
+          {/* Interval */}
+          <div className={styles.queueField}>
+            <label className={styles.queueLabel} htmlFor="backupInterval">
+              Backup Interval (hours)
+            </label>
+            <span className={styles.queueHint}>Time between scheduled backups (0 turns the schedule off)</span>
+            <input
+              id="backupInterval"
+              type="number"
+              className={styles.numberInput}
+              min={0}
+              max={168}
+              step={1}
+              value={backupDraft.intervalHours}
+              onChange={e => {
+                const val = parseInt(e.target.value, 10);
+                if (!isNaN(val)) setBackupDraft(prev => ({ ...prev, intervalHours: val }));
+              }}
+              disabled={backupSaveState.status === 'saving'}
+              aria-label="Backup interval in hours"
+            />
+          </div>
+
+          {/* Retention */}
+          <div className={styles.queueField}>
+            <label className={styles.queueLabel} htmlFor="backupRetention">
+              Backups Kept
+            </label>
+            <span className={styles.queueHint}>Older backups are deleted after each new one</span>
+            <input
+              id="backupRetention"
+              type="number"
+              className={styles.numberInput}
+              min={1}
+              max={365}
+              step={1}
+              value={backupDraft.retention}
+              onChange={e => {
+                const val = parseInt(e.target.value, 10);
+                if (!isNaN(val)) setBackupDraft(prev => ({ ...prev, retention: val }));
+              }}
+              disabled={backupSaveState.status === 'saving'}
+              aria-label="Number of backups kept"
+            />
+          </div>
+
+          {/* Directory */}
+          <div className={`${styles.queueField} ${styles.fullWidth}`}>
+            <span className={styles.queueLabel}>Backup Directory</span>
+            <span className={styles.queueHint}>Set with the BACKUP_DIR environment variable</span>
+            <code>{backupSettings.directory}</code>
+          </div>
+        </div>
+
+        <div className={styles.queueActions}>
+          <button
+            className={styles.saveBtn}
+            onClick={saveBackupSettings}
+            disabled={backupSaveState.status === 'saving' || !backupHasChanges}
+            aria-busy={backupSaveState.status === 'saving'}
+          >
+            {backupSaveState.status === 'saving' ? 'Saving…' : 'Save Backup Settings'}
+          </button>
+          <button
+            className={styles.resetBtn}
+            onClick={runBackup}
+            disabled={backupRunState.status === 'saving'}
+            aria-busy={backupRunState.status === 'saving'}
+          >
+            {backupRunState.status === 'saving' ? 'Backing up…' : 'Back Up Now'}
+          </button>
+
+          {backupSaveState.status === 'success' && (
+            <span className={styles.successMsg} role="status">✓ {backupSaveState.message}</span>
+          )}
+          {backupSaveState.status === 'error' && (
+            <span className={styles.errorMsg} role="alert">✗ {backupSaveState.message}</span>
+          )}
+          {backupRunState.status === 'success' && (
+            <span className={styles.successMsg} role="status">✓ {backupRunState.message}</span>
+          )}
+          {backupRunState.status === 'error' && (
+            <span className={styles.errorMsg} role="alert">✗ {backupRunState.message}</span>
+          )}
+        </div>
+
+        {backups.length === 0 ? (
+          <div className={styles.queueEmptyMsg}>No backups yet.</div>
+        ) : (
+          <div className={styles.queueTable} role="table" aria-label="Backups">
+            <div className={styles.queueTableHead} role="row">
+              <span role="columnheader" className={styles.backupColFile}>File</span>
+              <span role="columnheader" className={styles.backupColReason}>Type</span>
+              <span role="columnheader" className={styles.backupColTime}>Created</span>
+              <span role="columnheader" className={styles.backupColSize}>Size</span>
+            </div>
+            {backups.map(backup => (
+              <div key={backup.fileName} className={styles.queueTableRow} role="row">
+                <span role="cell" className={styles.backupColFile} title={backup.path}>{backup.fileName}</span>
+                <span role="cell" className={styles.backupColReason}>{backup.reason}</span>
+                <span role="cell" className={styles.backupColTime}>
+                  {new Date(backup.createdAt).toLocaleString()}
+                </span>
+                <span role="cell" className={styles.backupColSize}>
+                  {(backup.sizeBytes / 1024).toFixed(0)} KB
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
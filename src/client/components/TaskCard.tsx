@@ -36,6 +36,12 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onTaskClick }) => {
       {task.description && (
         <div className={styles.cardDesc}>{task.description}</div>
       )}
+      {task.parked && (
+        <div className={styles.cardParked}>
+          {task.parked.reason}
+          {task.parked.blockedByTaskId && ` (waiting on ${task.parked.blockedByTaskId})`}
+        </div>
+      )}
       <div className={styles.cardFooter}>
         {task.acceptanceCriteria && task.acceptanceCriteria.length > 0 && (
           <span className={styles.cardMeta}>
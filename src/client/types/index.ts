@@ -22,6 +22,16 @@ export interface Task {
   outOfScope?: string[];
   stakeholderReviews?: StakeholderReview[];
   transitions?: Transition[];
+  parked?: ParkedState;
+  reviewConditions?: ReviewCondition[];
+}
+
+/** Why a Blocked, OnHold or Cancelled task is parked */
+export interface ParkedState {
+  reason: string;
+  blockedByTaskId?: string;
+  fromStatus: TaskStatus;
+  since: string;
 }
 
 export interface AcceptanceCriterion {
@@ -31,6 +41,17 @@ export interface AcceptanceCriterion {
   verified: boolean;
 }
 
+/** Follow-up raised by an approveWithConditions review; must be satisfied before Done */
+export interface ReviewCondition {
+  id: string;
+  condition: string;
+  raisedBy: StakeholderRole;
+  raisedAt: string;
+  satisfied: boolean;
+  satisfiedAt?: string;
+  resolution?: string;
+}
+
 export interface TestScenario {
   id: string;
   priority: 'P0' | 'P1' | 'P2' | 'P3';
@@ -41,7 +62,7 @@ export interface TestScenario {
 
 export interface StakeholderReview {
   role: StakeholderRole;
-  decision: 'approve' | 'reject';
+  decision: 'approve' | 'reject' | 'approveWithConditions';
   notes: string;
   timestamp: string;
   additionalFields?: Record<string, any>;
@@ -58,13 +79,19 @@ export type TaskStatus =
   | 'InReview'
   | 'InQA'
   | 'NeedsChanges'
-  | 'Done';
+  | 'Done'
+  | 'Blocked'
+  | 'OnHold'
+  | 'Cancelled'
+  | `Pending${string}`;
 
-export type StakeholderRole = 
+export type StakeholderRole =
   | 'productDirector'
   | 'architect'
   | 'uiUxExpert'
-  | 'securityOfficer';
+  | 'securityOfficer'
+  // User-defined roles registered in Settings
+  | (string & Record<never, never>);
 
 export interface Clarification {
   id: number;
@@ -118,3 +145,30 @@ export interface ReviewSummary {
   tasksByStatus: Record<TaskStatus, number>;
   tasks: Task[];
 }
+
+export interface StageCondition {
+  tagsAny?: string[];
+  tagsAll?: string[];
+  minEstimatedHours?: number;
+  maxEstimatedHours?: number;
+}
+
+export interface WorkflowStage {
+  status: TaskStatus;
+  stakeholder: StakeholderRole;
+  label: string;
+  onApprove: TaskStatus;
+  onReject: TaskStatus;
+  allowedActors: string[];
+  requiredWhen?: StageCondition;
+  skipWhen?: StageCondition;
+  parallelReviewers?: StakeholderRole[];
+  quorum?: { approvals: 'all' | 'majority' | number; rejectOnAnyReject?: boolean };
+}
+
+export interface WorkflowDefinition {
+  repoName: string;
+  stages: WorkflowStage[];
+  isCustom: boolean;
+  updatedAt?: string;
+}
@@ -14,7 +14,7 @@
 export function getBadgeClass(status: string): string {
   if (status === 'Done') return 'badge-done';
   if (['InProgress', 'InReview', 'InQA'].includes(status)) return 'badge-active';
-  if (['NeedsChanges', 'NeedsRefinement'].includes(status)) return 'badge-blocked';
+  if (['NeedsChanges', 'NeedsRefinement', 'Blocked', 'OnHold'].includes(status)) return 'badge-blocked';
   if (status && status.startsWith('Pending')) return 'badge-review';
   return 'badge-pending';
 }
@@ -46,6 +46,8 @@ export class CronScanner {
    *  2. List every registered repo.
    *  3. For each repo, list features.
    *  4. For each feature, check if ALL tasks are in ReadyForDevelopment status.
+   *     Tasks in the completionExcludedStatuses setting (Cancelled by default)
+   *     are not counted.
    *  5. If so, enqueue a single feature-level job (not per-task).
    *
    * Returns the number of newly enqueued features.
@@ -79,7 +81,7 @@ export class CronScanner {
           // Skip features with zero ready tasks
           if (readyTasks.length === 0) continue;
 
-          // Check total task count — ALL must be ReadyForDevelopment
+          // Check total task count — ALL must be ReadyForDevelopment (excluded parked tasks are not counted)
           const featureData = await this.manager.verifyAllTasksComplete({
             repoName,
             featureSlug: feat.featureSlug,
@@ -7,6 +7,7 @@ import express from 'express';
 import { AIConductor } from './AIConductor.js';
 import { wsManager } from './websocket.js';
 import { CronScanner } from './cron-scanner.js';
+import { BackupScheduler } from './backup-scheduler.js';
 import { QueueWorker } from './queue-worker.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -17,6 +18,14 @@ import { createTaskRoutes } from './dashboard/routes/task.routes.js';
 import { createRefinementRoutes } from './dashboard/routes/refinement.routes.js';
 import { createSettingsRoutes } from './dashboard/routes/settings.routes.js';
 import { createQueueRoutes } from './dashboard/routes/queue.routes.js';
+import { createWorkflowRoutes } from './dashboard/routes/workflow.routes.js';
+import { createSearchRoutes } from './dashboard/routes/search.routes.js';
+import { createAuditRoutes } from './dashboard/routes/audit.routes.js';
+import { createTrashRoutes } from './dashboard/routes/trash.routes.js';
+import { createMcpRoutes, McpRoutes } from './dashboard/routes/mcp.routes.js';
+import { requireApiToken } from './dashboard/apiAuth.js';
+import { withActor } from './auditLog.js';
+import { setLocalBroadcast } from './broadcast.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -33,12 +42,18 @@ export function startDashboard(port: number = 5111) {
   // Initialize AIConductor
   const reviewManager = new AIConductor();
 
-  // Middleware
-  app.use(express.json());
+  // Middleware (repo import bundles are larger than express's 100kb default)
+  app.use(express.json({ limit: '50mb' }));
 
   // Serve static files from Vite build output
   app.use(express.static(path.join(__dirname, 'client')));
 
+  // With agent identity required, the API needs MCP_AUTH_TOKEN so it is no way around role binding
+  app.use('/api', requireApiToken(reviewManager, process.env.MCP_AUTH_TOKEN));
+
+  // Changes made through the API are attributed to the dashboard in the audit log
+  app.use('/api', (_req, _res, next) => withActor('dashboard', next));
+
   // API Route Modules
   app.use('/api', createRepoRoutes(reviewManager));
   app.use('/api', createFeatureRoutes(reviewManager));
@@ -46,6 +61,15 @@ export function startDashboard(port: number = 5111) {
   app.use('/api', createRefinementRoutes(reviewManager));
   app.use('/api', createSettingsRoutes(reviewManager));
   app.use('/api', createQueueRoutes(reviewManager));
+  app.use('/api', createWorkflowRoutes(reviewManager));
+  app.use('/api', createSearchRoutes(reviewManager));
+  app.use('/api', createAuditRoutes(reviewManager));
+  app.use('/api', createTrashRoutes(reviewManager));
+
+  // MCP over streamable HTTP, so agents can connect by URL to the process that
+  // owns the WebSocket server. Requests need an agent token or MCP_AUTH_TOKEN.
+  const mcpRoutes: McpRoutes = createMcpRoutes(reviewManager, process.env.MCP_AUTH_TOKEN);
+  app.use('/mcp', mcpRoutes.router);
 
   /**
    * Serve the dashboard HTML (for SPA routing)
@@ -61,6 +85,7 @@ export function startDashboard(port: number = 5111) {
       timestamp: new Date().toISOString(),
       websocket: 'enabled',
       connections: wsManager.getConnectionCount(),
+      mcpSessions: mcpRoutes.sessionCount(),
     });
   });
 
@@ -115,6 +140,15 @@ export function startDashboard(port: number = 5111) {
   (app as any)._cronScanner = cronScanner;
   (app as any)._queueWorker = queueWorker;
 
+  // ── Database backups ─────────────────────────────────────────────
+  // Always running; a backupIntervalHours of 0 makes each check a no-op
+  const backupScheduler = new BackupScheduler(reviewManager);
+  backupScheduler.start();
+  (app as any)._backupScheduler = backupScheduler;
+
+  // ── Trash retention ──────────────────────────────────────────────
+  const trashPurge = reviewManager.scheduleTrashPurge();
+
   // Health check endpoint for queue status
   app.get('/api/queue/health', (_req, res) => {
     res.json({
@@ -130,6 +164,8 @@ export function startDashboard(port: number = 5111) {
 
   // Start HTTP server
   httpServer.listen(PORT, () => {
+    // This process owns the WebSocket clients now; MCP tool events go to them directly
+    setLocalBroadcast((event) => wsManager.broadcast(event));
     console.error(`
 ╔════════════════════════════════════════════════════════════════╗
 ║                                                                ║
@@ -137,6 +173,7 @@ export function startDashboard(port: number = 5111) {
 ║                                                                ║
 ║   🚀 Server running on http://localhost:${PORT}                   ║
 ║   🔌 WebSocket server on ws://localhost:${PORT}                   ║
+║   🤖 MCP endpoint on http://localhost:${PORT}/mcp (bearer auth)   ║
 ║                                                                ║
 ║   API Endpoints:                                               ║
 ║   • GET /api/tasks?featureSlug=<slug>                          ║
@@ -156,13 +193,17 @@ export function startDashboard(port: number = 5111) {
   // Expose servers on app for test cleanup
   (app as any)._server = httpServer;
   (app as any)._wsManager = wsManager;
+  (app as any)._mcpRoutes = mcpRoutes;
 
   // ── Graceful shutdown (T07) ──────────────────────────────────────
   const gracefulShutdown = (signal: string) => {
     console.error(`\n[Dashboard] Received ${signal} — shutting down gracefully…`);
     queueWorker.stop();
     cronScanner.stop();
+    backupScheduler.stop();
+    clearInterval(trashPurge);
     wsManager.shutdown();
+    void mcpRoutes.closeSessions();
     httpServer.close(() => {
       console.error('[Dashboard] Server closed');
       process.exit(0);
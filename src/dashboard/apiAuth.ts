@@ -0,0 +1,47 @@
+/**
+ * Bearer token checks shared by the dashboard's /api and /mcp endpoints.
+ *
+ * The /api routes act without an agent identity. While the requireIdentity
+ * agent setting is on they would be a way around the agents' role binding, so
+ * they then need the MCP_AUTH_TOKEN as a bearer token.
+ */
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AIConductor } from '../AIConductor.js';
+
+/** Paths below /api that stay open: the MCP process relays task events here */
+const OPEN_API_PATHS = ['/ws/broadcast'];
+
+export function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/** Compare a presented token with the expected digest in constant time */
+export function tokenMatches(token: string | undefined, expected: Buffer | undefined): boolean {
+  return !!token && !!expected && timingSafeEqual(digest(token), expected);
+}
+
+/**
+ * Refuse /api requests without the MCP_AUTH_TOKEN while agent identity is
+ * required. With no MCP_AUTH_TOKEN configured the API is then closed.
+ */
+export function requireApiToken(reviewManager: AIConductor, authToken: string | undefined): RequestHandler {
+  const expected = authToken ? digest(authToken) : undefined;
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (OPEN_API_PATHS.includes(req.path) || !reviewManager.getAgentSettings().requireIdentity) {
+      next();
+      return;
+    }
+    const token = req.header('authorization')?.match(/^Bearer (.+)$/i)?.[1];
+    if (!tokenMatches(token, expected)) {
+      res.status(401).json({
+        success: false,
+        error: expected
+          ? 'Agent identity is required: send the MCP_AUTH_TOKEN as a bearer token to use the API'
+          : 'Agent identity is required and MCP_AUTH_TOKEN is not set, so the API is closed',
+      });
+      return;
+    }
+    next();
+  };
+}
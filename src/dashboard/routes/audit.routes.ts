@@ -0,0 +1,35 @@
+/**
+ * Audit routes - paginated history of changes outside task status transitions
+ */
+import { Router, Request, Response } from 'express';
+import { AIConductor } from '../../AIConductor.js';
+import { AuditEntityType, AuditOperation } from '../../types.js';
+
+export function createAuditRoutes(reviewManager: AIConductor): Router {
+  const router = Router();
+
+  /**
+   * GET /api/audit?actor=&entityType=&entityId=&repoName=&featureSlug=&operation=&since=&until=&limit=&offset=
+   * Newest first, with the total count for paging.
+   */
+  router.get('/audit', async (req: Request, res: Response): Promise<void> => {
+    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+    const offset = req.query.offset ? Number(req.query.offset) : undefined;
+
+    const result = await reviewManager.getAuditLog({
+      actor: req.query.actor as string | undefined,
+      entityType: req.query.entityType as AuditEntityType | undefined,
+      entityId: req.query.entityId as string | undefined,
+      repoName: req.query.repoName as string | undefined,
+      featureSlug: req.query.featureSlug as string | undefined,
+      operation: req.query.operation as AuditOperation | undefined,
+      since: req.query.since as string | undefined,
+      until: req.query.until as string | undefined,
+      limit,
+      offset,
+    });
+    res.status(result.success ? 200 : 400).json(result);
+  });
+
+  return router;
+}
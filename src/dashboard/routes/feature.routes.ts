@@ -143,7 +143,7 @@ export function createFeatureRoutes(reviewManager: AIConductor): Router {
 
   /**
    * DELETE /api/features/:featureSlug?repoName=<repo>
-   * Delete a feature
+   * Move a feature to the trash
    */
   router.delete('/features/:featureSlug', async (req: Request, res: Response): Promise<void> => {
     try {
@@ -155,7 +155,11 @@ export function createFeatureRoutes(reviewManager: AIConductor): Router {
         return;
       }
 
-      reviewManager['dbHandler'].deleteFeature(featureSlug, repoName);
+      const result = await reviewManager.deleteFeature(repoName, featureSlug);
+      if (!result.success) {
+        res.status(404).json(result);
+        return;
+      }
       wsManager.broadcast({
         type: 'feature-changed',
         action: 'deleted',
@@ -163,7 +167,7 @@ export function createFeatureRoutes(reviewManager: AIConductor): Router {
         repoName,
         timestamp: Date.now(),
       });
-      res.json({ success: true, message: 'Feature deleted successfully' });
+      res.json(result);
     } catch (error) {
       res.status(500).json({
         error: error instanceof Error ? error.message : String(error)
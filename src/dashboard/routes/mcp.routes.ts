@@ -0,0 +1,130 @@
+/**
+ * MCP routes - the MCP server over streamable HTTP, mounted at /mcp
+ *
+ * Each client gets its own session: an initialize request without an
+ * Mcp-Session-Id header creates a Server and transport, and later requests
+ * carrying the session ID are routed to them. Every request must present a
+ * bearer token: an agent identity's token, which restricts the session to the
+ * agent's roles, or the MCP_AUTH_TOKEN, which carries no identity and cannot
+ * call tools while the requireIdentity agent setting is on.
+ */
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AIConductor } from '../../AIConductor.js';
+import { createMcpServer } from '../../mcpServer.js';
+import { ToolRegistry } from '../../toolRegistry.js';
+import { createTools } from '../../tools/index.js';
+import { digest, tokenMatches } from '../apiAuth.js';
+
+const SESSION_HEADER = 'mcp-session-id';
+
+export interface McpRoutes {
+  router: Router;
+  /** Number of open sessions */
+  sessionCount: () => number;
+  /** Close every open session, e.g. on shutdown */
+  closeSessions: () => Promise<void>;
+}
+
+/**
+ * Accepts the configured token (comparing digests keeps the check
+ * constant-time) and agent tokens. Neither kind expires.
+ */
+function tokenVerifier(reviewManager: AIConductor, authToken: string | undefined): OAuthTokenVerifier {
+  const expected = authToken ? digest(authToken) : undefined;
+  return {
+    async verifyAccessToken(token) {
+      if (tokenMatches(token, expected)) {
+        return { token, clientId: 'mcp', scopes: [], expiresAt: Number.POSITIVE_INFINITY };
+      }
+      const agent = reviewManager.findAgentIdentity(token);
+      if (!agent) {
+        throw new InvalidTokenError('Invalid bearer token');
+      }
+      return { token, clientId: agent.name, scopes: agent.roles, expiresAt: Number.POSITIVE_INFINITY, extra: { agent } };
+    },
+  };
+}
+
+function jsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code: ErrorCode.InvalidRequest, message }, id: null });
+}
+
+export function createMcpRoutes(reviewManager: AIConductor, authToken?: string): McpRoutes {
+  const router = Router();
+  const registry = new ToolRegistry(createTools(reviewManager));
+  const sessions = new Map<string, { server: Server; transport: StreamableHTTPServerTransport }>();
+
+  router.use(requireBearerAuth({ verifier: tokenVerifier(reviewManager, authToken) }));
+
+  /**
+   * POST /mcp
+   * JSON-RPC messages. An initialize request without a session ID opens a new session.
+   */
+  router.post('/', async (req: Request, res: Response): Promise<void> => {
+    const sessionId = req.header(SESSION_HEADER);
+    let transport = sessionId ? sessions.get(sessionId)?.transport : undefined;
+
+    if (!transport) {
+      if (sessionId) {
+        jsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      if (!isInitializeRequest(req.body)) {
+        jsonRpcError(res, 400, `Missing ${SESSION_HEADER} header`);
+        return;
+      }
+
+      const server = createMcpServer(reviewManager, { registry });
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { server, transport: newTransport });
+        },
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          sessions.delete(newTransport.sessionId);
+        }
+      };
+      await server.connect(newTransport);
+      transport = newTransport;
+    }
+
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  /**
+   * GET /mcp opens the session's notification stream; DELETE /mcp ends the session.
+   */
+  const handleSessionRequest = async (req: Request, res: Response): Promise<void> => {
+    const sessionId = req.header(SESSION_HEADER);
+    if (!sessionId) {
+      jsonRpcError(res, 400, `Missing ${SESSION_HEADER} header`);
+      return;
+    }
+    const session = sessions.get(sessionId);
+    if (!session) {
+      jsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+      return;
+    }
+    await session.transport.handleRequest(req, res);
+  };
+  router.get('/', handleSessionRequest);
+  router.delete('/', handleSessionRequest);
+
+  return {
+    router,
+    sessionCount: () => sessions.size,
+    closeSessions: async () => {
+      await Promise.all([...sessions.values()].map(({ server }) => server.close()));
+      sessions.clear();
+    },
+  };
+}
@@ -122,5 +122,51 @@ export function createRepoRoutes(reviewManager: AIConductor): Router {
     }
   });
 
+  /**
+   * GET /api/repos/:repoName/export
+   * Download the repo as a portable JSON bundle
+   */
+  router.get('/repos/:repoName/export', async (req: Request, res: Response): Promise<void> => {
+    const repoName = req.params.repoName as string;
+    const result = await reviewManager.exportRepo(repoName);
+
+    if (!result.success) {
+      res.status(result.error?.includes('not found') ? 404 : 500).json(result);
+      return;
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="${repoName}-bundle.json"`);
+    res.json(result.bundle);
+  });
+
+  /**
+   * POST /api/repos/import
+   * Import a bundle produced by the export route
+   * Body: { bundle, conflictMode?: 'skip' | 'overwrite' | 'rename', prefix?, repoName? }
+   */
+  router.post('/repos/import', async (req: Request, res: Response): Promise<void> => {
+    const { bundle, conflictMode, prefix, repoName } = req.body;
+
+    if (conflictMode !== undefined && !['skip', 'overwrite', 'rename'].includes(conflictMode)) {
+      res.status(400).json({ success: false, error: 'conflictMode must be one of: skip, overwrite, rename' });
+      return;
+    }
+
+    if (repoName !== undefined && !/^[a-z0-9][a-z0-9-]*[a-z0-9]$/.test(repoName) && !/^[a-z0-9]$/.test(repoName)) {
+      res.status(400).json({ success: false, error: 'Invalid repoName format' });
+      return;
+    }
+
+    const result = await reviewManager.importRepo({ bundle, conflictMode, prefix, repoName });
+    if (result.success) {
+      wsManager.broadcast({
+        type: 'repo-changed',
+        action: result.repoCreated ? 'created' : 'updated',
+        repoName: result.repoName,
+        timestamp: Date.now(),
+      });
+    }
+    res.status(result.success ? 200 : 400).json(result);
+  });
+
   return router;
 }
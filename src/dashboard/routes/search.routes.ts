@@ -0,0 +1,40 @@
+/**
+ * Search routes - full-text search across tasks, reviews and clarifications
+ */
+import { Router, Request, Response } from 'express';
+import { AIConductor } from '../../AIConductor.js';
+import { TaskStatus } from '../../types.js';
+
+export function createSearchRoutes(reviewManager: AIConductor): Router {
+  const router = Router();
+
+  /**
+   * GET /api/search?q=<words>&repoName=&featureSlug=&status=&role=&limit=
+   * Ranked hits with snippets; matched terms are wrapped in **.
+   */
+  router.get('/search', async (req: Request, res: Response): Promise<void> => {
+    const query = (req.query.q as string | undefined)?.trim();
+    if (!query) {
+      res.status(400).json({ success: false, error: 'q is required' });
+      return;
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      res.status(400).json({ success: false, error: 'limit must be a positive integer' });
+      return;
+    }
+
+    const result = await reviewManager.search({
+      query,
+      repoName: req.query.repoName as string | undefined,
+      featureSlug: req.query.featureSlug as string | undefined,
+      status: req.query.status as TaskStatus | undefined,
+      role: req.query.role as string | undefined,
+      limit,
+    });
+    res.status(result.success ? 200 : 400).json(result);
+  });
+
+  return router;
+}
@@ -3,35 +3,30 @@
  */
 import { Router, Request, Response } from 'express';
 import { AIConductor } from '../../AIConductor.js';
-import { PipelineRole } from '../../types.js';
-
-const VALID_ROLES: PipelineRole[] = [
-  'productDirector',
-  'architect',
-  'uiUxExpert',
-  'securityOfficer',
-  'developer',
-  'codeReviewer',
-  'qa',
-];
+import { isBuiltInRole } from '../../rolePrompts.js';
+import { PARKED_STATUSES } from '../../workflowDefinitions.js';
 
 const MAX_SYSTEM_PROMPT_LENGTH = 10_000;
 const MAX_FIELD_LENGTH = 2_000;
 
 const VALID_CLI_TOOLS = ['claude', 'copilot'];
+const VALID_COMPLETENESS_MODES = ['strict', 'warn'];
+const VALID_STALE_APPROVAL_POLICIES = ['flag', 'sendBack'];
 const MIN_CRON_INTERVAL = 30;
 const MAX_CRON_INTERVAL = 3600;
-
-function isValidRole(roleId: string): roleId is PipelineRole {
-  return VALID_ROLES.includes(roleId as PipelineRole);
-}
+const MAX_BACKUP_INTERVAL_HOURS = 24 * 7;
+const MAX_BACKUP_RETENTION = 365;
+const MAX_TRASH_RETENTION_DAYS = 3650;
 
 export function createSettingsRoutes(reviewManager: AIConductor): Router {
   const router = Router();
 
+  // Roles are built-in or registered at runtime, so validity is checked against the database
+  const isValidRole = (roleId: string): boolean => reviewManager.hasPipelineRole(roleId);
+
   /**
    * GET /api/settings/role-prompts
-   * Returns all 7 role prompt configs from the database.
+   * Returns all role prompt configs (built-in and user-defined) from the database.
    */
   router.get('/settings/role-prompts', (_req: Request, res: Response): void => {
     try {
@@ -45,6 +40,42 @@ export function createSettingsRoutes(reviewManager: AIConductor): Router {
     }
   });
 
+  /**
+   * POST /api/settings/role-prompts
+   * Registers a user-defined pipeline role.
+   * Body: { roleId, displayName, systemPrompt, phase, focusAreas?, researchInstructions?, requiredOutputFields? }
+   */
+  router.post('/settings/role-prompts', async (req: Request, res: Response): Promise<void> => {
+    const { roleId, displayName, systemPrompt, phase, focusAreas, researchInstructions, requiredOutputFields } = req.body;
+
+    if (typeof systemPrompt === 'string' && systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+      res.status(400).json({ success: false, error: `systemPrompt exceeds max length of ${MAX_SYSTEM_PROMPT_LENGTH} chars` });
+      return;
+    }
+    if (typeof researchInstructions === 'string' && researchInstructions.length > MAX_FIELD_LENGTH) {
+      res.status(400).json({ success: false, error: `researchInstructions exceeds max length of ${MAX_FIELD_LENGTH} chars` });
+      return;
+    }
+    if (focusAreas !== undefined && !Array.isArray(focusAreas)) {
+      res.status(400).json({ success: false, error: 'focusAreas must be an array of strings' });
+      return;
+    }
+    if (requiredOutputFields !== undefined && !Array.isArray(requiredOutputFields)) {
+      res.status(400).json({ success: false, error: 'requiredOutputFields must be an array of strings' });
+      return;
+    }
+
+    const result = await reviewManager.registerPipelineRole({
+      roleId, displayName, systemPrompt, phase, focusAreas, researchInstructions, requiredOutputFields,
+    });
+    if (!result.success) {
+      const isDuplicate = result.error?.startsWith('Role already exists');
+      res.status(isDuplicate ? 409 : 400).json(result);
+      return;
+    }
+    res.status(201).json({ success: true, ...result.role });
+  });
+
   /**
    * GET /api/settings/role-prompts/:roleId
    * Returns the prompt config for one role.
@@ -124,6 +155,10 @@ export function createSettingsRoutes(reviewManager: AIConductor): Router {
       res.status(400).json({ success: false, error: `Invalid roleId: ${roleId}` });
       return;
     }
+    if (!isBuiltInRole(roleId)) {
+      res.status(400).json({ success: false, error: `Role '${roleId}' is user-defined and has no built-in default` });
+      return;
+    }
 
     try {
       const defaults = reviewManager.resetRolePrompt(roleId);
@@ -136,6 +171,22 @@ export function createSettingsRoutes(reviewManager: AIConductor): Router {
     }
   });
 
+  /**
+   * DELETE /api/settings/role-prompts/:roleId
+   * Deletes a user-defined role (built-in roles and roles used by a workflow are refused).
+   */
+  router.delete('/settings/role-prompts/:roleId', async (req: Request, res: Response): Promise<void> => {
+    const roleId = req.params['roleId'] as string;
+
+    if (!isValidRole(roleId)) {
+      res.status(404).json({ success: false, error: `Unknown roleId: ${roleId}` });
+      return;
+    }
+
+    const result = await reviewManager.deletePipelineRole(roleId);
+    res.status(result.success ? 200 : 400).json(result);
+  });
+
   // ─────────────────────────────────────────────────────────────────────
   // Queue & Worker Settings
   // ─────────────────────────────────────────────────────────────────────
@@ -159,10 +210,10 @@ export function createSettingsRoutes(reviewManager: AIConductor): Router {
   /**
    * PUT /api/settings/queue
    * Updates one or more queue settings.
-   * Body: { cronIntervalSeconds?, baseReposFolder?, cliTool?, workerEnabled? }
+   * Body: { cronIntervalSeconds?, baseReposFolder?, cliTool?, workerEnabled?, completionExcludedStatuses? }
    */
   router.put('/settings/queue', (req: Request, res: Response): void => {
-    const { cronIntervalSeconds, baseReposFolder, cliTool, workerEnabled } = req.body;
+    const { cronIntervalSeconds, baseReposFolder, cliTool, workerEnabled, completionExcludedStatuses } = req.body;
 
     // Validate cronIntervalSeconds
     if (cronIntervalSeconds !== undefined) {
@@ -203,12 +254,26 @@ export function createSettingsRoutes(reviewManager: AIConductor): Router {
       return;
     }
 
+    // Validate completionExcludedStatuses
+    if (
+      completionExcludedStatuses !== undefined &&
+      (!Array.isArray(completionExcludedStatuses) ||
+        !completionExcludedStatuses.every((status: unknown) => PARKED_STATUSES.includes(status as any)))
+    ) {
+      res.status(400).json({
+        success: false,
+        error: `completionExcludedStatuses must be an array of: ${PARKED_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
     try {
       const updates: Record<string, any> = {};
       if (cronIntervalSeconds !== undefined) updates.cronIntervalSeconds = Number(cronIntervalSeconds);
       if (baseReposFolder !== undefined) updates.baseReposFolder = baseReposFolder;
       if (cliTool !== undefined) updates.cliTool = cliTool;
       if (workerEnabled !== undefined) updates.workerEnabled = workerEnabled;
+      if (completionExcludedStatuses !== undefined) updates.completionExcludedStatuses = completionExcludedStatuses;
 
       reviewManager.updateQueueSettings(updates);
       const updated = reviewManager.getQueueSettings();
@@ -221,5 +286,174 @@ export function createSettingsRoutes(reviewManager: AIConductor): Router {
     }
   });
 
+  // ─────────────────────────────────────────────────────────────────────
+  // Repo Review Settings
+  // ─────────────────────────────────────────────────────────────────────
+
+  /**
+   * GET /api/settings/review/:repoName
+   * Returns a repo's review settings.
+   */
+  router.get('/settings/review/:repoName', (req: Request, res: Response): void => {
+    try {
+      const settings = reviewManager.getReviewSettings(req.params['repoName'] as string);
+      res.json({ success: true, ...settings });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * PUT /api/settings/review/:repoName
+   * Updates a repo's review settings.
+   * Body: { completenessMode?: 'strict' | 'warn', staleApprovalPolicy?: 'flag' | 'sendBack' }
+   */
+  router.put('/settings/review/:repoName', (req: Request, res: Response): void => {
+    const { completenessMode, staleApprovalPolicy } = req.body;
+
+    if (completenessMode !== undefined && !VALID_COMPLETENESS_MODES.includes(completenessMode)) {
+      res.status(400).json({
+        success: false,
+        error: `completenessMode must be one of: ${VALID_COMPLETENESS_MODES.join(', ')}`,
+      });
+      return;
+    }
+
+    if (staleApprovalPolicy !== undefined && !VALID_STALE_APPROVAL_POLICIES.includes(staleApprovalPolicy)) {
+      res.status(400).json({
+        success: false,
+        error: `staleApprovalPolicy must be one of: ${VALID_STALE_APPROVAL_POLICIES.join(', ')}`,
+      });
+      return;
+    }
+
+    try {
+      const updated = reviewManager.updateReviewSettings(req.params['repoName'] as string, {
+        completenessMode,
+        staleApprovalPolicy,
+      });
+      res.json({ success: true, ...updated });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Database Backups
+  // ─────────────────────────────────────────────────────────────────────
+
+  /**
+   * GET /api/settings/backups
+   * Returns the backup schedule and the backups on disk, newest first.
+   */
+  router.get('/settings/backups', (_req: Request, res: Response): void => {
+    try {
+      const settings = reviewManager.getBackupSettings();
+      res.json({ success: true, ...settings, backups: reviewManager.listBackups() });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * PUT /api/settings/backups
+   * Updates the backup schedule.
+   * Body: { intervalHours?: number (0 disables), retention?: number }
+   */
+  router.put('/settings/backups', (req: Request, res: Response): void => {
+    const { intervalHours, retention } = req.body;
+
+    if (
+      intervalHours !== undefined &&
+      (!Number.isInteger(intervalHours) || intervalHours < 0 || intervalHours > MAX_BACKUP_INTERVAL_HOURS)
+    ) {
+      res.status(400).json({
+        success: false,
+        error: `intervalHours must be an integer between 0 and ${MAX_BACKUP_INTERVAL_HOURS}`,
+      });
+      return;
+    }
+
+    if (
+      retention !== undefined &&
+      (!Number.isInteger(retention) || retention < 1 || retention > MAX_BACKUP_RETENTION)
+    ) {
+      res.status(400).json({
+        success: false,
+        error: `retention must be an integer between 1 and ${MAX_BACKUP_RETENTION}`,
+      });
+      return;
+    }
+
+    try {
+      const updated = reviewManager.updateBackupSettings({ intervalHours, retention });
+      res.json({ success: true, ...updated });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * POST /api/settings/backups
+   * Takes a backup now.
+   */
+  router.post('/settings/backups', async (_req: Request, res: Response): Promise<void> => {
+    const result = await reviewManager.createBackup('manual');
+    res.status(result.success ? 201 : 500).json(result);
+  });
+
+  /**
+   * GET /api/settings/trash
+   * Returns how many days deleted repos, features and tasks are kept.
+   */
+  router.get('/settings/trash', (_req: Request, res: Response): void => {
+    try {
+      res.json({ success: true, ...reviewManager.getTrashSettings() });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * PUT /api/settings/trash
+   * Updates the trash retention period.
+   * Body: { retentionDays: number (0 keeps items until restored) }
+   */
+  router.put('/settings/trash', (req: Request, res: Response): void => {
+    const { retentionDays } = req.body;
+
+    if (!Number.isInteger(retentionDays) || retentionDays < 0 || retentionDays > MAX_TRASH_RETENTION_DAYS) {
+      res.status(400).json({
+        success: false,
+        error: `retentionDays must be an integer between 0 and ${MAX_TRASH_RETENTION_DAYS}`,
+      });
+      return;
+    }
+
+    try {
+      res.json({ success: true, ...reviewManager.updateTrashSettings({ retentionDays }) });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
   return router;
 }
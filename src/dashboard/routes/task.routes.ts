@@ -144,7 +144,7 @@ export function createTaskRoutes(reviewManager: AIConductor): Router {
           featureSlug,
           taskId,
           repoName: repoName || 'default',
-          newStatus: updates?.status,
+          newStatus: result.newStatus,
           timestamp: Date.now(),
         });
         res.json(result);
@@ -0,0 +1,49 @@
+/**
+ * Trash routes - deleted repos, features and tasks, and restoring them
+ */
+import { Router, Request, Response } from 'express';
+import { AIConductor } from '../../AIConductor.js';
+import { wsManager } from '../../websocket.js';
+
+export function createTrashRoutes(reviewManager: AIConductor): Router {
+  const router = Router();
+
+  /**
+   * GET /api/trash?repoName=<repo>
+   * Items in the trash, newest first, with their purge dates.
+   */
+  router.get('/trash', async (req: Request, res: Response): Promise<void> => {
+    const result = await reviewManager.listTrash(req.query.repoName as string | undefined);
+    res.status(result.success ? 200 : 500).json(result);
+  });
+
+  /**
+   * POST /api/trash/:id/restore
+   * Restore a deleted repo, feature or task with all its history.
+   */
+  router.post('/trash/:id/restore', async (req: Request, res: Response): Promise<void> => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id < 1) {
+      res.status(400).json({ success: false, error: 'Invalid trash item ID' });
+      return;
+    }
+
+    const result = await reviewManager.restoreFromTrash(id);
+    if (!result.success) {
+      res.status(result.error?.includes('not found') ? 404 : 409).json(result);
+      return;
+    }
+
+    const { entityType, repoName, featureSlug } = result.item!;
+    wsManager.broadcast({
+      type: entityType === 'repo' ? 'repo-changed' : 'feature-changed',
+      action: 'restored',
+      repoName,
+      featureSlug,
+      timestamp: Date.now(),
+    });
+    res.json(result);
+  });
+
+  return router;
+}
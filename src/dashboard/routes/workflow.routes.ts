@@ -0,0 +1,66 @@
+/**
+ * Workflow routes - per-repo review pipeline definitions
+ */
+import { Router, Request, Response } from 'express';
+import { AIConductor } from '../../AIConductor.js';
+import { wsManager } from '../../websocket.js';
+
+export function createWorkflowRoutes(reviewManager: AIConductor): Router {
+  const router = Router();
+
+  /**
+   * GET /api/repos/:repoName/workflow
+   * Returns the active review pipeline for a repo (default pipeline if none stored).
+   */
+  router.get('/repos/:repoName/workflow', async (req: Request, res: Response): Promise<void> => {
+    const repoName = req.params['repoName'] as string;
+    const result = await reviewManager.getWorkflowDefinition(repoName);
+    res.status(result.success ? 200 : 500).json(result);
+  });
+
+  /**
+   * PUT /api/repos/:repoName/workflow
+   * Replaces the review pipeline for a repo.
+   * Body: { stages: WorkflowStage[] }
+   */
+  router.put('/repos/:repoName/workflow', async (req: Request, res: Response): Promise<void> => {
+    const repoName = req.params['repoName'] as string;
+    const { stages } = req.body;
+
+    if (!Array.isArray(stages)) {
+      res.status(400).json({ success: false, error: 'stages must be an array' });
+      return;
+    }
+
+    const result = await reviewManager.setWorkflowDefinition({ repoName, stages });
+    if (result.success) {
+      wsManager.broadcast({
+        type: 'workflow-changed',
+        action: 'updated',
+        repoName,
+        timestamp: Date.now(),
+      });
+    }
+    res.status(result.success ? 200 : 400).json(result);
+  });
+
+  /**
+   * POST /api/repos/:repoName/workflow/reset
+   * Drops the repo's custom pipeline so it uses the default stages again.
+   */
+  router.post('/repos/:repoName/workflow/reset', async (req: Request, res: Response): Promise<void> => {
+    const repoName = req.params['repoName'] as string;
+    const result = await reviewManager.resetWorkflowDefinition(repoName);
+    if (result.success) {
+      wsManager.broadcast({
+        type: 'workflow-changed',
+        action: 'reset',
+        repoName,
+        timestamp: Date.now(),
+      });
+    }
+    res.status(result.success ? 200 : 400).json(result);
+  });
+
+  return router;
+}
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+/**
+ * Database integrity check CLI
+ * Usage: node dist/integrity-check.js [--repair] [--db path]
+ *
+ * Exits with status 1 while issues remain, so it can gate scripts.
+ */
+import path from 'path';
+import { DatabaseHandler } from './DatabaseHandler.js';
+import { IntegrityIssue } from './types.js';
+
+/** Issues listed per category before the rest are summarised */
+const MAX_LISTED = 20;
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function describeIssue(issue: IntegrityIssue): string {
+  const location = [issue.repoName, issue.featureSlug, issue.taskId].filter(Boolean).join('/');
+  return `${issue.table}#${issue.rowId}${location ? ` (${location})` : ''}: ${issue.detail}`;
+}
+
+function integrityCheck(args: string[]): number {
+  const repair = args.includes('--repair');
+  const dbPath = option(args, '--db') || process.env.DATABASE_PATH || path.join(process.cwd(), 'tasks.db');
+
+  console.log(`📁 Database: ${dbPath}`);
+  const db = new DatabaseHandler(undefined, dbPath);
+  try {
+    const report = db.checkIntegrity({ repair });
+    for (const category of report.categories) {
+      const state = category.issues.length === 0 ? '✅' : category.remaining === 0 ? '🔧' : '⚠️ ';
+      const repaired = category.remaining !== undefined && category.issues.length > 0
+        ? `, ${category.issues.length - category.remaining} repaired`
+        : '';
+      console.log(`\n${state} ${category.category}: ${category.issues.length} issue(s)${repaired}`);
+      console.log(`   ${category.description}`);
+      for (const issue of category.issues.slice(0, MAX_LISTED)) {
+        console.log(`   - ${describeIssue(issue)}`);
+      }
+      if (category.issues.length > MAX_LISTED) {
+        console.log(`   … and ${category.issues.length - MAX_LISTED} more`);
+      }
+    }
+
+    const remaining = report.remainingCount ?? report.issueCount;
+    if (report.issueCount === 0) {
+      console.log('\n✨ No issues found.');
+    } else if (repair) {
+      console.log(`\n🔧 Repaired ${report.issueCount - remaining} of ${report.issueCount} issue(s).`);
+    } else {
+      console.log(`\n⚠️  Found ${report.issueCount} issue(s). Run with --repair to fix the repairable ones.`);
+    }
+    return remaining === 0 ? 0 : 1;
+  } finally {
+    db.close();
+  }
+}
+
+try {
+  process.exit(integrityCheck(process.argv.slice(2)));
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
@@ -0,0 +1,100 @@
+/**
+ * MCP server factory - one Server per connection
+ *
+ * stdio runs a single server for the life of the process; the dashboard's
+ * /mcp endpoint creates one per HTTP session. Both serve the same tools,
+ * resources and prompts from the given AIConductor. A session that
+ * authenticated as an agent identity makes every tool call as that agent;
+ * with the requireIdentity agent setting, other sessions cannot call tools.
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AIConductor } from './AIConductor.js';
+import { ToolRegistry } from './toolRegistry.js';
+import { createTools } from './tools/index.js';
+import { withActor } from './auditLog.js';
+import { withAgent } from './agentIdentity.js';
+import { registerResources } from './resources.js';
+import { registerPrompts } from './prompts.js';
+import { AgentIdentity } from './types.js';
+
+export interface McpServerOptions {
+  /** Shared when creating many servers, so tool schemas are compiled once */
+  registry?: ToolRegistry;
+  /** Agent token of a stdio session (MCP_AGENT_TOKEN); HTTP sessions authenticate each request instead */
+  agentToken?: string;
+}
+
+/**
+ * Create a server that is ready to connect to a transport.
+ */
+export function createMcpServer(reviewManager: AIConductor, options: McpServerOptions = {}): Server {
+  const registry = options.registry ?? new ToolRegistry(createTools(reviewManager));
+  const server = new Server(
+    {
+      name: 'aiconductor-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: { listChanged: true },
+      },
+    }
+  );
+
+  // Tool definitions live in tools/*.tools.ts; the registry validates arguments before dispatch
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: registry.list(),
+    };
+  });
+
+  // The agent is looked up on every call, so removing an agent ends its access at once
+  const sessionAgent = (authInfo: AuthInfo | undefined): AgentIdentity | undefined => {
+    if (authInfo) {
+      return authInfo.extra?.agent as AgentIdentity | undefined;
+    }
+    if (!options.agentToken) {
+      return undefined;
+    }
+    const agent = reviewManager.findAgentIdentity(options.agentToken);
+    if (!agent) {
+      throw new McpError(ErrorCode.InvalidRequest, 'MCP_AGENT_TOKEN does not belong to an agent identity');
+    }
+    return agent;
+  };
+
+  // Changes made by a tool call are attributed to the agent, or else the connected client, in the audit log
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) => {
+    const agent = sessionAgent(extra.authInfo);
+    if (!agent && reviewManager.getAgentSettings().requireIdentity) {
+      throw new McpError(ErrorCode.InvalidRequest, 'This server requires an agent identity; connect with an agent token (see npm run agents)');
+    }
+    const call = () =>
+      withActor(agent ? `agent:${agent.name}` : `mcp:${server.getClientVersion()?.name ?? 'unknown'}`, () =>
+        registry.call(request.params.name, request.params.arguments)
+      );
+    return agent ? withAgent(agent, call) : call();
+  });
+
+  // Features and tasks as resources; subscribers are notified as they change
+  const stopResourceNotifications = registerResources(server, reviewManager);
+
+  // Pipeline roles as prompts, filled in with a task's context
+  const stopPromptNotifications = registerPrompts(server, reviewManager);
+
+  server.onclose = () => {
+    stopResourceNotifications();
+    stopPromptNotifications();
+  };
+
+  return server;
+}
@@ -1,93 +1,76 @@
 #!/usr/bin/env node
 /**
- * Migration utility to import task.json files into SQLite database
- * Usage: node dist/migrate.js [options]
+ * Database migration CLI
+ * Usage: node dist/migrate.js [status | up | down [--steps N]] [--dry-run] [--db path]
  */
-import { DatabaseHandler } from './DatabaseHandler.js';
-import { JsonFileHandler } from './JsonFileHandler.js';
+import Database from 'better-sqlite3';
 import fs from 'fs-extra';
 import path from 'path';
+import { MigrationRunner } from './migrationRunner.js';
 
-async function migrate(workspaceRoot?: string, sourceDir?: string) {
-  const root = workspaceRoot || process.cwd();
-  const artifactsPath = sourceDir || path.join(root, '.github', 'artifacts');
-
-  console.log('🔄 Starting migration from task.json files to SQLite database...');
-  console.log(`   Workspace: ${root}`);
-  console.log(`   Source: ${artifactsPath}`);
-
-  // Check if source directory exists
-  if (!await fs.pathExists(artifactsPath)) {
-    console.log(`❌ Source directory not found: ${artifactsPath}`);
-    console.log('   Nothing to migrate.');
-    return;
-  }
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
 
-  // Initialize handlers
-  const fileHandler = new JsonFileHandler(root);
-  const dbHandler = new DatabaseHandler(root);
+function migrate(args: string[]) {
+  const valueOptions = ['--steps', '--db'];
+  const [command = 'status'] = args.filter((arg, i) => !arg.startsWith('--') && !valueOptions.includes(args[i - 1]));
+  const dryRun = args.includes('--dry-run');
+  const dbPath = option(args, '--db') || process.env.DATABASE_PATH || path.join(process.cwd(), 'tasks.db');
 
-  // Find all feature directories
-  const features = await fs.readdir(artifactsPath);
-  let migrated = 0;
-  let skipped = 0;
-  let errors: string[] = [];
+  fs.ensureDirSync(path.dirname(dbPath));
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
 
-  for (const featureSlug of features) {
-    const featurePath = path.join(artifactsPath, featureSlug);
-    const taskFilePath = path.join(featurePath, 'task.json');
+  try {
+    const runner = new MigrationRunner(db);
+    console.log(`📁 Database: ${dbPath}`);
 
-    // Skip if not a directory
-    const stat = await fs.stat(featurePath);
-    if (!stat.isDirectory()) {
-      continue;
+    switch (command) {
+      case 'status': {
+        for (const migration of runner.status()) {
+          const state = migration.modified ? '⚠️  modified' : migration.applied ? '✅ applied ' : '⏳ pending ';
+          const down = migration.hasDown ? '' : '  (no down script)';
+          console.log(`   ${state} ${migration.name}${migration.appliedAt ? `  ${migration.appliedAt}` : ''}${down}`);
+        }
+        break;
+      }
+      case 'up': {
+        const applied = runner.up({ dryRun });
+        if (applied.length === 0) {
+          console.log('✨ Database is up to date.');
+        }
+        for (const name of applied) {
+          console.log(`   ${dryRun ? '🔍 would apply' : '✅ applied'} ${name}`);
+        }
+        break;
+      }
+      case 'down': {
+        const steps = parseInt(option(args, '--steps') ?? '1', 10);
+        if (!Number.isInteger(steps) || steps < 1) {
+          throw new Error('--steps must be a positive integer');
+        }
+        for (const name of runner.down(steps, { dryRun })) {
+          console.log(`   ${dryRun ? '🔍 would revert' : '↩️  reverted'} ${name}`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown command: ${command}. Use status, up or down.`);
     }
 
-    // Skip if task.json doesn't exist
-    if (!await fs.pathExists(taskFilePath)) {
-      console.log(`⏭️  Skipping ${featureSlug} (no task.json found)`);
-      skipped++;
-      continue;
+    if (dryRun) {
+      console.log('\n🔍 Dry run: all changes were rolled back.');
     }
-
-    try {
-      // Load task file
-      console.log(`📦 Migrating ${featureSlug}...`);
-      const taskFile = await fileHandler.load(taskFilePath);
-
-      // Save to database
-      await dbHandler.saveByFeatureSlug(featureSlug, taskFile);
-      
-      console.log(`✅ Successfully migrated ${featureSlug}`);
-      migrated++;
-    } catch (error) {
-      const errorMsg = `Failed to migrate ${featureSlug}: ${error instanceof Error ? error.message : String(error)}`;
-      console.error(`❌ ${errorMsg}`);
-      errors.push(errorMsg);
-    }
-  }
-
-  console.log('\n' + '='.repeat(60));
-  console.log('📊 Migration Summary:');
-  console.log(`   ✅ Migrated: ${migrated}`);
-  console.log(`   ⏭️  Skipped:  ${skipped}`);
-  console.log(`   ❌ Errors:   ${errors.length}`);
-  
-  if (errors.length > 0) {
-    console.log('\n❌ Errors:');
-    errors.forEach(err => console.log(`   - ${err}`));
+  } finally {
+    db.close();
   }
-
-  console.log('\n✨ Migration complete!');
-  console.log(`   Database: ${path.join(root, 'tasks.db')}`);
-  
-  // Close database connection
-  dbHandler.close();
 }
 
-// Run migration
-const workspaceRoot = process.argv[2];
-migrate(workspaceRoot).catch(error => {
-  console.error('Fatal error:', error);
+try {
+  migrate(process.argv.slice(2));
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
   process.exit(1);
-});
+}
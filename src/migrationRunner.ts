@@ -0,0 +1,261 @@
+/**
+ * MigrationRunner - Applies numbered SQL migration files
+ *
+ * Migrations live in `migrations/` next to this module as `NNN_name.sql`, with an
+ * optional `NNN_name.down.sql` that reverts it. Each migration runs in its own
+ * transaction and is recorded in `_migrations` with the checksum of its up script;
+ * an applied migration whose file has since been edited stops the runner.
+ *
+ * A migration that rebuilds referenced tables starts with `-- migrate:foreign-keys-off`:
+ * foreign keys are switched off around its transaction (SQLite ignores the pragma
+ * inside one) and `foreign_key_check` must come back clean before it commits.
+ */
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export const DEFAULT_MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'migrations');
+
+const MIGRATION_FILE = /^(\d{3})_([a-z0-9_]+)\.sql$/;
+const FOREIGN_KEYS_OFF = /^--\s*migrate:foreign-keys-off\b/m;
+
+export interface MigrationFile {
+  name: string;
+  up: string;
+  down?: string;
+  checksum: string;
+  foreignKeysOff: boolean;
+}
+
+export interface MigrationStatus {
+  name: string;
+  applied: boolean;
+  appliedAt?: string;
+  /** The up script differs from the one that was applied */
+  modified: boolean;
+  hasDown: boolean;
+}
+
+export interface MigrationOptions {
+  /** Run the migrations and roll everything back, to check they would succeed */
+  dryRun?: boolean;
+}
+
+export class MigrationChecksumError extends Error {
+  readonly code = 'MIGRATION_MODIFIED';
+
+  constructor(readonly migrations: string[]) {
+    super(
+      `Applied migrations were modified after they ran: ${migrations.join(', ')}. ` +
+        'Restore the original files and add a new migration for further schema changes.'
+    );
+    this.name = 'MigrationChecksumError';
+  }
+}
+
+/** Thrown inside a dry-run transaction so better-sqlite3 rolls it back */
+class DryRunRollback extends Error {}
+
+export function migrationChecksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+export class MigrationRunner {
+  constructor(
+    private db: Database.Database,
+    private migrationsDir: string = DEFAULT_MIGRATIONS_DIR
+  ) {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS _migrations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        applied_at TEXT NOT NULL
+      );
+    `);
+    const columns = this.db.prepare(`PRAGMA table_info(_migrations)`).all() as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === 'checksum')) {
+      this.db.exec(`ALTER TABLE _migrations ADD COLUMN checksum TEXT`);
+    }
+  }
+
+  /**
+   * Migration files in the migrations directory, in version order
+   */
+  discover(): MigrationFile[] {
+    if (!fs.existsSync(this.migrationsDir)) {
+      throw new Error(`Migrations directory not found: ${this.migrationsDir}`);
+    }
+    const files = fs.readdirSync(this.migrationsDir);
+    return files
+      .filter((file) => MIGRATION_FILE.test(file))
+      .sort()
+      .map((file) => {
+        const name = file.slice(0, -'.sql'.length);
+        const up = fs.readFileSync(path.join(this.migrationsDir, file), 'utf-8');
+        const downPath = path.join(this.migrationsDir, `${name}.down.sql`);
+        return {
+          name,
+          up,
+          down: fs.existsSync(downPath) ? fs.readFileSync(downPath, 'utf-8') : undefined,
+          checksum: migrationChecksum(up),
+          foreignKeysOff: FOREIGN_KEYS_OFF.test(up),
+        };
+      });
+  }
+
+  /**
+   * Applied and pending migrations, flagging applied ones whose file changed
+   */
+  status(): MigrationStatus[] {
+    const applied = this.appliedMigrations();
+    return this.discover().map((migration) => {
+      const record = applied.get(migration.name);
+      return {
+        name: migration.name,
+        applied: !!record,
+        appliedAt: record?.applied_at,
+        modified: !!record?.checksum && record.checksum !== migration.checksum,
+        hasDown: migration.down !== undefined,
+      };
+    });
+  }
+
+  /**
+   * Refuse to continue when an applied migration was edited afterwards.
+   * Migrations recorded before checksums were tracked adopt the current file's checksum.
+   */
+  verify(): void {
+    const applied = this.appliedMigrations();
+    const record = this.db.prepare(`UPDATE _migrations SET checksum = ? WHERE name = ?`);
+    const modified: string[] = [];
+    for (const migration of this.discover()) {
+      const row = applied.get(migration.name);
+      if (!row) continue;
+      if (!row.checksum) {
+        record.run(migration.checksum, migration.name);
+      } else if (row.checksum !== migration.checksum) {
+        modified.push(migration.name);
+      }
+    }
+    if (modified.length > 0) {
+      throw new MigrationChecksumError(modified);
+    }
+  }
+
+  /**
+   * Apply every pending migration in order. Returns the names applied (or, on a
+   * dry run, the names that would be applied).
+   */
+  up(options: MigrationOptions = {}): string[] {
+    this.verify();
+    const applied = this.appliedMigrations();
+    const pending = this.discover().filter((migration) => !applied.has(migration.name));
+    const record = this.db.prepare(`INSERT INTO _migrations (name, applied_at, checksum) VALUES (?, ?, ?)`);
+
+    const apply = (migration: MigrationFile) => {
+      this.execute(migration, migration.up);
+      record.run(migration.name, new Date().toISOString(), migration.checksum);
+    };
+
+    if (options.dryRun) {
+      this.withForeignKeys(pending, () => this.rollBackAfter(() => pending.forEach(apply)));
+    } else {
+      for (const migration of pending) {
+        this.withForeignKeys([migration], () => this.db.transaction(apply)(migration));
+      }
+    }
+    return pending.map((migration) => migration.name);
+  }
+
+  /**
+   * Revert the most recently applied migrations, newest first, using their down
+   * scripts. Returns the names reverted (or that would be reverted on a dry run).
+   */
+  down(steps = 1, options: MigrationOptions = {}): string[] {
+    this.verify();
+    const files = new Map(this.discover().map((migration) => [migration.name, migration]));
+    const latest = this.db
+      .prepare(`SELECT name FROM _migrations ORDER BY name DESC LIMIT ?`)
+      .all(steps) as Array<{ name: string }>;
+
+    const targets = latest.map(({ name }) => {
+      const migration = files.get(name);
+      if (!migration) {
+        throw new Error(`Cannot revert ${name}: migration file not found`);
+      }
+      if (migration.down === undefined) {
+        throw new Error(`Cannot revert ${name}: no down script (${name}.down.sql)`);
+      }
+      return migration;
+    });
+    const unrecord = this.db.prepare(`DELETE FROM _migrations WHERE name = ?`);
+
+    const revert = (migration: MigrationFile) => {
+      this.execute(migration, migration.down!);
+      unrecord.run(migration.name);
+    };
+
+    if (options.dryRun) {
+      this.withForeignKeys(targets, () => this.rollBackAfter(() => targets.forEach(revert)));
+    } else {
+      for (const migration of targets) {
+        this.withForeignKeys([migration], () => this.db.transaction(revert)(migration));
+      }
+    }
+    return targets.map((migration) => migration.name);
+  }
+
+  private appliedMigrations(): Map<string, { applied_at: string; checksum: string | null }> {
+    const rows = this.db.prepare(`SELECT name, applied_at, checksum FROM _migrations`).all() as Array<{
+      name: string;
+      applied_at: string;
+      checksum: string | null;
+    }>;
+    return new Map(rows.map((row) => [row.name, row]));
+  }
+
+  private execute(migration: MigrationFile, sql: string): void {
+    try {
+      this.db.exec(sql);
+    } catch (error) {
+      throw new Error(`Migration ${migration.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (migration.foreignKeysOff) {
+      const violations = this.db.pragma('foreign_key_check') as Array<{ table: string; parent: string }>;
+      if (violations.length > 0) {
+        const tables = [...new Set(violations.map((v) => `${v.table} -> ${v.parent}`))];
+        throw new Error(`Migration ${migration.name} failed: rows without a parent in ${tables.join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * Run work with foreign keys off when any of the migrations asks for it
+   */
+  private withForeignKeys(migrations: MigrationFile[], work: () => void): void {
+    if (!migrations.some((migration) => migration.foreignKeysOff)) {
+      work();
+      return;
+    }
+    const enabled = this.db.pragma('foreign_keys', { simple: true });
+    this.db.pragma('foreign_keys = OFF');
+    try {
+      work();
+    } finally {
+      this.db.pragma(`foreign_keys = ${enabled ? 'ON' : 'OFF'}`);
+    }
+  }
+
+  private rollBackAfter(work: () => void): void {
+    try {
+      this.db.transaction(() => {
+        work();
+        throw new DryRunRollback();
+      })();
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) throw error;
+    }
+  }
+}
@@ -0,0 +1,210 @@
+-- ============================================================================
+-- Migration 000: Base Schema
+-- ============================================================================
+-- Tables as they existed before numbered migrations. Every statement is
+-- IF NOT EXISTS so databases created before this file existed adopt it as is.
+-- ============================================================================
+
+-- Features table
+CREATE TABLE IF NOT EXISTS features (
+  feature_slug TEXT PRIMARY KEY,
+  feature_name TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  last_modified TEXT NOT NULL
+);
+
+-- Tasks table
+CREATE TABLE IF NOT EXISTS tasks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  status TEXT NOT NULL,
+  assigned_to TEXT,
+  estimated_hours REAL,
+  order_of_execution INTEGER NOT NULL DEFAULT 0,
+  tags TEXT, -- JSON array
+  dependencies TEXT, -- JSON array
+  out_of_scope TEXT, -- JSON array
+  UNIQUE(feature_slug, task_id),
+  FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
+);
+
+-- Transitions table
+CREATE TABLE IF NOT EXISTS transitions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  approver TEXT,
+  actor TEXT,
+  timestamp TEXT NOT NULL,
+  notes TEXT,
+  additional_data TEXT, -- JSON for all additional fields
+  FOREIGN KEY(feature_slug, task_id) REFERENCES tasks(feature_slug, task_id) ON DELETE CASCADE
+);
+
+-- Acceptance Criteria table
+CREATE TABLE IF NOT EXISTS acceptance_criteria (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  criterion_id TEXT NOT NULL,
+  criterion TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  verified INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(feature_slug, task_id, criterion_id),
+  FOREIGN KEY(feature_slug, task_id) REFERENCES tasks(feature_slug, task_id) ON DELETE CASCADE
+);
+
+-- Test Scenarios table
+CREATE TABLE IF NOT EXISTS test_scenarios (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  scenario_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  manual_only INTEGER NOT NULL DEFAULT 0,
+  priority TEXT NOT NULL,
+  UNIQUE(feature_slug, task_id, scenario_id),
+  FOREIGN KEY(feature_slug, task_id) REFERENCES tasks(feature_slug, task_id) ON DELETE CASCADE
+);
+
+-- Stakeholder Reviews table
+CREATE TABLE IF NOT EXISTS stakeholder_reviews (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  stakeholder TEXT NOT NULL,
+  approved INTEGER NOT NULL,
+  notes TEXT NOT NULL,
+  additional_data TEXT, -- JSON for role-specific fields
+  UNIQUE(feature_slug, task_id, stakeholder),
+  FOREIGN KEY(feature_slug, task_id) REFERENCES tasks(feature_slug, task_id) ON DELETE CASCADE
+);
+
+-- Workflow Checkpoints table (Recommendation 3)
+CREATE TABLE IF NOT EXISTS workflow_checkpoints (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  description TEXT NOT NULL,
+  saved_at TEXT NOT NULL,
+  snapshot TEXT NOT NULL,
+  FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
+);
+
+-- Feature Refinement Steps table
+CREATE TABLE IF NOT EXISTS feature_refinement_steps (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  step_number INTEGER NOT NULL,
+  step_name TEXT NOT NULL,
+  completed BOOLEAN DEFAULT 0,
+  completed_at TEXT,
+  summary TEXT,
+  data TEXT,
+  UNIQUE(repo_name, feature_slug, step_number),
+  FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
+);
+
+-- Feature Attachments table
+CREATE TABLE IF NOT EXISTS feature_attachments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  attachment_name TEXT NOT NULL,
+  attachment_type TEXT NOT NULL,
+  file_path TEXT,
+  file_url TEXT,
+  analysis_summary TEXT,
+  extracted_data TEXT,
+  FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
+);
+
+-- Feature Clarifications table
+CREATE TABLE IF NOT EXISTS feature_clarifications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  question TEXT NOT NULL,
+  answer TEXT,
+  asked_by TEXT DEFAULT 'llm',
+  created_at TEXT NOT NULL,
+  FOREIGN KEY(feature_slug) REFERENCES features(feature_slug) ON DELETE CASCADE
+);
+
+-- Reviewer Presence table (T03: Presence Tracking)
+CREATE TABLE IF NOT EXISTS reviewer_presence (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  reviewer_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'online',
+  current_feature TEXT,
+  started_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  UNIQUE(reviewer_id)
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_tasks_feature ON tasks(feature_slug);
+CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+CREATE INDEX IF NOT EXISTS idx_transitions_task ON transitions(feature_slug, task_id);
+CREATE INDEX IF NOT EXISTS idx_acceptance_criteria_task ON acceptance_criteria(feature_slug, task_id);
+CREATE INDEX IF NOT EXISTS idx_test_scenarios_task ON test_scenarios(feature_slug, task_id);
+CREATE INDEX IF NOT EXISTS idx_stakeholder_reviews_task ON stakeholder_reviews(feature_slug, task_id);
+CREATE INDEX IF NOT EXISTS idx_checkpoints_feature ON workflow_checkpoints(repo_name, feature_slug);
+CREATE INDEX IF NOT EXISTS idx_presence_reviewer ON reviewer_presence(reviewer_id);
+CREATE INDEX IF NOT EXISTS idx_presence_expiry ON reviewer_presence(expires_at);
+CREATE INDEX IF NOT EXISTS idx_presence_status ON reviewer_presence(status);
+
+-- Dev Queue table (feature-level: one entry per feature, not per task)
+CREATE TABLE IF NOT EXISTS dev_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK(status IN ('pending', 'running', 'completed', 'failed')),
+  cli_tool TEXT NOT NULL DEFAULT 'claude',
+  created_at TEXT NOT NULL,
+  started_at TEXT,
+  completed_at TEXT,
+  error_message TEXT,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  worker_pid INTEGER,
+  UNIQUE(repo_name, feature_slug, status)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dev_queue_status ON dev_queue(status);
+CREATE INDEX IF NOT EXISTS idx_dev_queue_repo_feature ON dev_queue(repo_name, feature_slug);
+CREATE INDEX IF NOT EXISTS idx_dev_queue_composite ON dev_queue(repo_name, feature_slug, status);
+
+-- Application Settings table (key-value store)
+CREATE TABLE IF NOT EXISTS settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- Role Prompts table
+CREATE TABLE IF NOT EXISTS role_prompts (
+  role_id TEXT PRIMARY KEY,
+  system_prompt TEXT NOT NULL,
+  focus_areas TEXT NOT NULL DEFAULT '[]',
+  research_instructions TEXT NOT NULL DEFAULT '',
+  required_output_fields TEXT NOT NULL DEFAULT '[]',
+  phase TEXT NOT NULL DEFAULT 'review',
+  is_custom INTEGER NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL
+);
+
+-- Workflow Definitions table (one review pipeline per repo)
+CREATE TABLE IF NOT EXISTS workflow_definitions (
+  repo_name TEXT PRIMARY KEY,
+  stages TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
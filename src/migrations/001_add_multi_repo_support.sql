@@ -4,8 +4,6 @@
 -- This migration adds support for multiple repositories in a single database
 -- ============================================================================
 
-BEGIN TRANSACTION;
-
 -- ----------------------------------------------------------------------------
 -- 1. Create repos table
 -- ----------------------------------------------------------------------------
@@ -209,5 +207,3 @@ CREATE INDEX IF NOT EXISTS idx_stakeholder_reviews_repo_task ON stakeholder_revi
 
 -- Keep status index
 CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
-
-COMMIT;
@@ -0,0 +1,2 @@
+-- Migration 002: Add description column to features table
+ALTER TABLE features ADD COLUMN description TEXT;
@@ -0,0 +1,20 @@
+-- Migration 003: Convert dev_queue from task-level to feature-level
+DROP TABLE IF EXISTS dev_queue;
+CREATE TABLE dev_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK(status IN ('pending', 'running', 'completed', 'failed')),
+  cli_tool TEXT NOT NULL DEFAULT 'claude',
+  created_at TEXT NOT NULL,
+  started_at TEXT,
+  completed_at TEXT,
+  error_message TEXT,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  worker_pid INTEGER,
+  UNIQUE(repo_name, feature_slug, status)
+);
+CREATE INDEX IF NOT EXISTS idx_dev_queue_status ON dev_queue(status);
+CREATE INDEX IF NOT EXISTS idx_dev_queue_repo_feature ON dev_queue(repo_name, feature_slug);
+CREATE INDEX IF NOT EXISTS idx_dev_queue_composite ON dev_queue(repo_name, feature_slug, status);
@@ -0,0 +1,2 @@
+ALTER TABLE role_prompts DROP COLUMN is_builtin;
+ALTER TABLE role_prompts DROP COLUMN display_name;
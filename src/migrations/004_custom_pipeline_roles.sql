@@ -0,0 +1,11 @@
+-- Migration 004: User-defined pipeline roles in role_prompts
+ALTER TABLE role_prompts ADD COLUMN display_name TEXT;
+ALTER TABLE role_prompts ADD COLUMN is_builtin INTEGER NOT NULL DEFAULT 1;
+
+UPDATE role_prompts SET display_name = 'Product Director' WHERE role_id = 'productDirector' AND display_name IS NULL;
+UPDATE role_prompts SET display_name = 'Architect' WHERE role_id = 'architect' AND display_name IS NULL;
+UPDATE role_prompts SET display_name = 'UI/UX Expert' WHERE role_id = 'uiUxExpert' AND display_name IS NULL;
+UPDATE role_prompts SET display_name = 'Security Officer' WHERE role_id = 'securityOfficer' AND display_name IS NULL;
+UPDATE role_prompts SET display_name = 'Developer' WHERE role_id = 'developer' AND display_name IS NULL;
+UPDATE role_prompts SET display_name = 'Code Reviewer' WHERE role_id = 'codeReviewer' AND display_name IS NULL;
+UPDATE role_prompts SET display_name = 'QA Engineer' WHERE role_id = 'qa' AND display_name IS NULL;
@@ -0,0 +1,2 @@
+-- Migration 005: Reason and blocker for Blocked/OnHold/Cancelled tasks
+ALTER TABLE tasks ADD COLUMN parked TEXT;
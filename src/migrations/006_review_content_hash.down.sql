@@ -0,0 +1,2 @@
+ALTER TABLE stakeholder_reviews DROP COLUMN superseded_at;
+ALTER TABLE stakeholder_reviews DROP COLUMN content_hash;
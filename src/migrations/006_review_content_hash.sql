@@ -0,0 +1,3 @@
+-- Migration 006: Content hash and superseded marker on stakeholder reviews
+ALTER TABLE stakeholder_reviews ADD COLUMN content_hash TEXT;
+ALTER TABLE stakeholder_reviews ADD COLUMN superseded_at TEXT;
@@ -0,0 +1,2 @@
+-- Migration 007: Conditions attached by approveWithConditions reviews
+ALTER TABLE tasks ADD COLUMN review_conditions TEXT;
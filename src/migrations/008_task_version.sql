@@ -0,0 +1,2 @@
+-- Migration 008: Per-task version for optimistic concurrency
+ALTER TABLE tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
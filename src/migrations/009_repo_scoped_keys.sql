@@ -0,0 +1,315 @@
+-- migrate:foreign-keys-off
+-- ============================================================================
+-- Migration 009: Repo-Scoped Feature and Task Keys
+-- ============================================================================
+-- features was keyed by feature_slug alone, and every child table referenced
+-- it (or tasks) without repo_name, so two repos could not share a feature
+-- slug. Each table is rebuilt with (repo_name, feature_slug) in its keys and
+-- foreign keys, following SQLite's create-copy-drop-rename procedure. The
+-- runner turns foreign keys off for this migration and checks them before
+-- committing.
+-- ============================================================================
+
+DROP VIEW IF EXISTS v_feature_refinement_progress;
+DROP VIEW IF EXISTS v_task_status_summary;
+DROP VIEW IF EXISTS v_repo_summary;
+
+-- ----------------------------------------------------------------------------
+-- 1. Features and tasks
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE features_new (
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  feature_name TEXT NOT NULL,
+  description TEXT,
+  created_at TEXT NOT NULL,
+  last_modified TEXT NOT NULL,
+  PRIMARY KEY(repo_name, feature_slug)
+);
+INSERT INTO features_new (repo_name, feature_slug, feature_name, description, created_at, last_modified)
+SELECT COALESCE(repo_name, 'default'), feature_slug, feature_name, description, created_at, last_modified FROM features;
+
+CREATE TABLE tasks_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  status TEXT NOT NULL,
+  assigned_to TEXT,
+  estimated_hours REAL,
+  order_of_execution INTEGER NOT NULL DEFAULT 0,
+  tags TEXT, -- JSON array
+  dependencies TEXT, -- JSON array
+  out_of_scope TEXT, -- JSON array
+  parked TEXT, -- JSON
+  review_conditions TEXT, -- JSON array
+  version INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(repo_name, feature_slug, task_id),
+  FOREIGN KEY(repo_name, feature_slug) REFERENCES features(repo_name, feature_slug) ON DELETE CASCADE
+);
+INSERT INTO tasks_new (id, repo_name, feature_slug, task_id, title, description, status, assigned_to, estimated_hours,
+  order_of_execution, tags, dependencies, out_of_scope, parked, review_conditions, version)
+SELECT rowid, COALESCE(repo_name, 'default'), feature_slug, task_id, title, COALESCE(description, ''), status, assigned_to, estimated_hours,
+  order_of_execution, tags, dependencies, out_of_scope, parked, review_conditions, version FROM tasks;
+
+-- ----------------------------------------------------------------------------
+-- 2. Task children
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE transitions_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  approver TEXT,
+  actor TEXT,
+  timestamp TEXT NOT NULL,
+  notes TEXT,
+  additional_data TEXT, -- JSON for all additional fields
+  FOREIGN KEY(repo_name, feature_slug, task_id) REFERENCES tasks(repo_name, feature_slug, task_id) ON DELETE CASCADE
+);
+INSERT INTO transitions_new (id, repo_name, feature_slug, task_id, from_status, to_status, approver, actor, timestamp, notes, additional_data)
+SELECT rowid, COALESCE(repo_name, 'default'), feature_slug, task_id, from_status, to_status, approver, actor, timestamp, notes, additional_data
+FROM transitions;
+
+CREATE TABLE acceptance_criteria_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  criterion_id TEXT NOT NULL,
+  criterion TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  verified INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(repo_name, feature_slug, task_id, criterion_id),
+  FOREIGN KEY(repo_name, feature_slug, task_id) REFERENCES tasks(repo_name, feature_slug, task_id) ON DELETE CASCADE
+);
+INSERT INTO acceptance_criteria_new (id, repo_name, feature_slug, task_id, criterion_id, criterion, priority, verified)
+SELECT rowid, COALESCE(repo_name, 'default'), feature_slug, task_id, criterion_id, criterion, priority, verified FROM acceptance_criteria;
+
+CREATE TABLE test_scenarios_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  scenario_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  manual_only INTEGER NOT NULL DEFAULT 0,
+  priority TEXT NOT NULL,
+  UNIQUE(repo_name, feature_slug, task_id, scenario_id),
+  FOREIGN KEY(repo_name, feature_slug, task_id) REFERENCES tasks(repo_name, feature_slug, task_id) ON DELETE CASCADE
+);
+INSERT INTO test_scenarios_new (id, repo_name, feature_slug, task_id, scenario_id, title, description, manual_only, priority)
+SELECT rowid, COALESCE(repo_name, 'default'), feature_slug, task_id, scenario_id, title, description, manual_only, priority FROM test_scenarios;
+
+CREATE TABLE stakeholder_reviews_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  stakeholder TEXT NOT NULL,
+  approved INTEGER NOT NULL,
+  notes TEXT NOT NULL,
+  additional_data TEXT, -- JSON for role-specific fields
+  content_hash TEXT,
+  superseded_at TEXT,
+  UNIQUE(repo_name, feature_slug, task_id, stakeholder),
+  FOREIGN KEY(repo_name, feature_slug, task_id) REFERENCES tasks(repo_name, feature_slug, task_id) ON DELETE CASCADE
+);
+INSERT INTO stakeholder_reviews_new (id, repo_name, feature_slug, task_id, stakeholder, approved, notes, additional_data, content_hash, superseded_at)
+SELECT rowid, COALESCE(repo_name, 'default'), feature_slug, task_id, stakeholder, approved, notes, additional_data, content_hash, superseded_at
+FROM stakeholder_reviews;
+
+-- ----------------------------------------------------------------------------
+-- 3. Feature children
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE workflow_checkpoints_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  description TEXT NOT NULL,
+  saved_at TEXT NOT NULL,
+  snapshot TEXT NOT NULL,
+  FOREIGN KEY(repo_name, feature_slug) REFERENCES features(repo_name, feature_slug) ON DELETE CASCADE
+);
+INSERT INTO workflow_checkpoints_new (id, repo_name, feature_slug, description, saved_at, snapshot)
+SELECT rowid, repo_name, feature_slug, description, saved_at, snapshot FROM workflow_checkpoints;
+
+CREATE TABLE feature_refinement_steps_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  step_number INTEGER NOT NULL,
+  step_name TEXT NOT NULL,
+  completed BOOLEAN DEFAULT 0,
+  completed_at TEXT,
+  summary TEXT,
+  data TEXT,
+  UNIQUE(repo_name, feature_slug, step_number),
+  FOREIGN KEY(repo_name, feature_slug) REFERENCES features(repo_name, feature_slug) ON DELETE CASCADE
+);
+INSERT INTO feature_refinement_steps_new (id, repo_name, feature_slug, step_number, step_name, completed, completed_at, summary, data)
+SELECT rowid, repo_name, feature_slug, step_number, step_name, completed, completed_at, summary, data FROM feature_refinement_steps;
+
+-- feature_attachments and feature_clarifications exist in two shapes: the one
+-- created by migration 001 (analyzed_at, asked_at/answered_at, which the code
+-- uses) and the one from the base schema (created_at). Both are rebuilt in the
+-- 001 shape. NATURAL LEFT JOIN against a row of NULLs lets the copy name columns
+-- that only one shape has: a column missing from the old table resolves to NULL.
+
+CREATE TABLE feature_attachments_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  attachment_name TEXT NOT NULL,
+  attachment_type TEXT NOT NULL,
+  file_path TEXT,
+  file_url TEXT,
+  analysis_summary TEXT,
+  extracted_data TEXT, -- JSON
+  analyzed_at TEXT NOT NULL,
+  FOREIGN KEY(repo_name, feature_slug) REFERENCES features(repo_name, feature_slug) ON DELETE CASCADE
+);
+INSERT INTO feature_attachments_new (id, repo_name, feature_slug, attachment_name, attachment_type, file_path, file_url,
+  analysis_summary, extracted_data, analyzed_at)
+SELECT id, repo_name, feature_slug, attachment_name, attachment_type, file_path, file_url,
+  analysis_summary, extracted_data, COALESCE(analyzed_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+FROM feature_attachments NATURAL LEFT JOIN (SELECT NULL AS analyzed_at);
+
+CREATE TABLE feature_clarifications_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  question TEXT NOT NULL,
+  answer TEXT,
+  asked_at TEXT NOT NULL,
+  answered_at TEXT,
+  asked_by TEXT DEFAULT 'llm',
+  FOREIGN KEY(repo_name, feature_slug) REFERENCES features(repo_name, feature_slug) ON DELETE CASCADE
+);
+INSERT INTO feature_clarifications_new (id, repo_name, feature_slug, question, answer, asked_at, answered_at, asked_by)
+SELECT id, repo_name, feature_slug, question, answer, COALESCE(asked_at, created_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  answered_at, asked_by
+FROM feature_clarifications NATURAL LEFT JOIN (SELECT NULL AS asked_at, NULL AS answered_at, NULL AS created_at);
+
+CREATE TABLE feature_acceptance_criteria_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  criterion_id TEXT NOT NULL,
+  criterion TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  source TEXT DEFAULT 'generated',
+  created_at TEXT NOT NULL,
+  UNIQUE(repo_name, feature_slug, criterion_id),
+  FOREIGN KEY(repo_name, feature_slug) REFERENCES features(repo_name, feature_slug) ON DELETE CASCADE
+);
+INSERT INTO feature_acceptance_criteria_new (id, repo_name, feature_slug, criterion_id, criterion, priority, source, created_at)
+SELECT rowid, repo_name, feature_slug, criterion_id, criterion, priority, source, created_at FROM feature_acceptance_criteria;
+
+CREATE TABLE feature_test_scenarios_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  scenario_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  type TEXT DEFAULT 'automated',
+  preconditions TEXT,
+  expected_result TEXT,
+  created_at TEXT NOT NULL,
+  UNIQUE(repo_name, feature_slug, scenario_id),
+  FOREIGN KEY(repo_name, feature_slug) REFERENCES features(repo_name, feature_slug) ON DELETE CASCADE
+);
+INSERT INTO feature_test_scenarios_new (id, repo_name, feature_slug, scenario_id, title, description, priority, type, preconditions, expected_result, created_at)
+SELECT rowid, repo_name, feature_slug, scenario_id, title, description, priority, type, preconditions, expected_result, created_at
+FROM feature_test_scenarios;
+
+-- ----------------------------------------------------------------------------
+-- 4. Swap the rebuilt tables in
+-- ----------------------------------------------------------------------------
+
+DROP TABLE transitions;
+DROP TABLE acceptance_criteria;
+DROP TABLE test_scenarios;
+DROP TABLE stakeholder_reviews;
+DROP TABLE workflow_checkpoints;
+DROP TABLE feature_refinement_steps;
+DROP TABLE feature_attachments;
+DROP TABLE feature_clarifications;
+DROP TABLE feature_acceptance_criteria;
+DROP TABLE feature_test_scenarios;
+DROP TABLE tasks;
+DROP TABLE features;
+
+ALTER TABLE features_new RENAME TO features;
+ALTER TABLE tasks_new RENAME TO tasks;
+ALTER TABLE transitions_new RENAME TO transitions;
+ALTER TABLE acceptance_criteria_new RENAME TO acceptance_criteria;
+ALTER TABLE test_scenarios_new RENAME TO test_scenarios;
+ALTER TABLE stakeholder_reviews_new RENAME TO stakeholder_reviews;
+ALTER TABLE workflow_checkpoints_new RENAME TO workflow_checkpoints;
+ALTER TABLE feature_refinement_steps_new RENAME TO feature_refinement_steps;
+ALTER TABLE feature_attachments_new RENAME TO feature_attachments;
+ALTER TABLE feature_clarifications_new RENAME TO feature_clarifications;
+ALTER TABLE feature_acceptance_criteria_new RENAME TO feature_acceptance_criteria;
+ALTER TABLE feature_test_scenarios_new RENAME TO feature_test_scenarios;
+
+CREATE INDEX idx_tasks_repo_feature ON tasks(repo_name, feature_slug);
+CREATE INDEX idx_tasks_status ON tasks(status);
+CREATE INDEX idx_transitions_repo_task ON transitions(repo_name, feature_slug, task_id);
+CREATE INDEX idx_acceptance_criteria_repo_task ON acceptance_criteria(repo_name, feature_slug, task_id);
+CREATE INDEX idx_test_scenarios_repo_task ON test_scenarios(repo_name, feature_slug, task_id);
+CREATE INDEX idx_stakeholder_reviews_repo_task ON stakeholder_reviews(repo_name, feature_slug, task_id);
+CREATE INDEX idx_checkpoints_feature ON workflow_checkpoints(repo_name, feature_slug);
+CREATE INDEX idx_steps_feature ON feature_refinement_steps(repo_name, feature_slug);
+CREATE INDEX idx_attachments_feature ON feature_attachments(repo_name, feature_slug);
+CREATE INDEX idx_clarifications_feature ON feature_clarifications(repo_name, feature_slug);
+CREATE INDEX idx_feature_criteria ON feature_acceptance_criteria(repo_name, feature_slug);
+CREATE INDEX idx_feature_scenarios ON feature_test_scenarios(repo_name, feature_slug);
+
+-- ----------------------------------------------------------------------------
+-- 5. Views
+-- ----------------------------------------------------------------------------
+
+CREATE VIEW v_feature_refinement_progress AS
+SELECT
+  f.repo_name,
+  f.feature_slug,
+  f.feature_name,
+  COUNT(frs.id) as total_steps,
+  SUM(CASE WHEN frs.completed = 1 THEN 1 ELSE 0 END) as completed_steps,
+  ROUND(100.0 * SUM(CASE WHEN frs.completed = 1 THEN 1 ELSE 0 END) / NULLIF(COUNT(frs.id), 0), 2) as progress_percentage
+FROM features f
+LEFT JOIN feature_refinement_steps frs ON f.repo_name = frs.repo_name AND f.feature_slug = frs.feature_slug
+GROUP BY f.repo_name, f.feature_slug, f.feature_name;
+
+CREATE VIEW v_task_status_summary AS
+SELECT
+  t.repo_name,
+  t.feature_slug,
+  t.status,
+  COUNT(*) as task_count
+FROM tasks t
+GROUP BY t.repo_name, t.feature_slug, t.status;
+
+CREATE VIEW v_repo_summary AS
+SELECT
+  r.repo_name,
+  r.repo_path,
+  r.last_accessed_at,
+  COUNT(DISTINCT f.feature_slug) as feature_count,
+  COUNT(DISTINCT t.task_id) as total_tasks,
+  SUM(CASE WHEN t.status = 'Done' THEN 1 ELSE 0 END) as completed_tasks
+FROM repos r
+LEFT JOIN features f ON r.repo_name = f.repo_name
+LEFT JOIN tasks t ON f.repo_name = t.repo_name AND f.feature_slug = t.feature_slug
+GROUP BY r.repo_name, r.repo_path, r.last_accessed_at;
@@ -0,0 +1,15 @@
+DROP TRIGGER search_tasks_insert;
+DROP TRIGGER search_tasks_update;
+DROP TRIGGER search_tasks_delete;
+DROP TRIGGER search_criteria_insert;
+DROP TRIGGER search_criteria_update;
+DROP TRIGGER search_criteria_delete;
+DROP TRIGGER search_reviews_insert;
+DROP TRIGGER search_reviews_update;
+DROP TRIGGER search_reviews_delete;
+DROP TRIGGER search_transitions_insert;
+DROP TRIGGER search_transitions_delete;
+DROP TRIGGER search_clarifications_insert;
+DROP TRIGGER search_clarifications_update;
+DROP TRIGGER search_clarifications_delete;
+DROP TABLE search_index;
@@ -0,0 +1,134 @@
+-- ============================================================================
+-- Migration 010: Full-Text Search Index
+-- ============================================================================
+-- One FTS5 document per task (title + description), acceptance criterion,
+-- stakeholder review, transition note and clarification. Triggers keep the
+-- index in step with every write, including cascaded deletes. Each document's
+-- rowid is its source row id * 8 + a kind code, so a trigger can find it
+-- without scanning:
+--   1 task, 2 criterion, 3 review, 4 transition, 5 clarification
+-- ============================================================================
+
+CREATE VIRTUAL TABLE search_index USING fts5(
+  text,
+  kind UNINDEXED,
+  repo_name UNINDEXED,
+  feature_slug UNINDEXED,
+  task_id UNINDEXED,
+  role UNINDEXED,
+  tokenize = 'porter unicode61'
+);
+
+-- ----------------------------------------------------------------------------
+-- Tasks
+-- ----------------------------------------------------------------------------
+
+CREATE TRIGGER search_tasks_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id)
+  VALUES (new.id * 8 + 1, new.title || char(10) || new.description, 'task', new.repo_name, new.feature_slug, new.task_id);
+END;
+
+CREATE TRIGGER search_tasks_update AFTER UPDATE OF title, description ON tasks
+WHEN old.title IS NOT new.title OR old.description IS NOT new.description BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 1;
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id)
+  VALUES (new.id * 8 + 1, new.title || char(10) || new.description, 'task', new.repo_name, new.feature_slug, new.task_id);
+END;
+
+CREATE TRIGGER search_tasks_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 1;
+END;
+
+-- ----------------------------------------------------------------------------
+-- Acceptance criteria
+-- ----------------------------------------------------------------------------
+
+CREATE TRIGGER search_criteria_insert AFTER INSERT ON acceptance_criteria BEGIN
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id)
+  VALUES (new.id * 8 + 2, new.criterion, 'criterion', new.repo_name, new.feature_slug, new.task_id);
+END;
+
+CREATE TRIGGER search_criteria_update AFTER UPDATE OF criterion ON acceptance_criteria
+WHEN old.criterion IS NOT new.criterion BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 2;
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id)
+  VALUES (new.id * 8 + 2, new.criterion, 'criterion', new.repo_name, new.feature_slug, new.task_id);
+END;
+
+CREATE TRIGGER search_criteria_delete AFTER DELETE ON acceptance_criteria BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 2;
+END;
+
+-- ----------------------------------------------------------------------------
+-- Stakeholder reviews
+-- ----------------------------------------------------------------------------
+
+CREATE TRIGGER search_reviews_insert AFTER INSERT ON stakeholder_reviews BEGIN
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id, role)
+  VALUES (new.id * 8 + 3, new.notes, 'review', new.repo_name, new.feature_slug, new.task_id, new.stakeholder);
+END;
+
+CREATE TRIGGER search_reviews_update AFTER UPDATE OF notes ON stakeholder_reviews
+WHEN old.notes IS NOT new.notes BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 3;
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id, role)
+  VALUES (new.id * 8 + 3, new.notes, 'review', new.repo_name, new.feature_slug, new.task_id, new.stakeholder);
+END;
+
+CREATE TRIGGER search_reviews_delete AFTER DELETE ON stakeholder_reviews BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 3;
+END;
+
+-- ----------------------------------------------------------------------------
+-- Transition notes (transitions without notes are not indexed)
+-- ----------------------------------------------------------------------------
+
+CREATE TRIGGER search_transitions_insert AFTER INSERT ON transitions
+WHEN new.notes IS NOT NULL AND new.notes <> '' BEGIN
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id, role)
+  VALUES (new.id * 8 + 4, new.notes, 'transition', new.repo_name, new.feature_slug, new.task_id, COALESCE(new.approver, new.actor));
+END;
+
+CREATE TRIGGER search_transitions_delete AFTER DELETE ON transitions BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 4;
+END;
+
+-- ----------------------------------------------------------------------------
+-- Clarifications (question and answer)
+-- ----------------------------------------------------------------------------
+
+CREATE TRIGGER search_clarifications_insert AFTER INSERT ON feature_clarifications BEGIN
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug)
+  VALUES (new.id * 8 + 5, new.question || char(10) || COALESCE(new.answer, ''), 'clarification', new.repo_name, new.feature_slug);
+END;
+
+CREATE TRIGGER search_clarifications_update AFTER UPDATE OF question, answer ON feature_clarifications
+WHEN old.question IS NOT new.question OR old.answer IS NOT new.answer BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 5;
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug)
+  VALUES (new.id * 8 + 5, new.question || char(10) || COALESCE(new.answer, ''), 'clarification', new.repo_name, new.feature_slug);
+END;
+
+CREATE TRIGGER search_clarifications_delete AFTER DELETE ON feature_clarifications BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 5;
+END;
+
+-- ----------------------------------------------------------------------------
+-- Index existing rows
+-- ----------------------------------------------------------------------------
+
+INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id)
+SELECT id * 8 + 1, title || char(10) || description, 'task', repo_name, feature_slug, task_id FROM tasks;
+
+INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id)
+SELECT id * 8 + 2, criterion, 'criterion', repo_name, feature_slug, task_id FROM acceptance_criteria;
+
+INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id, role)
+SELECT id * 8 + 3, notes, 'review', repo_name, feature_slug, task_id, stakeholder FROM stakeholder_reviews;
+
+INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id, role)
+SELECT id * 8 + 4, notes, 'transition', repo_name, feature_slug, task_id, COALESCE(approver, actor)
+FROM transitions WHERE notes IS NOT NULL AND notes <> '';
+
+INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug)
+SELECT id * 8 + 5, question || char(10) || COALESCE(answer, ''), 'clarification', repo_name, feature_slug FROM feature_clarifications;
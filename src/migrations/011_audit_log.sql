@@ -0,0 +1,35 @@
+-- ============================================================================
+-- Migration 011: Audit Log
+-- ============================================================================
+-- One row per change to a task, feature, repo, role, pipeline, setting, queue
+-- item or feature refinement record. `changes` holds a JSON object of the
+-- changed fields, each as {"before": ..., "after": ...}; creates have null
+-- befores and deletes null afters. Status history stays in `transitions`.
+--
+-- The table is append-only: triggers refuse updates and deletes, and rows have
+-- no foreign keys so they outlive the entities they describe.
+-- ============================================================================
+
+CREATE TABLE audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  repo_name TEXT,
+  feature_slug TEXT,
+  operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+  changes TEXT NOT NULL
+);
+
+CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id);
+CREATE INDEX idx_audit_log_scope ON audit_log(repo_name, feature_slug);
+CREATE INDEX idx_audit_log_actor ON audit_log(actor);
+
+CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+  SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+  SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration 012: Trash
+-- ============================================================================
+-- Deleting a repo, feature or task moves its rows here as a JSON payload in the
+-- repo bundle row format, then removes them from the live tables, so every
+-- read keeps ignoring deleted work. Restoring re-inserts the payload. Items
+-- older than the trashRetentionDays setting are purged.
+-- ============================================================================
+
+CREATE TABLE trash (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('repo', 'feature', 'task')),
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT,
+  task_id TEXT,
+  label TEXT NOT NULL,
+  deleted_at TEXT NOT NULL,
+  deleted_by TEXT NOT NULL,
+  payload TEXT NOT NULL
+);
+
+CREATE INDEX idx_trash_deleted_at ON trash(deleted_at);
+CREATE INDEX idx_trash_repo ON trash(repo_name);
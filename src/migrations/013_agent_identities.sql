@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Migration 013: Agent Identities
+-- ============================================================================
+-- Named agents that MCP sessions authenticate as, each with the roles it may
+-- act in. Only the SHA-256 of an agent's bearer token is stored.
+-- ============================================================================
+
+CREATE TABLE agent_identities (
+  name TEXT PRIMARY KEY,
+  roles TEXT NOT NULL, -- JSON array of role ids
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL
+);
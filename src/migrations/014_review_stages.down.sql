@@ -0,0 +1,39 @@
+-- Reviews of a role's later stages have no place in the old key and are dropped
+CREATE TABLE stakeholder_reviews_old (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  repo_name TEXT NOT NULL,
+  feature_slug TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  stakeholder TEXT NOT NULL,
+  approved INTEGER NOT NULL,
+  notes TEXT NOT NULL,
+  additional_data TEXT, -- JSON for role-specific fields
+  content_hash TEXT,
+  superseded_at TEXT,
+  UNIQUE(repo_name, feature_slug, task_id, stakeholder),
+  FOREIGN KEY(repo_name, feature_slug, task_id) REFERENCES tasks(repo_name, feature_slug, task_id) ON DELETE CASCADE
+);
+INSERT INTO stakeholder_reviews_old (id, repo_name, feature_slug, task_id, stakeholder, approved, notes, additional_data, content_hash, superseded_at)
+SELECT id, repo_name, feature_slug, task_id, stakeholder, approved, notes, additional_data, content_hash, superseded_at
+FROM stakeholder_reviews WHERE stage = '';
+DELETE FROM search_index WHERE kind = 'review' AND rowid IN (SELECT id * 8 + 3 FROM stakeholder_reviews WHERE stage <> '');
+
+DROP TABLE stakeholder_reviews;
+ALTER TABLE stakeholder_reviews_old RENAME TO stakeholder_reviews;
+CREATE INDEX idx_stakeholder_reviews_repo_task ON stakeholder_reviews(repo_name, feature_slug, task_id);
+
+CREATE TRIGGER search_reviews_insert AFTER INSERT ON stakeholder_reviews BEGIN
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id, role)
+  VALUES (new.id * 8 + 3, new.notes, 'review', new.repo_name, new.feature_slug, new.task_id, new.stakeholder);
+END;
+
+CREATE TRIGGER search_reviews_update AFTER UPDATE OF notes ON stakeholder_reviews
+WHEN old.notes IS NOT new.notes BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 3;
+  INSERT INTO search_index (rowid, text, kind, repo_name, feature_slug, task_id, role)
+  VALUES (new.id * 8 + 3, new.notes, 'review', new.repo_name, new.feature_slug, new.task_id, new.stakeholder);
+END;
+
+CREATE TRIGGER search_reviews_delete AFTER DELETE ON stakeholder_reviews BEGIN
+  DELETE FROM search_index WHERE rowid = old.id * 8 + 3;
+END;
@@ -0,0 +1,67 @@
+-- Marked rows would come back to life without deleted_at, so the trash is
+-- emptied first: tasks and features below a marked row are marked too
+DELETE FROM trash;
+
+DELETE FROM transitions WHERE (repo_name, feature_slug, task_id) IN (SELECT repo_name, feature_slug, task_id FROM tasks WHERE deleted_at IS NOT NULL);
+DELETE FROM acceptance_criteria WHERE (repo_name, feature_slug, task_id) IN (SELECT repo_name, feature_slug, task_id FROM tasks WHERE deleted_at IS NOT NULL);
+DELETE FROM test_scenarios WHERE (repo_name, feature_slug, task_id) IN (SELECT repo_name, feature_slug, task_id FROM tasks WHERE deleted_at IS NOT NULL);
+DELETE FROM stakeholder_reviews WHERE (repo_name, feature_slug, task_id) IN (SELECT repo_name, feature_slug, task_id FROM tasks WHERE deleted_at IS NOT NULL);
+DELETE FROM tasks WHERE deleted_at IS NOT NULL;
+
+DELETE FROM feature_refinement_steps WHERE (repo_name, feature_slug) IN (SELECT repo_name, feature_slug FROM features WHERE deleted_at IS NOT NULL);
+DELETE FROM feature_acceptance_criteria WHERE (repo_name, feature_slug) IN (SELECT repo_name, feature_slug FROM features WHERE deleted_at IS NOT NULL);
+DELETE FROM feature_test_scenarios WHERE (repo_name, feature_slug) IN (SELECT repo_name, feature_slug FROM features WHERE deleted_at IS NOT NULL);
+DELETE FROM feature_clarifications WHERE (repo_name, feature_slug) IN (SELECT repo_name, feature_slug FROM features WHERE deleted_at IS NOT NULL);
+DELETE FROM feature_attachments WHERE (repo_name, feature_slug) IN (SELECT repo_name, feature_slug FROM features WHERE deleted_at IS NOT NULL);
+DELETE FROM workflow_checkpoints WHERE (repo_name, feature_slug) IN (SELECT repo_name, feature_slug FROM features WHERE deleted_at IS NOT NULL);
+DELETE FROM features WHERE deleted_at IS NOT NULL;
+
+DELETE FROM workflow_definitions WHERE repo_name IN (SELECT repo_name FROM repos WHERE deleted_at IS NOT NULL);
+DELETE FROM settings WHERE key IN (
+  SELECT prefix || ':' || repo_name FROM repos, (SELECT 'reviewCompletenessMode' AS prefix UNION ALL SELECT 'staleApprovalPolicy' UNION ALL SELECT 'separatedRoles')
+  WHERE deleted_at IS NOT NULL
+);
+DELETE FROM repos WHERE deleted_at IS NOT NULL;
+
+DROP VIEW v_feature_refinement_progress;
+DROP VIEW v_task_status_summary;
+DROP VIEW v_repo_summary;
+
+ALTER TABLE repos DROP COLUMN deleted_at;
+ALTER TABLE features DROP COLUMN deleted_at;
+ALTER TABLE tasks DROP COLUMN deleted_at;
+ALTER TABLE trash ADD COLUMN payload TEXT NOT NULL DEFAULT '{}';
+
+CREATE VIEW v_feature_refinement_progress AS
+SELECT
+  f.repo_name,
+  f.feature_slug,
+  f.feature_name,
+  COUNT(frs.id) as total_steps,
+  SUM(CASE WHEN frs.completed = 1 THEN 1 ELSE 0 END) as completed_steps,
+  ROUND(100.0 * SUM(CASE WHEN frs.completed = 1 THEN 1 ELSE 0 END) / NULLIF(COUNT(frs.id), 0), 2) as progress_percentage
+FROM features f
+LEFT JOIN feature_refinement_steps frs ON f.repo_name = frs.repo_name AND f.feature_slug = frs.feature_slug
+GROUP BY f.repo_name, f.feature_slug, f.feature_name;
+
+CREATE VIEW v_task_status_summary AS
+SELECT
+  t.repo_name,
+  t.feature_slug,
+  t.status,
+  COUNT(*) as task_count
+FROM tasks t
+GROUP BY t.repo_name, t.feature_slug, t.status;
+
+CREATE VIEW v_repo_summary AS
+SELECT
+  r.repo_name,
+  r.repo_path,
+  r.last_accessed_at,
+  COUNT(DISTINCT f.feature_slug) as feature_count,
+  COUNT(DISTINCT t.task_id) as total_tasks,
+  SUM(CASE WHEN t.status = 'Done' THEN 1 ELSE 0 END) as completed_tasks
+FROM repos r
+LEFT JOIN features f ON r.repo_name = f.repo_name
+LEFT JOIN tasks t ON f.repo_name = t.repo_name AND f.feature_slug = t.feature_slug
+GROUP BY r.repo_name, r.repo_path, r.last_accessed_at;
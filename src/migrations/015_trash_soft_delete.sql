@@ -0,0 +1,61 @@
+-- ============================================================================
+-- Migration 015: Soft-Deleted Trash
+-- ============================================================================
+-- Deleted repos, features and tasks stay in their tables with deleted_at set,
+-- instead of being copied into a trash payload and removed. Deleting marks the
+-- entity and everything below it that is still live; reads skip marked rows.
+-- A trash row now only indexes the deleted entity: restoring clears the marks
+-- it covers, and purging removes the marked rows for good.
+--
+-- Items trashed before this migration hold their rows only in the payload and
+-- cannot become marked rows, so they are dropped with it.
+-- ============================================================================
+
+ALTER TABLE repos ADD COLUMN deleted_at TEXT;
+ALTER TABLE features ADD COLUMN deleted_at TEXT;
+ALTER TABLE tasks ADD COLUMN deleted_at TEXT;
+
+DELETE FROM trash;
+ALTER TABLE trash DROP COLUMN payload;
+
+-- The summaries count live rows only
+DROP VIEW v_feature_refinement_progress;
+DROP VIEW v_task_status_summary;
+DROP VIEW v_repo_summary;
+
+CREATE VIEW v_feature_refinement_progress AS
+SELECT
+  f.repo_name,
+  f.feature_slug,
+  f.feature_name,
+  COUNT(frs.id) as total_steps,
+  SUM(CASE WHEN frs.completed = 1 THEN 1 ELSE 0 END) as completed_steps,
+  ROUND(100.0 * SUM(CASE WHEN frs.completed = 1 THEN 1 ELSE 0 END) / NULLIF(COUNT(frs.id), 0), 2) as progress_percentage
+FROM features f
+LEFT JOIN feature_refinement_steps frs ON f.repo_name = frs.repo_name AND f.feature_slug = frs.feature_slug
+WHERE f.deleted_at IS NULL
+GROUP BY f.repo_name, f.feature_slug, f.feature_name;
+
+CREATE VIEW v_task_status_summary AS
+SELECT
+  t.repo_name,
+  t.feature_slug,
+  t.status,
+  COUNT(*) as task_count
+FROM tasks t
+WHERE t.deleted_at IS NULL
+GROUP BY t.repo_name, t.feature_slug, t.status;
+
+CREATE VIEW v_repo_summary AS
+SELECT
+  r.repo_name,
+  r.repo_path,
+  r.last_accessed_at,
+  COUNT(DISTINCT f.feature_slug) as feature_count,
+  COUNT(DISTINCT t.task_id) as total_tasks,
+  SUM(CASE WHEN t.status = 'Done' THEN 1 ELSE 0 END) as completed_tasks
+FROM repos r
+LEFT JOIN features f ON r.repo_name = f.repo_name AND f.deleted_at IS NULL
+LEFT JOIN tasks t ON f.repo_name = t.repo_name AND f.feature_slug = t.feature_slug AND t.deleted_at IS NULL
+WHERE r.deleted_at IS NULL
+GROUP BY r.repo_name, r.repo_path, r.last_accessed_at;
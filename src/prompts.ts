@@ -0,0 +1,74 @@
+/**
+ * MCP prompts - Pipeline roles as prompts
+ *
+ * Every role, built-in or registered with register_pipeline_role, is a prompt
+ * named by its roleId that takes repoName, featureSlug and taskId. Getting it
+ * returns the role's system prompt with the task context get_next_step adds,
+ * so clients can offer a slash command per role. Registering or deleting a
+ * role sends notifications/prompts/list_changed.
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+  PromptArgument,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AIConductor } from './AIConductor.js';
+import { onAuditEntry } from './auditLog.js';
+
+const PROMPT_ARGUMENTS: PromptArgument[] = [
+  { name: 'repoName', description: 'Repository name', required: true },
+  { name: 'featureSlug', description: 'Feature slug', required: true },
+  { name: 'taskId', description: 'Task ID (e.g. T03)', required: true },
+];
+
+function listPrompts(reviewManager: AIConductor): Prompt[] {
+  return reviewManager.getAllRolePrompts().map((role) => ({
+    name: role.roleId,
+    title: role.displayName,
+    description: `${role.displayName} ${role.phase === 'review' ? 'review' : 'work'} of a task, with the task's context`,
+    arguments: PROMPT_ARGUMENTS,
+  }));
+}
+
+async function getPrompt(reviewManager: AIConductor, name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+  if (!reviewManager.hasPipelineRole(name)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const missing = PROMPT_ARGUMENTS.filter((argument) => !args[argument.name]).map((argument) => argument.name);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing arguments for ${name}: ${missing.join(', ')}`);
+  }
+
+  const { repoName, featureSlug, taskId } = args;
+  const result = await reviewManager.getRolePromptForTask({ repoName, featureSlug, taskId, roleId: name });
+  if (!result.success) {
+    throw new McpError(ErrorCode.InvalidParams, result.error ?? `Could not build prompt ${name}`);
+  }
+  return {
+    description: `${name} prompt for ${repoName}/${featureSlug}/${taskId}`,
+    messages: [{ role: 'user', content: { type: 'text', text: result.prompt! } }],
+  };
+}
+
+/**
+ * Serve the pipeline roles as prompts on server, which must declare the
+ * `prompts: { listChanged }` capability. Returns a function that stops the
+ * list change notifications.
+ */
+export function registerPrompts(server: Server, reviewManager: AIConductor): () => void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: listPrompts(reviewManager) }));
+  server.setRequestHandler(GetPromptRequestSchema, (request) =>
+    getPrompt(reviewManager, request.params.name, request.params.arguments)
+  );
+
+  return onAuditEntry((entry) => {
+    if (entry.entityType === 'role' && entry.operation !== 'update') {
+      server.sendPromptListChanged().catch(() => {});
+    }
+  });
+}
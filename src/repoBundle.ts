@@ -0,0 +1,260 @@
+/**
+ * Repo bundles - Portable JSON exports of one repository's work
+ *
+ * A bundle holds the repo row, its custom review pipeline and, per feature,
+ * the rows of every feature- and task-level table. Rows are kept as stored,
+ * minus their ids and the repo/feature keys, so an import can place them under
+ * another repo name or feature slug.
+ *
+ * The column lists below are the bundle format: a schema change that affects
+ * them bumps REPO_BUNDLE_VERSION, and upgradeRepoBundle brings older bundles up
+ * to date. Version 2 added the stage of each stakeholder review.
+ */
+import Ajv from 'ajv';
+import { RepoBundle, RepoBundleFeature } from './types.js';
+
+export const REPO_BUNDLE_FORMAT = 'aiconductor-repo-bundle';
+export const REPO_BUNDLE_VERSION = 2;
+
+/** `?` marks a nullable column */
+type BundleColumn = 'text' | 'text?' | 'integer' | 'integer?' | 'real?';
+
+export interface BundleTable {
+  key: Exclude<keyof RepoBundleFeature, 'feature'>;
+  table: string;
+  columns: Record<string, BundleColumn>;
+}
+
+export const REPO_COLUMNS: Record<string, BundleColumn> = {
+  repo_name: 'text',
+  repo_path: 'text',
+  repo_url: 'text?',
+  default_branch: 'text?',
+  created_at: 'text',
+  metadata: 'text?',
+};
+
+export const FEATURE_COLUMNS: Record<string, BundleColumn> = {
+  feature_slug: 'text',
+  feature_name: 'text',
+  description: 'text?',
+  created_at: 'text',
+  last_modified: 'text',
+};
+
+/** Tables below a feature, parents before children */
+export const BUNDLE_TABLES: BundleTable[] = [
+  {
+    key: 'tasks',
+    table: 'tasks',
+    columns: {
+      task_id: 'text',
+      title: 'text',
+      description: 'text',
+      status: 'text',
+      assigned_to: 'text?',
+      estimated_hours: 'real?',
+      order_of_execution: 'integer',
+      tags: 'text?',
+      dependencies: 'text?',
+      out_of_scope: 'text?',
+      parked: 'text?',
+      review_conditions: 'text?',
+      version: 'integer',
+    },
+  },
+  {
+    key: 'transitions',
+    table: 'transitions',
+    columns: {
+      task_id: 'text',
+      from_status: 'text',
+      to_status: 'text',
+      approver: 'text?',
+      actor: 'text?',
+      timestamp: 'text',
+      notes: 'text?',
+      additional_data: 'text?',
+    },
+  },
+  {
+    key: 'stakeholderReviews',
+    table: 'stakeholder_reviews',
+    columns: {
+      task_id: 'text',
+      stakeholder: 'text',
+      stage: 'text',
+      approved: 'integer',
+      notes: 'text',
+      additional_data: 'text?',
+      content_hash: 'text?',
+      superseded_at: 'text?',
+    },
+  },
+  {
+    key: 'acceptanceCriteria',
+    table: 'acceptance_criteria',
+    columns: {
+      task_id: 'text',
+      criterion_id: 'text',
+      criterion: 'text',
+      priority: 'text',
+      verified: 'integer',
+    },
+  },
+  {
+    key: 'testScenarios',
+    table: 'test_scenarios',
+    columns: {
+      task_id: 'text',
+      scenario_id: 'text',
+      title: 'text',
+      description: 'text',
+      manual_only: 'integer',
+      priority: 'text',
+    },
+  },
+  {
+    key: 'refinementSteps',
+    table: 'feature_refinement_steps',
+    columns: {
+      step_number: 'integer',
+      step_name: 'text',
+      completed: 'integer?',
+      completed_at: 'text?',
+      summary: 'text?',
+      data: 'text?',
+    },
+  },
+  {
+    key: 'featureAcceptanceCriteria',
+    table: 'feature_acceptance_criteria',
+    columns: {
+      criterion_id: 'text',
+      criterion: 'text',
+      priority: 'text',
+      source: 'text?',
+      created_at: 'text',
+    },
+  },
+  {
+    key: 'featureTestScenarios',
+    table: 'feature_test_scenarios',
+    columns: {
+      scenario_id: 'text',
+      title: 'text',
+      description: 'text',
+      priority: 'text',
+      type: 'text?',
+      preconditions: 'text?',
+      expected_result: 'text?',
+      created_at: 'text',
+    },
+  },
+  {
+    key: 'clarifications',
+    table: 'feature_clarifications',
+    columns: {
+      question: 'text',
+      answer: 'text?',
+      asked_at: 'text',
+      answered_at: 'text?',
+      asked_by: 'text?',
+    },
+  },
+  {
+    key: 'attachments',
+    table: 'feature_attachments',
+    columns: {
+      attachment_name: 'text',
+      attachment_type: 'text',
+      file_path: 'text?',
+      file_url: 'text?',
+      analysis_summary: 'text?',
+      extracted_data: 'text?',
+      analyzed_at: 'text',
+    },
+  },
+  {
+    key: 'checkpoints',
+    table: 'workflow_checkpoints',
+    columns: {
+      description: 'text',
+      saved_at: 'text',
+      snapshot: 'text',
+    },
+  },
+];
+
+const JSON_TYPES: Record<string, string> = { text: 'string', integer: 'integer', real: 'number' };
+
+function rowSchema(columns: Record<string, BundleColumn>) {
+  const properties: Record<string, { type: string | string[] }> = {};
+  for (const [name, column] of Object.entries(columns)) {
+    const type = JSON_TYPES[column.replace('?', '')];
+    properties[name] = { type: column.endsWith('?') ? [type, 'null'] : type };
+  }
+  return { type: 'object', properties, required: Object.keys(columns), additionalProperties: false };
+}
+
+const REPO_BUNDLE_SCHEMA = {
+  type: 'object',
+  properties: {
+    format: { const: REPO_BUNDLE_FORMAT },
+    version: { const: REPO_BUNDLE_VERSION },
+    exportedAt: { type: 'string' },
+    repo: rowSchema(REPO_COLUMNS),
+    workflowStages: { type: 'array', items: { type: 'object' } },
+    features: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          feature: rowSchema(FEATURE_COLUMNS),
+          ...Object.fromEntries(
+            BUNDLE_TABLES.map(({ key, columns }) => [key, { type: 'array', items: rowSchema(columns) }])
+          ),
+        },
+        required: ['feature', ...BUNDLE_TABLES.map(({ key }) => key)],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['format', 'version', 'exportedAt', 'repo', 'features'],
+  additionalProperties: false,
+};
+
+const validate = new Ajv({ allErrors: true }).compile<RepoBundle>(REPO_BUNDLE_SCHEMA);
+
+/**
+ * Bring a bundle written in an older format version up to the current one.
+ * Anything else is returned as it is, for validateRepoBundle to judge.
+ */
+export function upgradeRepoBundle(bundle: unknown): unknown {
+  const old = bundle as { version?: unknown; features?: unknown } | null;
+  if (old?.version !== 1 || !Array.isArray(old.features)) {
+    return bundle;
+  }
+  // Version 1 predates per-stage reviews: every review is of the role's first stage
+  const features = old.features.map((feature: { stakeholderReviews?: unknown }) =>
+    Array.isArray(feature?.stakeholderReviews)
+      ? { ...feature, stakeholderReviews: feature.stakeholderReviews.map((row: object) => ({ ...row, stage: '' })) }
+      : feature
+  );
+  return { ...old, version: 2, features };
+}
+
+/**
+ * Check a parsed bundle against the bundle schema. Returns one message per
+ * violation; an empty list means the bundle can be imported.
+ */
+export function validateRepoBundle(bundle: unknown): string[] {
+  const version = (bundle as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > REPO_BUNDLE_VERSION) {
+    return [`Bundle version ${version} is newer than this server supports (${REPO_BUNDLE_VERSION})`];
+  }
+  if (validate(bundle)) {
+    return [];
+  }
+  return (validate.errors ?? []).map((error) => `${error.instancePath || '/'} ${error.message}`);
+}
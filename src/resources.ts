@@ -0,0 +1,180 @@
+/**
+ * MCP resources - Features and tasks as subscribable context
+ *
+ * `aiconductor://{repoName}/{featureSlug}` is a feature with all its tasks and
+ * `aiconductor://{repoName}/{featureSlug}/{taskId}` a single task, both read as
+ * JSON. A client that subscribes to a URI gets notifications/resources/updated
+ * whenever a change touches it; creating or deleting a feature or task also
+ * sends notifications/resources/list_changed.
+ *
+ * Changes are picked up from the audit entries written in this process, which
+ * covers tool calls and the dashboard started alongside the server. Writes
+ * made by another process on the same database are not seen.
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AIConductor } from './AIConductor.js';
+import { onAuditEntry } from './auditLog.js';
+import { AuditEntry } from './types.js';
+
+const SCHEME = 'aiconductor://';
+const MIME_TYPE = 'application/json';
+
+/** JSON-RPC error code the MCP specification gives an unknown resource */
+const RESOURCE_NOT_FOUND = -32002;
+
+export interface ResourceKey {
+  repoName: string;
+  featureSlug: string;
+  /** Absent for a feature resource */
+  taskId?: string;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${SCHEME}{repoName}/{featureSlug}`,
+    name: 'feature',
+    description: 'A feature with all its tasks',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${SCHEME}{repoName}/{featureSlug}/{taskId}`,
+    name: 'task',
+    description: 'A task with its acceptance criteria, test scenarios, reviews and transitions',
+    mimeType: MIME_TYPE,
+  },
+];
+
+export function resourceUri({ repoName, featureSlug, taskId }: ResourceKey): string {
+  return SCHEME + [repoName, featureSlug, ...(taskId ? [taskId] : [])].map(encodeURIComponent).join('/');
+}
+
+export function parseResourceUri(uri: string): ResourceKey | undefined {
+  if (!uri.startsWith(SCHEME)) return undefined;
+  const parts = uri.slice(SCHEME.length).split('/');
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => part === '')) return undefined;
+  try {
+    const [repoName, featureSlug, taskId] = parts.map(decodeURIComponent);
+    return { repoName, featureSlug, ...(taskId ? { taskId } : {}) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The resources an audit entry touches. A task change updates the task and
+ * its feature; creates and deletes change the resource list too.
+ */
+export function changedResources(entry: AuditEntry): { uris: string[]; listChanged: boolean } | undefined {
+  const listChanged = entry.operation !== 'update';
+  if (entry.entityType === 'repo') {
+    return listChanged ? { uris: [], listChanged } : undefined;
+  }
+  if (!entry.repoName || !entry.featureSlug) return undefined;
+
+  const feature = resourceUri({ repoName: entry.repoName, featureSlug: entry.featureSlug });
+  switch (entry.entityType) {
+    case 'feature':
+      return { uris: [feature], listChanged };
+    case 'task':
+      return { uris: [feature, resourceUri({ repoName: entry.repoName, featureSlug: entry.featureSlug, taskId: entry.entityId })], listChanged };
+    default:
+      return undefined;
+  }
+}
+
+async function listResources(reviewManager: AIConductor): Promise<Resource[]> {
+  const resources: Resource[] = [];
+  for (const { repoName } of (await reviewManager.listRepos()).repos ?? []) {
+    for (const { featureSlug } of (await reviewManager.listFeatures(repoName)).features) {
+      const { feature } = await reviewManager.getFeature(repoName, featureSlug);
+      if (!feature) continue;
+      resources.push({
+        uri: resourceUri({ repoName, featureSlug }),
+        name: `${repoName}/${featureSlug}`,
+        title: feature.featureName,
+        description: `${feature.tasks.length} task(s)`,
+        mimeType: MIME_TYPE,
+      });
+      for (const task of feature.tasks) {
+        resources.push({
+          uri: resourceUri({ repoName, featureSlug, taskId: task.taskId }),
+          name: `${repoName}/${featureSlug}/${task.taskId}`,
+          title: task.title,
+          description: task.status,
+          mimeType: MIME_TYPE,
+        });
+      }
+    }
+  }
+  return resources;
+}
+
+async function readResource(reviewManager: AIConductor, uri: string): Promise<ReadResourceResult> {
+  const key = parseResourceUri(uri);
+  const feature = key && (await reviewManager.getFeature(key.repoName, key.featureSlug)).feature;
+  const content = key?.taskId ? feature?.tasks.find((task) => task.taskId === key.taskId) : feature && { repoName: key!.repoName, ...feature };
+  if (!content) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+  return { contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(content, null, 2) }] };
+}
+
+/**
+ * Serve features and tasks as resources on server, which must declare the
+ * `resources: { subscribe, listChanged }` capability. Returns a function that
+ * stops the change notifications.
+ */
+export function registerResources(server: Server, reviewManager: AIConductor): () => void {
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: await listResources(reviewManager) }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+  server.setRequestHandler(ReadResourceRequestSchema, (request) => readResource(reviewManager, request.params.uri));
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Saving a feature audits every task it touches; those entries go out as one round of notifications
+  let pending: { uris: Set<string>; listChanged: boolean } | undefined;
+  const flush = () => {
+    const { uris, listChanged } = pending!;
+    pending = undefined;
+    for (const uri of uris) {
+      if (subscriptions.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch(() => {});
+      }
+    }
+    if (listChanged) {
+      server.sendResourceListChanged().catch(() => {});
+    }
+  };
+
+  return onAuditEntry((entry) => {
+    const changed = changedResources(entry);
+    if (!changed) return;
+    if (!pending) {
+      pending = { uris: new Set(), listChanged: false };
+      setImmediate(flush);
+    }
+    for (const uri of changed.uris) {
+      pending.uris.add(uri);
+    }
+    pending.listChanged ||= changed.listChanged;
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Hash of the task content stakeholders approve. Each review stores the hash
+ * it was given against, so an edit made after approval can be detected.
+ */
+import { createHash } from 'crypto';
+import { Task } from './types.js';
+
+/**
+ * Hash the reviewed parts of a task: description, acceptance criteria and scope.
+ * Verification state is left out; checking off a criterion is not an edit.
+ */
+export function computeReviewedContentHash(
+  task: Pick<Task, 'description' | 'acceptanceCriteria' | 'outOfScope'>
+): string {
+  const content = {
+    description: task.description,
+    acceptanceCriteria: (task.acceptanceCriteria || []).map((c) => ({
+      id: c.id,
+      criterion: c.criterion,
+      priority: c.priority,
+    })),
+    outOfScope: task.outOfScope || [],
+  };
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
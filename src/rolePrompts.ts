@@ -2,7 +2,7 @@
  * Role system prompts for the pipeline orchestrator.
  * Each role has a system prompt, focus areas, research instructions, and required output fields.
  */
-import { PipelineRole, PipelinePhase } from './types.js';
+import { BuiltInPipelineRole, PipelinePhase } from './types.js';
 
 export interface RolePromptConfig {
   systemPrompt: string;
@@ -12,7 +12,37 @@ export interface RolePromptConfig {
   phase: PipelinePhase;
 }
 
-export const ROLE_SYSTEM_PROMPTS: Record<PipelineRole, RolePromptConfig> = {
+/** A role as stored in the role_prompts table, built-in or user-defined. */
+export interface PipelineRoleRecord extends RolePromptConfig {
+  roleId: string;
+  displayName: string;
+  isBuiltIn: boolean;
+  isCustom: boolean;
+  updatedAt: string;
+}
+
+export interface RegisterPipelineRoleInput extends Partial<Pick<RolePromptConfig, 'focusAreas' | 'researchInstructions' | 'requiredOutputFields'>> {
+  roleId: string;
+  displayName: string;
+  systemPrompt: string;
+  phase: PipelinePhase;
+}
+
+export const BUILT_IN_ROLE_NAMES: Record<BuiltInPipelineRole, string> = {
+  productDirector: 'Product Director',
+  architect: 'Architect',
+  uiUxExpert: 'UI/UX Expert',
+  securityOfficer: 'Security Officer',
+  developer: 'Developer',
+  codeReviewer: 'Code Reviewer',
+  qa: 'QA Engineer',
+};
+
+export function isBuiltInRole(roleId: string): roleId is BuiltInPipelineRole {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_ROLE_NAMES, roleId);
+}
+
+export const ROLE_SYSTEM_PROMPTS: Record<BuiltInPipelineRole, RolePromptConfig> = {
   productDirector: {
     systemPrompt: `You are a Product Director reviewing a feature task. Your job is to evaluate this task from a product and market perspective before it proceeds to technical review.
 
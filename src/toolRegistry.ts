@@ -0,0 +1,97 @@
+/**
+ * Tool registry - MCP tool definitions, argument validation and dispatch
+ *
+ * Each tool declares its JSON Schema and a handler typed by the arguments that
+ * schema admits. Arguments are checked with ajv before the handler runs, so a
+ * call missing `taskId` is answered with an error naming `taskId` instead of
+ * failing somewhere inside AIConductor. Handler results and thrown errors are
+ * wrapped into MCP tool results here rather than in every handler.
+ */
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type ToolInputSchema = Tool['inputSchema'];
+
+export interface ToolDefinition<TArgs = Record<string, unknown>> {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  /** Called with arguments that passed inputSchema; the result is returned to the client as JSON */
+  handler: (args: TArgs) => unknown;
+}
+
+export interface InvalidArgument {
+  /** Dotted path of the argument, e.g. `updates.0.criterionId` */
+  field: string;
+  message: string;
+}
+
+/**
+ * Declare a tool. TArgs is what the handler receives once inputSchema has
+ * validated the call, so it must not promise more than the schema checks.
+ */
+export function defineTool<TArgs>(tool: ToolDefinition<TArgs>): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+function invalidArgument(error: ErrorObject): InvalidArgument {
+  const path = error.instancePath.split('/').slice(1);
+  if (error.keyword === 'required') {
+    return { field: [...path, error.params.missingProperty].join('.'), message: 'is required' };
+  }
+  const message = error.keyword === 'enum'
+    ? `must be one of ${(error.params.allowedValues as unknown[]).map((value) => JSON.stringify(value)).join(', ')}`
+    : error.message ?? 'is invalid';
+  return { field: path.join('.') || 'arguments', message };
+}
+
+function jsonResult(value: unknown, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(value, null, 2) }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, { definition: ToolDefinition; validate: ValidateFunction }>();
+
+  constructor(definitions: ToolDefinition[]) {
+    const ajv = new Ajv({ allErrors: true });
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Duplicate tool: ${definition.name}`);
+      }
+      this.tools.set(definition.name, { definition, validate: ajv.compile(definition.inputSchema) });
+    }
+  }
+
+  /** Tool listing for tools/list */
+  list(): Tool[] {
+    return [...this.tools.values()].map(({ definition: { name, description, inputSchema } }) => ({ name, description, inputSchema }));
+  }
+
+  /**
+   * Validate the arguments and run the tool. Unknown tools, invalid arguments
+   * and handler errors come back as error results, never as thrown errors.
+   */
+  async call(name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return jsonResult({ error: `Unknown tool: ${name}` }, true);
+    }
+
+    if (!tool.validate(args)) {
+      const invalidArguments = (tool.validate.errors ?? []).map(invalidArgument);
+      return jsonResult({
+        error: `Invalid arguments for ${name}: ${invalidArguments.map(({ field, message }) => `${field} ${message}`).join('; ')}`,
+        invalidArguments,
+      }, true);
+    }
+
+    try {
+      return jsonResult(await tool.definition.handler(args));
+    } catch (error) {
+      return jsonResult({ error: error instanceof Error ? error.message : String(error) }, true);
+    }
+  }
+}
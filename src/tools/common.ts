@@ -0,0 +1,35 @@
+/**
+ * Schema fragments and helpers shared by the MCP tool definitions
+ */
+import { NON_REVIEW_STATUSES } from '../workflowDefinitions.js';
+
+// Review roles are open-ended (user-defined roles live in the role_prompts table), so tool schemas describe them instead of using an enum
+export const REVIEW_ROLES_HINT = 'productDirector, architect, uiUxExpert, securityOfficer or a user-defined review role (see list_pipeline_roles)';
+
+// Read-modify-write tools are run again when another writer saved the task first.
+// A caller that passed expectedVersion gets the versionConflict back instead.
+const CONFLICT_RETRIES = 3;
+export const conflictRetries = (args: { expectedVersion?: number }) => (args.expectedVersion === undefined ? CONFLICT_RETRIES : 0);
+
+// A TaskStatus: one of the shared statuses or a review stage status (Pending<Stage>) from a workflow definition
+export const TASK_STATUS_SCHEMA = {
+  type: 'string',
+  pattern: `^(Pending.+|${NON_REVIEW_STATUSES.join('|')})$`,
+};
+
+export const EXPECTED_VERSION_SCHEMA = {
+  type: 'number',
+  description:
+    'Task version from get_task_status. The write is refused with versionConflict if the task changed since; omit to let the server retry conflicting writes itself.',
+};
+
+// Task match for conditional workflow stages; every field that is set must match
+export const STAGE_CONDITION_SCHEMA = {
+  type: 'object',
+  properties: {
+    tagsAny: { type: 'array', items: { type: 'string' }, description: 'Task has at least one of these tags' },
+    tagsAll: { type: 'array', items: { type: 'string' }, description: 'Task has all of these tags' },
+    minEstimatedHours: { type: 'number', description: 'Task estimate is at least this many hours' },
+    maxEstimatedHours: { type: 'number', description: 'Task estimate is at most this many hours' },
+  },
+};
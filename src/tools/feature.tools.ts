@@ -0,0 +1,163 @@
+/**
+ * Feature tools - feature CRUD
+ */
+import { AIConductor } from '../AIConductor.js';
+import { CreateFeatureInput, UpdateFeatureInput } from '../types.js';
+import { ToolDefinition, defineTool } from '../toolRegistry.js';
+import { broadcastEvent } from '../broadcast.js';
+
+export function createFeatureTools(reviewManager: AIConductor): ToolDefinition[] {
+  return [
+    defineTool<CreateFeatureInput>({
+      name: 'create_feature',
+      description:
+        'Create a new feature. This is the first step before adding tasks. Creates a feature entry with a slug, display name, and optional description.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'URL-friendly feature slug (e.g., "smart-strangle-engine")',
+          },
+          featureName: {
+            type: 'string',
+            description: 'Human-readable feature name (e.g., "Smart Strangle Engine")',
+          },
+          description: {
+            type: 'string',
+            description: 'Plain-text description of the feature scope and objectives (max 10,000 chars)',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'featureName'],
+      },
+      handler: async (args) => {
+        const result = await reviewManager.createFeature(args);
+
+        // Notify dashboard WebSocket clients
+        broadcastEvent({
+          type: 'feature-changed',
+          action: 'created',
+          repoName: args.repoName || 'default',
+          featureSlug: args.featureSlug,
+          timestamp: Date.now(),
+        }).catch(() => {});
+
+        return result;
+      },
+    }),
+    defineTool<UpdateFeatureInput>({
+      name: 'update_feature',
+      description:
+        'Update an existing feature\'s name and/or description. Use after create_feature to enrich the feature record as refinement progresses.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug to update',
+          },
+          featureName: {
+            type: 'string',
+            description: 'Updated human-readable feature name (optional)',
+          },
+          description: {
+            type: 'string',
+            description: 'Updated plain-text description of the feature scope and objectives (max 10,000 chars)',
+          },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: async (args) => {
+        const result = await reviewManager.updateFeature(args);
+
+        // Notify dashboard WebSocket clients
+        broadcastEvent({
+          type: 'feature-changed',
+          action: 'updated',
+          repoName: args.repoName || 'default',
+          featureSlug: args.featureSlug,
+          timestamp: Date.now(),
+        }).catch(() => {});
+
+        return result;
+      },
+    }),
+    defineTool<{ repoName: string }>({
+      name: 'list_features',
+      description:
+        'List all features in a repository with their task counts and last modified timestamps.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+        },
+        required: ['repoName'],
+      },
+      handler: ({ repoName }) => reviewManager.listFeatures(repoName),
+    }),
+    defineTool<{ repoName: string; featureSlug: string }>({
+      name: 'delete_feature',
+      description:
+        'Move a feature and all its associated tasks, transitions, and reviews to the trash. Restore it with restore_from_trash until it is purged after the trash retention period.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug to delete',
+          },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: async (args) => {
+        const result = await reviewManager.deleteFeature(args.repoName, args.featureSlug);
+
+        // Notify dashboard WebSocket clients
+        broadcastEvent({
+          type: 'feature-changed',
+          action: 'deleted',
+          repoName: args.repoName || 'default',
+          featureSlug: args.featureSlug,
+          timestamp: Date.now(),
+        }).catch(() => {});
+
+        return result;
+      },
+    }),
+    defineTool<{ repoName: string; featureSlug: string }>({
+      name: 'get_feature',
+      description:
+        'Get a complete feature with all its tasks, transitions, acceptance criteria, test scenarios, and stakeholder reviews.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: ({ repoName, featureSlug }) => reviewManager.getFeature(repoName, featureSlug),
+    }),
+  ];
+}
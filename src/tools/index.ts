@@ -0,0 +1,26 @@
+/**
+ * MCP tools, one module per area, in the order tools/list reports them
+ */
+import { AIConductor } from '../AIConductor.js';
+import { ToolDefinition } from '../toolRegistry.js';
+import { createReviewTools } from './review.tools.js';
+import { createTaskTools } from './task.tools.js';
+import { createFeatureTools } from './feature.tools.js';
+import { createRepoTools } from './repo.tools.js';
+import { createRefinementTools } from './refinement.tools.js';
+import { createWorkflowTools } from './workflow.tools.js';
+import { createSearchTools } from './search.tools.js';
+import { createMaintenanceTools } from './maintenance.tools.js';
+
+export function createTools(reviewManager: AIConductor): ToolDefinition[] {
+  return [
+    ...createReviewTools(reviewManager),
+    ...createTaskTools(reviewManager),
+    ...createFeatureTools(reviewManager),
+    ...createRepoTools(reviewManager),
+    ...createRefinementTools(reviewManager),
+    ...createWorkflowTools(reviewManager),
+    ...createSearchTools(reviewManager),
+    ...createMaintenanceTools(reviewManager),
+  ];
+}
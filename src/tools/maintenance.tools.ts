@@ -0,0 +1,115 @@
+/**
+ * Maintenance tools - trash, audit log and integrity check
+ */
+import { AIConductor } from '../AIConductor.js';
+import { AuditLogQuery } from '../types.js';
+import { ToolDefinition, defineTool } from '../toolRegistry.js';
+import { broadcastEvent } from '../broadcast.js';
+
+export function createMaintenanceTools(reviewManager: AIConductor): ToolDefinition[] {
+  return [
+    defineTool<{ repoName?: string }>({
+      name: 'list_trash',
+      description:
+        'List deleted repos, features and tasks still in the trash, newest first, with who deleted them and when they will be purged.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Only items from this repository',
+          },
+        },
+      },
+      handler: ({ repoName }) => reviewManager.listTrash(repoName),
+    }),
+    defineTool<{ trashId: number }>({
+      name: 'restore_from_trash',
+      description:
+        'Restore a deleted repo, feature or task with all its history. Refused if its repo or feature no longer exists, or if something with the same name was created since.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          trashId: {
+            type: 'number',
+            description: 'Trash item ID, from list_trash or the delete result',
+          },
+        },
+        required: ['trashId'],
+      },
+      handler: async ({ trashId }) => {
+        const result = await reviewManager.restoreFromTrash(trashId);
+
+        if (result.success) {
+          const { entityType, repoName, featureSlug } = result.item!;
+          broadcastEvent({
+            type: entityType === 'repo' ? 'repo-changed' : 'feature-changed',
+            action: 'restored',
+            repoName,
+            featureSlug,
+            timestamp: Date.now(),
+          }).catch(() => {});
+        }
+
+        return result;
+      },
+    }),
+    defineTool<AuditLogQuery>({
+      name: 'get_audit_log',
+      description:
+        'Page through the audit log of changes to tasks, features, repos, roles, review pipelines, settings, queue items and feature refinement records, newest first. Each entry has the actor (mcp:<client>, dashboard or system), the entity, the operation (create, update or delete) and the changed fields with their before and after values. Status history is in the task transitions.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          actor: { type: 'string', description: 'Only changes by this actor' },
+          entityType: {
+            type: 'string',
+            enum: ['task', 'feature', 'repo', 'role', 'workflow', 'setting', 'queue_item', 'checkpoint', 'refinement_step', 'feature_criterion', 'feature_scenario', 'clarification', 'attachment'],
+            description: 'Only changes to this kind of entity',
+          },
+          entityId: { type: 'string', description: 'Only changes to this entity (task ID, feature slug, repo name, role ID, setting key, ...)' },
+          repoName: { type: 'string', description: 'Only changes within this repository' },
+          featureSlug: { type: 'string', description: 'Only changes within this feature' },
+          operation: { type: 'string', enum: ['create', 'update', 'delete'], description: 'Only this kind of change' },
+          since: { type: 'string', description: 'Only changes at or after this ISO timestamp' },
+          until: { type: 'string', description: 'Only changes at or before this ISO timestamp' },
+          limit: { type: 'number', description: 'Entries per page, 1-500 (default: 50)' },
+          offset: { type: 'number', description: 'Entries to skip (default: 0)' },
+        },
+      },
+      handler: (args) => reviewManager.getAuditLog(args),
+    }),
+    defineTool<{ repair?: boolean }>({
+      name: 'integrity_check',
+      description:
+        'Scan the database for anomalies and report them by category: rows without a repo, transitions, reviews and criteria whose task is gone, refinement steps and other feature rows whose feature is gone, dependencies on missing task IDs and duplicate criterion IDs. With repair, fixes what it safely can in one transaction; orphaned tasks go to the trash and duplicate criterion IDs are only reported.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repair: {
+            type: 'boolean',
+            description: 'Fix repairable issues (default: false, report only)',
+          },
+        },
+      },
+      handler: async ({ repair }) => {
+        const result = await reviewManager.checkIntegrity({ repair });
+
+        const report = result.report;
+        if (report?.repaired && report.remainingCount! < report.issueCount) {
+          const repoNames = new Set(report.categories.flatMap((c) => c.issues.map((issue) => issue.repoName ?? 'default')));
+          for (const repoName of repoNames) {
+            broadcastEvent({
+              type: 'repo-changed',
+              action: 'repaired',
+              repoName,
+              timestamp: Date.now(),
+            }).catch(() => {});
+          }
+        }
+
+        return result;
+      },
+    }),
+  ];
+}
@@ -0,0 +1,250 @@
+/**
+ * Refinement tools - feature refinement steps, criteria, scenarios, clarifications and reports
+ */
+import { AIConductor } from '../AIConductor.js';
+import { AddAttachmentAnalysisInput, AddClarificationInput, AddFeatureAcceptanceCriteriaInput, AddFeatureTestScenariosInput, GenerateRefinementReportInput, GetRefinementStatusInput, UpdateRefinementStepInput } from '../types.js';
+import { ToolDefinition, defineTool } from '../toolRegistry.js';
+
+export function createRefinementTools(reviewManager: AIConductor): ToolDefinition[] {
+  return [
+    defineTool<UpdateRefinementStepInput>({
+      name: 'update_refinement_step',
+      description:
+        'Update a refinement step for a feature. Used during the 8-step refinement workflow to track progress and store step data.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug',
+          },
+          stepNumber: {
+            type: 'number',
+            description: 'Step number (1-8)',
+          },
+          completed: {
+            type: 'boolean',
+            description: 'Whether the step is completed',
+          },
+          summary: {
+            type: 'string',
+            description: 'Brief summary of what was accomplished in this step',
+          },
+          data: {
+            type: 'object',
+            description: 'Step-specific data as key-value pairs',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'stepNumber', 'completed', 'summary'],
+      },
+      handler: (args) => reviewManager.updateRefinementStep(args),
+    }),
+    defineTool<AddFeatureAcceptanceCriteriaInput>({
+      name: 'add_feature_acceptance_criteria',
+      description:
+        'Add acceptance criteria at the feature level (before tasks are created). Used in Step 4 of refinement workflow.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug',
+          },
+          criteria: {
+            type: 'array',
+            description: 'List of acceptance criteria',
+            items: {
+              type: 'object',
+              properties: {
+                criterionId: { type: 'string', description: 'Criterion ID (e.g., FAC-1)' },
+                criterion: { type: 'string', description: 'The acceptance criterion text' },
+                priority: { type: 'string', enum: ['Must Have', 'Should Have', 'Could Have'] },
+                source: { type: 'string', enum: ['user', 'generated', 'attachment'], description: 'Source of the criterion' },
+              },
+              required: ['criterionId', 'criterion', 'priority'],
+            },
+          },
+        },
+        required: ['repoName', 'featureSlug', 'criteria'],
+      },
+      handler: (args) => reviewManager.addFeatureAcceptanceCriteria(args),
+    }),
+    defineTool<AddFeatureTestScenariosInput>({
+      name: 'add_feature_test_scenarios',
+      description:
+        'Add test scenarios at the feature level (before tasks are created). Used in Step 5 of refinement workflow.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug',
+          },
+          scenarios: {
+            type: 'array',
+            description: 'List of test scenarios',
+            items: {
+              type: 'object',
+              properties: {
+                scenarioId: { type: 'string', description: 'Scenario ID (e.g., FTS-1)' },
+                title: { type: 'string', description: 'Test scenario title' },
+                description: { type: 'string', description: 'Test scenario description' },
+                priority: { type: 'string', enum: ['P0', 'P1', 'P2', 'P3'] },
+                type: { type: 'string', enum: ['automated', 'manual', 'both'], description: 'Test type' },
+                preconditions: { type: 'string', description: 'Test preconditions' },
+                expectedResult: { type: 'string', description: 'Expected test result' },
+              },
+              required: ['scenarioId', 'title', 'description', 'priority'],
+            },
+          },
+        },
+        required: ['repoName', 'featureSlug', 'scenarios'],
+      },
+      handler: (args) => reviewManager.addFeatureTestScenarios(args),
+    }),
+    defineTool<AddClarificationInput>({
+      name: 'add_clarification',
+      description:
+        'Add a clarification question and optional answer. Used in Step 3 of refinement workflow to track questions that need user input.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug',
+          },
+          question: {
+            type: 'string',
+            description: 'Clarification question',
+          },
+          answer: {
+            type: 'string',
+            description: 'Optional answer to the question',
+          },
+          askedBy: {
+            type: 'string',
+            enum: ['llm', 'user'],
+            description: 'Who asked the question (defaults to "llm")',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'question'],
+      },
+      handler: (args) => reviewManager.addClarification({ ...args, askedBy: args.askedBy || 'llm' }),
+    }),
+    defineTool<AddAttachmentAnalysisInput>({
+      name: 'add_attachment_analysis',
+      description:
+        'Add analysis of an attachment (screenshot, document, etc.). Used in Step 2 of refinement workflow.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug',
+          },
+          attachmentName: {
+            type: 'string',
+            description: 'Name of the attachment',
+          },
+          attachmentType: {
+            type: 'string',
+            enum: ['excel', 'image', 'document', 'design'],
+            description: 'Type of attachment',
+          },
+          analysisSummary: {
+            type: 'string',
+            description: 'Summary of the analysis',
+          },
+          filePath: {
+            type: 'string',
+            description: 'Optional local file path',
+          },
+          fileUrl: {
+            type: 'string',
+            description: 'Optional URL to the file',
+          },
+          extractedData: {
+            type: 'object',
+            description: 'Optional extracted data as key-value pairs',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'attachmentName', 'attachmentType', 'analysisSummary'],
+      },
+      handler: (args) => reviewManager.addAttachmentAnalysis(args),
+    }),
+    defineTool<GetRefinementStatusInput>({
+      name: 'get_refinement_status',
+      description:
+        'Get comprehensive status of feature refinement including all steps, criteria, scenarios, and progress percentage.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug',
+          },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: (args) => reviewManager.getRefinementStatus(args),
+    }),
+    defineTool<GenerateRefinementReportInput>({
+      name: 'generate_refinement_report',
+      description:
+        'Generate a formatted report of the entire refinement process. Supports markdown, HTML, and JSON formats. Returns a complete summary ready for documentation.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug',
+          },
+          format: {
+            type: 'string',
+            enum: ['markdown', 'html', 'json'],
+            description: 'Output format (defaults to "markdown")',
+          },
+          outputPath: {
+            type: 'string',
+            description: 'Optional file path to save the report',
+          },
+          includeSections: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional list of sections to include (defaults to all: steps, criteria, scenarios, clarifications, attachments)',
+          },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: (args) => reviewManager.generateRefinementReport({ ...args, format: args.format || 'markdown' }),
+    }),
+  ];
+}
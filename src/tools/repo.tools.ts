@@ -0,0 +1,125 @@
+/**
+ * Repo tools - registration, listing and export/import bundles
+ */
+import { AIConductor } from '../AIConductor.js';
+import { ImportRepoInput, RegisterRepoInput } from '../types.js';
+import { ToolDefinition, defineTool } from '../toolRegistry.js';
+import { broadcastEvent } from '../broadcast.js';
+
+export function createRepoTools(reviewManager: AIConductor): ToolDefinition[] {
+  return [
+    defineTool<RegisterRepoInput>({
+      name: 'register_repo',
+      description:
+        'Register a new repository. Creates a repo entry that acts as a namespace for all features and tasks. First step before creating features in a new repo.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Unique repository name (e.g., "aiconductor")',
+          },
+          repoPath: {
+            type: 'string',
+            description: 'Absolute path to repository root',
+          },
+          repoUrl: {
+            type: 'string',
+            description: 'Optional git repository URL',
+          },
+          defaultBranch: {
+            type: 'string',
+            description: 'Default branch name (defaults to "main")',
+          },
+          metadata: {
+            type: 'object',
+            description: 'Optional metadata as key-value pairs',
+          },
+        },
+        required: ['repoName', 'repoPath'],
+      },
+      handler: async (args) => {
+        const result = await reviewManager.registerRepo(args);
+
+        // Notify dashboard WebSocket clients
+        broadcastEvent({
+          type: 'repo-changed',
+          action: 'created',
+          repoName: args.repoName,
+          timestamp: Date.now(),
+        }).catch(() => {});
+
+        return result;
+      },
+    }),
+    defineTool<Record<string, never>>({
+      name: 'list_repos',
+      description:
+        'List all registered repositories with their feature and task counts.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+      handler: () => reviewManager.listRepos(),
+    }),
+    defineTool<Record<string, never>>({
+      name: 'get_current_repo',
+      description:
+        'Get the current repository based on working directory. Auto-detects if current directory is a registered repo.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+      handler: () => reviewManager.getCurrentRepo(),
+    }),
+    defineTool<{ repoName: string }>({
+      name: 'export_repo',
+      description:
+        'Export a repository as a portable JSON bundle: the repo row, its review pipeline and every feature with its tasks, transitions, reviews, acceptance criteria, test scenarios, refinement steps, clarifications, attachments and checkpoints. Feed the bundle to import_repo on another AIConductor instance.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository to export' },
+        },
+        required: ['repoName'],
+      },
+      handler: ({ repoName }) => reviewManager.exportRepo(repoName),
+    }),
+    defineTool<ImportRepoInput>({
+      name: 'import_repo',
+      description:
+        'Import a bundle produced by export_repo. The bundle is validated before anything is written and the import runs in one transaction. A feature whose slug already exists in the target repo is skipped, overwritten, or imported under prefix + slug, per conflictMode.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bundle: { type: 'object', description: 'Bundle returned by export_repo' },
+          conflictMode: {
+            type: 'string',
+            enum: ['skip', 'overwrite', 'rename'],
+            description: 'What to do with features that already exist (default: skip)',
+          },
+          prefix: { type: 'string', description: 'Slug prefix for renamed features (required for rename)' },
+          repoName: { type: 'string', description: 'Import into this repository instead of the one named in the bundle' },
+        },
+        required: ['bundle'],
+      },
+      handler: async (args) => {
+        const result = await reviewManager.importRepo(args);
+
+        if (result.success) {
+          // Notify dashboard WebSocket clients
+          broadcastEvent({
+            type: 'repo-changed',
+            action: result.repoCreated ? 'created' : 'updated',
+            repoName: result.repoName!,
+            timestamp: Date.now(),
+          }).catch(() => {});
+        }
+
+        return result;
+      },
+    }),
+  ];
+}
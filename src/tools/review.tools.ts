@@ -0,0 +1,285 @@
+/**
+ * Review tools - stakeholder reviews, the next pipeline step and review settings
+ */
+import { AIConductor } from '../AIConductor.js';
+import { GetNextStepInput, RepoReviewSettings, ReviewInput, RollbackLastDecisionInput, StakeholderRole, UpdateReviewConditionInput, ValidateReviewCompletenessInput } from '../types.js';
+import { ToolDefinition, defineTool } from '../toolRegistry.js';
+import { broadcastEvent } from '../broadcast.js';
+import { retryOnConflict } from '../versionConflict.js';
+import { REVIEW_ROLES_HINT, EXPECTED_VERSION_SCHEMA, TASK_STATUS_SCHEMA, conflictRetries } from './common.js';
+
+export function createReviewTools(reviewManager: AIConductor): ToolDefinition[] {
+  return [
+    defineTool<GetNextStepInput>({
+      name: 'get_next_step',
+      description:
+        'Get the next step in the task pipeline. Returns which role should act next, the system prompt for that role, allowed decisions, transition targets, focus areas, and context from previous reviews. This is the primary orchestration tool -- call this to determine what to do next for any task.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Unique task identifier (e.g., T01, T02)',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'taskId'],
+      },
+      handler: (args) => reviewManager.getNextStep(args),
+    }),
+    defineTool<ReviewInput>({
+      name: 'add_stakeholder_review',
+      description:
+        'Add a stakeholder review to a task. Updates task status based on approval/rejection and enforces workflow state machine rules. On a parallel stage the review is a vote; the task only moves once the stage quorum decides.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Unique task identifier (e.g., T01, T02)',
+          },
+          stakeholder: {
+            type: 'string',
+            description: `Stakeholder role performing the review: ${REVIEW_ROLES_HINT}`,
+          },
+          decision: {
+            type: 'string',
+            enum: ['approve', 'reject', 'approveWithConditions'],
+            description:
+              'Review decision (approve transitions forward, reject sends to NeedsRefinement, approveWithConditions transitions forward and records conditions that must be satisfied before Done)',
+          },
+          notes: {
+            type: 'string',
+            description: 'Review notes from the stakeholder',
+          },
+          additionalFields: {
+            type: 'object',
+            description: 'Role-specific additional fields. User-defined roles supply their requiredOutputFields here.',
+            properties: {
+              quickSummary: { type: 'string', description: 'Brief 1-2 sentence TL;DR of the review (Rec 6)' },
+              marketAnalysis: { type: 'string' },
+              competitorAnalysis: { type: 'string' },
+              technologyRecommendations: { type: 'array', items: { type: 'string' } },
+              designPatterns: { type: 'array', items: { type: 'string' } },
+              usabilityFindings: { type: 'string' },
+              accessibilityRequirements: { type: 'array', items: { type: 'string' } },
+              userBehaviorInsights: { type: 'string' },
+              securityRequirements: { type: 'array', items: { type: 'string' } },
+              complianceNotes: { type: 'string' },
+            },
+          },
+          conditions: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Required with approveWithConditions: conditions the task must meet (e.g. "Add rate limiting to the login endpoint"). Each becomes a tracked item (RC-1, RC-2, ...) shown to later roles in get_next_step previousRoleNotes.',
+          },
+          returnTo: {
+            ...TASK_STATUS_SCHEMA,
+            description:
+              'Reject only: review stage the task returns to once refined (the current stage or an earlier one, e.g. PendingArchitect). Later stages with still-valid approvals are skipped on the way back. Omit to restart at the first stage.',
+          },
+          expectedVersion: EXPECTED_VERSION_SCHEMA,
+        },
+        required: ['repoName', 'featureSlug', 'taskId', 'stakeholder', 'decision', 'notes'],
+      },
+      handler: async (args) => {
+        const result = await retryOnConflict(() => reviewManager.addReview(args), conflictRetries(args));
+
+        // Notify dashboard WebSocket clients (cross-process broadcast)
+        broadcastEvent({
+          type: 'task-status-changed',
+          action: 'reviewed',
+          repoName: args.repoName || 'default',
+          featureSlug: args.featureSlug,
+          taskId: args.taskId,
+          stakeholder: args.stakeholder,
+          decision: args.decision,
+          newStatus: result.newStatus,
+          timestamp: Date.now(),
+        }).catch(() => {});
+
+        return result;
+      },
+    }),
+    defineTool<{ repoName: string; featureSlug: string }>({
+      name: 'get_review_summary',
+      description:
+        'Generate a comprehensive summary of all tasks showing progress by status and stakeholder.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: ({ repoName, featureSlug }) => reviewManager.getReviewSummary(repoName, featureSlug),
+    }),
+    defineTool<{ repoName: string; featureSlug: string; taskId: string; stakeholder: StakeholderRole }>({
+      name: 'validate_workflow',
+      description:
+        'Validate if a stakeholder can perform a review on a task without modifying any data. Use this before calling add_stakeholder_review.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Unique task identifier (e.g., T01, T02)',
+          },
+          stakeholder: {
+            type: 'string',
+            description: `Stakeholder role to validate: ${REVIEW_ROLES_HINT}`,
+          },
+        },
+        required: ['repoName', 'featureSlug', 'taskId', 'stakeholder'],
+      },
+      handler: ({ repoName, featureSlug, taskId, stakeholder }) =>
+        reviewManager.validateWorkflow(repoName, featureSlug, taskId, stakeholder),
+    }),
+    defineTool<ValidateReviewCompletenessInput>({
+      name: 'validate_review_completeness',
+      description:
+        "Validate that all required fields are present for a stakeholder review before submission. Checks notes and, for approvals, the role's requiredOutputFields. Pass the review you intend to submit, or omit notes/additionalFields to check the stakeholder's stored review. Repos in strict mode refuse incomplete reviews in add_stakeholder_review.",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          featureSlug: { type: 'string', description: 'Feature slug name' },
+          taskId: { type: 'string', description: 'Task ID' },
+          stakeholder: {
+            type: 'string',
+            description: `Stakeholder role: ${REVIEW_ROLES_HINT}`,
+          },
+          decision: {
+            type: 'string',
+            enum: ['approve', 'reject', 'approveWithConditions'],
+            description: 'Intended decision (default: approve). Rejections only require notes.',
+          },
+          notes: { type: 'string', description: 'Review notes to check' },
+          additionalFields: { type: 'object', description: 'Role-specific fields to check' },
+        },
+        required: ['repoName', 'featureSlug', 'taskId', 'stakeholder'],
+      },
+      handler: (args) => reviewManager.validateReviewCompleteness(args),
+    }),
+    defineTool<UpdateReviewConditionInput>({
+      name: 'update_review_condition',
+      description:
+        'Mark a review condition (raised by an approveWithConditions review) as satisfied or open again. A task cannot move from InQA to Done while any condition is open.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Unique task identifier (e.g., T01, T02)',
+          },
+          conditionId: {
+            type: 'string',
+            description: 'Review condition ID (e.g., RC-1)',
+          },
+          satisfied: {
+            type: 'boolean',
+            description: 'Whether the condition is satisfied (true) or open (false)',
+          },
+          resolution: {
+            type: 'string',
+            description: 'How the condition was met (kept when satisfied)',
+          },
+          expectedVersion: EXPECTED_VERSION_SCHEMA,
+        },
+        required: ['repoName', 'featureSlug', 'taskId', 'conditionId', 'satisfied'],
+      },
+      handler: (args) => retryOnConflict(() => reviewManager.updateReviewCondition(args), conflictRetries(args)),
+    }),
+    defineTool<RollbackLastDecisionInput>({
+      name: 'rollback_last_decision',
+      description:
+        'Undo the last decision/transition on a specific task. Reverts the task to its previous status.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          featureSlug: { type: 'string', description: 'Feature slug name' },
+          taskId: { type: 'string', description: 'Task ID to rollback' },
+          expectedVersion: EXPECTED_VERSION_SCHEMA,
+        },
+        required: ['repoName', 'featureSlug', 'taskId'],
+      },
+      handler: (args) => retryOnConflict(() => reviewManager.rollbackLastDecision(args), conflictRetries(args)),
+    }),
+    defineTool<{ repoName: string }>({
+      name: 'get_review_settings',
+      description: 'Get a repository\'s review settings, including whether incomplete reviews are refused (strict) or only warned about (warn).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+        },
+        required: ['repoName'],
+      },
+      handler: ({ repoName }) => ({ success: true, repoName, ...reviewManager.getReviewSettings(repoName) }),
+    }),
+    defineTool<{ repoName: string } & Partial<RepoReviewSettings>>({
+      name: 'update_review_settings',
+      description:
+        'Update a repository\'s review settings. completenessMode "strict" makes add_stakeholder_review refuse reviews missing notes or required output fields; "warn" (default) records them with a warning. staleApprovalPolicy decides what happens when update_task changes reviewed content: "flag" (default) marks the approvals superseded, "sendBack" also returns the task to the earliest affected review stage. separatedRoles lists groups of roles one agent identity may not combine on a task, e.g. [["developer", "codeReviewer"]].',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          completenessMode: { type: 'string', enum: ['strict', 'warn'], description: 'Completeness mode' },
+          staleApprovalPolicy: { type: 'string', enum: ['flag', 'sendBack'], description: 'Policy for approvals superseded by an edit' },
+          separatedRoles: {
+            type: 'array',
+            items: { type: 'array', items: { type: 'string' }, minItems: 2 },
+            description: 'Groups of roles one agent identity may not act in on the same task; replaces the stored groups',
+          },
+        },
+        required: ['repoName'],
+      },
+      handler: ({ repoName, completenessMode, staleApprovalPolicy, separatedRoles }) => ({
+        success: true,
+        repoName,
+        ...reviewManager.updateReviewSettings(repoName, { completenessMode, staleApprovalPolicy, separatedRoles }),
+      }),
+    }),
+  ];
+}
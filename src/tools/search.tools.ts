@@ -0,0 +1,36 @@
+/**
+ * Search tools - full-text search
+ */
+import { AIConductor } from '../AIConductor.js';
+import { SearchInput } from '../types.js';
+import { ToolDefinition, defineTool } from '../toolRegistry.js';
+import { TASK_STATUS_SCHEMA } from './common.js';
+
+export function createSearchTools(reviewManager: AIConductor): ToolDefinition[] {
+  return [
+    defineTool<SearchInput>({
+      name: 'search',
+      description:
+        'Full-text search across task titles and descriptions, acceptance criteria, stakeholder review notes, transition notes and feature clarifications. Returns ranked hits with highlighted snippets (matched terms wrapped in **). Words are matched by stem; end a word with * for prefix matching.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Words to search for' },
+          repoName: { type: 'string', description: 'Only search this repository' },
+          featureSlug: { type: 'string', description: 'Only search this feature' },
+          status: { ...TASK_STATUS_SCHEMA, description: 'Only return hits on tasks currently in this status' },
+          role: {
+            type: 'string',
+            description: 'Only return review notes by this stakeholder or transition notes by this actor',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of hits to return (default: 20)',
+          },
+        },
+        required: ['query'],
+      },
+      handler: (args) => reviewManager.search(args),
+    }),
+  ];
+}
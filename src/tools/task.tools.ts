@@ -0,0 +1,597 @@
+/**
+ * Task tools - task CRUD, status transitions and acceptance criteria
+ */
+import { AIConductor } from '../AIConductor.js';
+import { AddTaskInput, BatchTransitionTasksInput, BatchUpdateAcceptanceCriteriaInput, GetNextTaskInput, GetSimilarTasksInput, GetTaskExecutionPlanInput, GetTasksByStatusInput, TransitionTaskInput, UpdateAcceptanceCriteriaInput, UpdateTaskInput, VerifyAllTasksCompleteInput } from '../types.js';
+import { ToolDefinition, defineTool } from '../toolRegistry.js';
+import { broadcastEvent } from '../broadcast.js';
+import { retryOnConflict } from '../versionConflict.js';
+import { EXPECTED_VERSION_SCHEMA, TASK_STATUS_SCHEMA, conflictRetries } from './common.js';
+
+export function createTaskTools(reviewManager: AIConductor): ToolDefinition[] {
+  return [
+    defineTool<{ repoName: string; featureSlug: string; taskId: string }>({
+      name: 'get_task_status',
+      description:
+        'Get the current status of a specific task including which stakeholders have reviewed it and what transitions are allowed. Also returns the task version to pass as expectedVersion to a later write.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Unique task identifier (e.g., T01, T02)',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'taskId'],
+      },
+      handler: ({ repoName, featureSlug, taskId }) => reviewManager.getTaskStatus(repoName, featureSlug, taskId),
+    }),
+    defineTool<TransitionTaskInput>({
+      name: 'transition_task_status',
+      description:
+        'Transition a task to a new status in the development workflow. Any active task can be parked as Blocked, OnHold or Cancelled with a reason; Blocked and OnHold tasks resume at the status they were parked from. Validates actor permissions, allowed transitions and transition guards: dependencies must be Done before InProgress, metadata.filesChanged is required for InReview, and Must Have acceptance criteria must be verified and review conditions satisfied before Done. Guard failures are returned as guardViolations; the system actor can override them with overrideJustification.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Unique task identifier (e.g., T01, T02)',
+          },
+          fromStatus: {
+            ...TASK_STATUS_SCHEMA,
+            description: 'Current task status (for validation)',
+          },
+          toStatus: {
+            ...TASK_STATUS_SCHEMA,
+            description: 'Target status to transition to',
+          },
+          actor: {
+            type: 'string',
+            description: 'Actor performing the transition: system, developer, codeReviewer, qa or a review role allowed by the current stage',
+          },
+          notes: {
+            type: 'string',
+            description: 'Optional notes about the transition',
+          },
+          metadata: {
+            type: 'object',
+            description: 'Optional role-specific metadata for the transition',
+            properties: {
+              developerNotes: { type: 'string' },
+              filesChanged: { type: 'array', items: { type: 'string' } },
+              testFiles: { type: 'array', items: { type: 'string' } },
+              codeReviewerNotes: { type: 'string' },
+              testResultsSummary: { type: 'string' },
+              codeQualityConcerns: { type: 'string' },
+              qaNotes: { type: 'string' },
+              bugsFound: { type: 'string' },
+              deploymentReadiness: { type: 'string' },
+              acceptanceCriteriaMet: { type: 'boolean' },
+              testExecutionSummary: { type: 'string' },
+            },
+          },
+          overrideJustification: {
+            type: 'string',
+            description: 'Why failing transition guards should be bypassed (system actor only). Recorded on the transition.',
+          },
+          reason: {
+            type: 'string',
+            description: 'Required when toStatus is Blocked, OnHold or Cancelled: why the task is parked',
+          },
+          blockedByTaskId: {
+            type: 'string',
+            description: 'Optional task in the same feature that the parked task is waiting on',
+          },
+          expectedVersion: EXPECTED_VERSION_SCHEMA,
+        },
+        required: ['repoName', 'featureSlug', 'taskId', 'fromStatus', 'toStatus', 'actor'],
+      },
+      handler: async (args) => {
+        const result = await retryOnConflict(() => reviewManager.transitionTaskStatus(args), conflictRetries(args));
+
+        // Notify dashboard WebSocket clients (cross-process broadcast)
+        broadcastEvent({
+          type: 'task-status-changed',
+          action: 'transitioned',
+          repoName: args.repoName || 'default',
+          featureSlug: args.featureSlug,
+          taskId: args.taskId,
+          oldStatus: args.fromStatus,
+          newStatus: args.toStatus,
+          actor: args.actor,
+          timestamp: Date.now(),
+        }).catch(() => {});
+
+        return result;
+      },
+    }),
+    defineTool<GetNextTaskInput>({
+      name: 'get_next_task',
+      description:
+        'Get the next task to work on based on status filter and orderOfExecution. Returns the task with the lowest orderOfExecution value.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          statusFilter: {
+            type: 'array',
+            items: TASK_STATUS_SCHEMA,
+            description: 'Array of task statuses to filter by (e.g., ["ReadyForDevelopment", "ToDo", "NeedsChanges"])',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'statusFilter'],
+      },
+      handler: (args) => reviewManager.getNextTask(args),
+    }),
+    defineTool<UpdateAcceptanceCriteriaInput>({
+      name: 'update_acceptance_criteria',
+      description:
+        'Mark an acceptance criterion as verified or unverified for a specific task.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Unique task identifier (e.g., T01, T02)',
+          },
+          criterionId: {
+            type: 'string',
+            description: 'Acceptance criterion ID (e.g., AC-1)',
+          },
+          verified: {
+            type: 'boolean',
+            description: 'Whether the criterion is verified (true) or not (false)',
+          },
+          expectedVersion: EXPECTED_VERSION_SCHEMA,
+        },
+        required: ['repoName', 'featureSlug', 'taskId', 'criterionId', 'verified'],
+      },
+      handler: (args) => retryOnConflict(() => reviewManager.updateAcceptanceCriteria(args), conflictRetries(args)),
+    }),
+    defineTool<GetTasksByStatusInput>({
+      name: 'get_tasks_by_status',
+      description:
+        'Get all tasks that match a specific status.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          status: {
+            ...TASK_STATUS_SCHEMA,
+            description: 'Task status to filter by',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'status'],
+      },
+      handler: (args) => reviewManager.getTasksByStatus(args),
+    }),
+    defineTool<VerifyAllTasksCompleteInput>({
+      name: 'verify_all_tasks_complete',
+      description:
+        'Verify if all tasks in a task file are marked as Done. Returns completion statistics. Parked tasks in the excluded statuses (the completionExcludedStatuses setting, Cancelled by default) are not counted.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          excludeStatuses: {
+            type: 'array',
+            items: { type: 'string', enum: ['Blocked', 'OnHold', 'Cancelled'] },
+            description: 'Parked statuses to leave out of the check, overriding the setting',
+          },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: (args) => reviewManager.verifyAllTasksComplete(args),
+    }),
+    defineTool<AddTaskInput>({
+      name: 'add_task',
+      description:
+        'Add a task to an existing feature. The task starts at the first stage of the repo\'s review pipeline (by default PendingProductDirector) and proceeds through: Product Director > Architect > UI/UX Expert > Security Officer > Developer > Code Reviewer > QA > Done. See get_workflow_definition for the repo\'s actual stages.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug to add the task to',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Unique task identifier (e.g., T01, T02)',
+          },
+          title: {
+            type: 'string',
+            description: 'Task title',
+          },
+          description: {
+            type: 'string',
+            description: 'Detailed task description',
+          },
+          orderOfExecution: {
+            type: 'number',
+            description: 'Execution order (1, 2, 3, etc.)',
+          },
+          acceptanceCriteria: {
+            type: 'array',
+            description: 'List of acceptance criteria',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', description: 'Criterion ID (e.g., AC-1)' },
+                criterion: { type: 'string', description: 'The acceptance criterion text' },
+                priority: { type: 'string', enum: ['Must Have', 'Should Have', 'Could Have'] },
+              },
+              required: ['id', 'criterion', 'priority'],
+            },
+          },
+          testScenarios: {
+            type: 'array',
+            description: 'List of test scenarios',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', description: 'Scenario ID (e.g., TS-1)' },
+                title: { type: 'string', description: 'Test scenario title' },
+                description: { type: 'string', description: 'Test scenario description' },
+                manualOnly: { type: 'boolean', description: 'Whether this test is manual only' },
+                priority: { type: 'string', enum: ['P0', 'P1', 'P2', 'P3'] },
+              },
+              required: ['id', 'title', 'description', 'priority'],
+            },
+          },
+          outOfScope: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Items explicitly out of scope for this task',
+          },
+          estimatedHours: {
+            type: 'number',
+            description: 'Estimated hours to complete',
+          },
+          dependencies: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Task IDs this task depends on',
+          },
+          tags: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Tags for categorization',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'taskId', 'title', 'description', 'orderOfExecution'],
+      },
+      handler: async (args) => {
+        const result = await reviewManager.addTask(args);
+
+        // Notify dashboard WebSocket clients
+        broadcastEvent({
+          type: 'feature-changed',
+          action: 'task-added',
+          repoName: args.repoName || 'default',
+          featureSlug: args.featureSlug,
+          taskId: args.taskId,
+          timestamp: Date.now(),
+        }).catch(() => {});
+
+        return result;
+      },
+    }),
+    defineTool<UpdateTaskInput>({
+      name: 'update_task',
+      description:
+        'Update an existing task within a feature. Allows modifying task properties like title, description, acceptance criteria, test scenarios, etc. Use this when requirements change during refinement. Changing the description, acceptance criteria or out-of-scope list supersedes approvals given to the previous content (see staleApprovalPolicy in update_review_settings). Note: Cannot update task status - use transition_task_status for status changes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Task ID to update',
+          },
+          updates: {
+            type: 'object',
+            description: 'Fields to update',
+            properties: {
+              title: { type: 'string', description: 'Task title' },
+              description: { type: 'string', description: 'Task description' },
+              orderOfExecution: { type: 'number', description: 'Execution order' },
+              estimatedHours: { type: 'number', description: 'Estimated hours' },
+              acceptanceCriteria: {
+                type: 'array',
+                description: 'Acceptance criteria',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    criterion: { type: 'string' },
+                    priority: { type: 'string', enum: ['Must Have', 'Should Have', 'Could Have'] },
+                  },
+                  required: ['id', 'criterion', 'priority'],
+                },
+              },
+              testScenarios: {
+                type: 'array',
+                description: 'Test scenarios',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    title: { type: 'string' },
+                    description: { type: 'string' },
+                    manualOnly: { type: 'boolean' },
+                    priority: { type: 'string', enum: ['P0', 'P1', 'P2', 'P3'] },
+                  },
+                  required: ['id', 'title', 'description', 'priority'],
+                },
+              },
+              outOfScope: {
+                type: 'array',
+                description: 'Out of scope items',
+                items: { type: 'string' },
+              },
+              dependencies: {
+                type: 'array',
+                description: 'Task dependencies',
+                items: { type: 'string' },
+              },
+              tags: {
+                type: 'array',
+                description: 'Task tags',
+                items: { type: 'string' },
+              },
+            },
+          },
+          expectedVersion: EXPECTED_VERSION_SCHEMA,
+        },
+        required: ['repoName', 'featureSlug', 'taskId', 'updates'],
+      },
+      handler: async (args) => {
+        const result = await retryOnConflict(() => reviewManager.updateTask(args), conflictRetries(args));
+
+        // Notify dashboard WebSocket clients
+        broadcastEvent({
+          type: 'feature-changed',
+          action: 'task-updated',
+          repoName: args.repoName || 'default',
+          featureSlug: args.featureSlug,
+          taskId: args.taskId,
+          timestamp: Date.now(),
+        }).catch(() => {});
+
+        return result;
+      },
+    }),
+    defineTool<{ repoName: string; featureSlug: string; taskId: string }>({
+      name: 'delete_task',
+      description:
+        'Delete a task from a feature. The task and all associated data (transitions, reviews, criteria) are moved to the trash; restore them with restore_from_trash until they are purged after the trash retention period. Use this when a task is no longer needed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug',
+          },
+          taskId: {
+            type: 'string',
+            description: 'Task ID to delete',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'taskId'],
+      },
+      handler: async (args) => {
+        const result = await reviewManager.deleteTask(args.repoName, args.featureSlug, args.taskId);
+
+        // Notify dashboard WebSocket clients
+        broadcastEvent({
+          type: 'feature-changed',
+          action: 'task-deleted',
+          repoName: args.repoName || 'default',
+          featureSlug: args.featureSlug,
+          taskId: args.taskId,
+          timestamp: Date.now(),
+        }).catch(() => {});
+
+        return result;
+      },
+    }),
+    defineTool<BatchTransitionTasksInput>({
+      name: 'batch_transition_tasks',
+      description:
+        'Transition multiple tasks at once in a single operation. Validates all tasks, applies transitions atomically, and returns per-task results.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          taskIds: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Task IDs to transition (e.g., ["T01", "T02", "T03"])',
+          },
+          fromStatus: {
+            ...TASK_STATUS_SCHEMA,
+            description: 'Current status all tasks must have',
+          },
+          toStatus: {
+            ...TASK_STATUS_SCHEMA,
+            description: 'Target status to transition to',
+          },
+          actor: {
+            type: 'string',
+            description: 'Actor performing the transition: system, developer, codeReviewer, qa or a review role allowed by the current stage',
+          },
+          notes: {
+            type: 'string',
+            description: 'Optional shared notes for all transitions',
+          },
+          metadata: {
+            type: 'object',
+            description: 'Optional shared metadata for all transitions (developer notes, files changed, etc.)',
+          },
+          reason: {
+            type: 'string',
+            description: 'Required when toStatus is Blocked, OnHold or Cancelled: why the tasks are parked',
+          },
+          blockedByTaskId: {
+            type: 'string',
+            description: 'Optional task in the same feature that the parked tasks are waiting on',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'taskIds', 'fromStatus', 'toStatus', 'actor'],
+      },
+      handler: async (args) => {
+        const result = await retryOnConflict(() => reviewManager.batchTransitionTasks(args));
+
+        // Notify dashboard WebSocket clients — one event per task (cross-process broadcast)
+        for (const taskId of args.taskIds) {
+          broadcastEvent({
+            type: 'task-status-changed',
+            action: 'batch-transitioned',
+            repoName: args.repoName || 'default',
+            featureSlug: args.featureSlug,
+            taskId,
+            oldStatus: args.fromStatus,
+            newStatus: args.toStatus,
+            actor: args.actor,
+            timestamp: Date.now(),
+          }).catch(() => {});
+        }
+
+        return result;
+      },
+    }),
+    defineTool<BatchUpdateAcceptanceCriteriaInput>({
+      name: 'batch_update_acceptance_criteria',
+      description:
+        'Mark multiple acceptance criteria as verified or unverified in a single batch operation across multiple tasks.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+          updates: {
+            type: 'array',
+            description: 'Array of acceptance criteria updates',
+            items: {
+              type: 'object',
+              properties: {
+                taskId: { type: 'string', description: 'Task ID (e.g., T01)' },
+                criterionId: { type: 'string', description: 'Criterion ID (e.g., AC-1)' },
+                verified: { type: 'boolean', description: 'Whether to mark as verified' },
+              },
+              required: ['taskId', 'criterionId', 'verified'],
+            },
+          },
+        },
+        required: ['repoName', 'featureSlug', 'updates'],
+      },
+      handler: (args) => retryOnConflict(() => reviewManager.batchUpdateAcceptanceCriteria(args)),
+    }),
+    defineTool<GetTaskExecutionPlanInput>({
+      name: 'get_task_execution_plan',
+      description:
+        'Analyze task dependencies and generate optimal execution plan. Detects circular dependencies, identifies parallelizable tasks, and suggests execution strategy.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          featureSlug: { type: 'string', description: 'Feature slug name' },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: (args) => reviewManager.getTaskExecutionPlan(args),
+    }),
+    defineTool<GetSimilarTasksInput>({
+      name: 'get_similar_tasks',
+      description:
+        'Find similar tasks across other features. Useful for finding examples and estimating task complexity based on past work.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          featureSlug: { type: 'string', description: 'Feature slug name' },
+          taskId: { type: 'string', description: 'Reference task ID' },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of similar tasks to return (default: 5)',
+          },
+        },
+        required: ['repoName', 'featureSlug', 'taskId'],
+      },
+      handler: (args) => reviewManager.getSimilarTasks(args),
+    }),
+  ];
+}
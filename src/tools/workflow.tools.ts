@@ -0,0 +1,254 @@
+/**
+ * Workflow tools - snapshots, checkpoints, metrics, review pipelines and pipeline roles
+ */
+import { AIConductor } from '../AIConductor.js';
+import { GetWorkflowMetricsInput, ListWorkflowCheckpointsInput, RestoreWorkflowCheckpointInput, SaveWorkflowCheckpointInput, SetWorkflowDefinitionInput } from '../types.js';
+import { RegisterPipelineRoleInput } from '../rolePrompts.js';
+import { ToolDefinition, defineTool } from '../toolRegistry.js';
+import { broadcastEvent } from '../broadcast.js';
+import { retryOnConflict } from '../versionConflict.js';
+import { REVIEW_ROLES_HINT, STAGE_CONDITION_SCHEMA, TASK_STATUS_SCHEMA } from './common.js';
+
+export function createWorkflowTools(reviewManager: AIConductor): ToolDefinition[] {
+  return [
+    defineTool<{ repoName: string; featureSlug: string }>({
+      name: 'get_workflow_snapshot',
+      description:
+        'Get a compressed workflow snapshot for context efficiency. Returns feature summary, task snapshot with current roles, blockages, and AI-generated recommendations. Reduces context from ~50KB to ~5KB.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: {
+            type: 'string',
+            description: 'Repository name',
+          },
+          featureSlug: {
+            type: 'string',
+            description: 'Feature slug name',
+          },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: ({ repoName, featureSlug }) => reviewManager.getWorkflowSnapshot(repoName, featureSlug),
+    }),
+    defineTool<SaveWorkflowCheckpointInput>({
+      name: 'save_workflow_checkpoint',
+      description:
+        'Save a workflow checkpoint to enable resuming from this point. Useful for long workflows that may be interrupted.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          featureSlug: { type: 'string', description: 'Feature slug name' },
+          description: { type: 'string', description: 'Checkpoint description (e.g., "After developer batch complete")' },
+        },
+        required: ['repoName', 'featureSlug', 'description'],
+      },
+      handler: (args) => reviewManager.saveWorkflowCheckpoint(args),
+    }),
+    defineTool<ListWorkflowCheckpointsInput>({
+      name: 'list_workflow_checkpoints',
+      description:
+        'List all saved checkpoints for a feature. Use to resume from a specific checkpoint if workflow is interrupted.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          featureSlug: { type: 'string', description: 'Feature slug name' },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: (args) => reviewManager.listWorkflowCheckpoints(args),
+    }),
+    defineTool<RestoreWorkflowCheckpointInput>({
+      name: 'restore_workflow_checkpoint',
+      description:
+        'Restore a feature workflow to a previously saved checkpoint. All tasks revert to their status at checkpoint time.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          featureSlug: { type: 'string', description: 'Feature slug name' },
+          checkpointId: { type: 'number', description: 'Checkpoint ID to restore from' },
+        },
+        required: ['repoName', 'featureSlug', 'checkpointId'],
+      },
+      handler: (args) => retryOnConflict(() => reviewManager.restoreWorkflowCheckpoint(args)),
+    }),
+    defineTool<GetWorkflowMetricsInput>({
+      name: 'get_workflow_metrics',
+      description:
+        'Get comprehensive workflow health metrics. Returns health score (0-100), rejection rates, rework cycles, and alerts for concerning patterns.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          featureSlug: { type: 'string', description: 'Feature slug name' },
+        },
+        required: ['repoName', 'featureSlug'],
+      },
+      handler: (args) => reviewManager.getWorkflowMetrics(args),
+    }),
+    defineTool<{ repoName: string }>({
+      name: 'get_workflow_definition',
+      description:
+        'Get the review pipeline used by a repository: ordered review stages with their stakeholder, approve/reject targets and allowed actors. Repos without a custom definition use the default Product Director → Architect → UI/UX Expert → Security Officer pipeline.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+        },
+        required: ['repoName'],
+      },
+      handler: ({ repoName }) => reviewManager.getWorkflowDefinition(repoName),
+    }),
+    defineTool<SetWorkflowDefinitionInput>({
+      name: 'set_workflow_definition',
+      description:
+        'Replace the review pipeline for a repository. Stages are ordered; each stage status must start with "Pending", and approve/reject targets must be another stage, ReadyForDevelopment or NeedsRefinement. Stages can be conditional on task tags and estimatedHours; stages that do not apply to a task are passed through and recorded as system transitions. Refused while tasks sit in a stage the new definition removes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+          stages: {
+            type: 'array',
+            description: 'Ordered review stages',
+            items: {
+              type: 'object',
+              properties: {
+                status: { ...TASK_STATUS_SCHEMA, description: 'Task status while awaiting this stage (e.g., PendingCompliance)' },
+                stakeholder: {
+                  type: 'string',
+                  description: `Stakeholder role that reviews this stage: ${REVIEW_ROLES_HINT}`,
+                },
+                label: { type: 'string', description: 'Display name for the stage' },
+                onApprove: { ...TASK_STATUS_SCHEMA, description: 'Status after approval' },
+                onReject: { ...TASK_STATUS_SCHEMA, description: 'Status after rejection' },
+                allowedActors: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Actors allowed to move a task out of this stage via transition_task_status',
+                },
+                requiredWhen: {
+                  ...STAGE_CONDITION_SCHEMA,
+                  description:
+                    'Only review tasks matching this condition, e.g. { "tagsAny": ["auth", "payments"] } for a second security pass. A role may review two stages only if the later one has requiredWhen.',
+                },
+                skipWhen: {
+                  ...STAGE_CONDITION_SCHEMA,
+                  description: 'Skip this stage for tasks matching this condition, e.g. { "tagsAny": ["backend-only"] }',
+                },
+                parallelReviewers: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Roles that review this stage at the same time (must include stakeholder). Each casts one vote via add_stakeholder_review.',
+                },
+                quorum: {
+                  type: 'object',
+                  description: 'Outcome rule for parallel reviewers. Default: all must approve, any reject sends it back.',
+                  properties: {
+                    approvals: {
+                      description: "Approvals needed: 'all', 'majority' or a number",
+                      oneOf: [{ type: 'string', enum: ['all', 'majority'] }, { type: 'number' }],
+                    },
+                    rejectOnAnyReject: {
+                      type: 'boolean',
+                      description: 'Send the task to onReject on the first rejection (default true). When false, waits until the quorum can no longer be reached.',
+                    },
+                  },
+                  required: ['approvals'],
+                },
+              },
+              required: ['status', 'stakeholder', 'label', 'onApprove', 'onReject', 'allowedActors'],
+            },
+          },
+        },
+        required: ['repoName', 'stages'],
+      },
+      handler: async (args) => {
+        const result = await reviewManager.setWorkflowDefinition(args);
+
+        if (result.success) {
+          broadcastEvent({
+            type: 'workflow-changed',
+            action: 'updated',
+            repoName: args.repoName,
+            timestamp: Date.now(),
+          }).catch(() => {});
+        }
+
+        return result;
+      },
+    }),
+    defineTool<{ repoName: string }>({
+      name: 'reset_workflow_definition',
+      description: 'Remove a repository\'s custom review pipeline so it uses the default pipeline again.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          repoName: { type: 'string', description: 'Repository name' },
+        },
+        required: ['repoName'],
+      },
+      handler: async ({ repoName }) => {
+        const result = await reviewManager.resetWorkflowDefinition(repoName);
+
+        if (result.success) {
+          broadcastEvent({
+            type: 'workflow-changed',
+            action: 'reset',
+            repoName,
+            timestamp: Date.now(),
+          }).catch(() => {});
+        }
+
+        return result;
+      },
+    }),
+    defineTool<Record<string, never>>({
+      name: 'list_pipeline_roles',
+      description:
+        'List all pipeline roles (built-in and user-defined) with their display name, phase, focus areas and required output fields.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+      handler: () => ({ success: true, roles: reviewManager.getAllRolePrompts() }),
+    }),
+    defineTool<RegisterPipelineRoleInput>({
+      name: 'register_pipeline_role',
+      description:
+        'Register a user-defined pipeline role (e.g., performanceEngineer, dataPrivacyOfficer) with its own system prompt and required output fields. Review-phase roles can be used as stakeholders in set_workflow_definition.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          roleId: { type: 'string', description: 'camelCase role identifier (e.g., performanceEngineer)' },
+          displayName: { type: 'string', description: 'Human-readable role name' },
+          systemPrompt: { type: 'string', description: 'System prompt given to the agent acting in this role' },
+          phase: { type: 'string', enum: ['review', 'execution'], description: 'Pipeline phase the role acts in' },
+          focusAreas: { type: 'array', items: { type: 'string' }, description: 'Areas the role should focus on' },
+          researchInstructions: { type: 'string', description: 'Research instructions for the role' },
+          requiredOutputFields: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Fields the role must supply in additionalFields when reviewing',
+          },
+        },
+        required: ['roleId', 'displayName', 'systemPrompt', 'phase'],
+      },
+      handler: (args) => reviewManager.registerPipelineRole(args),
+    }),
+    defineTool<{ roleId: string }>({
+      name: 'delete_pipeline_role',
+      description: 'Delete a user-defined pipeline role. Built-in roles and roles used by a workflow definition cannot be deleted.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          roleId: { type: 'string', description: 'Role identifier' },
+        },
+        required: ['roleId'],
+      },
+      handler: ({ roleId }) => reviewManager.deletePipelineRole(roleId),
+    }),
+  ];
+}
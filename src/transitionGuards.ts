@@ -0,0 +1,86 @@
+/**
+ * Transition guards for the development workflow.
+ * Guards are checked by WorkflowValidator.validateDevTransition in addition to the
+ * actor/target rules; a system actor may override failing guards with a justification.
+ */
+import { TransitionGuard } from './types.js';
+
+/** Every dependency must be Done before work on a task starts */
+export const dependenciesDoneGuard: TransitionGuard = {
+  name: 'dependenciesDone',
+  description: 'All task dependencies must be Done before the task moves to InProgress',
+  appliesTo: ['InProgress'],
+  check({ task, featureTasks, fromStatus }) {
+    // Returning from NeedsChanges is rework on a task that already started
+    if (fromStatus === 'NeedsChanges') return null;
+
+    const unfinished = (task.dependencies || []).filter((depId) => {
+      const dep = featureTasks.find((t) => t.taskId === depId);
+      return !dep || dep.status !== 'Done';
+    });
+    if (unfinished.length === 0) return null;
+
+    const describe = (depId: string) => {
+      const dep = featureTasks.find((t) => t.taskId === depId);
+      return dep ? `${depId} (${dep.status})` : `${depId} (not found)`;
+    };
+    return {
+      guard: 'dependenciesDone',
+      message: `Dependencies not Done: ${unfinished.map(describe).join(', ')}`,
+      details: unfinished,
+    };
+  },
+};
+
+/** Must Have acceptance criteria are verified before a task is Done */
+export const mustHaveCriteriaVerifiedGuard: TransitionGuard = {
+  name: 'mustHaveCriteriaVerified',
+  description: 'All Must Have acceptance criteria must be verified before the task moves to Done',
+  appliesTo: ['Done'],
+  check({ task }) {
+    const unverified = (task.acceptanceCriteria || []).filter((c) => c.priority === 'Must Have' && !c.verified);
+    if (unverified.length === 0) return null;
+    return {
+      guard: 'mustHaveCriteriaVerified',
+      message: `Must Have acceptance criteria not verified: ${unverified.map((c) => c.id).join(', ')}`,
+      details: unverified.map((c) => c.id),
+    };
+  },
+};
+
+/** Conditions attached by approveWithConditions reviews are satisfied before a task is Done */
+export const reviewConditionsSatisfiedGuard: TransitionGuard = {
+  name: 'reviewConditionsSatisfied',
+  description: 'All review conditions must be marked satisfied before the task moves to Done',
+  appliesTo: ['Done'],
+  check({ task }) {
+    const open = (task.reviewConditions || []).filter((c) => !c.satisfied);
+    if (open.length === 0) return null;
+    return {
+      guard: 'reviewConditionsSatisfied',
+      message: `Review conditions not satisfied: ${open.map((c) => `${c.id} (${c.raisedBy})`).join(', ')}`,
+      details: open.map((c) => c.id),
+    };
+  },
+};
+
+/** Code review needs the list of changed files */
+export const filesChangedRecordedGuard: TransitionGuard = {
+  name: 'filesChangedRecorded',
+  description: 'metadata.filesChanged must list at least one file when the task moves to InReview',
+  appliesTo: ['InReview'],
+  check({ metadata }) {
+    if (Array.isArray(metadata?.filesChanged) && metadata!.filesChanged.length > 0) return null;
+    return {
+      guard: 'filesChangedRecorded',
+      message: 'filesChanged must be provided in metadata and list at least one file',
+    };
+  },
+};
+
+export const DEFAULT_TRANSITION_GUARDS: TransitionGuard[] = [
+  dependenciesDoneGuard,
+  mustHaveCriteriaVerifiedGuard,
+  reviewConditionsSatisfiedGuard,
+  filesChangedRecordedGuard,
+];
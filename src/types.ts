@@ -14,15 +14,26 @@ export type TaskStatus =
   | 'InReview'
   | 'InQA'
   | 'NeedsChanges'
-  | 'Done';
+  | 'Done'
+  | 'Blocked'
+  | 'OnHold'
+  | 'Cancelled'
+  // Custom review stages declared in a repo's workflow definition
+  | `Pending${string}`;
 
-export type StakeholderRole = 'productDirector' | 'architect' | 'uiUxExpert' | 'securityOfficer';
+export type BuiltInStakeholderRole = 'productDirector' | 'architect' | 'uiUxExpert' | 'securityOfficer';
+
+/** Id of a user-defined role registered in the role_prompts table (keeps literal autocompletion for built-ins) */
+export type CustomRoleId = string & Record<never, never>;
+
+export type StakeholderRole = BuiltInStakeholderRole | CustomRoleId;
 
 export type ActorType = StakeholderRole | 'system' | 'developer' | 'codeReviewer' | 'qa';
 
-export type ReviewDecision = 'approve' | 'reject';
+/** approveWithConditions passes the stage and records the reviewer's conditions as follow-up items */
+export type ReviewDecision = 'approve' | 'reject' | 'approveWithConditions';
 
-export type PipelineRole =
+export type BuiltInPipelineRole =
   | 'productDirector'
   | 'architect'
   | 'uiUxExpert'
@@ -31,6 +42,8 @@ export type PipelineRole =
   | 'codeReviewer'
   | 'qa';
 
+export type PipelineRole = BuiltInPipelineRole | CustomRoleId;
+
 export type PipelinePhase = 'review' | 'execution';
 
 export interface Transition {
@@ -40,6 +53,12 @@ export interface Transition {
   actor?: ActorType;
   timestamp: string;
   notes?: string;
+  /** Guards a system actor bypassed for this transition, with the reason */
+  guardOverride?: GuardOverride;
+  /** Review stage a rejected task resumes at instead of restarting the pipeline */
+  returnTo?: TaskStatus;
+  /** Agent identity of the MCP session that made the transition */
+  agent?: string;
   // Product Director
   productDirectorNotes?: string;
   marketAnalysis?: string;
@@ -84,6 +103,21 @@ export interface AcceptanceCriterion {
   verified: boolean;
 }
 
+/**
+ * Follow-up item raised by an approveWithConditions review.
+ * A task cannot move from InQA to Done while any condition is unsatisfied.
+ */
+export interface ReviewCondition {
+  id: string;
+  condition: string;
+  raisedBy: StakeholderRole;
+  raisedAt: string;
+  satisfied: boolean;
+  satisfiedAt?: string;
+  /** How the condition was met */
+  resolution?: string;
+}
+
 export interface TestScenario {
   id: string;
   title: string;
@@ -92,7 +126,29 @@ export interface TestScenario {
   priority: 'P0' | 'P1' | 'P2' | 'P3';
 }
 
+/** Review stored for a user-defined role: decision, notes and the role's own output fields */
+export interface StakeholderReviewEntry {
+  approved: boolean;
+  notes: string;
+  /** Parallel stage the vote was cast on */
+  stage?: TaskStatus;
+  /** When a parallel vote was cast; votes from before the task last entered the stage are ignored */
+  reviewedAt?: string;
+  /** Hash of the reviewed task content (description, acceptance criteria, scope) at review time */
+  contentHash?: string;
+  /** Set when the task was edited after this approval; the approval no longer counts */
+  supersededAt?: string;
+  /** Agent identity of the MCP session that submitted the review */
+  agent?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Reviews by role. A role reviewing a later stage as well (e.g. a second
+ * security pass) has a separate entry for it, keyed `<role>@<status>`.
+ */
 export interface StakeholderReview {
+  [role: string]: StakeholderReviewEntry | undefined;
   productDirector?: {
     approved: boolean;
     notes: string;
@@ -136,6 +192,44 @@ export interface Task {
   order?: number;
   orderOfExecution: number;
   tags?: string[];
+  /** Set while the task is Blocked, OnHold or Cancelled */
+  parked?: ParkedState;
+  /** Conditions attached by approveWithConditions reviews */
+  reviewConditions?: ReviewCondition[];
+  /** Incremented on every save; a save from an older read is refused */
+  version?: number;
+}
+
+/** A write refused because the task changed since it was read */
+export interface VersionConflict {
+  taskId: string;
+  expectedVersion: number;
+  currentVersion: number;
+}
+
+/** Input of a write that can be tied to the task version it was based on */
+export interface VersionedWrite {
+  /** Refuse the write unless the task is still at this version (see get_task_status) */
+  expectedVersion?: number;
+}
+
+/** Result of a write that can be refused by a version check */
+export interface VersionConflictResult {
+  /** Set when the write was refused because the task changed since it was read */
+  versionConflict?: VersionConflict;
+}
+
+/** Statuses that take a task out of the workflow without deleting it */
+export type ParkedStatus = 'Blocked' | 'OnHold' | 'Cancelled';
+
+/** Why a task is parked and where it resumes */
+export interface ParkedState {
+  reason: string;
+  /** Task this one is waiting on */
+  blockedByTaskId?: string;
+  /** Status the task returns to when it is resumed */
+  fromStatus: TaskStatus;
+  since: string;
 }
 
 export interface TaskFile {
@@ -146,7 +240,7 @@ export interface TaskFile {
   tasks: Task[];
 }
 
-export interface ReviewInput {
+export interface ReviewInput extends VersionedWrite {
   repoName: string;
   featureSlug: string;
   taskId: string;
@@ -167,15 +261,33 @@ export interface ReviewInput {
     // Security Officer
     securityRequirements?: string[];
     complianceNotes?: string;
+    // User-defined roles
+    [field: string]: unknown;
   };
+  /**
+   * On reject: the review stage the task resumes at once refined, instead of the
+   * first stage. Must be the current stage or an earlier one.
+   */
+  returnTo?: TaskStatus;
+  /** Required with approveWithConditions: each entry becomes a tracked review condition */
+  conditions?: string[];
 }
 
-export interface ReviewResult {
+export interface ReviewResult extends VersionConflictResult {
   success: boolean;
   taskId: string;
   previousStatus: TaskStatus;
   newStatus: TaskStatus;
-  transition: Transition;
+  /** The transition recorded by the review; absent when a parallel vote did not decide the stage */
+  transition?: Transition;
+  /** Review stages the task passed through because they do not apply to it */
+  skippedStages?: SkippedStage[];
+  /** Votes on the parallel stage after this review */
+  parallelReview?: ParallelReviewState;
+  /** Required output fields the review is missing (refused in strict mode, warned about otherwise) */
+  fieldErrors?: ReviewFieldError[];
+  /** Conditions created by an approveWithConditions review */
+  conditions?: ReviewCondition[];
   message?: string;
   error?: string;
 }
@@ -188,6 +300,12 @@ export interface TaskStatusResult {
   pendingReviews: StakeholderRole[];
   canTransitionTo: TaskStatus[];
   orderOfExecution: number;
+  /** Set while the task sits in a parallel review stage */
+  parallelReview?: ParallelReviewState;
+  /** Roles whose approval was superseded by an edit and has not been given again */
+  supersededApprovals?: StakeholderRole[];
+  /** Pass as expectedVersion to refuse a later write if the task changes in between */
+  version: number;
 }
 
 export interface ReviewSummary {
@@ -196,12 +314,10 @@ export interface ReviewSummary {
   totalTasks: number;
   tasksByStatus: Record<TaskStatus, number>;
   completionPercentage: number;
-  stakeholderProgress: {
-    productDirector: { completed: number; pending: number };
-    architect: { completed: number; pending: number };
-    uiUxExpert: { completed: number; pending: number };
-    securityOfficer: { completed: number; pending: number };
-  };
+  /** Keyed by the stakeholder of each stage in the repo's active workflow definition */
+  stakeholderProgress: Record<string, { completed: number; pending: number }>;
+  /** Tasks currently in a parallel review stage, with the votes still outstanding */
+  parallelReviews: Array<ParallelReviewState & { taskId: string }>;
   tasks: Array<{
     taskId: string;
     title: string;
@@ -218,6 +334,42 @@ export interface ValidationResult {
   currentStatus: TaskStatus;
   expectedStakeholder: StakeholderRole | null;
   allowedTransitions: TaskStatus[];
+  /** Transition guards that failed (development workflow only) */
+  guardViolations?: GuardViolation[];
+}
+
+// Development workflow transition guards
+
+/** What a transition guard can inspect */
+export interface TransitionGuardContext {
+  task: Task;
+  /** Every task in the same feature, including `task` */
+  featureTasks: Task[];
+  fromStatus: TaskStatus;
+  toStatus: TaskStatus;
+  actor: ActorType;
+  metadata?: Partial<Transition>;
+}
+
+export interface GuardViolation {
+  guard: string;
+  message: string;
+  /** Offending items, e.g. unfinished dependency ids or unverified criterion ids */
+  details?: string[];
+}
+
+/** A rule checked by validateDevTransition before a task may move to one of `appliesTo` */
+export interface TransitionGuard {
+  name: string;
+  description: string;
+  appliesTo: TaskStatus[];
+  check(context: TransitionGuardContext): GuardViolation | null;
+}
+
+/** A system actor's decision to move a task despite failing guards */
+export interface GuardOverride {
+  guards: string[];
+  justification: string;
 }
 
 export interface WorkflowRule {
@@ -238,19 +390,19 @@ export const WORKFLOW_RULES: Record<TaskStatus, WorkflowRule | null> = {
     expectedStakeholder: 'architect',
     onApprove: 'PendingUiUxExpert',
     onReject: 'NeedsRefinement',
-    allowedPreviousStatuses: ['PendingProductDirector'],
+    allowedPreviousStatuses: ['PendingProductDirector', 'NeedsRefinement'],
   },
   PendingUiUxExpert: {
     expectedStakeholder: 'uiUxExpert',
     onApprove: 'PendingSecurityOfficer',
     onReject: 'NeedsRefinement',
-    allowedPreviousStatuses: ['PendingArchitect'],
+    allowedPreviousStatuses: ['PendingArchitect', 'NeedsRefinement'],
   },
   PendingSecurityOfficer: {
     expectedStakeholder: 'securityOfficer',
     onApprove: 'ReadyForDevelopment',
     onReject: 'NeedsRefinement',
-    allowedPreviousStatuses: ['PendingUiUxExpert'],
+    allowedPreviousStatuses: ['PendingUiUxExpert', 'NeedsRefinement'],
   },
   ReadyForDevelopment: null,
   NeedsRefinement: null,
@@ -260,6 +412,9 @@ export const WORKFLOW_RULES: Record<TaskStatus, WorkflowRule | null> = {
   InQA: null,
   NeedsChanges: null,
   Done: null,
+  Blocked: null,
+  OnHold: null,
+  Cancelled: null,
 };
 
 // Development workflow transition rules
@@ -273,19 +428,108 @@ export const DEV_WORKFLOW_RULES: Record<TaskStatus, DevWorkflowRule> = {
   PendingArchitect: { allowedActors: ['architect', 'system'], allowedTransitions: ['PendingUiUxExpert', 'NeedsRefinement'] },
   PendingUiUxExpert: { allowedActors: ['uiUxExpert', 'system'], allowedTransitions: ['PendingSecurityOfficer', 'NeedsRefinement'] },
   PendingSecurityOfficer: { allowedActors: ['securityOfficer', 'system'], allowedTransitions: ['ReadyForDevelopment', 'NeedsRefinement'] },
-  ReadyForDevelopment: { allowedActors: ['system'], allowedTransitions: ['ToDo'] },
-  NeedsRefinement: { allowedActors: ['system'], allowedTransitions: ['PendingProductDirector'] },
-  ToDo: { allowedActors: ['system', 'developer'], allowedTransitions: ['InProgress'] },
-  InProgress: { allowedActors: ['developer'], allowedTransitions: ['InReview'] },
-  InReview: { allowedActors: ['codeReviewer'], allowedTransitions: ['InQA', 'NeedsChanges'] },
-  InQA: { allowedActors: ['qa'], allowedTransitions: ['Done', 'NeedsChanges'] },
-  NeedsChanges: { allowedActors: ['developer'], allowedTransitions: ['InProgress'] },
+  ReadyForDevelopment: { allowedActors: ['system'], allowedTransitions: ['ToDo', 'Blocked', 'OnHold', 'Cancelled'] },
+  NeedsRefinement: { allowedActors: ['system'], allowedTransitions: ['PendingProductDirector', 'Blocked', 'OnHold', 'Cancelled'] },
+  ToDo: { allowedActors: ['system', 'developer'], allowedTransitions: ['InProgress', 'Blocked', 'OnHold', 'Cancelled'] },
+  InProgress: { allowedActors: ['developer'], allowedTransitions: ['InReview', 'Blocked', 'OnHold', 'Cancelled'] },
+  InReview: { allowedActors: ['codeReviewer'], allowedTransitions: ['InQA', 'NeedsChanges', 'Blocked', 'OnHold', 'Cancelled'] },
+  InQA: { allowedActors: ['qa'], allowedTransitions: ['Done', 'NeedsChanges', 'Blocked', 'OnHold', 'Cancelled'] },
+  NeedsChanges: { allowedActors: ['developer'], allowedTransitions: ['InProgress', 'Blocked', 'OnHold', 'Cancelled'] },
   Done: { allowedActors: [], allowedTransitions: [] },
+  // Parked tasks resume at the status they were parked from (see Task.parked)
+  Blocked: { allowedActors: ['system', 'developer'], allowedTransitions: ['OnHold', 'Cancelled'] },
+  OnHold: { allowedActors: ['system'], allowedTransitions: ['Blocked', 'Cancelled'] },
+  Cancelled: { allowedActors: [], allowedTransitions: [] },
 };
 
+// Per-repo workflow definitions
+
+/**
+ * Task match used by conditional stages. Every field that is set must match;
+ * an empty condition matches every task.
+ */
+export interface StageCondition {
+  /** Task has at least one of these tags */
+  tagsAny?: string[];
+  /** Task has all of these tags */
+  tagsAll?: string[];
+  /** Task estimate is at least this many hours */
+  minEstimatedHours?: number;
+  /** Task estimate is at most this many hours */
+  maxEstimatedHours?: number;
+}
+
+/** How a parallel stage turns its reviewers' votes into an outcome */
+export interface StageQuorum {
+  /** Approvals needed to pass: every reviewer, a strict majority, or an explicit count */
+  approvals: 'all' | 'majority' | number;
+  /** Send the task to onReject on the first rejection instead of waiting for the remaining votes (default true) */
+  rejectOnAnyReject?: boolean;
+}
+
+export interface WorkflowStage {
+  /** Task status while the stage is awaiting review; must start with "Pending" */
+  status: TaskStatus;
+  stakeholder: StakeholderRole;
+  label: string;
+  onApprove: TaskStatus;
+  onReject: TaskStatus;
+  /** Actors allowed to move a task out of this stage via transitionTaskStatus */
+  allowedActors: ActorType[];
+  /** Stage only applies to tasks matching this condition, e.g. a second security pass for `auth` tasks */
+  requiredWhen?: StageCondition;
+  /** Stage is skipped for tasks matching this condition, e.g. UI/UX for `backend-only` tasks */
+  skipWhen?: StageCondition;
+  /** Roles that review this stage at the same time; must include `stakeholder`. Unset means a single reviewer */
+  parallelReviewers?: StakeholderRole[];
+  /** Outcome rule for parallel reviewers (default: all must approve, any reject sends it back) */
+  quorum?: StageQuorum;
+}
+
+/** Votes cast so far on the parallel stage a task is currently in */
+export interface ParallelReviewState {
+  status: TaskStatus;
+  reviewers: StakeholderRole[];
+  approved: StakeholderRole[];
+  rejected: StakeholderRole[];
+  pending: StakeholderRole[];
+  approvalsRequired: number;
+}
+
+/** A stage a task passed through without review, recorded as a system transition */
+export interface SkippedStage {
+  status: TaskStatus;
+  reason: string;
+}
+
+export interface WorkflowDefinition {
+  repoName: string;
+  stages: WorkflowStage[];
+  isCustom: boolean;
+  updatedAt?: string;
+}
+
+export interface GetWorkflowDefinitionResult {
+  success: boolean;
+  definition?: WorkflowDefinition;
+  error?: string;
+}
+
+export interface SetWorkflowDefinitionInput {
+  repoName: string;
+  stages: WorkflowStage[];
+}
+
+export interface SetWorkflowDefinitionResult {
+  success: boolean;
+  definition?: WorkflowDefinition;
+  errors?: string[];
+  error?: string;
+}
+
 // Tool input/output interfaces
 
-export interface TransitionTaskInput {
+export interface TransitionTaskInput extends VersionedWrite {
   repoName: string;
   featureSlug: string;
   taskId: string;
@@ -294,14 +538,22 @@ export interface TransitionTaskInput {
   actor: ActorType;
   notes?: string;
   metadata?: Partial<Transition>;
+  /** Move despite failing transition guards; only the system actor may override, and the justification is recorded */
+  overrideJustification?: string;
+  /** Required when moving to Blocked, OnHold or Cancelled */
+  reason?: string;
+  /** Task the parked task is waiting on (same feature) */
+  blockedByTaskId?: string;
 }
 
-export interface TransitionTaskResult {
+export interface TransitionTaskResult extends VersionConflictResult {
   success: boolean;
   taskId: string;
   previousStatus: TaskStatus;
   newStatus: TaskStatus;
   transition: Transition;
+  skippedStages?: SkippedStage[];
+  guardViolations?: GuardViolation[];
   message?: string;
   error?: string;
 }
@@ -339,11 +591,42 @@ export interface GetNextStepResult {
   researchInstructions: string;
   requiredOutputFields: string[];
   previousRoleNotes: Record<string, string>;
+  /** Reviewers of a parallel stage that have not voted yet; nextRole is the first of them */
+  pendingParallelReviewers?: StakeholderRole[];
+  /** Set when the task is parked; nextRole is the role that continues once it resumes */
+  parked?: ParkedStep;
   message?: string;
   error?: string;
 }
 
-export interface UpdateAcceptanceCriteriaInput {
+/** Why a parked task waits, and how it is resumed (Cancelled tasks are not) */
+export interface ParkedStep {
+  reason: string;
+  blockedByTaskId?: string;
+  since: string;
+  /** Status the task returns to; absent for Cancelled */
+  resumeStatus?: TaskStatus;
+  /** Actors that may resume it via transition_task_status */
+  resumableBy: ActorType[];
+}
+
+export interface GetRolePromptInput {
+  repoName: string;
+  featureSlug: string;
+  taskId: string;
+  roleId: PipelineRole;
+}
+
+export interface GetRolePromptResult {
+  success: boolean;
+  roleId: PipelineRole;
+  phase?: PipelinePhase;
+  /** The role's system prompt followed by the task context get_next_step adds */
+  prompt?: string;
+  error?: string;
+}
+
+export interface UpdateAcceptanceCriteriaInput extends VersionedWrite {
   repoName: string;
   featureSlug: string;
   taskId: string;
@@ -351,7 +634,7 @@ export interface UpdateAcceptanceCriteriaInput {
   verified: boolean;
 }
 
-export interface UpdateAcceptanceCriteriaResult {
+export interface UpdateAcceptanceCriteriaResult extends VersionConflictResult {
   success: boolean;
   taskId: string;
   criterionId: string;
@@ -360,6 +643,26 @@ export interface UpdateAcceptanceCriteriaResult {
   error?: string;
 }
 
+export interface UpdateReviewConditionInput extends VersionedWrite {
+  repoName: string;
+  featureSlug: string;
+  taskId: string;
+  conditionId: string;
+  satisfied: boolean;
+  resolution?: string;
+}
+
+export interface UpdateReviewConditionResult extends VersionConflictResult {
+  success: boolean;
+  taskId: string;
+  conditionId: string;
+  satisfied: boolean;
+  /** Conditions on the task still to be satisfied */
+  openConditions?: string[];
+  message?: string;
+  error?: string;
+}
+
 export interface GetTasksByStatusInput {
   repoName: string;
   featureSlug: string;
@@ -377,11 +680,14 @@ export interface GetTasksByStatusResult {
 export interface VerifyAllTasksCompleteInput {
   repoName: string;
   featureSlug: string;
+  /** Parked statuses left out of the check (defaults to the completionExcludedStatuses setting) */
+  excludeStatuses?: ParkedStatus[];
 }
 
 export interface VerifyAllTasksCompleteResult {
   success: boolean;
   allComplete: boolean;
+  /** Tasks counted by the check, excluding excludedTasks */
   totalTasks: number;
   completedTasks: number;
   incompleteTasks: Array<{
@@ -389,6 +695,11 @@ export interface VerifyAllTasksCompleteResult {
     title: string;
     status: TaskStatus;
   }>;
+  excludedTasks: Array<{
+    taskId: string;
+    title: string;
+    status: TaskStatus;
+  }>;
   message?: string;
   error?: string;
 }
@@ -442,6 +753,9 @@ export interface AddTaskResult {
   success: boolean;
   featureSlug: string;
   taskId: string;
+  /** Status the task starts in after skipping stages that do not apply to it */
+  status?: TaskStatus;
+  skippedStages?: SkippedStage[];
   message?: string;
   error?: string;
 }
@@ -461,6 +775,8 @@ export interface ListFeaturesResult {
 export interface DeleteFeatureResult {
   success: boolean;
   featureSlug: string;
+  /** Trash item to restore the feature from */
+  trashId?: number;
   message?: string;
   error?: string;
 }
@@ -470,6 +786,8 @@ export interface DeleteRepoResult {
   repoName: string;
   featureCount?: number;
   taskCount?: number;
+  /** Trash item to restore the repo from */
+  trashId?: number;
   message?: string;
   error?: string;
 }
@@ -483,7 +801,7 @@ export interface GetFeatureResult {
 
 // Update and Delete Task types
 
-export interface UpdateTaskInput {
+export interface UpdateTaskInput extends VersionedWrite {
   repoName: string;
   featureSlug: string;
   taskId: string;
@@ -501,10 +819,14 @@ export interface UpdateTaskInput {
   };
 }
 
-export interface UpdateTaskResult {
+export interface UpdateTaskResult extends VersionConflictResult {
   success: boolean;
   featureSlug: string;
   taskId: string;
+  /** Approvals the edit invalidated */
+  supersededApprovals?: StakeholderRole[];
+  /** Set when the repo's policy sent the task back to the earliest affected stage */
+  newStatus?: TaskStatus;
   message?: string;
   error?: string;
 }
@@ -519,6 +841,8 @@ export interface DeleteTaskResult {
   success: boolean;
   featureSlug: string;
   taskId: string;
+  /** Trash item to restore the task from */
+  trashId?: number;
   message?: string;
   error?: string;
 }
@@ -899,6 +1223,9 @@ export interface BatchTransitionTasksInput {
   actor: ActorType;
   notes?: string;
   metadata?: Partial<Transition>;
+  /** Required when moving to Blocked, OnHold or Cancelled */
+  reason?: string;
+  blockedByTaskId?: string;
 }
 
 export interface BatchTransitionResult {
@@ -906,10 +1233,11 @@ export interface BatchTransitionResult {
   success: boolean;
   previousStatus: TaskStatus;
   newStatus: TaskStatus;
+  guardViolations?: GuardViolation[];
   error?: string;
 }
 
-export interface BatchTransitionTasksResult {
+export interface BatchTransitionTasksResult extends VersionConflictResult {
   success: boolean;
   results: BatchTransitionResult[];
   successCount: number;
@@ -938,7 +1266,7 @@ export interface BatchCriteriaUpdateResult {
   error?: string;
 }
 
-export interface BatchUpdateAcceptanceCriteriaResult {
+export interface BatchUpdateAcceptanceCriteriaResult extends VersionConflictResult {
   success: boolean;
   results: BatchCriteriaUpdateResult[];
   successCount: number;
@@ -998,7 +1326,7 @@ export interface RestoreWorkflowCheckpointInput {
   checkpointId: number;
 }
 
-export interface RestoreWorkflowCheckpointResult {
+export interface RestoreWorkflowCheckpointResult extends VersionConflictResult {
   success: boolean;
   checkpointId?: number;
   restoredTasks?: number;
@@ -1006,13 +1334,13 @@ export interface RestoreWorkflowCheckpointResult {
   error?: string;
 }
 
-export interface RollbackLastDecisionInput {
+export interface RollbackLastDecisionInput extends VersionedWrite {
   repoName: string;
   featureSlug: string;
   taskId: string;
 }
 
-export interface RollbackLastDecisionResult {
+export interface RollbackLastDecisionResult extends VersionConflictResult {
   success: boolean;
   taskId?: string;
   rolledBackFrom?: TaskStatus;
@@ -1079,12 +1407,41 @@ export interface ValidateReviewCompletenessInput {
   featureSlug: string;
   taskId: string;
   stakeholder: StakeholderRole;
+  /** Review to check before submission; when omitted the stakeholder's stored review is checked */
+  decision?: ReviewDecision;
+  notes?: string;
+  additionalFields?: Record<string, unknown>;
+}
+
+/** Whether add_stakeholder_review refuses incomplete reviews or only warns about them */
+export type ReviewCompletenessMode = 'strict' | 'warn';
+
+/** What happens to a task when an edit supersedes its approvals: flag it only, or send it back to the earliest affected stage */
+export type StaleApprovalPolicy = 'flag' | 'sendBack';
+
+export interface RepoReviewSettings {
+  completenessMode: ReviewCompletenessMode;
+  staleApprovalPolicy: StaleApprovalPolicy;
+  /**
+   * Groups of roles one agent identity may not combine on a task, e.g.
+   * [["developer", "codeReviewer"]]: an agent that developed a task cannot
+   * review its code. Empty by default.
+   */
+  separatedRoles: string[][];
+}
+
+export interface ReviewFieldError {
+  field: string;
+  message: string;
 }
 
 export interface ValidateReviewCompletenessResult {
   success: boolean;
   isComplete: boolean;
   missingFields: string[];
+  fieldErrors: ReviewFieldError[];
+  /** The repo's completeness mode: strict reviews are refused by add_stakeholder_review when incomplete */
+  mode: ReviewCompletenessMode;
   warnings: string[];
   message?: string;
   error?: string;
@@ -1117,3 +1474,333 @@ export interface GetSimilarTasksResult {
   message?: string;
   error?: string;
 }
+
+// ============================================================================
+// Full-Text Search
+// ============================================================================
+
+export type SearchResultKind = 'task' | 'criterion' | 'review' | 'transition' | 'clarification';
+
+export interface SearchInput {
+  query: string;
+  repoName?: string;
+  featureSlug?: string;
+  /** Only hits on tasks currently in this status */
+  status?: TaskStatus;
+  /** Reviewing stakeholder, or the actor of a transition */
+  role?: string;
+  limit?: number;
+}
+
+export interface SearchHit {
+  kind: SearchResultKind;
+  repoName: string;
+  featureSlug: string;
+  taskId?: string;
+  taskTitle?: string;
+  status?: TaskStatus;
+  role?: string;
+  /** Matching excerpt with matched terms wrapped in ** */
+  snippet: string;
+}
+
+export interface SearchResult {
+  success: boolean;
+  query: string;
+  hits: SearchHit[];
+  message?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Database Backups
+// ============================================================================
+
+export type BackupReason = 'manual' | 'scheduled' | 'pre-restore';
+
+export interface BackupInfo {
+  fileName: string;
+  path: string;
+  reason: BackupReason;
+  createdAt: string;
+  sizeBytes: number;
+}
+
+export interface BackupSettings {
+  /** Hours between scheduled backups; 0 turns the schedule off */
+  intervalHours: number;
+  /** Number of backups kept; older ones are deleted after each backup */
+  retention: number;
+  /** Set with the BACKUP_DIR env var; defaults to backups/ next to tasks.db */
+  directory: string;
+}
+
+export interface CreateBackupResult {
+  success: boolean;
+  backup?: BackupInfo;
+  /** Backups deleted to stay within the retention count */
+  pruned: string[];
+  message?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Repo Export/Import Bundles
+// ============================================================================
+
+/** A table row as stored, without its id, repo_name and (below the feature) feature_slug */
+export type BundleRow = Record<string, string | number | null>;
+
+export interface RepoBundleFeature {
+  feature: BundleRow;
+  tasks: BundleRow[];
+  transitions: BundleRow[];
+  stakeholderReviews: BundleRow[];
+  acceptanceCriteria: BundleRow[];
+  testScenarios: BundleRow[];
+  refinementSteps: BundleRow[];
+  featureAcceptanceCriteria: BundleRow[];
+  featureTestScenarios: BundleRow[];
+  clarifications: BundleRow[];
+  attachments: BundleRow[];
+  checkpoints: BundleRow[];
+}
+
+export interface RepoBundle {
+  format: 'aiconductor-repo-bundle';
+  version: number;
+  exportedAt: string;
+  repo: BundleRow;
+  /** The repo's custom review pipeline, if it has one */
+  workflowStages?: WorkflowStage[];
+  features: RepoBundleFeature[];
+}
+
+/**
+ * What to do with a bundle feature whose slug already exists in the target repo:
+ * leave the existing one, replace it, or import the bundle's under `prefix + slug`
+ */
+export type BundleConflictMode = 'skip' | 'overwrite' | 'rename';
+
+export interface ExportRepoResult {
+  success: boolean;
+  repoName: string;
+  bundle?: RepoBundle;
+  message?: string;
+  error?: string;
+}
+
+export interface ImportRepoInput {
+  bundle: unknown;
+  /** Defaults to skip */
+  conflictMode?: BundleConflictMode;
+  /** Required for the rename mode */
+  prefix?: string;
+  /** Import into this repo instead of the one named in the bundle */
+  repoName?: string;
+}
+
+export interface ImportedFeature {
+  featureSlug: string;
+  action: 'created' | 'skipped' | 'overwritten' | 'renamed';
+  /** Slug the feature was imported under when renamed */
+  importedAs?: string;
+}
+
+export interface ImportRepoResult {
+  success: boolean;
+  repoName?: string;
+  repoCreated?: boolean;
+  features: ImportedFeature[];
+  /** Schema violations when the bundle is rejected */
+  validationErrors?: string[];
+  message?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export type AuditOperation = 'create' | 'update' | 'delete';
+
+export type AuditEntityType =
+  | 'task'
+  | 'feature'
+  | 'repo'
+  | 'role'
+  | 'workflow'
+  | 'setting'
+  | 'queue_item'
+  | 'checkpoint'
+  | 'refinement_step'
+  | 'feature_criterion'
+  | 'feature_scenario'
+  | 'clarification'
+  | 'attachment'
+  | 'agent';
+
+/** A field's value before and after the change; null when it did not exist */
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: number;
+  timestamp: string;
+  /** Who made the change: `mcp:<client name>`, `dashboard` or `system` */
+  actor: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  repoName?: string;
+  featureSlug?: string;
+  operation: AuditOperation;
+  changes: Record<string, AuditChange>;
+}
+
+export interface AuditLogQuery {
+  actor?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  repoName?: string;
+  featureSlug?: string;
+  operation?: AuditOperation;
+  /** ISO timestamps, inclusive */
+  since?: string;
+  until?: string;
+  /** Defaults to 50, at most 500 */
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogResult {
+  success: boolean;
+  /** Newest first */
+  entries: AuditEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+  message?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Trash
+// ============================================================================
+
+export type TrashEntityType = 'repo' | 'feature' | 'task';
+
+export interface TrashItem {
+  id: number;
+  entityType: TrashEntityType;
+  repoName: string;
+  featureSlug?: string;
+  taskId?: string;
+  /** Task title, feature name or repo name */
+  label: string;
+  deletedAt: string;
+  deletedBy: string;
+  /** When the item will be purged; absent when retention is off */
+  expiresAt?: string;
+}
+
+export interface TrashSettings {
+  /** Days a deleted item is kept; 0 keeps items until restored */
+  retentionDays: number;
+}
+
+export interface ListTrashResult {
+  success: boolean;
+  /** Newest first */
+  items: TrashItem[];
+  retentionDays: number;
+  message?: string;
+  error?: string;
+}
+
+export interface RestoreFromTrashResult {
+  success: boolean;
+  item?: TrashItem;
+  message?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Integrity Check
+// ============================================================================
+
+export type IntegrityCategory =
+  | 'null_repo_name'
+  | 'orphan_task_rows'
+  | 'orphan_feature_rows'
+  | 'dangling_dependencies'
+  | 'duplicate_criterion_ids';
+
+export interface IntegrityIssue {
+  table: string;
+  rowId: number;
+  repoName?: string;
+  featureSlug?: string;
+  taskId?: string;
+  detail: string;
+}
+
+export interface IntegrityCategoryReport {
+  category: IntegrityCategory;
+  description: string;
+  /** Whether repair mode fixes this category */
+  repairable: boolean;
+  issues: IntegrityIssue[];
+  /** Issues still present after a repair */
+  remaining?: number;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  repaired: boolean;
+  issueCount: number;
+  /** Issues still present after a repair */
+  remainingCount?: number;
+  categories: IntegrityCategoryReport[];
+}
+
+export interface IntegrityCheckResult {
+  success: boolean;
+  report?: IntegrityReport;
+  message?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Agent Identities
+// ============================================================================
+
+/** A named agent an MCP session authenticates as, with the roles it may act in */
+export interface AgentIdentity {
+  name: string;
+  /** Review stakeholders and transition actors (including `system`) the agent may act as */
+  roles: string[];
+  createdAt: string;
+}
+
+export interface AgentSettings {
+  /**
+   * Refuse MCP tool calls from sessions without an agent identity: stdio without
+   * MCP_AGENT_TOKEN and HTTP with the shared MCP_AUTH_TOKEN. Off by default.
+   */
+  requireIdentity: boolean;
+}
+
+export interface CreateAgentIdentityInput {
+  name: string;
+  roles: string[];
+}
+
+export interface CreateAgentIdentityResult {
+  success: boolean;
+  identity?: AgentIdentity;
+  /** The agent's bearer token; only its hash is stored, so it is shown once */
+  token?: string;
+  error?: string;
+}
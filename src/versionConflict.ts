@@ -0,0 +1,57 @@
+/**
+ * Optimistic concurrency for task writes. Every task row carries a version that
+ * each save increments; a save made from an older read is refused with a
+ * VersionConflictError instead of overwriting the other writer's changes.
+ */
+import { VersionConflict } from './types.js';
+
+export class VersionConflictError extends Error {
+  readonly code = 'VERSION_CONFLICT';
+
+  constructor(
+    readonly taskId: string,
+    readonly expectedVersion: number,
+    readonly currentVersion: number
+  ) {
+    super(
+      `Version conflict on task ${taskId}: expected version ${expectedVersion}, current version is ${currentVersion}. ` +
+        'The task was changed by another writer; reload it and retry.'
+    );
+    this.name = 'VersionConflictError';
+  }
+
+  toConflict(): VersionConflict {
+    return { taskId: this.taskId, expectedVersion: this.expectedVersion, currentVersion: this.currentVersion };
+  }
+}
+
+/**
+ * Refuse a write when the caller last saw a different version of the task
+ */
+export function checkExpectedVersion(task: { taskId: string; version?: number }, expectedVersion?: number): void {
+  if (expectedVersion !== undefined && expectedVersion !== (task.version ?? 0)) {
+    throw new VersionConflictError(task.taskId, expectedVersion, task.version ?? 0);
+  }
+}
+
+/**
+ * The conflict carried by a caught error, for `{ success: false }` results
+ */
+export function versionConflictOf(error: unknown): VersionConflict | undefined {
+  return error instanceof VersionConflictError ? error.toConflict() : undefined;
+}
+
+/**
+ * Run a read-modify-write operation, running it again (with a fresh read) while it
+ * reports a version conflict, up to `retries` more times.
+ */
+export async function retryOnConflict<T extends { success: boolean; versionConflict?: VersionConflict }>(
+  operation: () => Promise<T>,
+  retries = 3
+): Promise<T> {
+  let result = await operation();
+  for (let attempt = 0; attempt < retries && !result.success && result.versionConflict; attempt++) {
+    result = await operation();
+  }
+  return result;
+}
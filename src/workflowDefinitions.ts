@@ -0,0 +1,205 @@
+/**
+ * Workflow definitions for the review pipeline.
+ * A definition is an ordered list of review stages; repos without a stored
+ * definition use DEFAULT_WORKFLOW_STAGES (Product Director → Architect → UI/UX → Security).
+ */
+import {
+  Task,
+  TaskStatus,
+  StakeholderRole,
+  ParkedStatus,
+  StageCondition,
+  WorkflowStage,
+  WorkflowRule,
+  DevWorkflowRule,
+  DEV_WORKFLOW_RULES,
+} from './types.js';
+
+export const DEFAULT_WORKFLOW_STAGES: WorkflowStage[] = [
+  {
+    status: 'PendingProductDirector',
+    stakeholder: 'productDirector',
+    label: 'Product Director',
+    onApprove: 'PendingArchitect',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['productDirector', 'system'],
+  },
+  {
+    status: 'PendingArchitect',
+    stakeholder: 'architect',
+    label: 'Architect',
+    onApprove: 'PendingUiUxExpert',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['architect', 'system'],
+  },
+  {
+    status: 'PendingUiUxExpert',
+    stakeholder: 'uiUxExpert',
+    label: 'UI/UX Expert',
+    onApprove: 'PendingSecurityOfficer',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['uiUxExpert', 'system'],
+  },
+  {
+    status: 'PendingSecurityOfficer',
+    stakeholder: 'securityOfficer',
+    label: 'Security Officer',
+    onApprove: 'ReadyForDevelopment',
+    onReject: 'NeedsRefinement',
+    allowedActors: ['securityOfficer', 'system'],
+  },
+];
+
+/** Statuses outside the review stages that a stage may route a task to. */
+export const STAGE_EXIT_STATUSES: TaskStatus[] = ['ReadyForDevelopment', 'NeedsRefinement'];
+
+/** Statuses shared by every workflow definition, in board order. */
+export const NON_REVIEW_STATUSES: TaskStatus[] = [
+  'ReadyForDevelopment',
+  'NeedsRefinement',
+  'ToDo',
+  'InProgress',
+  'InReview',
+  'InQA',
+  'NeedsChanges',
+  'Done',
+  'Blocked',
+  'OnHold',
+  'Cancelled',
+];
+
+/** Statuses a task can be parked in from any active status; each needs a reason. */
+export const PARKED_STATUSES: ParkedStatus[] = ['Blocked', 'OnHold', 'Cancelled'];
+
+/**
+ * Check whether a status is one of the parked statuses
+ */
+export function isParkedStatus(status: TaskStatus): status is ParkedStatus {
+  return (PARKED_STATUSES as TaskStatus[]).includes(status);
+}
+
+/**
+ * Roles that review a stage: its parallel reviewers, or just its stakeholder
+ */
+export function stageReviewers(stage: WorkflowStage): StakeholderRole[] {
+  return stage.parallelReviewers && stage.parallelReviewers.length > 0 ? stage.parallelReviewers : [stage.stakeholder];
+}
+
+/**
+ * Key of a reviewer's review of a stage in Task.stakeholderReview. A role's first
+ * stage in the pipeline is keyed by the role alone; a later stage reviewed by the
+ * same role (such as a second security pass) is keyed `<role>@<status>`, so each
+ * pass keeps its own review.
+ */
+export function reviewKey(stages: WorkflowStage[], stage: WorkflowStage, reviewer: StakeholderRole): string {
+  const first = stages.find((s) => stageReviewers(s).includes(reviewer));
+  return !first || first.status === stage.status ? reviewer : `${reviewer}@${stage.status}`;
+}
+
+/**
+ * Split a review key into the role and, for a later stage of the role, the stage status
+ */
+export function parseReviewKey(key: string): { role: StakeholderRole; stage?: TaskStatus } {
+  const at = key.indexOf('@');
+  return at === -1 ? { role: key } : { role: key.slice(0, at), stage: key.slice(at + 1) as TaskStatus };
+}
+
+/**
+ * Number of approvals a stage needs to pass
+ */
+export function approvalsRequired(stage: WorkflowStage): number {
+  const reviewers = stageReviewers(stage).length;
+  const approvals = stage.quorum?.approvals ?? 'all';
+  if (approvals === 'all') return reviewers;
+  if (approvals === 'majority') return Math.floor(reviewers / 2) + 1;
+  return approvals;
+}
+
+/**
+ * Build the review state machine (status → expected stakeholder and targets) for a list of stages.
+ * Any stage can be entered from NeedsRefinement: a rejection may name the stage to return to.
+ */
+export function buildReviewRules(stages: WorkflowStage[]): Record<string, WorkflowRule> {
+  const rules: Record<string, WorkflowRule> = {};
+  stages.forEach((stage, index) => {
+    const previous = stages.filter((s) => s.onApprove === stage.status).map((s) => s.status);
+    rules[stage.status] = {
+      expectedStakeholder: stage.stakeholder,
+      onApprove: stage.onApprove,
+      onReject: stage.onReject,
+      allowedPreviousStatuses: index === 0 ? [stage.status, 'NeedsRefinement'] : [...previous, 'NeedsRefinement'],
+    };
+  });
+  return rules;
+}
+
+/**
+ * Build the transition rules used by transitionTaskStatus for a list of stages.
+ * Execution-phase rules are shared by every definition; the review stages and the
+ * NeedsRefinement restart target come from the definition. Every active status
+ * can also be parked.
+ */
+export function buildDevRules(stages: WorkflowStage[]): Record<string, DevWorkflowRule> {
+  const rules: Record<string, DevWorkflowRule> = {};
+  for (const [status, rule] of Object.entries(DEV_WORKFLOW_RULES)) {
+    if (!status.startsWith('Pending')) {
+      rules[status] = rule;
+    }
+  }
+  for (const stage of stages) {
+    rules[stage.status] = {
+      allowedActors: stage.allowedActors,
+      allowedTransitions: [stage.onApprove, stage.onReject, ...PARKED_STATUSES],
+    };
+  }
+  if (stages.length > 0) {
+    rules.NeedsRefinement = { allowedActors: ['system'], allowedTransitions: [stages[0].status, ...PARKED_STATUSES] };
+  }
+  return rules;
+}
+
+/**
+ * Check whether a task matches a stage condition (tags and estimatedHours).
+ * A task without an estimate never matches an hours bound.
+ */
+export function matchesCondition(condition: StageCondition, task: Pick<Task, 'tags' | 'estimatedHours'>): boolean {
+  const tags = task.tags || [];
+  if (condition.tagsAny && condition.tagsAny.length > 0 && !condition.tagsAny.some((t) => tags.includes(t))) {
+    return false;
+  }
+  if (condition.tagsAll && !condition.tagsAll.every((t) => tags.includes(t))) {
+    return false;
+  }
+  if (condition.minEstimatedHours !== undefined || condition.maxEstimatedHours !== undefined) {
+    if (task.estimatedHours === undefined || task.estimatedHours === null) {
+      return false;
+    }
+    if (condition.minEstimatedHours !== undefined && task.estimatedHours < condition.minEstimatedHours) {
+      return false;
+    }
+    if (condition.maxEstimatedHours !== undefined && task.estimatedHours > condition.maxEstimatedHours) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Describe a stage condition for transition notes, e.g. "tagged any of backend-only; estimatedHours <= 2"
+ */
+export function describeCondition(condition: StageCondition): string {
+  const parts: string[] = [];
+  if (condition.tagsAny && condition.tagsAny.length > 0) {
+    parts.push(`tagged any of ${condition.tagsAny.join(', ')}`);
+  }
+  if (condition.tagsAll && condition.tagsAll.length > 0) {
+    parts.push(`tagged all of ${condition.tagsAll.join(', ')}`);
+  }
+  if (condition.minEstimatedHours !== undefined) {
+    parts.push(`estimatedHours >= ${condition.minEstimatedHours}`);
+  }
+  if (condition.maxEstimatedHours !== undefined) {
+    parts.push(`estimatedHours <= ${condition.maxEstimatedHours}`);
+  }
+  return parts.length > 0 ? parts.join('; ') : 'always';
+}